@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  parseAnnotatedBook,
+  parseBlocks,
+  parseInline,
+  serializeAnnotatedBook,
+  serializeBlocks,
+  type BlockNode,
+} from "../annotatedMarkdown";
+
+const text = (value: string) => ({ type: "text" as const, text: value });
+
+test("inline markers parse into nested nodes", () => {
+  assert.deepEqual(
+    parseInline("A *very {bold:bold}* word{sup:2} in {smallcaps:Rome}[^fn1]."),
+    [
+      text("A "),
+      {
+        type: "emphasis",
+        children: [text("very "), { type: "bold", children: [text("bold")] }],
+      },
+      text(" word"),
+      { type: "superscript", children: [text("2")] },
+      text(" in "),
+      { type: "smallcaps", children: [text("Rome")] },
+      { type: "footnoteRef", id: "fn1" },
+      text("."),
+    ],
+  );
+});
+
+test("unclosed markers stay literal", () => {
+  assert.deepEqual(parseInline("5 * 3 {sup:x"), [text("5 * 3 {sup:x")]);
+});
+
+test("every block kind round-trips through serialize and parse", () => {
+  const blocks: BlockNode[] = [
+    { type: "heading", level: 3, children: [text("Book the First")] },
+    {
+      type: "paragraph",
+      children: [
+        text("It was "),
+        { type: "emphasis", children: [text("so")] },
+        { type: "footnoteRef", id: "n1" },
+      ],
+    },
+    {
+      type: "blockquote",
+      children: [
+        { type: "paragraph", children: [text("Quoted once.")] },
+        {
+          type: "blockquote",
+          children: [{ type: "paragraph", children: [text("Quoted twice.")] }],
+        },
+      ],
+    },
+    {
+      type: "verse",
+      stanzas: [
+        [
+          [text("Tyger Tyger, burning bright,")],
+          [text("In the forests of the night;")],
+        ],
+        [[text("- a line starting with a dash")]],
+      ],
+    },
+    {
+      type: "list",
+      ordered: false,
+      items: [[text("apples")], [text("pears")]],
+    },
+    { type: "list", ordered: true, items: [[text("first")], [text("second")]] },
+    {
+      type: "table",
+      hasHeader: true,
+      rows: [
+        [[text("Name")], [text("Value")]],
+        [[text("a | b")], [{ type: "bold", children: [text("1")] }]],
+      ],
+    },
+    { type: "break" },
+    { type: "footnote", id: "n1", children: [text("See the appendix.")] },
+  ];
+
+  const serialized = serializeBlocks(blocks);
+  assert.deepEqual(parseBlocks(serialized), blocks);
+});
+
+test("literal text that looks like markup is escaped", () => {
+  const blocks: BlockNode[] = [
+    { type: "paragraph", children: [text("## Not a chapter")] },
+    {
+      type: "paragraph",
+      children: [text("1. Not a list, *nor* {emphasis} [^x]")],
+    },
+    { type: "paragraph", children: [text("> nor a quote \\ with backslash")] },
+    { type: "paragraph", children: [text("* * *")] },
+  ];
+
+  const serialized = serializeBlocks(blocks);
+  assert.doesNotMatch(serialized, /^## /m);
+  assert.deepEqual(parseBlocks(serialized), blocks);
+});
+
+test("book sections split on chapter headings", () => {
+  const sections = [
+    {
+      title: "Chapter I",
+      blocks: [{ type: "paragraph" as const, children: [text("One.")] }],
+    },
+    {
+      title: "Chapter II",
+      blocks: [
+        {
+          type: "heading" as const,
+          level: 2 as const,
+          children: [text("Two")],
+        },
+      ],
+    },
+  ];
+
+  const markdown = serializeAnnotatedBook(sections);
+  assert.equal(markdown, "## Chapter I\n\nOne.\n\n## Chapter II\n\n{h2:Two}");
+  assert.deepEqual(parseAnnotatedBook(markdown), sections);
+});
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  asciiPunctuation,
+  buildCleanText,
+  smartenQuotes,
+  textOptionsIssues,
+  wrapText,
+  type TextOptions,
+} from "../cleanText";
+import { splitGutenbergBoilerplate } from "../cleanupPipeline";
+
+const book = { title: "The Book", author: "A. Writer" };
+
+const options = (overrides: Partial<TextOptions> = {}): TextOptions => ({
+  quotes: "ascii",
+  gutenbergReferences: "strip",
+  ...overrides,
+});
+
+test("smart quotes open after spaces and close after letters", () => {
+  assert.equal(
+    smartenQuotes(`"It's mine," she said ('truly').`),
+    "“It’s mine,” she said (‘truly’).",
+  );
+  assert.equal(smartenQuotes(`" he said`, "."), "” he said");
+});
+
+test("ASCII punctuation replaces curly quotes, dashes and ellipses", () => {
+  assert.equal(
+    asciiPunctuation("“Wait…”—it’s 1–2"),
+    `"Wait..."--it's 1-2`,
+  );
+});
+
+test("wrapping breaks at spaces and keeps long words whole", () => {
+  assert.deepEqual(wrapText("one two three four", 9), [
+    "one two",
+    "three",
+    "four",
+  ]);
+  assert.deepEqual(wrapText("extraordinarily long", 5), [
+    "extraordinarily",
+    "long",
+  ]);
+  assert.deepEqual(wrapText("one two", undefined), ["one two"]);
+});
+
+test("line width must be in range", () => {
+  assert.deepEqual(textOptionsIssues(options({ wrapWidth: 72 })), []);
+  assert.equal(textOptionsIssues(options({ wrapWidth: 10 })).length, 1);
+  assert.equal(textOptionsIssues(options({ wrapWidth: 72.5 })).length, 1);
+});
+
+test("plain text has the title, chapter headings and plain emphasis", () => {
+  const { text } = buildCleanText(
+    book,
+    [
+      { title: "Chapter I", text: "It was *very* dark.[^1]\n\n[^1]: A note." },
+      { title: "Chapter II", text: "::: verse\nRoses are red\nViolets blue\n:::" },
+    ],
+    "txt",
+    options(),
+  );
+  assert.equal(
+    text,
+    "THE BOOK\n\nby A. Writer\n\n\n\nChapter I\n\nIt was _very_ dark.[1]\n\n[1] A note.\n\n\n\nChapter II\n\n  Roses are red\n  Violets blue\n",
+  );
+});
+
+test("Markdown uses chapter headings, escapes text and hard-breaks verse", () => {
+  const { text } = buildCleanText(
+    book,
+    [
+      {
+        title: "Chapter I",
+        text: "{h1:Part One}\n\n# marks a *new* year_\n\n::: verse\nOne\nTwo\n:::",
+      },
+    ],
+    "markdown",
+    options(),
+  );
+  assert.equal(
+    text,
+    "# The Book\n\nby A. Writer\n\n## Chapter I\n\n### Part One\n\n\\# marks a *new* year\\_\n\nOne\\\nTwo\n",
+  );
+});
+
+test("wrapped Markdown never starts a line with a block marker", () => {
+  const { text } = buildCleanText(
+    book,
+    [{ title: "One", text: "Nothing much happened at all in the year 1900. Then more." }],
+    "markdown",
+    options({ wrapWidth: 40 }),
+  );
+  assert.ok(text.includes("Nothing much happened at all in the year 1900.\nThen more."));
+});
+
+test("stripping removes every block mentioning Project Gutenberg", () => {
+  const { text, strippedReferences } = buildCleanText(
+    book,
+    [
+      {
+        title: "One",
+        text: "Produced by a volunteer for Project Gutenberg.\n\nThe story.\n\n> See www.gutenberg.org",
+      },
+    ],
+    "txt",
+    options(),
+  );
+  assert.equal(strippedReferences, 2);
+  assert.ok(!/gutenberg/i.test(text));
+  assert.ok(text.includes("The story."));
+});
+
+test("keeping references requires the licence and puts it back", () => {
+  const chapters = [{ title: "One", text: "A Project Gutenberg eBook." }];
+  assert.throws(
+    () =>
+      buildCleanText(
+        book,
+        chapters,
+        "txt",
+        options({ gutenbergReferences: "keep" }),
+      ),
+    /no licence/,
+  );
+
+  const { header, footer } = splitGutenbergBoilerplate(
+    "Header\n*** START OF THE PROJECT GUTENBERG EBOOK BOOK ***\nBody\n*** END OF THE PROJECT GUTENBERG EBOOK BOOK ***\nLicence ```terms```",
+  );
+  const { text } = buildCleanText(
+    book,
+    chapters,
+    "markdown",
+    options({ gutenbergReferences: "keep" }),
+    { header, footer },
+  );
+  assert.ok(text.startsWith("```text\nHeader\n*** START OF"));
+  assert.ok(text.includes("A Project Gutenberg eBook."));
+  assert.ok(text.endsWith("Licence ```terms```\n````\n"));
+});
+
+test("keeping is a no-op for texts without references", () => {
+  const { text } = buildCleanText(
+    book,
+    [{ title: "One", text: "Plain." }],
+    "txt",
+    options({ gutenbergReferences: "keep" }),
+  );
+  assert.ok(text.endsWith("One\n\nPlain.\n"));
+});
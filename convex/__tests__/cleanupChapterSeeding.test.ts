@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  detectChapterBoundaries,
+  parseChapterManifest,
+  seedChaptersFromManifest,
+} from "../cleanupChaptering";
+
+const markdown = [
+  "## Preface",
+  "",
+  "A note to the reader.",
+  "",
+  "## Down the Rabbit-Hole",
+  "",
+  "{h2:CHAPTER I}",
+  "",
+  "Alice was *very* tired.",
+  "",
+  "## Untitled Interlude",
+  "",
+  "Meanwhile.",
+].join("\n");
+
+const manifest = parseChapterManifest(
+  JSON.stringify([
+    {
+      chapterNumber: 1,
+      href: "pref.xhtml",
+      title: "Preface",
+      startOffset: 0,
+      endOffset: 10,
+    },
+    {
+      chapterNumber: 2,
+      href: "c1.xhtml",
+      title: "Down the Rabbit-Hole",
+      startOffset: 12,
+      endOffset: 40,
+    },
+  ]),
+);
+
+test("chapters are seeded from markdown sections, not heading regexes", () => {
+  const result = seedChaptersFromManifest(markdown, manifest);
+
+  assert.deepEqual(
+    result.chapters.map((c) => [c.title, c.type, c.confidence]),
+    [
+      ["Preface", "preface", "high"],
+      ["Down the Rabbit-Hole", "chapter", "high"],
+      ["Untitled Interlude", "chapter", "medium"],
+    ],
+  );
+  assert.deepEqual(result.unlabeledBreaks, []);
+});
+
+test("seeded offsets are re-anchored on the given text", () => {
+  const result = seedChaptersFromManifest(markdown, manifest);
+  const second = result.chapters[1];
+
+  assert.equal(
+    markdown.slice(second.startOffset, second.endOffset),
+    "## Down the Rabbit-Hole\n\n{h2:CHAPTER I}\n\nAlice was *very* tired.\n\n",
+  );
+  assert.equal(result.chapters[2].endOffset, markdown.length);
+  assert.match(second.content, /^\n\{h2:CHAPTER I\}/);
+});
+
+test("text without sections falls back to regex detection", () => {
+  const text = "CHAPTER I\nText";
+  assert.deepEqual(
+    seedChaptersFromManifest(text, manifest),
+    detectChapterBoundaries(text),
+  );
+});
+
+test("malformed manifests are rejected", () => {
+  assert.throws(() => parseChapterManifest("{}"), /JSON array/);
+  assert.throws(() => parseChapterManifest('[{"title": 3}]'), /entry 1/);
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  collectionChapters,
+  parseChapterNumber,
+  romanValue,
+  type CollectionVolume,
+} from "../collectionBuild";
+
+const volume = (title: string, chapterTitles: string[]): CollectionVolume => ({
+  title: { title, author: "Jane Austen" },
+  chapters: chapterTitles.map((chapterTitle) => ({
+    title: chapterTitle,
+    text: `${chapterTitle} text`,
+  })),
+});
+
+const volumes = [
+  volume("Emma", ["Preface", "CHAPTER I", "CHAPTER II. Highbury"]),
+  volume("Persuasion", ["Chapter 1", "Chapter 2"]),
+];
+
+test("roman numerals must be well formed", () => {
+  assert.equal(romanValue("xiv"), 14);
+  assert.equal(romanValue("MCM"), 1900);
+  assert.equal(romanValue("dim"), null);
+  assert.equal(romanValue("iiii"), null);
+});
+
+test("numbered chapter titles split around their numeral", () => {
+  assert.deepEqual(parseChapterNumber("Chapter IV. The Storm"), {
+    prefix: "Chapter ",
+    numeral: "IV",
+    rest: ". The Storm",
+  });
+  assert.deepEqual(parseChapterNumber("XII."), {
+    prefix: "",
+    numeral: "XII",
+    rest: ".",
+  });
+  assert.equal(parseChapterNumber("I Remember"), null);
+  assert.equal(parseChapterNumber("Chapter Civil"), null);
+  assert.equal(parseChapterNumber("Preface"), null);
+});
+
+test("restart numbering begins at one in each book", () => {
+  assert.deepEqual(
+    collectionChapters(volumes, "restart").map((chapter) => chapter.title),
+    ["Preface", "CHAPTER I", "CHAPTER II. Highbury", "Chapter 1", "Chapter 2"],
+  );
+});
+
+test("continuous numbering runs through the collection in each style", () => {
+  const chapters = collectionChapters(volumes, "continuous");
+  assert.deepEqual(
+    chapters.map((chapter) => chapter.title),
+    ["Preface", "CHAPTER I", "CHAPTER II. Highbury", "Chapter 3", "Chapter 4"],
+  );
+  // Each volume's title rides on its first chapter
+  assert.deepEqual(
+    chapters.map((chapter) => chapter.volume?.title),
+    ["Emma", undefined, undefined, "Persuasion", undefined],
+  );
+  assert.equal(chapters[3].text, "Chapter 1 text");
+});
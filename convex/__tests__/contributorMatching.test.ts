@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  catalogRole,
+  contributorUpdateFromCredit,
+  creditsForBook,
+  formatAuthorCredit,
+  matchContributor,
+} from "../contributorMatching";
+
+const catalogAuthors = [
+  {
+    name: "Mary Wollstonecraft Shelley",
+    sortName: "Shelley, Mary Wollstonecraft",
+    role: "Author",
+    birthYear: 1797,
+    deathYear: 1851,
+    agentId: "61",
+  },
+  {
+    name: "Theodor von Holst",
+    sortName: "Holst, Theodor von",
+    role: "Illustrator",
+    deathYear: 1844,
+  },
+  { name: "Someone Else", sortName: "Else, Someone", role: "Compiler" },
+];
+
+test("catalog roles map onto credited roles", () => {
+  assert.equal(catalogRole("Author"), "author");
+  assert.equal(catalogRole("Translator"), "translator");
+  assert.equal(catalogRole("Author of introduction, etc."), undefined);
+});
+
+test("derived credits pick up catalog credits and life dates", () => {
+  const credits = creditsForBook(
+    [{ name: "Shelley, Mary Wollstonecraft", role: "author" }],
+    catalogAuthors,
+    false,
+  );
+
+  assert.deepEqual(credits, [
+    {
+      name: "Shelley, Mary Wollstonecraft",
+      role: "author",
+      sortName: "Shelley, Mary Wollstonecraft",
+      birthYear: 1797,
+      deathYear: 1851,
+      authorityId: "61",
+    },
+    {
+      name: "Theodor von Holst",
+      role: "illustrator",
+      sortName: "Holst, Theodor von",
+      birthYear: undefined,
+      deathYear: 1844,
+      authorityId: undefined,
+    },
+  ]);
+});
+
+test("an edited list is not extended from the catalog", () => {
+  const credits = creditsForBook(
+    [
+      { name: "Mary Shelley", role: "author" },
+      { name: "Unknown Author", role: "author" },
+    ],
+    catalogAuthors,
+    true,
+  );
+  assert.deepEqual(
+    credits.map((credit) => credit.name),
+    ["Mary Shelley"],
+  );
+  assert.equal(credits[0].deathYear, undefined);
+});
+
+test("contributors match by agent id, then name or alias without date conflicts", () => {
+  const records = [
+    {
+      id: "a",
+      name: "Mary Wollstonecraft Shelley",
+      aliases: ["Mary Shelley"],
+      deathYear: 1851,
+      authorityId: "61",
+    },
+    { id: "b", name: "Percy Bysshe Shelley", aliases: [], deathYear: 1822 },
+    { id: "c", name: "John Smith", aliases: [], deathYear: 1900 },
+  ];
+
+  assert.equal(
+    matchContributor(records, {
+      name: "M. W. Shelley",
+      role: "author",
+      authorityId: "61",
+    })?.id,
+    "a",
+  );
+  assert.equal(
+    matchContributor(records, { name: "Shelley, Mary", role: "author" })?.id,
+    "a",
+  );
+  assert.equal(
+    matchContributor(records, {
+      name: "John Smith",
+      role: "author",
+      deathYear: 1950,
+    }),
+    undefined,
+  );
+  assert.equal(
+    matchContributor(records, { name: "Anonymous", role: "author" }),
+    undefined,
+  );
+});
+
+test("credits only fill gaps on an existing contributor", () => {
+  const record = {
+    id: "a",
+    name: "Mary Wollstonecraft Shelley",
+    aliases: [],
+    deathYear: 1851,
+  };
+
+  assert.deepEqual(
+    contributorUpdateFromCredit(record, {
+      name: "Mary Shelley",
+      role: "author",
+      birthYear: 1797,
+      deathYear: 1850,
+      authorityId: "61",
+    }),
+    { aliases: ["Mary Shelley"], birthYear: 1797, authorityId: "61" },
+  );
+  assert.equal(
+    contributorUpdateFromCredit(record, {
+      name: "Mary Wollstonecraft Shelley",
+      role: "author",
+    }),
+    null,
+  );
+});
+
+test("author credits carry life dates", () => {
+  assert.equal(
+    formatAuthorCredit(
+      [
+        { name: "Jane Austen", birthYear: 1775, deathYear: 1817 },
+        { name: "Anon" },
+      ],
+      "fallback",
+    ),
+    "Jane Austen (1775–1817) and Anon",
+  );
+  assert.equal(formatAuthorCredit([], "Jane Austen"), "Jane Austen");
+});
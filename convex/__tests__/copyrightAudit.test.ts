@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  copyrightAuditCsv,
+  copyrightExportGate,
+  summarizeTerritories,
+} from "../copyrightAudit";
+
+const verdicts = [
+  {
+    territory: "US" as const,
+    status: "cleared" as const,
+    rule: "us_publication_95",
+    publicDomainFrom: 2021,
+    explanation: ["Published 1925.", "Public domain."],
+  },
+  {
+    territory: "UK" as const,
+    status: "blocked" as const,
+    rule: "life_plus_70",
+    publicDomainFrom: 2031,
+    explanation: ['Author "A. Writer" died 1960, protected through 2030.'],
+  },
+];
+
+test("the audit report has one line per book and territory", () => {
+  const csv = copyrightAuditCsv([
+    {
+      title: "The Book",
+      author: "A. Writer",
+      gutenbergId: "42",
+      status: "cleared",
+      territoryVerdicts: verdicts,
+      manualOverride: true,
+      manualReason: "Licensed for UK",
+      clearedByName: "reviewer@example.com",
+      clearedAt: Date.UTC(2026, 0, 2),
+      evaluatedForYear: 2026,
+    },
+    { title: "Unchecked", author: "Anon", status: "unknown" },
+  ]);
+  const lines = csv.trimEnd().split("\n");
+
+  assert.equal(lines.length, 4);
+  assert.ok(lines[0].startsWith("Title,Author,Gutenberg ID,Overall status"));
+  assert.equal(
+    lines[1],
+    "The Book,A. Writer,42,cleared,US,cleared,us_publication_95,2021,Published 1925. Public domain.,yes,Licensed for UK,reviewer@example.com,2026-01-02T00:00:00.000Z,,2026",
+  );
+  assert.ok(
+    lines[2].includes(
+      '"Author ""A. Writer"" died 1960, protected through 2030."',
+    ),
+  );
+  assert.equal(lines[3], "Unchecked,Anon,,unknown,,,,,,no,,,,,");
+});
+
+test("territory summaries count verdicts and unchecked books", () => {
+  const summary = summarizeTerritories([
+    { territoryVerdicts: verdicts },
+    { territoryVerdicts: undefined },
+  ]);
+
+  assert.deepEqual(summary[0], {
+    territory: "US",
+    cleared: 1,
+    flagged: 0,
+    blocked: 0,
+    unchecked: 1,
+  });
+  assert.equal(summary[1].blocked, 1);
+  assert.equal(summary[3].unchecked, 2);
+});
+
+test("export is gated on cleared copyright or a recorded clearance", () => {
+  assert.equal(copyrightExportGate("cleared", null).allowed, true);
+  assert.deepEqual(copyrightExportGate("blocked", { reason: "UK: blocked" }), {
+    allowed: false,
+    reason: "Copyright blocked: UK: blocked",
+    clearedByOverride: false,
+  });
+  assert.equal(copyrightExportGate(undefined, null).allowed, false);
+
+  assert.equal(
+    copyrightExportGate("cleared", {
+      manualOverride: true,
+      clearedBy: "user1",
+      manualReason: "Licensed from the estate",
+    }).clearedByOverride,
+    true,
+  );
+  assert.equal(
+    copyrightExportGate("cleared", {
+      manualOverride: true,
+      clearedBy: "user1",
+    }).allowed,
+    false,
+  );
+  assert.equal(
+    copyrightExportGate("flagged", {
+      manualOverride: true,
+      clearedBy: "user1",
+      manualReason: "Needs estate permission",
+    }).reason,
+    "Copyright manually marked flagged: Needs estate permission",
+  );
+});
@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { evaluateCopyright, type CopyrightInput } from "../copyrightRules";
+
+const base: CopyrightInput = {
+  contributors: [],
+  explicitCopyrightWarning: false,
+  permissionWarnings: [],
+  currentYear: 2026,
+};
+
+const verdicts = (input: Partial<CopyrightInput>) =>
+  Object.fromEntries(
+    evaluateCopyright({ ...base, ...input }).territories.map((verdict) => [
+      verdict.territory,
+      verdict,
+    ]),
+  );
+
+test("an old work by a long-dead author is cleared everywhere", () => {
+  const evaluation = evaluateCopyright({
+    ...base,
+    publicationYear: 1813,
+    contributors: [{ name: "Jane Austen", role: "author", deathYear: 1817 }],
+  });
+
+  assert.equal(evaluation.status, "cleared");
+  assert.equal(evaluation.latestDeathYear, 1817);
+  assert.deepEqual(
+    evaluation.territories.map((verdict) => verdict.status),
+    ["cleared", "cleared", "cleared", "cleared"],
+  );
+  assert.equal(evaluation.territories[1].rule, "life_plus_70");
+  assert.equal(evaluation.territories[1].publicDomainFrom, 1888);
+});
+
+test("US publication rules and life+70 can disagree", () => {
+  // Published 1925, author died 1960: US public domain, UK/EU until 2031
+  const result = verdicts({
+    publicationYear: 1925,
+    contributors: [{ name: "A. Writer", role: "author", deathYear: 1960 }],
+  });
+
+  assert.equal(result.US.status, "cleared");
+  assert.equal(result.US.rule, "us_publication_95");
+  assert.equal(result.UK.status, "blocked");
+  assert.equal(result.UK.publicDomainFrom, 2031);
+  assert.equal(result.EU.status, "blocked");
+  // Life+50 expired at the end of 2010
+  assert.equal(result.ROW.status, "cleared");
+  assert.equal(
+    evaluateCopyright({
+      ...base,
+      publicationYear: 1925,
+      contributors: [{ name: "A. Writer", role: "author", deathYear: 1960 }],
+    }).reason,
+    "US: cleared; UK: blocked until 2031; EU: blocked until 2031",
+  );
+});
+
+test("terms run to the end of the calendar year", () => {
+  const contributors = [
+    { name: "A. Writer", role: "author" as const, deathYear: 1955 },
+  ];
+  assert.equal(
+    verdicts({ publicationYear: 1900, contributors, currentYear: 2025 }).UK
+      .status,
+    "blocked",
+  );
+  assert.equal(
+    verdicts({ publicationYear: 1900, contributors, currentYear: 2026 }).UK
+      .status,
+    "cleared",
+  );
+});
+
+test("mid-century US works depend on renewal unless Gutenberg cleared them", () => {
+  assert.equal(verdicts({ publicationYear: 1950 }).US.status, "flagged");
+  assert.equal(
+    verdicts({ publicationYear: 1950, gutenbergId: "1234" }).US.rule,
+    "us_not_renewed",
+  );
+  assert.equal(verdicts({ publicationYear: 1970 }).US.status, "blocked");
+  assert.equal(
+    verdicts({ gutenbergId: "1234" }).US.status,
+    "cleared",
+    "a Gutenberg release clears the US without a publication year",
+  );
+});
+
+test("a living translator keeps the translation protected", () => {
+  const result = verdicts({
+    publicationYear: 1880,
+    contributors: [
+      { name: "Leo Tolstoy", role: "author", deathYear: 1910 },
+      { name: "Recent Translator", role: "translator", deathYear: 1990 },
+    ],
+  });
+
+  assert.equal(result.UK.status, "blocked");
+  assert.equal(result.UK.publicDomainFrom, 2061);
+  assert.ok(
+    result.UK.explanation.some((line) => line.startsWith("Translator")),
+  );
+});
+
+test("a credited translation is dated on its own in the US", () => {
+  const translator = {
+    name: "Recent Translator",
+    role: "translator" as const,
+    deathYear: 2015,
+  };
+  const original = {
+    publicationYear: 1869,
+    contributors: [
+      { name: "Leo Tolstoy", role: "author" as const, deathYear: 1910 },
+      translator,
+    ],
+  };
+
+  assert.equal(verdicts(original).US.status, "blocked");
+  assert.equal(verdicts(original).US.rule, "us_translation_protected");
+  assert.equal(verdicts(original).US.publicDomainFrom, 2086);
+  assert.equal(
+    verdicts({ ...original, translationYear: 1920 }).US.status,
+    "cleared",
+  );
+  assert.equal(
+    verdicts({
+      ...original,
+      contributors: [{ ...translator, deathYear: undefined }],
+    }).US.status,
+    "flagged",
+  );
+  assert.equal(
+    verdicts({ ...original, gutenbergId: "2600" }).US.status,
+    "cleared",
+    "Gutenberg's clearance covers the translation it released",
+  );
+});
+
+test("protected illustrations flag rather than block", () => {
+  const result = verdicts({
+    publicationYear: 1900,
+    contributors: [
+      { name: "A. Writer", role: "author", deathYear: 1920 },
+      { name: "An Illustrator", role: "illustrator", deathYear: 1970 },
+    ],
+  });
+
+  assert.equal(result.UK.status, "flagged");
+  assert.equal(result.ROW.status, "cleared");
+});
+
+test("missing death years flag unless the work is old enough to assume", () => {
+  const contributors = [{ name: "A. Writer", role: "author" as const }];
+  assert.equal(
+    verdicts({ publicationYear: 1950, contributors }).UK.status,
+    "flagged",
+  );
+  assert.equal(
+    verdicts({ publicationYear: 1850, contributors }).UK.status,
+    "cleared",
+  );
+});
+
+test("header notices override the date rules", () => {
+  const contributors = [
+    { name: "Jane Austen", role: "author" as const, deathYear: 1817 },
+  ];
+  assert.equal(
+    evaluateCopyright({
+      ...base,
+      publicationYear: 1813,
+      contributors,
+      explicitCopyrightWarning: true,
+    }).status,
+    "blocked",
+  );
+  assert.equal(
+    evaluateCopyright({
+      ...base,
+      publicationYear: 1813,
+      contributors,
+      permissionWarnings: ["Posted with permission"],
+    }).status,
+    "flagged",
+  );
+});
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  coverDimensions,
+  layoutCover,
+  spineWidth,
+  type CoverInput,
+} from "../coverLayout";
+
+// Every character is half an em wide
+const measure = (text: string, _face: string, size: number) =>
+  [...text].length * size * 0.5;
+
+const cover = (overrides: Partial<CoverInput> = {}): CoverInput => ({
+  title: "The Book",
+  author: "A. Writer",
+  trim: { width: 6, height: 9 },
+  pageCount: 300,
+  paper: "cream",
+  design: "classic",
+  hasImage: false,
+  ...overrides,
+});
+
+test("spine width follows page count and paper", () => {
+  assert.equal(spineWidth(300, "cream"), 0.75);
+  assert.equal(spineWidth(300, "white"), 0.6756);
+  assert.equal(spineWidth(100, "color"), 0.2347);
+});
+
+test("sheet is back, spine and front with bleed all round", () => {
+  const dimensions = coverDimensions({ width: 6, height: 9 }, 300, "cream");
+
+  assert.equal(dimensions.width, 13);
+  assert.equal(dimensions.height, 9.25);
+  assert.deepEqual(dimensions.back, {
+    x: 0.125,
+    y: 0.125,
+    width: 6,
+    height: 9,
+  });
+  assert.deepEqual(dimensions.spine, {
+    x: 6.125,
+    y: 0.125,
+    width: 0.75,
+    height: 9,
+  });
+  assert.equal(dimensions.front.x, 6.875);
+  assert.equal(dimensions.front.x + dimensions.front.width + 0.125, 13);
+});
+
+test("barcode area sits in the back cover's lower right corner", () => {
+  const { back, barcode } = coverDimensions(
+    { width: 6, height: 9 },
+    300,
+    "cream",
+  );
+
+  assert.equal(barcode.x + barcode.width, back.x + back.width - 0.25);
+  assert.equal(barcode.y, back.y + 0.25);
+  assert.equal(barcode.width, 2);
+  assert.equal(barcode.height, 1.2);
+});
+
+test("spine text only on books of 80 pages or more", () => {
+  const thin = layoutCover(cover({ pageCount: 79 }), measure);
+  const thick = layoutCover(cover({ pageCount: 80 }), measure);
+
+  assert.equal(thin.dimensions.spineText, false);
+  assert.ok(
+    !thin.elements.some(
+      (element) => element.kind === "text" && element.vertical,
+    ),
+  );
+  const spineText = thick.elements.find(
+    (element) => element.kind === "text" && element.vertical,
+  );
+  assert.ok(spineText?.kind === "text");
+  assert.equal(spineText.text, "The Book   A. Writer");
+  const spine = thick.dimensions.spine;
+  assert.ok(spineText.x > spine.x * 72);
+  assert.ok(spineText.x < (spine.x + spine.width) * 72);
+});
+
+test("front cover carries the title and author", () => {
+  const layout = layoutCover(
+    cover({ subtitle: "A Novel", hasImage: true }),
+    measure,
+  );
+  const texts = layout.elements.filter((element) => element.kind === "text");
+  const frontX = layout.dimensions.front.x * 72;
+
+  for (const text of ["The Book", "A Novel", "A. Writer"]) {
+    const element = texts.find(
+      (candidate) => candidate.text === text && !candidate.vertical,
+    );
+    assert.ok(element, text);
+    assert.ok(element.x > frontX, text);
+  }
+  const image = layout.elements.find((element) => element.kind === "image");
+  assert.ok(image?.kind === "image");
+  assert.ok(image.box.x > frontX);
+  assert.deepEqual(layout.issues, []);
+});
+
+test("full-bleed design puts the image behind the text", () => {
+  const layout = layoutCover(
+    cover({ design: "photo", hasImage: true }),
+    measure,
+  );
+  const imageIndex = layout.elements.findIndex(
+    (element) => element.kind === "image",
+  );
+  const firstText = layout.elements.findIndex(
+    (element) => element.kind === "text",
+  );
+
+  assert.ok(imageIndex >= 0 && imageIndex < firstText);
+  const image = layout.elements[imageIndex];
+  assert.ok(image.kind === "image");
+  assert.equal(image.box.x + image.box.width, layout.width);
+  assert.equal(image.box.height, layout.height);
+});
+
+test("blurb stays above the barcode area", () => {
+  const layout = layoutCover(
+    cover({ blurb: "A short description of the book." }),
+    measure,
+  );
+  const barcodeTop =
+    (layout.dimensions.barcode.y + layout.dimensions.barcode.height) * 72;
+  const blurb = layout.elements.find(
+    (element) => element.kind === "text" && element.text.startsWith("A short"),
+  );
+
+  assert.ok(blurb?.kind === "text");
+  assert.ok(blurb.y > barcodeTop);
+  assert.ok(blurb.x < layout.dimensions.spine.x * 72);
+  assert.deepEqual(layout.issues, []);
+});
+
+test("overlong blurbs and spine text are reported", () => {
+  const layout = layoutCover(
+    cover({
+      title: "An Exceedingly Long Title ".repeat(12),
+      pageCount: 90,
+      blurb: "words ".repeat(2000),
+    }),
+    measure,
+  );
+
+  assert.ok(layout.issues.includes("The blurb is too long for the back cover"));
+  assert.ok(
+    layout.issues.includes("The title and author do not fit on the spine"),
+  );
+});
@@ -0,0 +1,189 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  addBookRecords,
+  assignSplit,
+  chunkText,
+  createDatasetState,
+  datasetManifest,
+  datasetOptionsIssues,
+  finishDataset,
+  matchesDatasetFilters,
+  parseDatasetProgress,
+  serializeDatasetProgress,
+  shardBody,
+  type DatasetBook,
+  type DatasetOptions,
+} from "../datasetBuild";
+
+const book = (bookId: string): DatasetBook => ({
+  bookId,
+  revisionId: `${bookId}-rev`,
+  title: "The Book",
+  author: "A. Writer",
+  year: 1890,
+});
+
+const options = (overrides: Partial<DatasetOptions> = {}): DatasetOptions => ({
+  unit: "chapter",
+  chunkCharacters: 1000,
+  deduplicate: true,
+  validationFraction: 0,
+  seed: "seed",
+  recordsPerShard: 100,
+  ...overrides,
+});
+
+test("options are checked for range", () => {
+  assert.deepEqual(datasetOptionsIssues(options()), []);
+  assert.equal(
+    datasetOptionsIssues(
+      options({ chunkCharacters: 10, validationFraction: 0.9, seed: " " }),
+    ).length,
+    3,
+  );
+});
+
+test("filters match language, year range and subject", () => {
+  const entry = {
+    language: "en",
+    publicationYear: 1890,
+    subjects: ["Detective and mystery stories"],
+  };
+  assert.ok(matchesDatasetFilters(entry, { language: "EN", yearFrom: 1880 }));
+  assert.ok(matchesDatasetFilters(entry, { subject: "mystery" }));
+  assert.ok(!matchesDatasetFilters(entry, { yearTo: 1850 }));
+  assert.ok(!matchesDatasetFilters({}, { yearFrom: 1800 }));
+});
+
+test("the split is the same for the same seed and holds out about the share", () => {
+  const ids = Array.from({ length: 400 }, (_, index) => `book${index}`);
+  const first = ids.map((id) => assignSplit("seed", id, 0.2));
+  assert.deepEqual(
+    ids.map((id) => assignSplit("seed", id, 0.2)),
+    first,
+  );
+  const held = first.filter((split) => split === "validation").length;
+  assert.ok(held > 40 && held < 120, `${held} of 400 held out`);
+  assert.ok(ids.every((id) => assignSplit("seed", id, 0) === "train"));
+});
+
+test("chunks keep whole paragraphs and split long ones at spaces", () => {
+  assert.deepEqual(chunkText("one two\n\nthree\n\nfour five six", 14), [
+    "one two\n\nthree",
+    "four five six",
+  ]);
+  assert.deepEqual(chunkText("aaaa bbbb cccc", 9), ["aaaa bbbb", "cccc"]);
+});
+
+test("duplicate records are dropped across books", () => {
+  const state = createDatasetState();
+  const chapters = [
+    { title: "One", text: "It was a *dark* night." },
+    { title: "Two", text: "Produced for Project Gutenberg.\n\nMorning came." },
+  ];
+  const first = addBookRecords(state, book("a"), chapters, options());
+  const second = addBookRecords(
+    state,
+    book("b"),
+    [{ title: "I", text: "It was a dark night!" }],
+    options(),
+  );
+  assert.equal(first.records, 2);
+  assert.equal(second.records, 0);
+  assert.equal(state.duplicatesRemoved, 1);
+  assert.equal(state.referencesStripped, 1);
+
+  const [shard] = finishDataset(state);
+  const lines = shardBody(shard).trimEnd().split("\n");
+  assert.deepEqual(
+    lines.map((line) => JSON.parse(line).text),
+    ["It was a _dark_ night.", "Morning came."],
+  );
+  assert.equal(JSON.parse(lines[0]).licence, "public-domain");
+});
+
+test("shards fill to the record limit and the manifest totals them", () => {
+  const state = createDatasetState();
+  const chapters = ["A.", "B.", "C."].map((text, index) => ({
+    title: `Chapter ${index + 1}`,
+    text,
+  }));
+  const { shards } = addBookRecords(
+    state,
+    book("a"),
+    chapters,
+    options({ recordsPerShard: 2 }),
+  );
+  const all = [...shards, ...finishDataset(state)];
+  assert.deepEqual(
+    all.map((shard) => [shard.filename, shard.records]),
+    [
+      ["train-00000.jsonl", 2],
+      ["train-00001.jsonl", 1],
+    ],
+  );
+
+  const manifest = datasetManifest({
+    name: "Test",
+    createdAt: 0,
+    filters: {},
+    options: options(),
+    books: [{ ...book("a"), records: 3 }],
+    shards: all.map(({ lines: _lines, ...shard }) => ({
+      ...shard,
+      size: 10,
+      sha256: "00",
+    })),
+    duplicatesRemoved: 0,
+    referencesStripped: 0,
+  });
+  assert.equal(manifest.totals.records, 3);
+  assert.equal(manifest.totals.characters, 6);
+  assert.equal(manifest.totals.tokens, 6);
+  assert.equal(manifest.splits[1].records, 0);
+});
+
+test("a build resumed from a checkpoint matches one run straight through", () => {
+  const chapters = (text: string) => [
+    { title: "One", text },
+    { title: "Two", text: "Shared ending." },
+  ];
+  const run = (checkpoint: boolean) => {
+    let progress = {
+      bookIds: ["a", "b"],
+      books: [] as Array<DatasetBook & { records: number }>,
+      state: createDatasetState(),
+    };
+    const shards = [];
+    for (const [index, id] of progress.bookIds.entries()) {
+      const added = addBookRecords(
+        progress.state,
+        book(id),
+        chapters(`Book ${id} begins.`),
+        options({ recordsPerShard: 2 }),
+      );
+      progress.books.push({ ...book(id), records: added.records });
+      shards.push(...added.shards);
+      if (checkpoint && index === 0) {
+        progress = parseDatasetProgress(serializeDatasetProgress(progress));
+      }
+    }
+    return { shards: [...shards, ...finishDataset(progress.state)], progress };
+  };
+
+  const straight = run(false);
+  const resumed = run(true);
+  assert.deepEqual(resumed.shards, straight.shards);
+  assert.deepEqual(resumed.progress.books, straight.progress.books);
+  // The second book's copy of the shared chapter is still caught
+  assert.equal(resumed.progress.state.duplicatesRemoved, 1);
+  assert.deepEqual(
+    resumed.shards.map((shard) => [shard.filename, shard.records]),
+    [
+      ["train-00000.jsonl", 2],
+      ["train-00001.jsonl", 1],
+    ],
+  );
+});
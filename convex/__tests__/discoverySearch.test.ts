@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildCandidateSearchFields,
+  clampEnqueueCap,
+  ENQUEUE_MATCHING_MAX_CAP,
+  matchesSubject,
+} from "../discoverySearch";
+
+test("search fields combine title, author, id, subjects and language", () => {
+  assert.deepEqual(
+    buildCandidateSearchFields({
+      gutenbergId: "84",
+      title: "Frankenstein",
+      author: "Mary Wollstonecraft Shelley",
+      languages: ["EN", "fr"],
+      subjects: ["Science fiction"],
+      bookshelves: ["Gothic Fiction"],
+    }),
+    {
+      searchText: "Frankenstein Mary Wollstonecraft Shelley 84",
+      subjectText: "Science fiction ; Gothic Fiction",
+      primaryLanguage: "en",
+    },
+  );
+
+  assert.deepEqual(buildCandidateSearchFields({ gutenbergId: "12" }), {
+    searchText: "12",
+    subjectText: undefined,
+    primaryLanguage: undefined,
+  });
+});
+
+test("subject filter matches subjects and bookshelves case-insensitively", () => {
+  const candidate = {
+    subjects: ["Whaling -- Fiction"],
+    bookshelves: ["Best Books Ever Listings"],
+  };
+  assert.equal(matchesSubject(candidate, "whaling"), true);
+  assert.equal(matchesSubject(candidate, "best books"), true);
+  assert.equal(matchesSubject(candidate, "poetry"), false);
+  assert.equal(matchesSubject(candidate, "  "), true);
+});
+
+test("enqueue-all cap is clamped", () => {
+  assert.equal(clampEnqueueCap(undefined), 100);
+  assert.equal(clampEnqueueCap(0), 1);
+  assert.equal(clampEnqueueCap(10_000), ENQUEUE_MATCHING_MAX_CAP);
+});
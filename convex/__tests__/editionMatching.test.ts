@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  compareEditions,
+  computeTextFingerprint,
+  findEditionGroups,
+  fingerprintSimilarity,
+  normalizeAuthor,
+  normalizeTitle,
+  pairKey,
+} from "../editionMatching";
+
+const paragraph = (seed: number, words = 400) =>
+  Array.from(
+    { length: words },
+    (_, index) => `word${(index * 7 + seed * 13) % 997}`,
+  ).join(" ");
+
+test("titles and authors normalize across catalog and header styles", () => {
+  assert.equal(
+    normalizeTitle("The Adventures of Sherlock Holmes: Illustrated"),
+    "adventures of sherlock holmes",
+  );
+  assert.equal(normalizeTitle("Les Misérables"), "miserables");
+  assert.equal(normalizeAuthor("Austen, Jane"), normalizeAuthor("Jane Austen"));
+  assert.equal(
+    normalizeAuthor("Doyle, Arthur Conan, Sir"),
+    normalizeAuthor("Arthur Conan Doyle"),
+  );
+  assert.equal(normalizeAuthor("Unknown Author"), "");
+});
+
+test("fingerprints of the same body match; different bodies do not", () => {
+  const body = paragraph(1);
+  const wrapped = [
+    "*** START OF THE PROJECT GUTENBERG EBOOK SAMPLE ***",
+    body,
+    "*** END OF THE PROJECT GUTENBERG EBOOK SAMPLE ***",
+    "License boilerplate that differs between releases.",
+  ].join("\n");
+
+  const a = computeTextFingerprint(body);
+  const b = computeTextFingerprint(wrapped);
+  const c = computeTextFingerprint(paragraph(2));
+  assert.ok(a && b && c);
+  assert.equal(fingerprintSimilarity(a, b), 1);
+  assert.ok(fingerprintSimilarity(a, c) < 0.5);
+  assert.equal(computeTextFingerprint("too short"), undefined);
+});
+
+test("same text is a duplicate, same work with different text an edition", () => {
+  const text = computeTextFingerprint(paragraph(1));
+  const translation = computeTextFingerprint(paragraph(5));
+
+  const duplicate = compareEditions(
+    { id: "a", title: "Emma", author: "Jane Austen", textFingerprint: text },
+    {
+      id: "b",
+      title: "Pending metadata extraction",
+      author: "Unknown Author",
+      textFingerprint: text,
+    },
+  );
+  assert.equal(duplicate?.kind, "duplicate");
+
+  const edition = compareEditions(
+    {
+      id: "a",
+      title: "Madame Bovary",
+      author: "Gustave Flaubert",
+      textFingerprint: text,
+    },
+    {
+      id: "c",
+      title: "Madame Bovary: Provincial Manners",
+      author: "Flaubert, Gustave",
+      textFingerprint: translation,
+    },
+  );
+  assert.equal(edition?.kind, "alternate_edition");
+
+  assert.equal(
+    compareEditions(
+      { id: "a", title: "Emma", author: "Jane Austen" },
+      { id: "d", title: "Persuasion", author: "Jane Austen" },
+    ),
+    null,
+  );
+});
+
+test("groups merge transitive matches and skip dismissed or linked pairs", () => {
+  const books = [
+    { id: "a", title: "Emma", author: "Jane Austen" },
+    { id: "b", title: "Emma", author: "Austen, Jane" },
+    { id: "c", title: "Emma: A Novel", author: "Jane Austen" },
+    { id: "d", title: "Persuasion", author: "Jane Austen" },
+  ];
+
+  const groups = findEditionGroups(books);
+  assert.equal(groups.length, 1);
+  assert.deepEqual([...groups[0].bookIds].sort(), ["a", "b", "c"]);
+
+  const dismissed = new Set([
+    pairKey("a", "b"),
+    pairKey("a", "c"),
+    pairKey("b", "c"),
+  ]);
+  assert.equal(findEditionGroups(books, dismissed).length, 0);
+
+  const linked = books.map((book) => ({ ...book, workFamilyId: "family" }));
+  assert.equal(findEditionGroups(linked).length, 0);
+});
@@ -0,0 +1,236 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+
+import {
+  buildEpub,
+  chapterXhtml,
+  epubStylesheet,
+  languageTag,
+  validateEpub,
+  xmlWellFormednessIssues,
+} from "../epubBuild";
+import { resolvePrintSettings } from "../printSpecs";
+
+const metadata = {
+  identifier: "urn:bookzang:book1",
+  title: "Pride & Prejudice",
+  author: "Jane Austen",
+  language: "English",
+  publicationYear: 1813,
+  contributors: [
+    { name: "Jane Austen", role: "author" },
+    { name: "Hugh Thomson", role: "illustrator" },
+  ],
+  subjects: ["Courtship -- Fiction"],
+  modified: "2026-01-31T12:00:00Z",
+};
+
+const options = {
+  style: resolvePrintSettings({
+    fontSize: 12,
+    lineHeight: 1.5,
+    margins: { top: 0.75, bottom: 0.75 },
+  }),
+  copyrightLines: ["Pride & Prejudice", "", "First published 1813."],
+};
+
+const chapters = [
+  {
+    title: "Chapter I",
+    text: "It is a truth *universally* acknowledged.\n\n{smallcaps:Mr. Bennet} replied.[^1]\n\n* * *\n\n[^1]: A note.",
+  },
+  { title: "Chapter II", text: "Mr. Bennet was among the earliest." },
+];
+
+const repack = (
+  files: Record<string, Uint8Array>,
+  edit: (files: Record<string, Uint8Array>) => void,
+) => {
+  const copy = { ...files };
+  edit(copy);
+  const { mimetype, ...rest } = copy;
+  return zipSync({ mimetype: [mimetype, { level: 0 }], ...rest });
+};
+
+test("language names become BCP 47 tags", () => {
+  assert.equal(languageTag("English"), "en");
+  assert.equal(languageTag("fr"), "fr");
+  assert.equal(languageTag("pt-BR"), "pt-BR");
+  assert.equal(languageTag(undefined), "en");
+});
+
+test("annotations become real markup in chapter documents", () => {
+  const xhtml = chapterXhtml(chapters[0], "en");
+  assert.match(xhtml, /<h1>Chapter I<\/h1>/);
+  assert.match(xhtml, /<em>universally<\/em>/);
+  assert.match(xhtml, /<span class="smallcaps">Mr\. Bennet<\/span>/);
+  assert.match(
+    xhtml,
+    /<a epub:type="noteref" role="doc-noteref" href="#note-1" id="ref-1"><sup>1<\/sup><\/a>/,
+  );
+  assert.match(xhtml, /<aside epub:type="footnote"[^>]*id="note-1"/);
+  assert.match(
+    xhtml,
+    /<p class="section-break" role="separator">\* {3}\* {3}\*<\/p>/,
+  );
+  assert.deepEqual(xmlWellFormednessIssues(xhtml), []);
+});
+
+test("template typography carries into the stylesheet and breaks", () => {
+  const style = resolvePrintSettings({
+    fontSize: 11,
+    lineHeight: 1.4,
+    margins: { top: 0.75, bottom: 0.75 },
+    fontFamily: "serif",
+    headingFontFamily: "sans",
+    dropCaps: true,
+    sectionBreak: "fleuron",
+    chapterOpener: { align: "left", uppercase: true, drop: 0.5, spaceAfter: 3 },
+  });
+  const css = epubStylesheet(style);
+  assert.match(
+    css,
+    /h1, h2, h3, h4, h5, h6 \{\n {2}font-family: "Helvetica Neue"/,
+  );
+  assert.match(
+    css,
+    /text-align: left;\n {2}text-transform: uppercase;\n {2}margin: 6em 0 3em;/,
+  );
+  assert.match(css, /h1 \+ p::first-letter \{\n {2}float: left;/);
+  assert.doesNotMatch(
+    epubStylesheet({ ...style, dropCaps: false }),
+    /first-letter/,
+  );
+
+  assert.match(
+    chapterXhtml(chapters[0], "en", "fleuron"),
+    /<p class="section-break" role="separator">\u2766<\/p>/,
+  );
+  assert.match(
+    chapterXhtml(chapters[0], "en", "space"),
+    /<hr class="section-break"\/>/,
+  );
+});
+
+test("the package has metadata, manifest, nav and spine in chapter order", () => {
+  const { bytes, files } = buildEpub(metadata, chapters, options);
+  const opf = files["OEBPS/content.opf"];
+
+  assert.match(opf, /<dc:title id="title">Pride &amp; Prejudice<\/dc:title>/);
+  assert.match(opf, /<dc:language>en<\/dc:language>/);
+  assert.match(opf, /<dc:creator id="creator-1">Jane Austen<\/dc:creator>/);
+  assert.match(
+    opf,
+    /<meta refines="#contributor-1" property="role" scheme="marc:relators">ill<\/meta>/,
+  );
+  assert.match(opf, /properties="nav"/);
+  assert.match(
+    opf,
+    /<itemref idref="chapter-001"\/>\n<itemref idref="chapter-002"\/>/,
+  );
+  assert.match(files["OEBPS/styles.css"], /font-size: 100%;/);
+  assert.match(files["OEBPS/styles.css"], /line-height: 1\.5;/);
+
+  const archive = unzipSync(bytes);
+  assert.equal(Object.keys(archive)[0], "mimetype");
+  assert.equal(strFromU8(archive.mimetype), "application/epub+zip");
+  assert.deepEqual(validateEpub(bytes), []);
+});
+
+test("collection volumes get title pages and nest their chapters in the nav", () => {
+  const volume = (title: string) => ({ title, author: "Jane Austen" });
+  const { bytes, files } = buildEpub(
+    { ...metadata, description: "Two novels." },
+    [
+      { ...chapters[0], volume: volume("Emma") },
+      chapters[1],
+      {
+        title: "Chapter I",
+        text: "Sir Walter Elliot.",
+        volume: volume("Persuasion"),
+      },
+    ],
+    options,
+  );
+
+  assert.match(
+    files["OEBPS/content.opf"],
+    /<itemref idref="volume-01"\/>\n<itemref idref="chapter-001"\/>\n<itemref idref="chapter-002"\/>\n<itemref idref="volume-02"\/>/,
+  );
+  assert.match(
+    files["OEBPS/content.opf"],
+    /<dc:description>Two novels\.<\/dc:description>/,
+  );
+  assert.match(files["OEBPS/volume-02.xhtml"], /epub:type="part"/);
+  assert.match(
+    files["OEBPS/volume-02.xhtml"],
+    /<p class="title">Persuasion<\/p>/,
+  );
+  assert.match(
+    files["OEBPS/nav.xhtml"],
+    /<li><a href="volume-01.xhtml">Emma<\/a>\n<ol>\n<li><a href="chapter-001.xhtml">Chapter I<\/a><\/li>\n<li><a href="chapter-002.xhtml">Chapter II<\/a><\/li>\n<\/ol><\/li>/,
+  );
+  assert.deepEqual(validateEpub(bytes), []);
+});
+
+test("validation catches missing files, unlisted files and bad spine order", () => {
+  const { bytes } = buildEpub(metadata, chapters, options);
+  const files = unzipSync(bytes);
+
+  const missing = repack(files, (copy) => {
+    delete copy["OEBPS/chapter-002.xhtml"];
+  });
+  assert.ok(
+    validateEpub(missing).includes(
+      'Manifest item "chapter-002" points to missing OEBPS/chapter-002.xhtml',
+    ),
+  );
+
+  const unlisted = repack(files, (copy) => {
+    copy["OEBPS/extra.xhtml"] = strToU8("<html/>");
+  });
+  assert.ok(
+    validateEpub(unlisted).includes("OEBPS/extra.xhtml is not in the manifest"),
+  );
+
+  const reordered = repack(files, (copy) => {
+    copy["OEBPS/content.opf"] = strToU8(
+      strFromU8(copy["OEBPS/content.opf"]).replace(
+        '<itemref idref="chapter-001"/>\n<itemref idref="chapter-002"/>',
+        '<itemref idref="chapter-002"/>\n<itemref idref="chapter-001"/>',
+      ),
+    );
+  });
+  assert.ok(
+    validateEpub(reordered).includes(
+      "Contents entry chapter-002.xhtml is out of spine order",
+    ),
+  );
+});
+
+test("validation catches malformed XHTML and a compressed mimetype", () => {
+  const { bytes } = buildEpub(metadata, chapters, options);
+  const files = unzipSync(bytes);
+
+  const broken = repack(files, (copy) => {
+    copy["OEBPS/chapter-001.xhtml"] = strToU8(
+      "<html><body><p>Fish & chips<br></p></body></html>",
+    );
+  });
+  assert.deepEqual(
+    validateEpub(broken).filter((issue) => issue.startsWith("OEBPS/chapter")),
+    [
+      'OEBPS/chapter-001.xhtml: Unescaped "&" near "& chips"',
+      "OEBPS/chapter-001.xhtml: </p> closes <br>",
+    ],
+  );
+
+  const compressed = zipSync({
+    ...files,
+    mimetype: [files.mimetype, { level: 9 }],
+  });
+  assert.ok(
+    validateEpub(compressed).includes("The mimetype entry is compressed"),
+  );
+});
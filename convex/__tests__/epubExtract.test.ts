@@ -0,0 +1,180 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseBlocks, serializeBlocks } from "../annotatedMarkdown";
+import {
+  annotateInlineFormatting,
+  buildAnnotatedMarkdownFromSpine,
+  xhtmlToBlocks,
+} from "../epubExtract";
+
+test("xhtml emphasis maps to annotated markdown markers", () => {
+  const xhtml =
+    '<p>He said <em>Hello</em> to <span class="smallcaps">Rome</span>.</p>';
+  const text = annotateInlineFormatting(xhtml);
+
+  assert.equal(text, "He said *Hello* to {smallcaps:Rome}.");
+});
+
+test("spine order is preserved in extracted chapter output", () => {
+  const result = buildAnnotatedMarkdownFromSpine([
+    {
+      href: "chapter-2.xhtml",
+      title: "Chapter 2",
+      xhtml: "<p>Second</p>",
+    },
+    {
+      href: "chapter-3.xhtml",
+      title: "Chapter 3",
+      xhtml: "<p>Third</p>",
+    },
+  ]);
+
+  assert.equal(result.chapters[0]?.title, "Chapter 2");
+  assert.equal(result.chapters[1]?.title, "Chapter 3");
+  assert.match(result.markdown, /## Chapter 2[\s\S]*## Chapter 3/);
+});
+
+test("a leading heading is dropped only when it repeats the nav title", () => {
+  const result = buildAnnotatedMarkdownFromSpine([
+    {
+      href: "chapter-1.xhtml",
+      title: "Down the Rabbit-Hole",
+      xhtml: "<h2>Down the <i>Rabbit Hole</i>.</h2><p>Alice was tired.</p>",
+    },
+    {
+      href: "chapter-2.xhtml",
+      title: "The Pool of Tears",
+      xhtml: "<h2>CHAPTER II</h2><p>Curiouser and curiouser!</p>",
+    },
+  ]);
+
+  assert.equal(
+    result.markdown,
+    [
+      "## Down the Rabbit-Hole",
+      "Alice was tired.",
+      "## The Pool of Tears",
+      "{h2:CHAPTER II}",
+      "Curiouser and curiouser!",
+    ].join("\n\n"),
+  );
+  assert.deepEqual(
+    result.chapters.map((chapter) => chapter.title),
+    ["Down the Rabbit-Hole", "The Pool of Tears"],
+  );
+});
+
+test("headings, blockquotes and inline emphasis keep their structure", () => {
+  const blocks = xhtmlToBlocks(`
+    <h2>CHAPTER I</h2>
+    <h4>In which we begin</h4>
+    <p>It was <b>very</b> <i>late</i> on the 4<sup>th</sup>.</p>
+    <blockquote><p>All happy families are alike.</p></blockquote>
+    <hr/>
+  `);
+
+  assert.equal(
+    serializeBlocks(blocks),
+    [
+      "{h2:CHAPTER I}",
+      "{h4:In which we begin}",
+      "It was {bold:very} *late* on the 4{sup:th}.",
+      "> All happy families are alike.",
+      "* * *",
+    ].join("\n\n"),
+  );
+});
+
+test("gutenberg poem markup becomes verse stanzas with line breaks", () => {
+  const blocks = xhtmlToBlocks(`
+    <div class="poem">
+      <div class="stanza">
+        <span class="i0">Tyger Tyger, burning bright,<br/></span>
+        <span class="i2">In the forests of the night;<br/></span>
+      </div>
+      <div class="stanza">
+        <span class="i0">What immortal hand or eye,<br/></span>
+      </div>
+    </div>
+  `);
+
+  assert.deepEqual(blocks, [
+    {
+      type: "verse",
+      stanzas: [
+        [
+          [{ type: "text", text: "Tyger Tyger, burning bright," }],
+          [{ type: "text", text: "In the forests of the night;" }],
+        ],
+        [[{ type: "text", text: "What immortal hand or eye," }]],
+      ],
+    },
+  ]);
+});
+
+test("footnote anchors link to their bodies", () => {
+  const gutenberg = serializeBlocks(
+    xhtmlToBlocks(`
+      <p>A claim.<a id="FNanchor_1_1" href="#Footnote_1_1" class="fnanchor">[1]</a></p>
+      <div class="footnote">
+        <p><a id="Footnote_1_1" href="#FNanchor_1_1"><span class="label">[1]</span></a> The source.</p>
+      </div>
+    `),
+  );
+  assert.equal(
+    gutenberg,
+    "A claim.[^Footnote_1_1]\n\n[^Footnote_1_1]: The source.",
+  );
+
+  const epub3 = serializeBlocks(
+    xhtmlToBlocks(`
+      <p>Another<sup><a href="#fn2">2</a></sup> claim.</p>
+      <aside epub:type="footnote" id="fn2"><p>Second <em>note</em>.</p></aside>
+    `),
+  );
+  assert.equal(epub3, "Another[^fn2] claim.\n\n[^fn2]: Second *note*.");
+});
+
+test("lists and tables are preserved", () => {
+  const markdown = serializeBlocks(
+    xhtmlToBlocks(`
+      <ul><li>Bread</li><li>Wine &amp; cheese</li></ul>
+      <ol><li>First</li><li>Second</li></ol>
+      <table><tr><th>Year</th><th>Event</th></tr><tr><td>1815</td><td>Waterloo</td></tr></table>
+    `),
+  );
+
+  assert.equal(
+    markdown,
+    [
+      "- Bread\n- Wine & cheese",
+      "1. First\n2. Second",
+      "| Year | Event |\n| --- | --- |\n| 1815 | Waterloo |",
+    ].join("\n\n"),
+  );
+});
+
+test("extracted chapter content parses back to the same blocks", () => {
+  const xhtml = `<h3>Part One</h3><p>Said <span class="smallcaps">Mr. Darcy</span>.</p>
+    <p class="poem">Line one<br/>Line two<br/>Line three</p>`;
+  const result = buildAnnotatedMarkdownFromSpine([
+    { href: "c1.xhtml", title: "Chapter 1", xhtml },
+  ]);
+
+  assert.deepEqual(
+    parseBlocks(result.chapters[0].content),
+    xhtmlToBlocks(xhtml),
+  );
+});
+
+test("gutenberg header and footer sections are dropped", () => {
+  const markdown = serializeBlocks(
+    xhtmlToBlocks(`
+      <section class="pg-boilerplate pgheader" id="pg-header"><p>*** START OF THE PROJECT GUTENBERG EBOOK ***</p></section>
+      <p>The story.</p>
+      <section class="pg-boilerplate pgheader" id="pg-footer"><p>*** END OF THE PROJECT GUTENBERG EBOOK ***</p></section>
+    `),
+  );
+
+  assert.equal(markdown, "The story.");
+});
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  latestAuthorDeathYear,
+  parseCatalogAuthor,
+  parseCatalogCsv,
+  parseCatalogRdf,
+} from "../gutenbergCatalog";
+
+test("catalog authors keep life dates, roles and display order", () => {
+  assert.deepEqual(parseCatalogAuthor("Austen, Jane, 1775-1817"), {
+    name: "Jane Austen",
+    sortName: "Austen, Jane",
+    role: "Author",
+    birthYear: 1775,
+    deathYear: 1817,
+  });
+
+  const editor = parseCatalogAuthor(
+    "Doyle, Arthur Conan, Sir, 1859-1930 [Editor]",
+  );
+  assert.equal(editor?.name, "Arthur Conan Doyle");
+  assert.equal(editor?.role, "Editor");
+  assert.equal(editor?.deathYear, 1930);
+
+  const homer = parseCatalogAuthor("Homer, 751? BCE-651? BCE");
+  assert.equal(homer?.birthYear, -751);
+  assert.equal(homer?.deathYear, -651);
+
+  const living = parseCatalogAuthor("Smith, A. B. (Alfred Bert), 1950-");
+  assert.equal(living?.name, "A. B. Smith");
+  assert.equal(living?.deathYear, undefined);
+});
+
+test("pg_catalog.csv rows with quoted multi-line titles are parsed", () => {
+  const csv = [
+    "Text#,Type,Issued,Title,Language,Authors,Subjects,LoCC,Bookshelves",
+    '1342,Text,1998-06-01,"Pride and Prejudice",en,"Austen, Jane, 1775-1817","Courtship -- Fiction; England -- Fiction",PR,"Best Books Ever Listings; Harvard Classics"',
+    '2,Text,1975-12-01,"The United States Bill of Rights\nThe Ten Original Amendments",en,United States,"Civil rights -- United States",JK; KF,',
+    "9999,Sound,2003-01-01,Some Audio Book,en,,,,",
+  ].join("\r\n");
+
+  const records = parseCatalogCsv(csv);
+  assert.equal(records.length, 3);
+
+  const [pride, rights, audio] = records;
+  assert.equal(pride.gutenbergId, "1342");
+  assert.equal(pride.author, "Jane Austen");
+  assert.deepEqual(pride.subjects, [
+    "Courtship -- Fiction",
+    "England -- Fiction",
+  ]);
+  assert.deepEqual(pride.bookshelves, [
+    "Best Books Ever Listings",
+    "Harvard Classics",
+  ]);
+  assert.equal(pride.authors[0].deathYear, 1817);
+
+  assert.equal(
+    rights.title,
+    "The United States Bill of Rights The Ten Original Amendments",
+  );
+  assert.deepEqual(rights.locClasses, ["JK", "KF"]);
+  assert.equal(audio.type, "Sound");
+});
+
+test("RDF records add download counts and agent dates", () => {
+  const rdf = `<?xml version="1.0" encoding="utf-8"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <pgterms:ebook rdf:about="ebooks/84">
+    <dcterms:title>Frankenstein; Or, The Modern Prometheus</dcterms:title>
+    <dcterms:creator>
+      <pgterms:agent rdf:about="2009/agents/61">
+        <pgterms:name>Shelley, Mary Wollstonecraft</pgterms:name>
+        <pgterms:birthdate rdf:datatype="http://www.w3.org/2001/XMLSchema#integer">1797</pgterms:birthdate>
+        <pgterms:deathdate rdf:datatype="http://www.w3.org/2001/XMLSchema#integer">1851</pgterms:deathdate>
+      </pgterms:agent>
+    </dcterms:creator>
+    <marcrel:aui>
+      <pgterms:agent rdf:about="2009/agents/999">
+        <pgterms:name>Editor &amp; Friend</pgterms:name>
+        <pgterms:deathdate>1950</pgterms:deathdate>
+      </pgterms:agent>
+    </marcrel:aui>
+    <dcterms:language>
+      <rdf:Description rdf:nodeID="N1">
+        <rdf:value rdf:datatype="http://purl.org/dc/terms/RFC4646">en</rdf:value>
+      </rdf:Description>
+    </dcterms:language>
+    <dcterms:subject>
+      <rdf:Description rdf:nodeID="N2">
+        <dcam:memberOf rdf:resource="http://purl.org/dc/terms/LCSH"/>
+        <rdf:value>Science fiction</rdf:value>
+      </rdf:Description>
+    </dcterms:subject>
+    <dcterms:subject>
+      <rdf:Description rdf:nodeID="N3">
+        <dcam:memberOf rdf:resource="http://purl.org/dc/terms/LCC"/>
+        <rdf:value>PR</rdf:value>
+      </rdf:Description>
+    </dcterms:subject>
+    <pgterms:bookshelf>
+      <rdf:Description rdf:nodeID="N4">
+        <dcam:memberOf rdf:resource="2009/pgterms/Bookshelf"/>
+        <rdf:value>Gothic Fiction</rdf:value>
+      </rdf:Description>
+    </pgterms:bookshelf>
+    <dcterms:type>
+      <rdf:Description rdf:nodeID="N5">
+        <dcam:memberOf rdf:resource="http://purl.org/dc/terms/DCMIType"/>
+        <rdf:value>Text</rdf:value>
+      </rdf:Description>
+    </dcterms:type>
+    <pgterms:downloads rdf:datatype="http://www.w3.org/2001/XMLSchema#integer">91234</pgterms:downloads>
+  </pgterms:ebook>
+</rdf:RDF>`;
+
+  const record = parseCatalogRdf(rdf);
+  assert.ok(record);
+  assert.equal(record.gutenbergId, "84");
+  assert.equal(record.type, "Text");
+  assert.equal(record.author, "Mary Wollstonecraft Shelley");
+  assert.equal(record.downloadCount, 91234);
+  assert.deepEqual(record.languages, ["en"]);
+  assert.deepEqual(record.subjects, ["Science fiction"]);
+  assert.deepEqual(record.locClasses, ["PR"]);
+  assert.deepEqual(record.bookshelves, ["Gothic Fiction"]);
+  assert.equal(record.authors[1].sortName, "Editor & Friend");
+  assert.equal(record.authors[0].agentId, "61");
+
+  // Only credited authors count toward the copyright term
+  assert.equal(latestAuthorDeathYear(record.authors), 1851);
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  extractGutenbergMetadata,
+  fieldsFromUploadMetadata,
+  lowConfidenceFields,
+  publicationYearFrom,
+  seriesFromTitle,
+  splitTitle,
+} from "../gutenbergMetadata";
+
+const sample = `The Project Gutenberg eBook of Frankenstein; Or, The Modern Prometheus
+
+This ebook is for the use of anyone anywhere in the United States.
+
+Title: Frankenstein; Or, The Modern Prometheus
+
+Author: Mary Wollstonecraft Shelley
+
+Illustrator: Theodor von Holst
+
+Release date: October 1, 1993 [eBook #84]
+                Most recently updated: December 2, 2022
+
+Language: English
+
+*** START OF THE PROJECT GUTENBERG EBOOK FRANKENSTEIN ***
+
+Frankenstein;
+
+or, the Modern Prometheus
+
+by Mary Wollstonecraft (Godwin) Shelley
+
+First published 1818
+
+PREFACE
+
+The event on which this fiction is founded was written in 1816.
+
+*** END OF THE PROJECT GUTENBERG EBOOK FRANKENSTEIN ***
+
+End of the Project Gutenberg licence.`;
+
+test("header keys become high-confidence fields with their line numbers", () => {
+  const { fields, bodyLength } = extractGutenbergMetadata(sample);
+
+  assert.equal(fields.title?.value, "Frankenstein");
+  assert.equal(fields.title?.source, "gutenberg_header");
+  assert.equal(fields.title?.line, 5);
+  assert.equal(fields.subtitle?.value, "Or, The Modern Prometheus");
+  assert.equal(fields.subtitle?.confidence, 0.8);
+  assert.equal(fields.author?.value, "Mary Wollstonecraft Shelley");
+  assert.equal(fields.illustrator?.value, "Theodor von Holst");
+  assert.equal(fields.language?.value, "English");
+  assert.equal(fields.releaseDate?.value, "October 1, 1993");
+  assert.ok(bodyLength > 0 && bodyLength < sample.length);
+});
+
+test("publication year comes only from an explicit statement", () => {
+  const { fields } = extractGutenbergMetadata(sample);
+  assert.equal(fields.originalPublicationDate?.value, "1818");
+  assert.equal(fields.originalPublicationDate?.source, "title_page");
+  assert.equal(publicationYearFrom(fields), 1818);
+
+  const withoutStatement = extractGutenbergMetadata(
+    sample.replace("First published 1818\n", ""),
+  );
+  assert.equal(withoutStatement.fields.originalPublicationDate, undefined);
+  assert.equal(publicationYearFrom(withoutStatement.fields), undefined);
+});
+
+test("banner and title page fill in when the header is missing", () => {
+  const text = `The Project Gutenberg EBook of The Iliad, by Homer
+
+*** START OF THIS PROJECT GUTENBERG EBOOK THE ILIAD ***
+
+THE ILIAD
+
+Translated by Samuel Butler
+
+Copyright, 1898
+
+BOOK I.
+
+Sing, O goddess, the anger of Achilles son of Peleus.
+
+*** END OF THIS PROJECT GUTENBERG EBOOK THE ILIAD ***`;
+
+  const { fields } = extractGutenbergMetadata(text);
+  assert.equal(fields.title?.value, "The Iliad");
+  assert.equal(fields.title?.source, "gutenberg_banner");
+  assert.equal(fields.author?.value, "Homer");
+  assert.equal(fields.translator?.value, "Samuel Butler");
+  assert.equal(fields.translator?.line, 7);
+  assert.equal(fields.originalPublicationDate?.value, "1898");
+
+  assert.deepEqual(lowConfidenceFields(fields), [
+    "translator",
+    "originalPublicationDate",
+  ]);
+});
+
+test("titles split into subtitle and series", () => {
+  assert.deepEqual(splitTitle("Walden: or, Life in the Woods"), {
+    title: "Walden",
+    subtitle: "Or, Life in the Woods",
+  });
+  assert.deepEqual(splitTitle("Emma"), { title: "Emma" });
+  assert.equal(
+    seriesFromTitle("The Rover Boys at School (Rover Boys Series, No. 1)"),
+    "Rover Boys Series",
+  );
+  assert.equal(
+    seriesFromTitle("The Works of Charles Dickens, Vol. 3"),
+    "The Works of Charles Dickens",
+  );
+  assert.equal(seriesFromTitle("Middlemarch"), undefined);
+});
+
+test("converted uploads record which declaration each field came from", () => {
+  const fields = fieldsFromUploadMetadata(
+    { title: "Walden", author: "Henry David Thoreau", date: "1854-08-09" },
+    "OPF",
+  );
+  assert.equal(fields.author?.sourceLine, "OPF author");
+  assert.equal(fields.author?.confidence, 0.9);
+  assert.equal(fields.subtitle, undefined);
+  assert.equal(publicationYearFrom(fields), 1854);
+  assert.deepEqual(lowConfidenceFields(fields), []);
+});
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  computeRetryDelayMs,
+  decideRetry,
+  MAX_RETRY_DELAY_MS,
+} from "../ingestRetryPolicy";
+
+test("retry delay doubles per attempt and is capped", () => {
+  assert.equal(computeRetryDelayMs(1), 30_000);
+  assert.equal(computeRetryDelayMs(2), 60_000);
+  assert.equal(computeRetryDelayMs(4), 240_000);
+  assert.equal(computeRetryDelayMs(30), MAX_RETRY_DELAY_MS);
+});
+
+test("failed attempts below the mode limit are retried after backoff", () => {
+  assert.deepEqual(decideRetry({ mode: "fast", attempts: 2, now: 1_000 }), {
+    action: "retry",
+    notBefore: 61_000,
+    delayMs: 60_000,
+  });
+});
+
+test("exhausted attempts go to dead letter, with per-mode limits", () => {
+  assert.equal(
+    decideRetry({ mode: "fast", attempts: 3, now: 0 }).action,
+    "dead_letter",
+  );
+  assert.equal(
+    decideRetry({ mode: "quality", attempts: 3, now: 0 }).action,
+    "retry",
+  );
+  assert.equal(
+    decideRetry({ mode: "quality", attempts: 5, now: 0 }).action,
+    "dead_letter",
+  );
+});
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  contributorsFromMetadata,
+  diffMetadata,
+  metadataFieldsAfterChanges,
+  normalizeMetadataEdits,
+} from "../metadataEdits";
+
+test("edits are trimmed, deduplicated and validated", () => {
+  const normalized = normalizeMetadataEdits(
+    {
+      title: "  Walden ",
+      subtitle: "  ",
+      series: null,
+      gutenbergId: " 205 ",
+      subjects: ["Nature", " nature", "", "Solitude"],
+      contributors: [
+        { name: "Henry  David Thoreau", role: "author" },
+        { name: "Henry David Thoreau", role: "author" },
+      ],
+    },
+    2026,
+  );
+
+  assert.equal(normalized.get("title"), "Walden");
+  assert.ok(normalized.has("subtitle"));
+  assert.equal(normalized.get("subtitle"), undefined);
+  assert.equal(normalized.get("series"), undefined);
+  assert.equal(normalized.get("gutenbergId"), "205");
+  assert.deepEqual(normalized.get("subjects"), ["Nature", "Solitude"]);
+  assert.deepEqual(normalized.get("contributors"), [
+    { name: "Henry David Thoreau", role: "author" },
+  ]);
+  assert.equal(normalized.has("author"), false);
+
+  assert.throws(
+    () => normalizeMetadataEdits({ title: " " }),
+    /cannot be empty/,
+  );
+  assert.throws(
+    () => normalizeMetadataEdits({ gutenbergId: "pg205" }),
+    /must be a number/,
+  );
+  assert.throws(
+    () => normalizeMetadataEdits({ publicationYear: 2030 }, 2026),
+    /between 1000 and 2026/,
+  );
+});
+
+test("only fields whose value changed are reported", () => {
+  const changes = diffMetadata(
+    {
+      title: "Walden",
+      author: "Henry David Thoreau",
+      subjects: ["Nature"],
+      publicationYear: 1854,
+    },
+    normalizeMetadataEdits({
+      title: "Walden",
+      author: "Thoreau, Henry David",
+      subjects: ["Nature"],
+      publicationYear: null,
+    }),
+  );
+
+  assert.deepEqual(changes, [
+    {
+      field: "author",
+      previousValue: "Henry David Thoreau",
+      newValue: "Thoreau, Henry David",
+    },
+    { field: "publicationYear", previousValue: 1854, newValue: undefined },
+  ]);
+});
+
+test("edited fields become reviewed and credits follow contributor roles", () => {
+  const fields = {
+    title: {
+      value: "Walden",
+      confidence: 0.7,
+      source: "gutenberg_banner" as const,
+    },
+    translator: {
+      value: "Someone",
+      confidence: 0.6,
+      source: "title_page" as const,
+      line: 12,
+    },
+  };
+  assert.deepEqual(contributorsFromMetadata("Homer", fields), [
+    { name: "Homer", role: "author" },
+    { name: "Someone", role: "translator" },
+  ]);
+
+  const next = metadataFieldsAfterChanges(
+    fields,
+    [
+      { field: "title", previousValue: "Walden", newValue: "Walden; or, Life" },
+      {
+        field: "contributors",
+        newValue: [
+          { name: "Homer", role: "author" },
+          { name: "Samuel Butler", role: "translator" },
+          { name: "A. Editor", role: "editor" },
+        ],
+      },
+      { field: "publicationYear", previousValue: 1854, newValue: undefined },
+    ],
+    100,
+  );
+
+  assert.equal(next.title?.value, "Walden; or, Life");
+  assert.equal(next.title?.confidence, 1);
+  assert.equal(next.title?.source, "reviewer");
+  assert.equal(next.translator?.value, "Samuel Butler");
+  assert.equal(next.translator?.line, 12);
+  assert.equal(next.editor?.value, "A. Editor");
+  assert.equal(next.illustrator, undefined);
+  assert.equal(next.originalPublicationDate, undefined);
+});
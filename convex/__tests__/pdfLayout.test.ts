@@ -0,0 +1,408 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  interiorBlocks,
+  layoutInterior,
+  layoutPrintInterior,
+  paragraphBreaks,
+  parseInline,
+  romanNumeral,
+  type InteriorBook,
+} from "../pdfLayout";
+import { resolvePrintSettings } from "../printSpecs";
+
+// Every character is half an em wide
+const measure = (text: string, _style: string, size: number) =>
+  [...text].length * size * 0.5;
+
+const settings = {
+  fontSize: 12,
+  lineHeight: 1.5,
+  margins: { top: 1, bottom: 1, inside: 1, outside: 1 },
+};
+
+const paragraph = (words: number) =>
+  Array.from({ length: words }, (_, index) => `word${index}`).join(" ");
+
+const book = (chapters: InteriorBook["chapters"]): InteriorBook => ({
+  title: "The Book",
+  author: "A. Writer",
+  copyrightLines: ["The Book", "by A. Writer"],
+  chapters,
+});
+
+const pageText = (page: { items: Array<{ text: string }> }) =>
+  page.items.map((item) => item.text).join(" ");
+
+test("roman numerals for front matter folios", () => {
+  assert.equal(romanNumeral(1), "i");
+  assert.equal(romanNumeral(4), "iv");
+  assert.equal(romanNumeral(9), "ix");
+  assert.equal(romanNumeral(14), "xiv");
+});
+
+test("annotated emphasis becomes italic and bold runs", () => {
+  assert.deepEqual(parseInline("a *very* {bold:fine} day, 5 \\* 3"), [
+    [{ text: "a", style: "regular" }],
+    [{ text: "very", style: "italic" }],
+    [{ text: "fine", style: "bold" }],
+    [{ text: "day,", style: "regular" }],
+    [{ text: "5", style: "regular" }],
+    [{ text: "*", style: "regular" }],
+    [{ text: "3", style: "regular" }],
+  ]);
+});
+
+test("small caps, superscripts and footnote references are run variants", () => {
+  assert.deepEqual(parseInline("{smallcaps:Lord} Bacon[^1] x{sup:nd}"), [
+    [
+      { text: "L", style: "regular" },
+      { text: "ORD", style: "regular", variant: "smallcaps" },
+    ],
+    [
+      { text: "Bacon", style: "regular" },
+      { text: "1", style: "regular", variant: "superscript" },
+    ],
+    [
+      { text: "x", style: "regular" },
+      { text: "nd", style: "regular", variant: "superscript" },
+    ],
+  ]);
+});
+
+test("chapter text splits into paragraphs, subheadings, verse and notes", () => {
+  const blocks = interiorBlocks(
+    [
+      "A note[^1] here.",
+      "* * *",
+      "{h3:Part Two}",
+      "::: verse\nFirst line,\nsecond line.\n\nNew stanza.\n:::",
+      "[^1]: The note.",
+      "> Quoted.",
+    ].join("\n\n"),
+  );
+  assert.deepEqual(
+    blocks.map((block) => block.kind),
+    ["paragraph", "break", "heading", "verse", "paragraph", "note"],
+  );
+  assert.deepEqual(blocks[2], {
+    kind: "heading",
+    level: 3,
+    words: [
+      [{ text: "Part", style: "regular" }],
+      [{ text: "Two", style: "regular" }],
+    ],
+  });
+  const verse = blocks[3];
+  assert.ok(verse.kind === "verse");
+  assert.deepEqual(
+    verse.stanzas.map((stanza) => stanza.length),
+    [2, 1],
+  );
+  const quote = blocks[4];
+  assert.ok(quote.kind === "paragraph" && quote.inset > 0);
+});
+
+test("annotated chapters lay out headings, verse lines and notes", () => {
+  const layout = layoutInterior(
+    book([
+      {
+        title: "One",
+        text: [
+          "The {smallcaps:King} spoke[^1] at \\*noon\\*.",
+          "{h3:The Song}",
+          "::: verse\nShort line one\nShort line two\n:::",
+          "[^1]: Loudly.",
+        ].join("\n\n"),
+      },
+    ]),
+    { settings, measure },
+  );
+  const items = layout.pages[6].items;
+  const find = (text: string) => items.find((item) => item.text === text)!;
+
+  assert.equal(find("ING").size, 12 * 0.78);
+  assert.ok(find("1").size < 12 && find("1").y > find("spoke").y);
+  assert.ok(find("*noon*."));
+  assert.equal(find("Song").style, "heading");
+  // Each verse line is its own line, set in from the margin
+  const verseLines = items.filter((item) => item.text === "Short");
+  assert.equal(verseLines.length, 2);
+  assert.ok(verseLines[0].y > verseLines[1].y);
+  assert.ok(verseLines[0].x > 72);
+  // The note body follows the text in a smaller size
+  assert.equal(find("Loudly.").size, 12 * 0.85);
+  assert.ok(find("Loudly.").y < find("two").y);
+});
+
+test("front matter and contents precede the body, which starts on a recto", () => {
+  const layout = layoutInterior(
+    book([
+      { title: "Chapter I", text: paragraph(50) },
+      { title: "Chapter II", text: paragraph(50) },
+    ]),
+    { settings, measure },
+  );
+
+  assert.equal(layout.width, 432);
+  assert.equal(layout.height, 648);
+  assert.deepEqual(
+    layout.pages.slice(0, 6).map((page) => page.label),
+    ["i", "ii", "iii", "iv", "v", "vi"],
+  );
+  assert.match(pageText(layout.pages[0]), /The Book/);
+  assert.match(pageText(layout.pages[2]), /A\. Writer/);
+  assert.match(pageText(layout.pages[4]), /^Contents/);
+  assert.equal(layout.pages[6].label, "1");
+  assert.deepEqual(layout.contents, [
+    { title: "Chapter I", page: "1" },
+    { title: "Chapter II", page: "3" },
+  ]);
+  // The contents page lists each chapter with its page number
+  assert.match(pageText(layout.pages[4]), /Chapter I 1 Chapter II 3/);
+});
+
+test("chapter openers land on rectos without a running head", () => {
+  const layout = layoutInterior(
+    book([
+      { title: "One", text: paragraph(40) },
+      { title: "Two", text: paragraph(40) },
+    ]),
+    { settings, measure },
+  );
+  const body = layout.pages.slice(6);
+
+  // Chapter one fits on page 1, so page 2 is blank and chapter two opens on 3
+  assert.equal(body[1].items.length, 0);
+  const opener = body[2];
+  assert.equal(opener.label, "3");
+  assert.equal(opener.items[0].text, "Two");
+  assert.ok(!opener.items.some((item) => item.style === "italic"));
+  // Folio centred at the foot of the page
+  assert.equal(opener.items[opener.items.length - 1].text, "3");
+  assert.equal(opener.items[opener.items.length - 1].y, 36);
+});
+
+test("running heads show the book on versos and the chapter on rectos", () => {
+  const layout = layoutInterior(
+    book([{ title: "Long Chapter", text: paragraph(2000) }]),
+    { settings, measure },
+  );
+  const body = layout.pages.slice(6);
+  assert.ok(body.length > 3);
+
+  const head = (page: (typeof body)[number]) =>
+    page.items.find((item) => item.style === "italic")?.text;
+  assert.equal(head(body[0]), undefined);
+  assert.equal(head(body[1]), "The Book");
+  assert.equal(head(body[2]), "Long Chapter");
+
+  // Text stays inside the margins
+  for (const page of body) {
+    for (const item of page.items) {
+      assert.ok(item.y >= 36 && item.y <= 648 - 36);
+    }
+  }
+});
+
+test("collection volumes get a title page, contents entries and versos", () => {
+  const volume = (title: string) => ({ title, author: "A. Writer" });
+  const layout = layoutInterior(
+    book([
+      { title: "Chapter 1", text: paragraph(40), volume: volume("Emma") },
+      { title: "Chapter 2", text: paragraph(2000) },
+      { title: "Chapter 1", text: paragraph(40), volume: volume("Persuasion") },
+    ]),
+    { settings, measure },
+  );
+  const body = layout.pages.slice(6);
+
+  // Title page on 1 with no head or folio, blank 2, opener on 3
+  assert.equal(pageText(body[0]), "Emma A. Writer");
+  assert.equal(body[1].items.length, 0);
+  assert.equal(body[2].items[0].text, "Chapter");
+  assert.deepEqual(
+    layout.contents.map((entry) => [entry.title, entry.volume ?? false]),
+    [
+      ["Emma", true],
+      ["Chapter 1", false],
+      ["Chapter 2", false],
+      ["Persuasion", true],
+      ["Chapter 1", false],
+    ],
+  );
+  // Chapter 2 opens on 5; versos carry the volume's title, not the book's
+  assert.equal(
+    body[5].items.find((item) => item.style === "italic")?.text,
+    "Emma",
+  );
+  // Volumes are set in the heading face, chapters indented beneath them
+  const contents = layout.pages[4].items;
+  const emma = contents.find((item) => item.text === "Emma")!;
+  const chapter = contents.find((item) => item.text === "Chapter 1")!;
+  assert.equal(emma.style, "heading");
+  assert.ok(chapter.x > emma.x);
+});
+
+test("template margins and font size change the text block", () => {
+  const text = paragraph(3000);
+  const classic = layoutInterior(book([{ title: "One", text }]), {
+    settings,
+    measure,
+  });
+  const largePrint = layoutInterior(book([{ title: "One", text }]), {
+    settings: {
+      fontSize: 16,
+      lineHeight: 1.8,
+      margins: { top: 1.2, bottom: 1.2, inside: 1.2, outside: 1.2 },
+    },
+    measure,
+  });
+  assert.ok(largePrint.pages.length > classic.pages.length);
+
+  const firstWord = classic.pages[6].items.find(
+    (item) => item.text === "word0",
+  );
+  assert.equal(firstWord?.x, 72);
+  assert.equal(firstWord?.size, 12);
+});
+
+test("paragraph breaks avoid widows and orphans", () => {
+  // Fits on the page
+  assert.deepEqual(paragraphBreaks(5, 10, 30, 2), []);
+  // Plain split with both halves long enough
+  assert.deepEqual(paragraphBreaks(10, 4, 30, 2), [4]);
+  // One line left at the foot would be an orphan: move the paragraph
+  assert.deepEqual(paragraphBreaks(10, 1, 30, 2), [0]);
+  // One line carried over would be a widow: carry two
+  assert.deepEqual(paragraphBreaks(5, 4, 30, 2), [3]);
+  // Control off
+  assert.deepEqual(paragraphBreaks(5, 4, 30, 1), [4]);
+  // Longer than a page
+  assert.deepEqual(paragraphBreaks(65, 5, 30, 2), [5, 35]);
+});
+
+test("versos mirror the margins and bleed offsets the page", () => {
+  const layout = layoutInterior(
+    book([{ title: "Long Chapter", text: paragraph(2000) }]),
+    {
+      settings: {
+        ...settings,
+        margins: { top: 1, bottom: 1, inside: 1, outside: 0.5 },
+      },
+      bleed: true,
+      measure,
+    },
+  );
+  assert.equal(layout.width, 441);
+  assert.equal(layout.height, 666);
+
+  const leftmost = (index: number) =>
+    Math.min(...layout.pages[index].items.map((item) => item.x));
+  // Recto: gutter (72pt) on the left; verso: outside margin plus bleed
+  assert.equal(leftmost(8), 72);
+  assert.equal(leftmost(7), 36 + 9);
+  assert.ok(layout.pages[7].items.every((item) => item.y >= 36 + 9));
+});
+
+test("print layout widens the gutter to the platform band for its page count", () => {
+  const printSettings = resolvePrintSettings({
+    fontSize: 12,
+    lineHeight: 1.5,
+    margins: { top: 0.75, bottom: 0.75, inside: 0.375, outside: 0.5 },
+    trimSize: "5x8",
+    platform: "kdp",
+  });
+  const short = layoutPrintInterior(
+    book([{ title: "One", text: paragraph(3000) }]),
+    { settings: printSettings, measure },
+  );
+  assert.ok(short.layout.pages.length <= 150);
+  assert.equal(short.margins.inside, 0.375);
+  assert.deepEqual(short.issues, []);
+
+  const long = layoutPrintInterior(
+    book([{ title: "One", text: paragraph(40000) }]),
+    { settings: printSettings, measure },
+  );
+  assert.ok(long.layout.pages.length > 300);
+  assert.ok(long.margins.inside >= 0.625);
+  assert.deepEqual(long.issues, []);
+});
+
+test("chapter openers follow the template's alignment, case and drop", () => {
+  const layout = layoutInterior(
+    book([{ title: "The Opening", text: paragraph(40) }]),
+    {
+      settings: {
+        ...settings,
+        chapterOpener: {
+          align: "left",
+          uppercase: true,
+          drop: 0,
+          spaceAfter: 4,
+        },
+      },
+      measure,
+    },
+  );
+  const opener = layout.pages[6];
+  const title = opener.items.filter((item) => item.style === "heading");
+  assert.deepEqual(
+    title.map((item) => item.text),
+    ["THE", "OPENING"],
+  );
+  assert.equal(title[0].x, 72);
+  // Title on the first line; text follows its two lines and four blank ones
+  assert.equal(title[0].y, 648 - 72 - 12);
+  const firstWord = opener.items.find((item) => item.text === "word0");
+  assert.equal(firstWord?.y, 648 - 72 - 12 - 6 * 18);
+});
+
+test("drop caps span three lines beside the indented first paragraph", () => {
+  const layout = layoutInterior(
+    book([{ title: "One", text: `"Well," ${paragraph(200)}` }]),
+    { settings: { ...settings, dropCaps: true }, measure },
+  );
+  const opener = layout.pages[6];
+  const cap = opener.items.find((item) => item.text === '"W');
+  assert.ok(cap);
+  assert.equal(cap.x, 72);
+  assert.ok(cap.size > 12 * 3);
+
+  const rest = opener.items.find((item) => item.text === 'ell,"');
+  assert.ok(rest);
+  assert.ok(rest.x > 72 + 12);
+  // The cap's baseline is the third line's
+  const lineYs = [
+    ...new Set(
+      opener.items
+        .filter((item) => item.size === 12 && item.style === "regular")
+        .map((item) => item.y),
+    ),
+  ].sort((a, b) => b - a);
+  assert.equal(cap.y, lineYs[2]);
+  // The fourth line returns to the margin
+  const fourthLine = opener.items.filter(
+    (item) => item.y === lineYs[3] && item.size === 12,
+  );
+  assert.equal(Math.min(...fourthLine.map((item) => item.x)), 72);
+});
+
+test("section breaks use the template's ornament", () => {
+  const text = `${paragraph(20)}\n\n* * *\n\n${paragraph(20)}`;
+  const ornamentOf = (sectionBreak: "asterisks" | "fleuron" | "space") =>
+    layoutInterior(book([{ title: "One", text }]), {
+      settings: { ...settings, sectionBreak },
+      measure,
+    })
+      .pages[6].items.filter(
+        (item) => item.style === "ornament" || item.text.startsWith("*"),
+      )
+      .map((item) => [item.text, item.style]);
+
+  assert.deepEqual(ornamentOf("asterisks"), [["*   *   *", "regular"]]);
+  assert.deepEqual(ornamentOf("fleuron"), [["\u2766", "ornament"]]);
+  assert.deepEqual(ornamentOf("space"), []);
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  effectiveMargins,
+  minimumMargins,
+  requiredGutter,
+  resolvePrintSettings,
+  templateSettingsIssues,
+  validatePrintLayout,
+} from "../printSpecs";
+
+const kdp = resolvePrintSettings({
+  fontSize: 11,
+  lineHeight: 1.4,
+  margins: { top: 0.5, bottom: 0.5, inside: 0.5, outside: 0.5 },
+  trimSize: "5x8",
+  platform: "kdp",
+});
+
+test("legacy templates read left/right as inside/outside with defaults", () => {
+  const settings = resolvePrintSettings({
+    fontSize: 12,
+    lineHeight: 1.5,
+    margins: { top: 1, bottom: 1, left: 1.1, right: 0.9 },
+  });
+  assert.deepEqual(settings.margins, {
+    top: 1,
+    bottom: 1,
+    inside: 1.1,
+    outside: 0.9,
+  });
+  assert.equal(settings.trim.id, "6x9");
+  assert.equal(settings.platform, "kdp");
+  assert.equal(settings.fontFamily, "serif");
+  assert.equal(settings.bleed, false);
+  assert.equal(settings.widowOrphanLines, 2);
+  assert.equal(settings.headingFontFamily, "serif");
+  assert.equal(settings.dropCaps, false);
+  assert.equal(settings.sectionBreak, "asterisks");
+  assert.equal(settings.chapterOpener.drop, 0.25);
+});
+
+test("the heading font follows the body font unless set", () => {
+  const base = {
+    fontSize: 12,
+    lineHeight: 1.5,
+    margins: { top: 1, bottom: 1 },
+  };
+  assert.equal(
+    resolvePrintSettings({ ...base, fontFamily: "sans" }).headingFontFamily,
+    "sans",
+  );
+  assert.equal(
+    resolvePrintSettings({
+      ...base,
+      fontFamily: "sans",
+      headingFontFamily: "serif",
+    }).headingFontFamily,
+    "serif",
+  );
+});
+
+test("edited settings are checked before they are saved", () => {
+  const settings = {
+    fontSize: 12,
+    lineHeight: 1.5,
+    margins: { top: 0.75, bottom: 0.75, inside: 0.875, outside: 0.625 },
+    trimSize: "5x8",
+  };
+  assert.deepEqual(templateSettingsIssues(settings), []);
+  assert.deepEqual(
+    templateSettingsIssues({
+      ...settings,
+      fontSize: 40,
+      trimSize: "9x12",
+    }),
+    ["Font size must be between 6 and 24", 'Unknown trim size "9x12"'],
+  );
+  assert.deepEqual(
+    templateSettingsIssues({
+      ...settings,
+      margins: { top: 0.75, bottom: 0.75, inside: 1.5, outside: 1.25 },
+      chapterOpener: {
+        align: "center",
+        uppercase: false,
+        drop: 0.8,
+        spaceAfter: 2,
+      },
+    }),
+    [
+      "Chapter drop must be between 0 and 0.5",
+      "Inside and outside margins leave less than half the 5x8 page width for text",
+    ],
+  );
+});
+
+test("the KDP gutter grows with page count", () => {
+  assert.equal(requiredGutter("kdp", 24), 0.375);
+  assert.equal(requiredGutter("kdp", 150), 0.375);
+  assert.equal(requiredGutter("kdp", 151), 0.5);
+  assert.equal(requiredGutter("kdp", 450), 0.625);
+  assert.equal(requiredGutter("kdp", 828), 0.875);
+  assert.equal(effectiveMargins(kdp, 100).inside, 0.5);
+  assert.equal(effectiveMargins(kdp, 600).inside, 0.75);
+});
+
+test("bleed raises the outside, top and bottom minimums", () => {
+  assert.deepEqual(minimumMargins("kdp", 200, false), {
+    top: 0.25,
+    bottom: 0.25,
+    inside: 0.5,
+    outside: 0.25,
+  });
+  assert.equal(minimumMargins("kdp", 200, true).outside, 0.375);
+});
+
+test("validation reports margins and page counts the platform rejects", () => {
+  assert.deepEqual(
+    validatePrintLayout(kdp, effectiveMargins(kdp, 200), 200),
+    [],
+  );
+
+  const bled = { ...kdp, bleed: true };
+  assert.deepEqual(
+    validatePrintLayout(bled, effectiveMargins(bled, 200), 200),
+    [],
+  );
+
+  const tight = {
+    ...kdp,
+    bleed: true,
+    margins: { top: 0.3, bottom: 0.5, inside: 0.5, outside: 0.5 },
+  };
+  assert.deepEqual(validatePrintLayout(tight, tight.margins, 400), [
+    'Top margin 0.3" is below the Amazon KDP minimum of 0.375" for 400 pages with bleed',
+    'Inside margin 0.5" is below the Amazon KDP minimum of 0.625" for 400 pages with bleed',
+  ]);
+
+  assert.deepEqual(validatePrintLayout(kdp, kdp.margins, 12), [
+    "Amazon KDP needs at least 24 pages; the interior has 12",
+  ]);
+});
@@ -0,0 +1,257 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { strToU8, zipSync } from "fflate";
+
+import {
+  convertUpload,
+  detectUploadFormat,
+  markdownToHtml,
+  parseFrontMatter,
+  splitHtmlSections,
+} from "../uploadFormats";
+
+const epubBytes = () =>
+  zipSync({
+    mimetype: strToU8("application/epub+zip"),
+    "META-INF/container.xml": strToU8(
+      `<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>`,
+    ),
+    "OEBPS/content.opf": strToU8(`<package>
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Walden</dc:title>
+    <dc:creator>Henry David Thoreau</dc:creator>
+    <dc:language>en</dc:language>
+    <dc:date>1854-08-09</dc:date>
+  </metadata>
+  <manifest>
+    <item id="c1" href="one.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c2" href="two.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine><itemref idref="c1"/><itemref idref="c2"/></spine>
+</package>`),
+    "OEBPS/one.xhtml": strToU8(
+      "<html><body><h2>Economy</h2><p>When I wrote the <em>following</em> pages.</p></body></html>",
+    ),
+    "OEBPS/two.xhtml": strToU8(
+      "<html><body><h2>Reading</h2><p>With a little more deliberation.</p></body></html>",
+    ),
+  });
+
+test("formats are detected from extension and zip contents", () => {
+  assert.equal(detectUploadFormat("pg11.txt", strToU8("Title: Alice")), "text");
+  assert.equal(detectUploadFormat("notes.md", strToU8("# Notes")), "markdown");
+  assert.equal(detectUploadFormat("book.htm", strToU8("<p>x</p>")), "html");
+  assert.equal(
+    detectUploadFormat("upload", strToU8("<!DOCTYPE html><html></html>")),
+    "html",
+  );
+  assert.equal(detectUploadFormat("walden.zip", epubBytes()), "epub");
+  assert.equal(
+    detectUploadFormat(
+      "site.zip",
+      zipSync({ "book/index.html": strToU8("<p>x</p>") }),
+    ),
+    "html_zip",
+  );
+  assert.equal(
+    detectUploadFormat(
+      "essay.docx",
+      zipSync({ "word/document.xml": strToU8("<w:document/>") }),
+    ),
+    "docx",
+  );
+  assert.throws(() => detectUploadFormat("broken.epub", strToU8("nope")));
+});
+
+test("EPUB uploads take metadata from the OPF", () => {
+  const converted = convertUpload("epub", "walden.epub", epubBytes());
+
+  assert.equal(converted.metadata.title, "Walden");
+  assert.equal(converted.metadata.author, "Henry David Thoreau");
+  assert.equal(converted.metadata.language, "en");
+  assert.equal(converted.metadata.year, 1854);
+  assert.deepEqual(
+    converted.chapters.map((chapter) => chapter.title),
+    ["Economy", "Reading"],
+  );
+  assert.match(
+    converted.book.markdown,
+    /When I wrote the \*following\* pages\./,
+  );
+});
+
+test("HTML splits at the repeated heading level and reads <meta> tags", () => {
+  const html = `<!DOCTYPE html>
+<html lang="fr"><head>
+  <title>Ignored when dc.title exists</title>
+  <meta name="DC.Title" content="Le Horla">
+  <meta name="author" content="Guy de Maupassant">
+  <meta name="dc.date" content="1887">
+</head><body>
+  <h1>Le Horla</h1>
+  <p>Preface text.</p>
+  <h2>8 mai</h2><p>Quelle journée admirable!</p>
+  <h2>12 mai</h2><p>J'ai un peu de fièvre.</p>
+</body></html>`;
+
+  const converted = convertUpload("html", "horla.html", strToU8(html));
+  assert.deepEqual(converted.metadata, {
+    title: "Le Horla",
+    author: "Guy de Maupassant",
+    language: "fr",
+    date: "1887",
+    year: 1887,
+  });
+  assert.deepEqual(
+    converted.chapters.map((chapter) => chapter.title),
+    ["Le Horla", "8 mai", "12 mai"],
+  );
+  assert.doesNotMatch(converted.book.markdown, /\{h1:Le Horla\}/);
+});
+
+test("a single heading does not split the document", () => {
+  const sections = splitHtmlSections(
+    "<h1>Essay</h1><p>One.</p><p>Two.</p>",
+    "Fallback",
+    "essay.html",
+  );
+  assert.equal(sections.length, 1);
+  assert.equal(sections[0].title, "Essay");
+  assert.doesNotMatch(sections[0].xhtml, /<h1>/);
+});
+
+test("HTML zips become one chapter per page in natural order", () => {
+  const bytes = zipSync({
+    "book/index.html": strToU8(
+      `<html><head><meta name="dc.creator" content="Anon"><title>Tales</title></head><body><h1>First</h1><p>One.</p></body></html>`,
+    ),
+    "book/ch10.html": strToU8(
+      "<html><body><h1>Tenth</h1><p>Ten.</p></body></html>",
+    ),
+    "book/ch2.html": strToU8(
+      "<html><body><h1>Second</h1><p>Two.</p></body></html>",
+    ),
+    "book/empty.html": strToU8("<html><body></body></html>"),
+  });
+
+  const converted = convertUpload("html_zip", "tales.zip", bytes);
+  assert.equal(converted.metadata.title, "Tales");
+  assert.equal(converted.metadata.author, "Anon");
+  assert.deepEqual(
+    converted.chapters.map((chapter) => chapter.title),
+    ["Second", "Tenth", "First"],
+  );
+  assert.ok(
+    converted.warnings.some((warning) => warning.includes("empty.html")),
+  );
+});
+
+test("Markdown front matter supplies metadata and inline markup is annotated", () => {
+  const source = `---
+title: "Short Stories"
+author:
+  - Kate Chopin
+date: 1897-01-01
+---
+
+# Short Stories
+
+## The Story of an Hour
+
+Knowing that Mrs. Mallard was **afflicted** with a *heart trouble*.[^1]
+
+[^1]: First published in Vogue.
+
+## Désirée's Baby
+
+- one
+- two
+`;
+
+  const { data, content } = parseFrontMatter(source);
+  assert.equal(data.author, "Kate Chopin");
+  assert.ok(content.startsWith("\n# Short Stories"));
+
+  const converted = convertUpload("markdown", "stories.md", strToU8(source));
+  assert.equal(converted.metadata.title, "Short Stories");
+  assert.equal(converted.metadata.author, "Kate Chopin");
+  assert.equal(converted.metadata.year, 1897);
+  assert.deepEqual(
+    converted.chapters.map((chapter) => chapter.title),
+    ["The Story of an Hour", "Désirée's Baby"],
+  );
+  assert.match(
+    converted.book.markdown,
+    /was \{bold:afflicted\} with a \*heart trouble\*\.\[\^1\]/,
+  );
+  assert.match(converted.book.markdown, /\[\^1\]: First published in Vogue\./);
+  assert.match(converted.book.markdown, /- one\n- two/);
+});
+
+test("Markdown escapes and lists convert to XHTML", () => {
+  assert.equal(
+    markdownToHtml("A \\*literal\\* star\n\n1. first\n2. second"),
+    "<p>A &#42;literal&#42; star</p>\n<ol><li>first</li><li>second</li></ol>",
+  );
+});
+
+test("DOCX headings, runs, lists and footnotes convert; core.xml gives metadata", () => {
+  const paragraph = (body: string, style?: string, numId?: string) =>
+    `<w:p><w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ""}${
+      numId
+        ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>`
+        : ""
+    }</w:pPr>${body}</w:p>`;
+  const run = (text: string, rPr = "") =>
+    `<w:r>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ""}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+
+  const documentXml = `<w:document><w:body>
+${paragraph(run("The Yellow Wallpaper"), "Title")}
+${paragraph(run("Part One"), "Heading1")}
+${paragraph(run("It is very seldom that ") + run("mere", "<w:i/>") + run(" ordinary people.") + '<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:footnoteReference w:id="1"/></w:r>')}
+${paragraph(run("John laughs"), undefined, "3")}
+${paragraph(run("I sometimes fancy"), undefined, "3")}
+${paragraph(run("Part Two"), "Heading1")}
+${paragraph(run("We have been here ") + run("two weeks", "<w:b/>") + run("."))}
+<w:sectPr/></w:body></w:document>`;
+
+  const bytes = zipSync({
+    "word/document.xml": strToU8(documentXml),
+    "word/styles.xml": strToU8(`<w:styles>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+</w:styles>`),
+    "word/numbering.xml": strToU8(`<w:numbering>
+<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl></w:abstractNum>
+<w:num w:numId="3"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`),
+    "word/footnotes.xml": strToU8(`<w:footnotes>
+<w:footnote w:type="separator" w:id="-1"><w:p>${run("---")}</w:p></w:footnote>
+<w:footnote w:id="1"><w:p>${run("Published 1892.")}</w:p></w:footnote>
+</w:footnotes>`),
+    "docProps/core.xml": strToU8(`<cp:coreProperties>
+<dc:title>The Yellow Wallpaper</dc:title>
+<dc:creator>Charlotte Perkins Gilman</dc:creator>
+<dcterms:created>1892-01-01T00:00:00Z</dcterms:created>
+</cp:coreProperties>`),
+  });
+
+  const converted = convertUpload("docx", "wallpaper.docx", bytes);
+  assert.equal(converted.metadata.title, "The Yellow Wallpaper");
+  assert.equal(converted.metadata.author, "Charlotte Perkins Gilman");
+  assert.equal(converted.metadata.year, 1892);
+  assert.deepEqual(
+    converted.chapters.map((chapter) => chapter.title),
+    ["Part One", "Part Two"],
+  );
+
+  const markdown = converted.book.markdown;
+  assert.match(
+    markdown,
+    /It is very seldom that \*mere\* ordinary people\.\[\^fn-1\]/,
+  );
+  assert.match(markdown, /\[\^fn-1\]: Published 1892\./);
+  assert.match(markdown, /1\. John laughs\n2\. I sometimes fancy/);
+  assert.match(markdown, /We have been here \{bold:two weeks\}\./);
+});
@@ -8,9 +8,12 @@
  * @module
  */
 
+import type * as annotatedMarkdown from "../annotatedMarkdown.js";
 import type * as auth from "../auth.js";
 import type * as books from "../books.js";
 import type * as chunkPlanner from "../chunkPlanner.js";
+import type * as cleanText from "../cleanText.js";
+import type * as cleanTextExport from "../cleanTextExport.js";
 import type * as cleanup from "../cleanup.js";
 import type * as cleanupAi from "../cleanupAi.js";
 import type * as cleanupAiClient from "../cleanupAiClient.js";
@@ -22,19 +25,53 @@ import type * as cleanupPatchApply from "../cleanupPatchApply.js";
 import type * as cleanupPipeline from "../cleanupPipeline.js";
 import type * as cleanupPrompts from "../cleanupPrompts.js";
 import type * as cleanupTelemetry from "../cleanupTelemetry.js";
+import type * as collectionBuild from "../collectionBuild.js";
+import type * as collectionExport from "../collectionExport.js";
+import type * as collections from "../collections.js";
+import type * as contributorMatching from "../contributorMatching.js";
+import type * as contributors from "../contributors.js";
 import type * as copyrightAi from "../copyrightAi.js";
+import type * as copyrightAudit from "../copyrightAudit.js";
 import type * as copyrightParser from "../copyrightParser.js";
+import type * as copyrightReview from "../copyrightReview.js";
+import type * as copyrightRules from "../copyrightRules.js";
+import type * as coverExport from "../coverExport.js";
+import type * as coverLayout from "../coverLayout.js";
+import type * as coverPdf from "../coverPdf.js";
+import type * as crons from "../crons.js";
+import type * as datasetBuild from "../datasetBuild.js";
+import type * as datasets from "../datasets.js";
+import type * as discoverySearch from "../discoverySearch.js";
+import type * as editionMatching from "../editionMatching.js";
+import type * as editions from "../editions.js";
+import type * as epubBuild from "../epubBuild.js";
+import type * as epubExport from "../epubExport.js";
+import type * as epubExtract from "../epubExtract.js";
+import type * as epubPackage from "../epubPackage.js";
+import type * as exportJobs from "../exportJobs.js";
+import type * as exports from "../exports.js";
 import type * as files from "../files.js";
+import type * as gutenbergCatalog from "../gutenbergCatalog.js";
+import type * as gutenbergMetadata from "../gutenbergMetadata.js";
 import type * as http from "../http.js";
 import type * as ingestJobs from "../ingestJobs.js";
+import type * as ingestRetryPolicy from "../ingestRetryPolicy.js";
 import type * as intake from "../intake.js";
 import type * as intakeMetadata from "../intakeMetadata.js";
 import type * as jobStages from "../jobStages.js";
 import type * as jobs from "../jobs.js";
+import type * as metadataEdits from "../metadataEdits.js";
 import type * as openrouterRouting from "../openrouterRouting.js";
+import type * as pdfExport from "../pdfExport.js";
+import type * as pdfInterior from "../pdfInterior.js";
+import type * as pdfLayout from "../pdfLayout.js";
+import type * as printSpecs from "../printSpecs.js";
 import type * as router from "../router.js";
 import type * as studyGuides from "../studyGuides.js";
+import type * as templatePreview from "../templatePreview.js";
 import type * as templates from "../templates.js";
+import type * as uploadFormats from "../uploadFormats.js";
+import type * as xhtmlTree from "../xhtmlTree.js";
 
 import type {
   ApiFromModules,
@@ -43,9 +80,12 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  annotatedMarkdown: typeof annotatedMarkdown;
   auth: typeof auth;
   books: typeof books;
   chunkPlanner: typeof chunkPlanner;
+  cleanText: typeof cleanText;
+  cleanTextExport: typeof cleanTextExport;
   cleanup: typeof cleanup;
   cleanupAi: typeof cleanupAi;
   cleanupAiClient: typeof cleanupAiClient;
@@ -57,19 +97,53 @@ declare const fullApi: ApiFromModules<{
   cleanupPipeline: typeof cleanupPipeline;
   cleanupPrompts: typeof cleanupPrompts;
   cleanupTelemetry: typeof cleanupTelemetry;
+  collectionBuild: typeof collectionBuild;
+  collectionExport: typeof collectionExport;
+  collections: typeof collections;
+  contributorMatching: typeof contributorMatching;
+  contributors: typeof contributors;
   copyrightAi: typeof copyrightAi;
+  copyrightAudit: typeof copyrightAudit;
   copyrightParser: typeof copyrightParser;
+  copyrightReview: typeof copyrightReview;
+  copyrightRules: typeof copyrightRules;
+  coverExport: typeof coverExport;
+  coverLayout: typeof coverLayout;
+  coverPdf: typeof coverPdf;
+  crons: typeof crons;
+  datasetBuild: typeof datasetBuild;
+  datasets: typeof datasets;
+  discoverySearch: typeof discoverySearch;
+  editionMatching: typeof editionMatching;
+  editions: typeof editions;
+  epubBuild: typeof epubBuild;
+  epubExport: typeof epubExport;
+  epubExtract: typeof epubExtract;
+  epubPackage: typeof epubPackage;
+  exportJobs: typeof exportJobs;
+  exports: typeof exports;
   files: typeof files;
+  gutenbergCatalog: typeof gutenbergCatalog;
+  gutenbergMetadata: typeof gutenbergMetadata;
   http: typeof http;
   ingestJobs: typeof ingestJobs;
+  ingestRetryPolicy: typeof ingestRetryPolicy;
   intake: typeof intake;
   intakeMetadata: typeof intakeMetadata;
   jobStages: typeof jobStages;
   jobs: typeof jobs;
+  metadataEdits: typeof metadataEdits;
   openrouterRouting: typeof openrouterRouting;
+  pdfExport: typeof pdfExport;
+  pdfInterior: typeof pdfInterior;
+  pdfLayout: typeof pdfLayout;
+  printSpecs: typeof printSpecs;
   router: typeof router;
   studyGuides: typeof studyGuides;
+  templatePreview: typeof templatePreview;
   templates: typeof templates;
+  uploadFormats: typeof uploadFormats;
+  xhtmlTree: typeof xhtmlTree;
 }>;
 
 /**
@@ -0,0 +1,445 @@
+/**
+ * Annotated markdown format
+ *
+ * Structured text representation shared by the ingest daemon (EPUB extraction),
+ * cleanup and typesetting. Chapters are separated by `## Title` lines; inside a
+ * chapter every block is separated by a blank line:
+ *
+ *   {h1:Heading} .. {h6:Heading}   heading (own line)
+ *   > quoted block                 blockquote (nested blocks, "> " prefixed)
+ *   ::: verse ... :::              verse; one line per verse line, blank line between stanzas
+ *   - item / 1. item               unordered / ordered list
+ *   | cell | cell |                table; "| --- |" after the first row marks a header row
+ *   [^id]: footnote text           footnote body, referenced inline by [^id]
+ *   * * *                          section break
+ *   anything else                  paragraph (single line)
+ *
+ * Inline markers: *emphasis*, {bold:...}, {sup:...}, {smallcaps:...}, [^id].
+ * A backslash escapes the next character.
+ */
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "emphasis"; children: InlineNode[] }
+  | { type: "bold"; children: InlineNode[] }
+  | { type: "superscript"; children: InlineNode[] }
+  | { type: "smallcaps"; children: InlineNode[] }
+  | { type: "footnoteRef"; id: string };
+
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+export type BlockNode =
+  | { type: "heading"; level: HeadingLevel; children: InlineNode[] }
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "blockquote"; children: BlockNode[] }
+  | { type: "verse"; stanzas: InlineNode[][][] }
+  | { type: "list"; ordered: boolean; items: InlineNode[][] }
+  | { type: "table"; hasHeader: boolean; rows: InlineNode[][][] }
+  | { type: "footnote"; id: string; children: InlineNode[] }
+  | { type: "break" };
+
+export type AnnotatedSection = {
+  title: string;
+  blocks: BlockNode[];
+};
+
+const WRAPPED_INLINE = {
+  bold: "bold",
+  sup: "superscript",
+  smallcaps: "smallcaps",
+} as const;
+
+const WRAPPER_FOR_TYPE: Record<string, string> = {
+  bold: "bold",
+  superscript: "sup",
+  smallcaps: "smallcaps",
+};
+
+const FOOTNOTE_ID = /^[A-Za-z0-9_-]+$/;
+const BLOCK_START = /^(>|-\s|#|:::|\||\d+\.\s)/;
+const HEADING_LINE = /^\{h([1-6]):(.*)\}$/;
+const FOOTNOTE_LINE = /^\[\^([A-Za-z0-9_-]+)\]:\s?(.*)$/;
+const TABLE_SEPARATOR = /^\|(\s*-{3,}\s*\|)+$/;
+
+export function sanitizeFootnoteId(id: string): string {
+  const cleaned = id.replace(/[^A-Za-z0-9_-]+/g, "-").replace(/^-+|-+$/g, "");
+  return cleaned || "note";
+}
+
+// ─── Serialization ─────────────────────────────────────────────────────────
+
+function escapeText(text: string, extra = ""): string {
+  let escaped = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (
+      char === "\\" ||
+      char === "*" ||
+      char === "{" ||
+      char === "}" ||
+      (char === "[" && text[i + 1] === "^") ||
+      extra.includes(char)
+    ) {
+      escaped += "\\";
+    }
+    escaped += char;
+  }
+  return escaped;
+}
+
+export function serializeInline(
+  nodes: InlineNode[],
+  extraEscapes = "",
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeText(node.text, extraEscapes);
+        case "emphasis":
+          return `*${serializeInline(node.children, extraEscapes)}*`;
+        case "footnoteRef":
+          return `[^${sanitizeFootnoteId(node.id)}]`;
+        default:
+          return `{${WRAPPER_FOR_TYPE[node.type]}:${serializeInline(
+            node.children,
+            extraEscapes,
+          )}}`;
+      }
+    })
+    .join("");
+}
+
+function serializeLine(nodes: InlineNode[]): string {
+  const line = serializeInline(nodes);
+  return BLOCK_START.test(line) ? `\\${line}` : line;
+}
+
+function serializeBlock(block: BlockNode): string {
+  switch (block.type) {
+    case "heading":
+      return `{h${block.level}:${serializeInline(block.children)}}`;
+    case "paragraph":
+      return serializeLine(block.children);
+    case "blockquote":
+      return serializeBlocks(block.children)
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "verse":
+      return [
+        "::: verse",
+        block.stanzas
+          .map((stanza) => stanza.map(serializeLine).join("\n"))
+          .join("\n\n"),
+        ":::",
+      ].join("\n");
+    case "list":
+      return block.items
+        .map(
+          (item, index) =>
+            `${block.ordered ? `${index + 1}.` : "-"} ${serializeInline(item)}`,
+        )
+        .join("\n");
+    case "table": {
+      const lines = block.rows.map(
+        (row) =>
+          `| ${row.map((cell) => serializeInline(cell, "|")).join(" | ")} |`,
+      );
+      if (block.hasHeader && lines.length > 0) {
+        const width = block.rows[0].length;
+        lines.splice(1, 0, `|${" --- |".repeat(Math.max(width, 1))}`);
+      }
+      return lines.join("\n");
+    }
+    case "footnote":
+      return `[^${sanitizeFootnoteId(block.id)}]: ${serializeInline(block.children)}`;
+    case "break":
+      return "* * *";
+  }
+}
+
+export function serializeBlocks(blocks: BlockNode[]): string {
+  return blocks.map(serializeBlock).join("\n\n");
+}
+
+export function serializeAnnotatedBook(sections: AnnotatedSection[]): string {
+  return sections
+    .map((section) => {
+      const body = serializeBlocks(section.blocks);
+      return body ? `## ${section.title}\n\n${body}` : `## ${section.title}`;
+    })
+    .join("\n\n");
+}
+
+// ─── Parsing ───────────────────────────────────────────────────────────────
+
+type InlineParse = { nodes: InlineNode[]; index: number; closed: boolean };
+
+function pushText(nodes: InlineNode[], text: string) {
+  if (!text) {
+    return;
+  }
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.text += text;
+  } else {
+    nodes.push({ type: "text", text });
+  }
+}
+
+function parseInlineUntil(
+  source: string,
+  start: number,
+  terminator: "*" | "}" | null,
+): InlineParse {
+  const nodes: InlineNode[] = [];
+  let i = start;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === "\\" && i + 1 < source.length) {
+      pushText(nodes, source[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (terminator && char === terminator) {
+      return { nodes, index: i + 1, closed: true };
+    }
+
+    if (char === "*" && terminator !== "*") {
+      const inner = parseInlineUntil(source, i + 1, "*");
+      if (inner.closed && inner.nodes.length > 0) {
+        nodes.push({ type: "emphasis", children: inner.nodes });
+        i = inner.index;
+        continue;
+      }
+    }
+
+    if (char === "{") {
+      const match = source.slice(i).match(/^\{(bold|sup|smallcaps):/);
+      if (match) {
+        const inner = parseInlineUntil(source, i + match[0].length, "}");
+        if (inner.closed) {
+          nodes.push({
+            type: WRAPPED_INLINE[match[1] as keyof typeof WRAPPED_INLINE],
+            children: inner.nodes,
+          });
+          i = inner.index;
+          continue;
+        }
+      }
+    }
+
+    if (char === "[" && source[i + 1] === "^") {
+      const match = source.slice(i).match(/^\[\^([A-Za-z0-9_-]+)\]/);
+      if (match) {
+        nodes.push({ type: "footnoteRef", id: match[1] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    pushText(nodes, char);
+    i += 1;
+  }
+
+  return { nodes, index: i, closed: false };
+}
+
+export function parseInline(source: string): InlineNode[] {
+  return parseInlineUntil(source, 0, null).nodes;
+}
+
+function splitTableRow(line: string): string[] {
+  const inner = line.trim().replace(/^\|/, "").replace(/\|$/, "");
+  const cells: string[] = [];
+  let current = "";
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] === "\\" && i + 1 < inner.length) {
+      current += inner[i] + inner[i + 1];
+      i += 1;
+      continue;
+    }
+    if (inner[i] === "|") {
+      cells.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += inner[i];
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseGroup(lines: string[]): BlockNode[] {
+  const first = lines[0];
+
+  if (lines.every((line) => line === ">" || line.startsWith("> "))) {
+    const inner = lines.map((line) => (line === ">" ? "" : line.slice(2)));
+    return [{ type: "blockquote", children: parseBlocks(inner.join("\n")) }];
+  }
+
+  if (lines.length === 1) {
+    const heading = first.match(HEADING_LINE);
+    if (heading) {
+      return [
+        {
+          type: "heading",
+          level: Number(heading[1]) as HeadingLevel,
+          children: parseInline(heading[2]),
+        },
+      ];
+    }
+
+    const footnote = first.match(FOOTNOTE_LINE);
+    if (footnote) {
+      return [
+        {
+          type: "footnote",
+          id: footnote[1],
+          children: parseInline(footnote[2]),
+        },
+      ];
+    }
+
+    if (first === "* * *") {
+      return [{ type: "break" }];
+    }
+  }
+
+  if (lines.every((line) => line.startsWith("- "))) {
+    return [
+      {
+        type: "list",
+        ordered: false,
+        items: lines.map((line) => parseInline(line.slice(2))),
+      },
+    ];
+  }
+
+  if (lines.every((line) => /^\d+\.\s/.test(line))) {
+    return [
+      {
+        type: "list",
+        ordered: true,
+        items: lines.map((line) => parseInline(line.replace(/^\d+\.\s/, ""))),
+      },
+    ];
+  }
+
+  if (lines.every((line) => line.startsWith("|"))) {
+    const hasHeader = lines.length > 1 && TABLE_SEPARATOR.test(lines[1]);
+    const rowLines = hasHeader ? [lines[0], ...lines.slice(2)] : lines;
+    return [
+      {
+        type: "table",
+        hasHeader,
+        rows: rowLines.map((line) => splitTableRow(line).map(parseInline)),
+      },
+    ];
+  }
+
+  return lines.map((line) => ({
+    type: "paragraph",
+    children: parseInline(line),
+  }));
+}
+
+export function parseBlocks(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockNode[] = [];
+  let group: string[] = [];
+
+  const flush = () => {
+    if (group.length > 0) {
+      blocks.push(...parseGroup(group));
+      group = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim() === "::: verse" && group.length === 0) {
+      const stanzas: InlineNode[][][] = [];
+      let stanza: InlineNode[][] = [];
+      i += 1;
+      while (i < lines.length && lines[i].trim() !== ":::") {
+        if (lines[i].trim() === "") {
+          if (stanza.length > 0) {
+            stanzas.push(stanza);
+          }
+          stanza = [];
+        } else {
+          stanza.push(parseInline(lines[i]));
+        }
+        i += 1;
+      }
+      if (stanza.length > 0) {
+        stanzas.push(stanza);
+      }
+      blocks.push({ type: "verse", stanzas });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flush();
+      continue;
+    }
+
+    group.push(line);
+  }
+
+  flush();
+  return blocks;
+}
+
+/**
+ * Split a whole annotated book into `## Title` sections
+ * Text before the first chapter heading becomes an untitled section.
+ */
+export function parseAnnotatedBook(source: string): AnnotatedSection[] {
+  const sections: AnnotatedSection[] = [];
+  let title: string | null = null;
+  let body: string[] = [];
+
+  const flush = () => {
+    const text = body.join("\n");
+    if (title !== null || text.trim()) {
+      sections.push({ title: title ?? "", blocks: parseBlocks(text) });
+    }
+  };
+
+  for (const line of source.replace(/\r\n?/g, "\n").split("\n")) {
+    if (line.startsWith("## ")) {
+      flush();
+      title = line.slice(3).trim();
+      body = [];
+      continue;
+    }
+    body.push(line);
+  }
+
+  flush();
+  return sections;
+}
+
+/**
+ * Flatten inline nodes to plain text (markers removed)
+ */
+export function inlineToPlainText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") {
+        return node.text;
+      }
+      if (node.type === "footnoteRef") {
+        return "";
+      }
+      return inlineToPlainText(node.children);
+    })
+    .join("");
+}
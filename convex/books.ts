@@ -1,14 +1,196 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, type MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
 import { api } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { detachFromWorkFamily } from "./editions";
+import { removeBookFromCollections } from "./collections";
+import { deleteBookCredits, syncBookContributors } from "./contributors";
+import { loadCopyrightGate, scheduleCopyrightRecheck } from "./copyrightReview";
+import {
+  lowConfidenceFields,
+  metadataFieldNameValidator,
+  publicationYearFrom,
+  type MetadataFieldName,
+  type MetadataFields,
+} from "./gutenbergMetadata";
+import {
+  contributorsFromMetadata,
+  diffMetadata,
+  metadataEditsValidator,
+  metadataFieldsAfterChanges,
+  metadataValuesEqual,
+  normalizeMetadataEdits,
+  type EditableMetadata,
+  type EditableMetadataField,
+  type MetadataChange,
+} from "./metadataEdits";
+
+// Book columns kept in sync with a reviewed metadata field
+const METADATA_COLUMNS: Partial<
+  Record<
+    MetadataFieldName,
+    "title" | "author" | "subtitle" | "series" | "language" | "releaseDate"
+  >
+> = {
+  title: "title",
+  author: "author",
+  subtitle: "subtitle",
+  series: "series",
+  language: "language",
+  releaseDate: "releaseDate",
+};
+
+// Edit-form field a reviewed metadata field corresponds to, for history
+const REVIEW_HISTORY_FIELD: Partial<
+  Record<MetadataFieldName, EditableMetadataField>
+> = {
+  title: "title",
+  author: "author",
+  subtitle: "subtitle",
+  series: "series",
+  language: "language",
+  originalPublicationDate: "publicationYear",
+};
+
+// Reviewed fields that feed a book's derived contributor credits
+const CREDIT_FIELDS = new Set<MetadataFieldName>([
+  "author",
+  "translator",
+  "illustrator",
+  "editor",
+]);
+
+// Edited fields that feed the copyright verdicts
+const COPYRIGHT_INPUT_FIELDS = new Set<EditableMetadataField>([
+  "author",
+  "contributors",
+  "publicationYear",
+]);
+
+function editableMetadata(book: Doc<"books">): EditableMetadata {
+  return {
+    title: book.title,
+    author: book.author,
+    subtitle: book.subtitle,
+    series: book.series,
+    language: book.language,
+    publicationYear: book.publicationYear,
+    gutenbergId: book.gutenbergId,
+    contributors:
+      book.contributors ??
+      contributorsFromMetadata(book.author, book.metadataFields),
+    subjects: book.subjects,
+  };
+}
+
+/**
+ * Refuse a Gutenberg ID change that would give two books the same ID
+ */
+async function assertGutenbergIdAvailable(
+  ctx: MutationCtx,
+  book: Doc<"books">,
+  changes: MetadataChange[],
+) {
+  const gutenbergId = changes.find(
+    (change) => change.field === "gutenbergId",
+  )?.newValue;
+  if (typeof gutenbergId !== "string") {
+    return;
+  }
+  const existing = await ctx.db
+    .query("books")
+    .withIndex("by_gutenberg_id", (q) => q.eq("gutenbergId", gutenbergId))
+    .first();
+  if (existing && existing._id !== book._id) {
+    throw new Error(
+      `Gutenberg ID ${gutenbergId} already belongs to "${existing.title}"`,
+    );
+  }
+}
+
+/**
+ * Write metadata changes to the book and record each one in
+ * bookMetadataHistory with the signed-in user
+ */
+async function applyMetadataChanges(
+  ctx: MutationCtx,
+  book: Doc<"books">,
+  changes: MetadataChange[],
+  kind: "edit" | "revert",
+  revertOf?: Id<"bookMetadataHistory">,
+) {
+  if (changes.length === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const changedBy = (await getAuthUserId(ctx)) ?? undefined;
+  const metadataFields = metadataFieldsAfterChanges(
+    book.metadataFields,
+    changes,
+    now,
+  );
+
+  await ctx.db.patch(book._id, {
+    ...Object.fromEntries(
+      changes.map((change) => [change.field, change.newValue]),
+    ),
+    metadataFields,
+    metadataNeedsReview: lowConfidenceFields(metadataFields).length > 0,
+  });
+
+  if (
+    changes.some(
+      (change) => change.field === "author" || change.field === "contributors",
+    )
+  ) {
+    const updated = await ctx.db.get(book._id);
+    if (updated) {
+      await syncBookContributors(ctx, updated);
+    }
+  }
+
+  if (changes.some((change) => COPYRIGHT_INPUT_FIELDS.has(change.field))) {
+    await scheduleCopyrightRecheck(ctx, [book._id], "metadata_edit");
+  }
+
+  for (const change of changes) {
+    await ctx.db.insert("bookMetadataHistory", {
+      bookId: book._id,
+      ...change,
+      kind,
+      changedBy,
+      changedAt: now,
+      revertOf,
+    });
+  }
+}
 
 export const list = query({
   args: {
     search: v.optional(v.string()),
+    // Only books crediting this contributor, for browsing by author
+    contributorId: v.optional(v.id("contributors")),
   },
   handler: async (ctx, args) => {
     let books = await ctx.db.query("books").order("desc").collect();
 
+    if (args.contributorId) {
+      const contributorId = args.contributorId;
+      const credited = new Set(
+        (
+          await ctx.db
+            .query("bookContributors")
+            .withIndex("by_contributor_id", (q) =>
+              q.eq("contributorId", contributorId),
+            )
+            .collect()
+        ).map((row) => row.bookId),
+      );
+      books = books.filter((book) => credited.has(book._id));
+    }
+
     if (args.search) {
       const searchLower = args.search.toLowerCase();
       books = books.filter(
@@ -30,6 +212,7 @@ export const list = query({
           copyrightReason: check?.assessment?.reason,
           copyrightPublicationYear: check?.headerAnalysis?.publicationYear,
           copyrightWarnings: check?.headerAnalysis?.warningFlags,
+          copyrightTerritories: check?.territoryVerdicts,
         };
       }),
     );
@@ -61,8 +244,9 @@ export const create = mutation({
 
 export const createFromFile = mutation({
   args: {
-    title: v.string(),
-    author: v.string(),
+    // Optional: intake reads them from the file when omitted
+    title: v.optional(v.string()),
+    author: v.optional(v.string()),
     fileId: v.id("_storage"),
     fileName: v.string(),
     gutenbergId: v.optional(v.string()),
@@ -104,9 +288,196 @@ export const updateTemplate = mutation({
   },
 });
 
+/**
+ * Confirm an extracted metadata field, optionally correcting its value
+ * The field becomes full-confidence with the reviewer as its source.
+ */
+export const reviewMetadataField = mutation({
+  args: {
+    bookId: v.id("books"),
+    field: metadataFieldNameValidator,
+    value: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    if (!book) {
+      throw new Error(`Book ${args.bookId} not found`);
+    }
+
+    const existing = book.metadataFields?.[args.field];
+    const value = (args.value ?? existing?.value)?.trim();
+    if (!value) {
+      throw new Error(`No value to confirm for ${args.field}`);
+    }
+
+    const fields: MetadataFields = {
+      ...book.metadataFields,
+      [args.field]: {
+        ...existing,
+        value,
+        confidence: 1,
+        source: "reviewer",
+        reviewedAt: Date.now(),
+      },
+    };
+
+    const column = METADATA_COLUMNS[args.field];
+    const historyField = REVIEW_HISTORY_FIELD[args.field];
+    const previousValue = historyField
+      ? editableMetadata(book)[historyField]
+      : undefined;
+    await ctx.db.patch(args.bookId, {
+      metadataFields: fields,
+      metadataNeedsReview: lowConfidenceFields(fields).length > 0,
+      ...(column ? { [column]: value } : {}),
+      ...(args.field === "originalPublicationDate"
+        ? { publicationYear: publicationYearFrom(fields) }
+        : {}),
+    });
+
+    const updated = await ctx.db.get(args.bookId);
+    if (updated && CREDIT_FIELDS.has(args.field)) {
+      await syncBookContributors(ctx, updated);
+    }
+    if (
+      CREDIT_FIELDS.has(args.field) ||
+      args.field === "originalPublicationDate"
+    ) {
+      await scheduleCopyrightRecheck(ctx, [args.bookId], "metadata_review");
+    }
+
+    if (updated && historyField) {
+      const newValue = editableMetadata(updated)[historyField];
+      if (!metadataValuesEqual(previousValue, newValue)) {
+        await ctx.db.insert("bookMetadataHistory", {
+          bookId: args.bookId,
+          field: historyField,
+          previousValue,
+          newValue,
+          kind: "review",
+          changedBy: (await getAuthUserId(ctx)) ?? undefined,
+          changedAt: Date.now(),
+        });
+      }
+    }
+    return null;
+  },
+});
+
+/**
+ * Current values for the Library metadata edit form
+ */
+export const getEditableMetadata = query({
+  args: {
+    bookId: v.id("books"),
+  },
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    return book ? editableMetadata(book) : null;
+  },
+});
+
+/**
+ * Edit a book's metadata from the Library form
+ * Omitted fields are untouched and null clears one; returns the number of
+ * fields that actually changed.
+ */
+export const updateMetadata = mutation({
+  args: {
+    bookId: v.id("books"),
+    edits: metadataEditsValidator,
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    if (!book) {
+      throw new Error(`Book ${args.bookId} not found`);
+    }
+
+    const changes = diffMetadata(
+      editableMetadata(book),
+      normalizeMetadataEdits(args.edits),
+    );
+
+    await assertGutenbergIdAvailable(ctx, book, changes);
+    await applyMetadataChanges(ctx, book, changes, "edit");
+    return changes.length;
+  },
+});
+
+/**
+ * Restore a field to the value it had before a history entry
+ */
+export const revertMetadataField = mutation({
+  args: {
+    historyId: v.id("bookMetadataHistory"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.historyId);
+    if (!entry) {
+      throw new Error(`History entry ${args.historyId} not found`);
+    }
+    const book = await ctx.db.get(entry.bookId);
+    if (!book) {
+      throw new Error(`Book ${entry.bookId} not found`);
+    }
+
+    const currentValue = editableMetadata(book)[entry.field];
+    if (metadataValuesEqual(currentValue, entry.previousValue)) {
+      throw new Error(`${entry.field} already has that value`);
+    }
+    if (entry.field === "title" || entry.field === "author") {
+      if (typeof entry.previousValue !== "string") {
+        throw new Error(`${entry.field} cannot be cleared`);
+      }
+    }
+
+    const changes = [
+      {
+        field: entry.field,
+        previousValue: currentValue,
+        newValue: entry.previousValue,
+      },
+    ];
+    await assertGutenbergIdAvailable(ctx, book, changes);
+    await applyMetadataChanges(ctx, book, changes, "revert", entry._id);
+    return null;
+  },
+});
+
+/**
+ * Metadata change history for a book, newest first
+ */
+export const metadataHistory = query({
+  args: {
+    bookId: v.id("books"),
+  },
+  handler: async (ctx, args) => {
+    const entries = await ctx.db
+      .query("bookMetadataHistory")
+      .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      entries.map(async (entry) => {
+        const user = entry.changedBy ? await ctx.db.get(entry.changedBy) : null;
+        return {
+          ...entry,
+          changedByName:
+            user?.name ?? user?.email ?? (user ? "Anonymous" : undefined),
+        };
+      }),
+    );
+  },
+});
+
 /**
  * Check if a book is ready for downstream actions (template/export)
- * Book must have status "ready" meaning cleanup is approved
+ * Book must have status "ready" meaning cleanup is approved, and its
+ * copyright must be cleared (or manually cleared with a recorded reason)
  */
 export const getDownstreamReadiness = query({
   args: {
@@ -123,6 +494,8 @@ export const getDownstreamReadiness = query({
       v.literal("ready"),
     ),
     hasApprovedCleanup: v.boolean(),
+    copyrightCleared: v.boolean(),
+    copyrightReason: v.optional(v.string()),
     requiredActions: v.array(v.string()),
   }),
   handler: async (ctx, args) => {
@@ -156,17 +529,36 @@ export const getDownstreamReadiness = query({
       requiredActions.push("Wait for cleanup to complete");
     }
 
+    const weakFields = lowConfidenceFields(book.metadataFields ?? {});
+    if (weakFields.length > 0) {
+      requiredActions.push(
+        `Review low-confidence metadata: ${weakFields.join(", ")}`,
+      );
+    }
+
+    const copyright = await loadCopyrightGate(ctx, book);
+    if (!copyright.allowed) {
+      requiredActions.push(`Resolve copyright: ${copyright.reason}`);
+    }
+
     return {
-      isReady: hasApprovedCleanup && revisions.length > 0,
+      isReady:
+        hasApprovedCleanup &&
+        revisions.length > 0 &&
+        weakFields.length === 0 &&
+        copyright.allowed,
       status: book.status,
       hasApprovedCleanup,
+      copyrightCleared: copyright.allowed,
+      copyrightReason: copyright.reason,
       requiredActions,
     };
   },
 });
 
 /**
- * List books that are ready for template/export (approved cleanup)
+ * List books that are ready for template/export (approved cleanup and
+ * cleared copyright)
  */
 export const listReadyBooks = query({
   args: {
@@ -189,7 +581,40 @@ export const listReadyBooks = query({
       );
     }
 
-    return books;
+    const gates = await Promise.all(
+      books.map((book) => loadCopyrightGate(ctx, book)),
+    );
+    return books.filter((_, index) => gates[index].allowed);
+  },
+});
+
+/**
+ * Approved books held back by copyright, with the blocking reason
+ */
+export const listCopyrightHeldBooks = query({
+  args: {},
+  handler: async (ctx) => {
+    const books = await ctx.db
+      .query("books")
+      .filter((q) => q.eq(q.field("status"), "ready"))
+      .order("desc")
+      .collect();
+
+    const held = await Promise.all(
+      books.map(async (book) => {
+        const gate = await loadCopyrightGate(ctx, book);
+        return gate.allowed
+          ? null
+          : {
+              _id: book._id,
+              title: book.title,
+              author: book.author,
+              copyrightStatus: book.copyrightStatus ?? "unknown",
+              reason: gate.reason ?? "Copyright not cleared",
+            };
+      }),
+    );
+    return held.filter((book) => book !== null);
   },
 });
 
@@ -298,6 +723,21 @@ export const deleteAllBooks = mutation({
         copyrightChecksDeleted++;
       }
 
+      for (const entry of await ctx.db
+        .query("bookMetadataHistory")
+        .withIndex("by_book_id", (q) => q.eq("bookId", book._id))
+        .collect()) {
+        await ctx.db.delete(entry._id);
+      }
+      for (const artifact of await ctx.db
+        .query("exports")
+        .withIndex("by_book_id", (q) => q.eq("bookId", book._id))
+        .collect()) {
+        await ctx.db.delete(artifact._id);
+      }
+      await deleteBookCredits(ctx, book._id);
+      await removeBookFromCollections(ctx, book._id);
+
       // Delete the book
       await ctx.db.delete(book._id);
       booksDeleted++;
@@ -310,6 +750,16 @@ export const deleteAllBooks = mutation({
       discoveryCandidatesDeleted++;
     }
 
+    // Work families and dismissed matches only reference books
+    for (const family of await ctx.db.query("workFamilies").collect()) {
+      await ctx.db.delete(family._id);
+    }
+    for (const dismissal of await ctx.db
+      .query("editionMatchDismissals")
+      .collect()) {
+      await ctx.db.delete(dismissal._id);
+    }
+
     // Clear any orphaned jobs without books
     const orphanedJobs = await ctx.db.query("jobs").collect();
     for (const job of orphanedJobs) {
@@ -433,6 +883,23 @@ export const deleteBook = mutation({
       jobsDeleted++;
     }
 
+    for (const entry of await ctx.db
+      .query("bookMetadataHistory")
+      .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
+      .collect()) {
+      await ctx.db.delete(entry._id);
+    }
+    for (const artifact of await ctx.db
+      .query("exports")
+      .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
+      .collect()) {
+      await ctx.db.delete(artifact._id);
+    }
+    await deleteBookCredits(ctx, args.bookId);
+    await removeBookFromCollections(ctx, args.bookId);
+
+    await detachFromWorkFamily(ctx, book);
+
     // Finally delete the book
     await ctx.db.delete(args.bookId);
 
@@ -0,0 +1,552 @@
+/**
+ * Clean text export
+ *
+ * Writes an approved revision as UTF-8 plain text or as Markdown with one
+ * `##` heading per chapter. The annotated markdown of each chapter is
+ * parsed into blocks first, so emphasis, verse, lists and footnotes come
+ * out in each format's own conventions: `_emphasis_` and indented quotes in
+ * plain text, CommonMark with footnotes and tables in Markdown.
+ *
+ * Project Gutenberg licence: a text may only carry the Project Gutenberg
+ * trademark together with the full licence. With the header and footer
+ * removed by cleanup, "strip" drops every block that mentions Project
+ * Gutenberg; "keep" leaves them in and puts the original header and
+ * licence footer back, and refuses when the original has no licence.
+ *
+ * Pure functions only - cleanTextExport.ts loads the text and stores the
+ * result.
+ */
+
+import { v, type Infer } from "convex/values";
+import {
+  inlineToPlainText,
+  parseBlocks,
+  parseInline,
+  sanitizeFootnoteId,
+  type BlockNode,
+  type InlineNode,
+} from "./annotatedMarkdown";
+
+export const quoteStyleValidator = v.union(
+  v.literal("smart"),
+  v.literal("ascii"),
+);
+
+export const gutenbergReferencesValidator = v.union(
+  v.literal("strip"),
+  v.literal("keep"),
+);
+
+export const textOptionsValidator = v.object({
+  // Column to wrap paragraphs at; unwrapped when absent
+  wrapWidth: v.optional(v.number()),
+  quotes: quoteStyleValidator,
+  gutenbergReferences: gutenbergReferencesValidator,
+});
+
+export type TextOptions = Infer<typeof textOptionsValidator>;
+
+export type TextFormat = "txt" | "markdown";
+
+export type CleanTextChapter = { title: string; text: string };
+
+export type GutenbergLicence = { header?: string; footer?: string };
+
+export const MIN_WRAP_WIDTH = 40;
+export const MAX_WRAP_WIDTH = 120;
+
+const GUTENBERG_REFERENCE =
+  /project\s+gutenberg|gutenberg(?:-tm|™)|gutenberg\.org/i;
+
+const SECTION_BREAK = "* * *";
+
+/**
+ * Problems with the export options, empty when they can be used
+ */
+export function textOptionsIssues(options: TextOptions): string[] {
+  const { wrapWidth } = options;
+  if (
+    wrapWidth !== undefined &&
+    (!Number.isInteger(wrapWidth) ||
+      wrapWidth < MIN_WRAP_WIDTH ||
+      wrapWidth > MAX_WRAP_WIDTH)
+  ) {
+    return [
+      `Line width must be a whole number from ${MIN_WRAP_WIDTH} to ${MAX_WRAP_WIDTH}`,
+    ];
+  }
+  return [];
+}
+
+export function mentionsGutenberg(text: string): boolean {
+  return GUTENBERG_REFERENCE.test(text);
+}
+
+const OPENING_CONTEXT = /[\s([{\u2014\u2013-]/;
+
+/**
+ * Curly quotes for straight ones. A quote opens after whitespace, an
+ * opening bracket or a dash (or at the start of the text) and closes
+ * otherwise, so apostrophes inside words close. `before` is the character
+ * preceding the text, for text split across inline nodes.
+ */
+export function smartenQuotes(text: string, before = ""): string {
+  let previous = before;
+  let result = "";
+  for (const char of text) {
+    const opening = previous === "" || OPENING_CONTEXT.test(previous);
+    if (char === '"') {
+      result += opening ? "\u201c" : "\u201d";
+    } else if (char === "'") {
+      result += opening ? "\u2018" : "\u2019";
+    } else {
+      result += char;
+    }
+    previous = char;
+  }
+  return result;
+}
+
+/**
+ * Straight quotes, hyphens and dots for their typographic forms
+ */
+export function asciiPunctuation(text: string): string {
+  return text
+    .replace(/[\u201c\u201d\u201e\u201f\u2033\u00ab\u00bb]/g, '"')
+    .replace(/[\u2018\u2019\u201a\u201b\u2032]/g, "'")
+    .replace(/\u2014/g, "--")
+    .replace(/[\u2013\u2010\u2011]/g, "-")
+    .replace(/\u2026/g, "...")
+    .replace(/\u00a0/g, " ");
+}
+
+/**
+ * Apply a text transform across inline nodes in reading order, passing
+ * each text the character before it
+ */
+function mapInlineText(
+  nodes: InlineNode[],
+  transform: (text: string, before: string) => string,
+  state = { previous: "" },
+): InlineNode[] {
+  return nodes.map((node) => {
+    if (node.type === "footnoteRef") {
+      return node;
+    }
+    if (node.type === "text") {
+      const text = transform(node.text, state.previous);
+      state.previous = text.slice(-1) || state.previous;
+      return { ...node, text };
+    }
+    return {
+      ...node,
+      children: mapInlineText(node.children, transform, state),
+    };
+  });
+}
+
+function mapBlockText(
+  block: BlockNode,
+  transform: (nodes: InlineNode[]) => InlineNode[],
+): BlockNode {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+    case "footnote":
+      return { ...block, children: transform(block.children) };
+    case "blockquote":
+      return {
+        ...block,
+        children: block.children.map((child) => mapBlockText(child, transform)),
+      };
+    case "verse":
+      return {
+        ...block,
+        stanzas: block.stanzas.map((stanza) => stanza.map(transform)),
+      };
+    case "list":
+      return { ...block, items: block.items.map(transform) };
+    case "table":
+      return {
+        ...block,
+        rows: block.rows.map((row) => row.map(transform)),
+      };
+    case "break":
+      return block;
+  }
+}
+
+function blockPlainText(block: BlockNode): string {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+    case "footnote":
+      return inlineToPlainText(block.children);
+    case "blockquote":
+      return block.children.map(blockPlainText).join("\n");
+    case "verse":
+      return block.stanzas
+        .flatMap((stanza) => stanza.map(inlineToPlainText))
+        .join("\n");
+    case "list":
+      return block.items.map(inlineToPlainText).join("\n");
+    case "table":
+      return block.rows
+        .flatMap((row) => row.map(inlineToPlainText))
+        .join("\n");
+    case "break":
+      return "";
+  }
+}
+
+/**
+ * Drop blocks that mention Project Gutenberg, counting what was removed
+ */
+function stripGutenbergBlocks(
+  blocks: BlockNode[],
+  removed: { count: number },
+): BlockNode[] {
+  return blocks.flatMap((block): BlockNode[] => {
+    if (block.type === "blockquote") {
+      const children = stripGutenbergBlocks(block.children, removed);
+      return children.length > 0 ? [{ ...block, children }] : [];
+    }
+    if (mentionsGutenberg(blockPlainText(block))) {
+      removed.count += 1;
+      return [];
+    }
+    return [block];
+  });
+}
+
+/**
+ * Greedy word wrap. Words longer than the width get a line of their own,
+ * and `keepWithPrevious` words never start a line.
+ */
+export function wrapText(
+  text: string,
+  width: number | undefined,
+  keepWithPrevious: (word: string) => boolean = () => false,
+): string[] {
+  if (width === undefined) {
+    return [text];
+  }
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/ +/).filter(Boolean)) {
+    if (line === "") {
+      line = word;
+    } else if (
+      line.length + 1 + word.length <= width ||
+      keepWithPrevious(word)
+    ) {
+      line += ` ${word}`;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  return [...lines, line];
+}
+
+// Words that would turn a wrapped Markdown line into a heading, list or quote
+const MARKDOWN_BLOCK_MARKER = /^(?:[-+*>]|#{1,6}|\d+[.)])$/;
+
+const indentLines = (lines: string[], first: string, rest: string) =>
+  lines.map((line, index) => `${index === 0 ? first : rest}${line}`);
+
+function plainInline(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.text;
+        case "emphasis":
+          return `_${plainInline(node.children)}_`;
+        case "footnoteRef":
+          return `[${sanitizeFootnoteId(node.id)}]`;
+        default:
+          return plainInline(node.children);
+      }
+    })
+    .join("");
+}
+
+function plainBlock(block: BlockNode, width: number | undefined): string {
+  const wrap = (text: string, indent = 0) =>
+    wrapText(text, width === undefined ? undefined : width - indent);
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+      return wrap(plainInline(block.children)).join("\n");
+    case "blockquote":
+      return block.children
+        .map((child) =>
+          plainBlock(child, width === undefined ? undefined : width - 4)
+            .split("\n")
+            .map((line) => (line ? `    ${line}` : line))
+            .join("\n"),
+        )
+        .join("\n\n");
+    case "verse":
+      return block.stanzas
+        .map((stanza) =>
+          stanza.map((line) => `  ${plainInline(line)}`).join("\n"),
+        )
+        .join("\n\n");
+    case "list":
+      return block.items
+        .map((item, index) => {
+          const marker = block.ordered ? `${index + 1}. ` : "- ";
+          return indentLines(
+            wrap(plainInline(item), marker.length),
+            marker,
+            " ".repeat(marker.length),
+          ).join("\n");
+        })
+        .join("\n");
+    case "table":
+      return block.rows
+        .map((row) => row.map(plainInline).join(" | "))
+        .join("\n");
+    case "footnote": {
+      const marker = `[${sanitizeFootnoteId(block.id)}] `;
+      return indentLines(
+        wrap(plainInline(block.children), marker.length),
+        marker,
+        " ".repeat(marker.length),
+      ).join("\n");
+    }
+    case "break":
+      return `        ${SECTION_BREAK}`;
+  }
+}
+
+/**
+ * One chapter's annotated markdown as unwrapped plain text without Project
+ * Gutenberg references, for datasets
+ */
+export function chapterPlainText(text: string): {
+  text: string;
+  strippedReferences: number;
+} {
+  const removed = { count: 0 };
+  const blocks = stripGutenbergBlocks(parseBlocks(text), removed);
+  return {
+    text: blocks.map((block) => plainBlock(block, undefined)).join("\n\n"),
+    strippedReferences: removed.count,
+  };
+}
+
+/**
+ * Escape Markdown syntax in literal text
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<]/g, "\\$&");
+}
+
+// Literal text at the start of a line that Markdown would read as a block
+const escapeLineStart = (line: string) =>
+  line.replace(/^(#{1,6}(?=\s|$)|[>+-](?=\s)|\d+(?=[.)]\s))/, (marker) =>
+    /^\d/.test(marker) ? `${marker}\\` : `\\${marker}`,
+  );
+
+function markdownInline(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeMarkdown(node.text);
+        case "emphasis":
+          return `*${markdownInline(node.children)}*`;
+        case "bold":
+          return `**${markdownInline(node.children)}**`;
+        case "superscript":
+          return `<sup>${markdownInline(node.children)}</sup>`;
+        case "smallcaps":
+          return markdownInline(node.children);
+        case "footnoteRef":
+          return `[^${sanitizeFootnoteId(node.id)}]`;
+      }
+    })
+    .join("");
+}
+
+function markdownBlock(
+  block: BlockNode,
+  width: number | undefined,
+  headingOffset: number,
+): string {
+  const paragraph = (nodes: InlineNode[], indent = 0) =>
+    wrapText(
+      escapeLineStart(markdownInline(nodes)),
+      width === undefined ? undefined : width - indent,
+      (word) => MARKDOWN_BLOCK_MARKER.test(word),
+    );
+  switch (block.type) {
+    case "heading":
+      return `${"#".repeat(Math.min(block.level + headingOffset, 6))} ${markdownInline(block.children)}`;
+    case "paragraph":
+      return paragraph(block.children).join("\n");
+    case "blockquote":
+      return block.children
+        .map((child) =>
+          markdownBlock(
+            child,
+            width === undefined ? undefined : width - 2,
+            headingOffset,
+          ),
+        )
+        .join("\n\n")
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "verse":
+      // A trailing backslash is a hard line break
+      return block.stanzas
+        .map((stanza) =>
+          stanza
+            .map((line) => escapeLineStart(markdownInline(line)))
+            .join("\\\n"),
+        )
+        .join("\n\n");
+    case "list":
+      return block.items
+        .map((item, index) => {
+          const marker = block.ordered ? `${index + 1}. ` : "- ";
+          return indentLines(
+            paragraph(item, marker.length),
+            marker,
+            " ".repeat(marker.length),
+          ).join("\n");
+        })
+        .join("\n");
+    case "table": {
+      const row = (cells: InlineNode[][]) =>
+        `| ${cells.map((cell) => markdownInline(cell).replace(/\|/g, "\\|")).join(" | ")} |`;
+      const columns = Math.max(...block.rows.map((cells) => cells.length));
+      const [header, ...body] = block.hasHeader
+        ? block.rows
+        : [Array.from({ length: columns }, () => []), ...block.rows];
+      return [
+        row(header),
+        `|${" --- |".repeat(columns)}`,
+        ...body.map(row),
+      ].join("\n");
+    }
+    case "footnote": {
+      const marker = `[^${sanitizeFootnoteId(block.id)}]: `;
+      return indentLines(paragraph(block.children, 4), marker, "    ").join(
+        "\n",
+      );
+    }
+    case "break":
+      return SECTION_BREAK;
+  }
+}
+
+function licenceBlock(text: string, format: TextFormat) {
+  if (format === "txt") {
+    return text;
+  }
+  // A fence longer than any backtick run inside it
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}text\n${text}\n${fence}`;
+}
+
+/**
+ * The book as one text file, and how many blocks mentioning Project
+ * Gutenberg were stripped
+ */
+export function buildCleanText(
+  book: { title: string; author: string },
+  chapters: CleanTextChapter[],
+  format: TextFormat,
+  options: TextOptions,
+  licence: GutenbergLicence = {},
+): { text: string; strippedReferences: number } {
+  const quote =
+    options.quotes === "smart"
+      ? (nodes: InlineNode[]) => mapInlineText(nodes, smartenQuotes)
+      : (nodes: InlineNode[]) => mapInlineText(nodes, asciiPunctuation);
+  const punctuate = (text: string) =>
+    options.quotes === "smart" ? smartenQuotes(text) : asciiPunctuation(text);
+  const removed = { count: 0 };
+
+  const sections = chapters.map((chapter) => {
+    let blocks = parseBlocks(chapter.text);
+    if (options.gutenbergReferences === "strip") {
+      blocks = stripGutenbergBlocks(blocks, removed);
+    }
+    return {
+      title: inlineToPlainText(parseInline(chapter.title)),
+      blocks: blocks.map((block) => mapBlockText(block, quote)),
+    };
+  });
+
+  const keepsLicence = options.gutenbergReferences === "keep";
+  if (keepsLicence && !licence.footer) {
+    const mentioned =
+      mentionsGutenberg(book.title) ||
+      sections.some(
+        (section) =>
+          mentionsGutenberg(section.title) ||
+          section.blocks.some((block) =>
+            mentionsGutenberg(blockPlainText(block)),
+          ),
+      );
+    if (mentioned) {
+      throw new Error(
+        "The text mentions Project Gutenberg but its original has no licence to keep with it; strip the references instead",
+      );
+    }
+  }
+
+  const title = punctuate(book.title);
+  const author = punctuate(book.author);
+  const parts: string[] =
+    format === "markdown"
+      ? [
+          `# ${escapeMarkdown(title)}`,
+          `by ${escapeMarkdown(author)}`,
+          ...sections.flatMap((section) => [
+            `## ${escapeMarkdown(punctuate(section.title))}`,
+            ...section.blocks.map((block) =>
+              markdownBlock(block, options.wrapWidth, 2),
+            ),
+          ]),
+        ]
+      : [
+          title.toUpperCase(),
+          `by ${author}`,
+          ...sections.map((section) =>
+            [
+              `\n\n${punctuate(section.title)}`,
+              ...section.blocks.map((block) =>
+                plainBlock(block, options.wrapWidth),
+              ),
+            ].join("\n\n"),
+          ),
+        ];
+
+  // The licence goes where the original had it, verbatim
+  if (keepsLicence) {
+    const header = licence.header?.trim();
+    const footer = licence.footer?.trim();
+    if (header) {
+      parts.unshift(`${licenceBlock(header, format)}\n\n`);
+    }
+    if (footer) {
+      parts.push(`\n\n${licenceBlock(footer, format)}`);
+    }
+  }
+
+  return {
+    text: `${parts.join("\n\n").replace(/[ \t]+$/gm, "")}\n`,
+    strippedReferences: removed.count,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Plain text and Markdown export
+ *
+ * Writes a book's approved cleanup revision as a UTF-8 text file as an
+ * export job. The job walks loading_content -> building_text ->
+ * storing_output. Keeping Project Gutenberg references reads the licence
+ * back from the book's original file, see cleanText.ts.
+ */
+
+import { v } from "convex/values";
+import { internalAction, internalQuery, mutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  countWords,
+  failExportJob,
+  finishExportJob,
+  loadApprovedSource,
+  loadChapterTexts,
+  queueExportJob,
+} from "./exportJobs";
+import {
+  buildCleanText,
+  textOptionsIssues,
+  textOptionsValidator,
+  type GutenbergLicence,
+} from "./cleanText";
+import { splitGutenbergBoilerplate } from "./cleanupPipeline";
+
+const TEXT_CONTENT_TYPES = {
+  txt: "text/plain; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+/**
+ * Queue a plain text or Markdown export for an approved, copyright-cleared
+ * book
+ */
+export const start = mutation({
+  args: {
+    bookId: v.id("books"),
+    format: v.union(v.literal("txt"), v.literal("markdown")),
+    options: textOptionsValidator,
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, args) => {
+    const issues = textOptionsIssues(args.options);
+    if (issues.length > 0) {
+      throw new Error(issues.join("; "));
+    }
+    const jobId = await queueExportJob(ctx, {
+      bookId: args.bookId,
+      format: args.format,
+      textOptions: args.options,
+    });
+    await ctx.scheduler.runAfter(0, internal.cleanTextExport.buildText, {
+      jobId,
+    });
+    return jobId;
+  },
+});
+
+/**
+ * The approved text with the job's options and the book's original file
+ */
+export const loadTextSource = internalQuery({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job?.bookId || !job.textOptions) {
+      throw new Error(`Export job ${args.jobId} is not a text export`);
+    }
+    const original = await ctx.db
+      .query("cleanupOriginals")
+      .withIndex("by_book_id", (q) => q.eq("bookId", job.bookId!))
+      .first();
+    return {
+      ...(await loadApprovedSource(ctx, job.bookId)),
+      format: job.exportFormat === "markdown" ? "markdown" : "txt",
+      options: job.textOptions,
+      original: original
+        ? { fileId: original.fileId, content: original.content }
+        : null,
+    } as const;
+  },
+});
+
+/**
+ * Export job: load the approved text, write it in the chosen format, store it
+ */
+export const buildText = internalAction({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    try {
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "loading_content",
+        progress: 10,
+      });
+      const source = await ctx.runQuery(
+        internal.cleanTextExport.loadTextSource,
+        { jobId: args.jobId },
+      );
+      const chapters = await loadChapterTexts(ctx, source);
+
+      let licence: GutenbergLicence = {};
+      if (source.options.gutenbergReferences === "keep" && source.original) {
+        const blob = source.original.fileId
+          ? await ctx.storage.get(source.original.fileId)
+          : null;
+        const originalText = blob
+          ? await blob.text()
+          : source.original.content;
+        if (originalText) {
+          const { header, footer } = splitGutenbergBoilerplate(originalText);
+          licence = { header, footer };
+        }
+      }
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "building_text",
+        progress: 50,
+      });
+      const { format, options } = source;
+      const { text, strippedReferences } = buildCleanText(
+        source.book,
+        chapters,
+        format,
+        options,
+        licence,
+      );
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "storing_output",
+        progress: 85,
+      });
+      await finishExportJob(ctx, args.jobId, {
+        bytes: new TextEncoder().encode(text),
+        contentType: TEXT_CONTENT_TYPES[format],
+        revisionId: source.revision._id,
+        wordCount: countWords(chapters),
+        logs: [
+          `Wrote ${chapters.length} chapter${chapters.length === 1 ? "" : "s"} from cleanup revision ${source.revision.revisionNumber} as ${format === "markdown" ? "Markdown" : "plain text"} (${options.wrapWidth ? `wrapped at ${options.wrapWidth} columns` : "unwrapped"}, ${options.quotes} quotes)`,
+          options.gutenbergReferences === "strip"
+            ? `Stripped ${strippedReferences} block${strippedReferences === 1 ? "" : "s"} mentioning Project Gutenberg`
+            : licence.footer
+              ? "Kept Project Gutenberg references with the original licence"
+              : "Kept the text as is; it has no Project Gutenberg references",
+        ].join("\n"),
+      });
+    } catch (error) {
+      await failExportJob(ctx, args.jobId, error);
+    }
+  },
+});
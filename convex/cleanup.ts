@@ -12,18 +12,118 @@ import {
   internalAction,
   internalMutation,
   internalQuery,
+  type MutationCtx,
 } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { runDeterministicCleanup } from "./cleanupPipeline";
-import { detectChapterBoundaries } from "./cleanupChaptering";
+import {
+  detectChapterBoundaries,
+  parseChapterManifest,
+  seedChaptersFromManifest,
+} from "./cleanupChaptering";
 import {
   deterministicCleanupStageValidator,
   mapDeterministicCleanupStageToMainJobStage,
 } from "./jobStages";
 
+const sourceFormatValidator = v.union(
+  v.literal("gutenberg_txt"),
+  v.literal("markdown"),
+);
+
+type CleanupSource = {
+  fileId: Id<"_storage">;
+  sourceFormat: "gutenberg_txt" | "markdown";
+  chapterManifestFileId?: Id<"_storage">;
+};
+
+/**
+ * Latest daemon extraction for a book, if it produced annotated markdown
+ */
+async function findIngestArtifacts(ctx: MutationCtx, bookId: Id<"books">) {
+  const ingestJobs = await ctx.db
+    .query("ingestJobs")
+    .withIndex("by_book_id", (q) => q.eq("bookId", bookId))
+    .collect();
+
+  return (
+    ingestJobs
+      .filter((job) => job.status === "completed" && job.extractedFileId)
+      .sort((a, b) => b.updatedAt - a.updatedAt)[0] ?? null
+  );
+}
+
+/**
+ * Create cleanup + main job rows and schedule the pipeline
+ * Throws when the book is blocked or already has a running cleanup.
+ */
+async function queueCleanup(
+  ctx: MutationCtx,
+  bookId: Id<"books">,
+  source: CleanupSource,
+  preserveArchaic: boolean,
+) {
+  const book = await ctx.db.get(bookId);
+  if (!book) {
+    throw new Error(`Book ${bookId} not found`);
+  }
+
+  if (book.copyrightStatus === "blocked") {
+    throw new Error(
+      "Cleanup is blocked for this title because copyright scan marked it as in-copyright.",
+    );
+  }
+
+  // Check for existing cleanup job
+  const existingJob = await ctx.db
+    .query("cleanupJobs")
+    .withIndex("by_book_id", (q) => q.eq("bookId", bookId))
+    .filter((q) => q.eq(q.field("status"), "running"))
+    .first();
+
+  if (existingJob) {
+    throw new Error(`Cleanup already in progress for book ${bookId}`);
+  }
+
+  // Create cleanup job
+  const cleanupJobId = await ctx.db.insert("cleanupJobs", {
+    bookId,
+    stage: "queued",
+    status: "queued",
+    progress: 0,
+    flagsCreated: 0,
+    queuedAt: Date.now(),
+  });
+
+  // Also create a job in the main jobs table for unified tracking
+  const mainJobId = await ctx.db.insert("jobs", {
+    type: "clean",
+    status: "queued",
+    bookId,
+    stage: "queued",
+    progress: 0,
+    queuedAt: Date.now(),
+  });
+
+  // Start the cleanup pipeline (async)
+  await ctx.scheduler.runAfter(0, internal.cleanup.runCleanupPipeline, {
+    bookId,
+    fileId: source.fileId,
+    sourceFormat: source.sourceFormat,
+    chapterManifestFileId: source.chapterManifestFileId,
+    jobId: cleanupJobId,
+    mainJobId,
+    preserveArchaic,
+  });
+
+  return cleanupJobId;
+}
+
 /**
  * Start deterministic cleanup for a book
- * Creates the original snapshot, runs cleanup, creates revision and chapters
+ * Creates the original snapshot, runs cleanup, creates revision and chapters.
+ * Prefers annotated markdown from a completed daemon ingest, then markdown
+ * converted from a non-text upload, over the raw file.
  */
 export const startCleanup = mutation({
   args: {
@@ -38,58 +138,75 @@ export const startCleanup = mutation({
       throw new Error(`Book ${args.bookId} not found`);
     }
 
-    // Check if file exists
-    if (!book.fileId) {
+    const ingest = await findIngestArtifacts(ctx, args.bookId);
+    let source: CleanupSource;
+    if (ingest?.extractedFileId) {
+      source = {
+        fileId: ingest.extractedFileId,
+        sourceFormat: "markdown",
+        chapterManifestFileId: ingest.chapterManifestFileId,
+      };
+    } else if (book.annotatedFileId) {
+      source = {
+        fileId: book.annotatedFileId,
+        sourceFormat: "markdown",
+        chapterManifestFileId: book.chapterManifestFileId,
+      };
+    } else if (book.fileId) {
+      source = { fileId: book.fileId, sourceFormat: "gutenberg_txt" };
+    } else {
       throw new Error(`Book ${args.bookId} has no file`);
     }
 
-    if (book.copyrightStatus === "blocked") {
-      throw new Error(
-        "Cleanup is blocked for this title because copyright scan marked it as in-copyright.",
-      );
-    }
+    const jobId = await queueCleanup(
+      ctx,
+      args.bookId,
+      source,
+      args.preserveArchaic ?? true,
+    );
 
-    // Check for existing cleanup job
-    const existingJob = await ctx.db
-      .query("cleanupJobs")
-      .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
-      .filter((q) => q.eq(q.field("status"), "running"))
-      .first();
+    return { jobId, status: "queued" };
+  },
+});
 
-    if (existingJob) {
-      throw new Error(`Cleanup already in progress for book ${args.bookId}`);
+/**
+ * Hand a completed ingest job's annotated markdown to the cleanup pipeline
+ * Scheduled by ingestJobs.complete; a skipped hand-off is recorded as a warning.
+ */
+export const startCleanupFromIngest = internalMutation({
+  args: {
+    ingestJobId: v.id("ingestJobs"),
+  },
+  returns: v.union(v.id("cleanupJobs"), v.null()),
+  handler: async (ctx, args) => {
+    const ingestJob = await ctx.db.get(args.ingestJobId);
+    if (!ingestJob?.extractedFileId) {
+      return null;
     }
 
-    // Create cleanup job
-    const cleanupJobId = await ctx.db.insert("cleanupJobs", {
-      bookId: args.bookId,
-      stage: "queued",
-      status: "queued",
-      progress: 0,
-      flagsCreated: 0,
-      queuedAt: Date.now(),
-    });
-
-    // Also create a job in the main jobs table for unified tracking
-    const mainJobId = await ctx.db.insert("jobs", {
-      type: "clean",
-      status: "queued",
-      bookId: args.bookId,
-      stage: "queued",
-      progress: 0,
-      queuedAt: Date.now(),
-    });
-
-    // Start the cleanup pipeline (async)
-    await ctx.scheduler.runAfter(0, internal.cleanup.runCleanupPipeline, {
-      bookId: args.bookId,
-      fileId: book.fileId,
-      jobId: cleanupJobId,
-      mainJobId,
-      preserveArchaic: args.preserveArchaic ?? true,
-    });
-
-    return { jobId: cleanupJobId, status: "queued" };
+    try {
+      const cleanupJobId = await queueCleanup(
+        ctx,
+        ingestJob.bookId,
+        {
+          fileId: ingestJob.extractedFileId,
+          sourceFormat: "markdown",
+          chapterManifestFileId: ingestJob.chapterManifestFileId,
+        },
+        true,
+      );
+      await ctx.db.patch(ingestJob._id, { cleanupJobId, updatedAt: Date.now() });
+      return cleanupJobId;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await ctx.db.patch(ingestJob._id, {
+        warning: [ingestJob.warning, `Cleanup not started: ${message}`]
+          .filter(Boolean)
+          .join(" "),
+        updatedAt: Date.now(),
+      });
+      return null;
+    }
   },
 });
 
@@ -102,6 +219,8 @@ export const runCleanupPipeline: ReturnType<typeof internalAction> =
     args: {
       bookId: v.id("books"),
       fileId: v.id("_storage"),
+      sourceFormat: v.optional(sourceFormatValidator),
+      chapterManifestFileId: v.optional(v.id("_storage")),
       jobId: v.id("cleanupJobs"),
       mainJobId: v.optional(v.id("jobs")),
       preserveArchaic: v.boolean(),
@@ -130,12 +249,14 @@ export const runCleanupPipeline: ReturnType<typeof internalAction> =
 
         const originalContent = await blob.text();
         const originalSizeBytes = new Blob([originalContent]).size;
+        const sourceFormat = args.sourceFormat ?? "gutenberg_txt";
+        const isMarkdown = sourceFormat === "markdown";
 
         // Store original reference with size tracking
         await ctx.runMutation(internal.cleanup.insertOriginal, {
           bookId: args.bookId,
           fileId: args.fileId,
-          sourceFormat: "gutenberg_txt",
+          sourceFormat,
           sizeBytes: originalSizeBytes,
         });
 
@@ -147,9 +268,11 @@ export const runCleanupPipeline: ReturnType<typeof internalAction> =
           progress: 30,
         });
 
+        // Annotated markdown is already one paragraph per line and verse
+        // lines must keep their breaks, so only hard-wrapped text is unwrapped
         const cleanupResult = runDeterministicCleanup(originalContent, {
           preserveArchaic: args.preserveArchaic,
-          unwrapParagraphs: true,
+          unwrapParagraphs: !isMarkdown,
           normalizePunctuation: true,
         });
 
@@ -189,7 +312,21 @@ export const runCleanupPipeline: ReturnType<typeof internalAction> =
           progress: 70,
         });
 
-        const chapterResult = detectChapterBoundaries(cleanupResult.content);
+        let chapterResult;
+        if (isMarkdown && args.chapterManifestFileId) {
+          const manifestBlob = await ctx.storage.get(args.chapterManifestFileId);
+          if (!manifestBlob) {
+            throw new Error(
+              `Chapter manifest ${args.chapterManifestFileId} not found in storage`,
+            );
+          }
+          chapterResult = seedChaptersFromManifest(
+            cleanupResult.content,
+            parseChapterManifest(await manifestBlob.text()),
+          );
+        } else {
+          chapterResult = detectChapterBoundaries(cleanupResult.content);
+        }
 
         // Store each chapter content as a separate file
         const chaptersForDb = [];
@@ -248,11 +385,14 @@ export const runCleanupPipeline: ReturnType<typeof internalAction> =
           {
             bookId: args.bookId,
             revisionId,
-            unlabeledBreaks: cleanupResult.unlabeledBreaks,
+            // "* * *" in annotated markdown is an explicit break, not a guess
+            unlabeledBreaks: isMarkdown ? [] : cleanupResult.unlabeledBreaks,
             ambiguousPositions: cleanupResult.ambiguousPositions,
             lowConfidencePunctuation: cleanupResult.lowConfidencePunctuation,
-            startMarkerFound: cleanupResult.startMarkerFound,
-            endMarkerFound: cleanupResult.endMarkerFound,
+            // EPUB extraction drops the PG header/footer structurally, so
+            // markdown sources carry no text markers to find
+            startMarkerFound: isMarkdown || cleanupResult.startMarkerFound,
+            endMarkerFound: isMarkdown || cleanupResult.endMarkerFound,
           },
         );
 
@@ -970,15 +1110,16 @@ export const insertOriginal = internalMutation({
   args: {
     bookId: v.id("books"),
     fileId: v.id("_storage"),
-    sourceFormat: v.union(v.literal("gutenberg_txt"), v.literal("markdown")),
+    sourceFormat: sourceFormatValidator,
     sizeBytes: v.number(),
   },
   returns: v.id("cleanupOriginals"),
   handler: async (ctx, args) => {
-    // Check if original already exists
+    // Check if this source was already captured (a new source gets a new row)
     const existing = await ctx.db
       .query("cleanupOriginals")
       .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
+      .filter((q) => q.eq(q.field("fileId"), args.fileId))
       .first();
 
     if (existing) {
@@ -1057,6 +1198,8 @@ export const completeJob = internalMutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+
     await ctx.db.patch(args.jobId, {
       status: "completed",
       stage: "completed",
@@ -1077,6 +1220,13 @@ export const completeJob = internalMutation({
       });
     }
 
+    // Duplicate detection fingerprints the cleaned body
+    if (job) {
+      await ctx.scheduler.runAfter(0, internal.editions.refreshFingerprint, {
+        bookId: job.bookId,
+      });
+    }
+
     return null;
   },
 });
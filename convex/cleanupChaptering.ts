@@ -270,6 +270,113 @@ export function detectChapterBoundaries(text: string): {
   };
 }
 
+/**
+ * Chapter entry from the daemon's chapters.json (EPUB spine order)
+ */
+export interface ChapterManifestSeed {
+  chapterNumber: number;
+  title: string;
+  href?: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * Parse and validate a chapters.json payload
+ */
+export function parseChapterManifest(json: string): ChapterManifestSeed[] {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error("Chapter manifest must be a JSON array");
+  }
+
+  return parsed.map((entry, index) => {
+    if (
+      typeof entry?.title !== "string" ||
+      typeof entry?.startOffset !== "number" ||
+      typeof entry?.endOffset !== "number"
+    ) {
+      throw new Error(`Chapter manifest entry ${index + 1} is malformed`);
+    }
+    return {
+      chapterNumber: typeof entry.chapterNumber === "number" ? entry.chapterNumber : index + 1,
+      title: entry.title,
+      href: typeof entry.href === "string" ? entry.href : undefined,
+      startOffset: entry.startOffset,
+      endOffset: entry.endOffset,
+    };
+  });
+}
+
+/**
+ * Build chapter segments for annotated markdown from a chapter manifest
+ *
+ * Every "## " line in annotated markdown is a chapter boundary, so no regex
+ * heading detection is needed. Manifest offsets refer to the pre-cleanup text;
+ * boundaries are re-anchored on the cleaned content by matching titles in
+ * order. Headings missing from the manifest keep medium confidence for review.
+ */
+export function seedChaptersFromManifest(
+  text: string,
+  manifest: ChapterManifestSeed[],
+): ReturnType<typeof detectChapterBoundaries> {
+  const lines = text.split("\n");
+  const chapters: ChapterSegment[] = [];
+  let manifestCursor = 0;
+  let currentOffset = 0;
+  let pendingChapter: Omit<ChapterSegment, "content" | "endOffset"> | null = null;
+  let chapterContent: string[] = [];
+
+  const closeChapter = (endOffset: number) => {
+    if (pendingChapter) {
+      chapters.push({ ...pendingChapter, content: chapterContent.join("\n"), endOffset });
+    }
+  };
+
+  for (const line of lines) {
+    if (line.startsWith("## ")) {
+      closeChapter(currentOffset);
+
+      const heading = line.slice(3).trim();
+      const matchIndex = manifest.findIndex(
+        (entry, index) => index >= manifestCursor && entry.title.trim() === heading,
+      );
+      if (matchIndex >= 0) {
+        manifestCursor = matchIndex + 1;
+      }
+
+      pendingChapter = {
+        chapterNumber: chapters.length + 1,
+        title: heading || `Section ${chapters.length + 1}`,
+        type: detectChapterHeading(heading).type ?? "chapter",
+        startOffset: currentOffset,
+        detectedHeading: line,
+        isUserConfirmed: false,
+        confidence: matchIndex >= 0 ? "high" : "medium",
+        isOcrCorrupted: false,
+      };
+      chapterContent = [];
+    } else if (pendingChapter) {
+      chapterContent.push(line);
+    }
+
+    currentOffset += line.length + 1;
+  }
+
+  closeChapter(text.length);
+
+  if (chapters.length === 0) {
+    return detectChapterBoundaries(text);
+  }
+
+  return {
+    chapters,
+    unlabeledBreaks: [],
+    hasChapters: chapters.some(c => c.type === "chapter"),
+    totalLines: lines.length,
+  };
+}
+
 /**
  * Internal action to detect chapters (for testing)
  */
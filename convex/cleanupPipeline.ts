@@ -25,22 +25,23 @@ const GUTENBERG_END_MARKERS = [
 ];
 
 /**
- * Strip Gutenberg boilerplate from text
+ * Split Gutenberg text into the header up to and including its start
+ * marker, the book, and the footer from its end marker on
  */
-export function stripGutenbergBoilerplate(text: string): {
+export function splitGutenbergBoilerplate(text: string): {
+  header?: string;
   content: string;
-  startMarkerFound: boolean;
-  endMarkerFound: boolean;
+  footer?: string;
 } {
   let content = text;
-  let startMarkerFound = false;
-  let endMarkerFound = false;
+  let header: string | undefined;
+  let footer: string | undefined;
 
   for (const pattern of GUTENBERG_START_MARKERS) {
     const match = content.match(pattern);
     if (match && match.index !== undefined) {
+      header = content.slice(0, match.index + match[0].length);
       content = content.slice(match.index + match[0].length);
-      startMarkerFound = true;
       break;
     }
   }
@@ -48,15 +49,30 @@ export function stripGutenbergBoilerplate(text: string): {
   for (const pattern of GUTENBERG_END_MARKERS) {
     const match = content.match(pattern);
     if (match && match.index !== undefined) {
+      footer = content.slice(match.index);
       content = content.slice(0, match.index);
-      endMarkerFound = true;
       break;
     }
   }
 
-  content = content.trim();
+  return { header, content, footer };
+}
+
+/**
+ * Strip Gutenberg boilerplate from text
+ */
+export function stripGutenbergBoilerplate(text: string): {
+  content: string;
+  startMarkerFound: boolean;
+  endMarkerFound: boolean;
+} {
+  const { header, content, footer } = splitGutenbergBoilerplate(text);
 
-  return { content, startMarkerFound, endMarkerFound };
+  return {
+    content: content.trim(),
+    startMarkerFound: header !== undefined,
+    endMarkerFound: footer !== undefined,
+  };
 }
 
 /**
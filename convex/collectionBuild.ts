@@ -0,0 +1,113 @@
+/**
+ * Collection build
+ *
+ * Box sets and omnibus editions set several approved books as one volume.
+ * Each book's chapters follow its own title page, and numbered chapter
+ * titles ("Chapter IV", "CHAPTER 12. The Storm", "III.") are renumbered
+ * either from one in every book or straight through the collection.
+ * Other titles, such as a preface, keep their text and take no number. A
+ * numeral keeps its style: roman stays roman in the same case, arabic stays
+ * arabic.
+ *
+ * Pure functions only - collectionExport.ts loads the books and renders.
+ */
+
+import { v, type Infer } from "convex/values";
+import { romanNumeral, type VolumeTitle } from "./pdfLayout";
+
+export const chapterNumberingValidator = v.union(
+  v.literal("restart"),
+  v.literal("continuous"),
+);
+
+export type ChapterNumbering = Infer<typeof chapterNumberingValidator>;
+
+export type CollectionVolume = {
+  title: VolumeTitle;
+  chapters: Array<{ title: string; text: string }>;
+};
+
+// "Chapter 4", "CHAPTER IV. The Storm", "Ch. 2: ..."; without the label
+// only a numeral followed by nothing or "." / ":" counts, so "I Remember"
+// is left alone
+const NUMBERED_TITLE = /^(\s*(?:(?:chapter|ch\.)\s+)?)([ivxlcdm]+|\d+)\b(.*)$/i;
+
+const ROMAN_VALUES: Record<string, number> = {
+  i: 1,
+  v: 5,
+  x: 10,
+  l: 50,
+  c: 100,
+  d: 500,
+  m: 1000,
+};
+
+/**
+ * The value of a well-formed roman numeral, or null for words like "mix"
+ */
+export function romanValue(numeral: string): number | null {
+  const letters = numeral.toLowerCase();
+  let total = 0;
+  for (let i = 0; i < letters.length; i += 1) {
+    const value = ROMAN_VALUES[letters[i]];
+    const next = ROMAN_VALUES[letters[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total > 0 && romanNumeral(total) === letters ? total : null;
+}
+
+/**
+ * A numbered chapter title split around its numeral, or null when the
+ * title has no chapter number
+ */
+export function parseChapterNumber(
+  title: string,
+): { prefix: string; numeral: string; rest: string } | null {
+  const match = title.match(NUMBERED_TITLE);
+  if (!match) {
+    return null;
+  }
+  const [, prefix, numeral, rest] = match;
+  if (!prefix.trim() && !/^[.:]|^\s*$/.test(rest)) {
+    return null;
+  }
+  if (!/^\d+$/.test(numeral) && romanValue(numeral) === null) {
+    return null;
+  }
+  return { prefix, numeral, rest };
+}
+
+const formatNumeral = (value: number, like: string) => {
+  if (/^\d+$/.test(like)) {
+    return String(value);
+  }
+  const roman = romanNumeral(value);
+  return like === like.toLowerCase() ? roman : roman.toUpperCase();
+};
+
+/**
+ * The collection's chapters in order, renumbered, with each volume's title
+ * on its first chapter
+ */
+export function collectionChapters(
+  volumes: CollectionVolume[],
+  numbering: ChapterNumbering,
+): Array<{ title: string; text: string; volume?: VolumeTitle }> {
+  let number = 0;
+  return volumes.flatMap((volume) => {
+    if (numbering === "restart") {
+      number = 0;
+    }
+    return volume.chapters.map((chapter, index) => {
+      const parsed = parseChapterNumber(chapter.title);
+      let title = chapter.title;
+      if (parsed) {
+        number += 1;
+        title = `${parsed.prefix}${formatNumeral(number, parsed.numeral)}${parsed.rest}`;
+      }
+      return index === 0
+        ? { title, text: chapter.text, volume: volume.title }
+        : { title, text: chapter.text };
+    });
+  });
+}
@@ -0,0 +1,320 @@
+/**
+ * Collection export
+ *
+ * Renders a box set or omnibus as one PDF interior or EPUB through the
+ * single-book renderers: each book's approved revision follows its own
+ * title page, the contents cover every volume, and chapters are numbered
+ * per the collection's setting (see collectionBuild.ts). Every book must
+ * be approved and copyright-cleared when the job is queued. The file goes
+ * into the exports registry under the collection, with the revision each
+ * volume was built from.
+ */
+
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+  internalAction,
+  internalQuery,
+  mutation,
+  type ActionCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { assertCopyrightCleared } from "./copyrightReview";
+import { recordTemplateVersion } from "./templates";
+import {
+  countWords,
+  creditLines,
+  failExportJob,
+  finishExportJob,
+  loadApprovedRevision,
+  loadApprovedSource,
+  loadChapterTexts,
+  loadJobTemplate,
+} from "./exportJobs";
+import { collectionChapters } from "./collectionBuild";
+import { renderInteriorPdf } from "./pdfInterior";
+import { buildEpub, validateEpub } from "./epubBuild";
+import { PLATFORM_RULES, resolvePrintSettings } from "./printSpecs";
+
+/**
+ * Queue a PDF or EPUB export of a collection
+ */
+export const start = mutation({
+  args: {
+    collectionId: v.id("collections"),
+    templateId: v.id("templates"),
+    format: v.union(v.literal("pdf"), v.literal("epub")),
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, args) => {
+    const collection = await ctx.db.get(args.collectionId);
+    if (!collection) {
+      throw new Error(`Collection ${args.collectionId} not found`);
+    }
+    const template = await ctx.db.get(args.templateId);
+    if (!template || template.archivedAt !== undefined) {
+      throw new Error(`Template ${args.templateId} not found`);
+    }
+    if (collection.bookIds.length < 2) {
+      throw new Error(`"${collection.title}" needs at least two books`);
+    }
+    for (const bookId of collection.bookIds) {
+      const book = await ctx.db.get(bookId);
+      if (!book) {
+        throw new Error(`Book ${bookId} not found`);
+      }
+      if (
+        book.status !== "ready" ||
+        !(await loadApprovedRevision(ctx, book._id))
+      ) {
+        throw new Error(
+          `Cannot export "${collection.title}": the latest cleanup revision of "${book.title}" is not approved`,
+        );
+      }
+      await assertCopyrightCleared(ctx, book._id, "export");
+    }
+
+    const jobId = await ctx.db.insert("jobs", {
+      type: "export",
+      collectionId: collection._id,
+      templateId: template._id,
+      templateVersion: await recordTemplateVersion(ctx, template),
+      exportFormat: args.format,
+      requestedBy: (await getAuthUserId(ctx)) ?? undefined,
+      status: "queued",
+      stage: "queued",
+      progress: 0,
+      logs: "",
+      queuedAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(
+      0,
+      args.format === "pdf"
+        ? internal.collectionExport.renderInterior
+        : internal.collectionExport.buildPackage,
+      { jobId },
+    );
+    return jobId;
+  },
+});
+
+/**
+ * The collection, the job's template and every volume's approved source
+ */
+export const loadCollectionSource = internalQuery({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job?.collectionId) {
+      throw new Error(`Export job ${args.jobId} is not a collection export`);
+    }
+    const collection = await ctx.db.get(job.collectionId);
+    if (!collection) {
+      throw new Error(`Collection ${job.collectionId} not found`);
+    }
+    const template = await loadJobTemplate(ctx, job);
+    if (!template) {
+      throw new Error(`Export job ${args.jobId} references a missing template`);
+    }
+    const volumes = [];
+    for (const bookId of collection.bookIds) {
+      volumes.push(await loadApprovedSource(ctx, bookId));
+    }
+    return {
+      collection: {
+        _id: collection._id,
+        title: collection.title,
+        subtitle: collection.subtitle,
+        author: collection.author,
+        description: collection.description,
+        chapterNumbering: collection.chapterNumbering,
+      },
+      template,
+      volumes,
+    };
+  },
+});
+
+/**
+ * Load every volume's chapters and put the collection together
+ */
+async function loadCollection(ctx: ActionCtx, jobId: Id<"jobs">) {
+  await ctx.runMutation(internal.exportJobs.updateExportStage, {
+    jobId,
+    stage: "loading_content",
+    progress: 10,
+  });
+  const source = await ctx.runQuery(
+    internal.collectionExport.loadCollectionSource,
+    { jobId },
+  );
+  const { collection, volumes } = source;
+  const volumeChapters = await Promise.all(
+    volumes.map((volume) => loadChapterTexts(ctx, volume)),
+  );
+  const chapters = collectionChapters(
+    volumes.map((volume, index) => ({
+      title: {
+        title: volume.book.title,
+        subtitle: volume.book.subtitle,
+        author: volume.book.author,
+      },
+      chapters: volumeChapters[index],
+    })),
+    collection.chapterNumbering,
+  );
+
+  const copyrightLines = [
+    collection.title,
+    `by ${collection.author}`,
+    "",
+    ...volumes.map(
+      ({ book, credits }) =>
+        `${[
+          book.title,
+          ...(book.publicationYear
+            ? [`first published ${book.publicationYear}`]
+            : []),
+          ...creditLines(credits).map(
+            (line) => line.charAt(0).toLowerCase() + line.slice(1),
+          ),
+        ].join(", ")}.`,
+    ),
+    "The texts of this edition are in the public domain.",
+    `This edition typeset ${new Date().getFullYear()}.`,
+  ];
+
+  const summary = [
+    `${volumes.length} books, chapters numbered ${collection.chapterNumbering === "restart" ? "from one in each book" : "continuously"}, with the ${source.template.name} template (v${source.template.version})`,
+    ...volumes.map(
+      ({ book, revision }) =>
+        `${book.title}: cleanup revision ${revision.revisionNumber}`,
+    ),
+  ];
+  return { source, chapters, copyrightLines, summary };
+}
+
+/**
+ * Export job: lay out the collection and store the PDF
+ */
+export const renderInterior = internalAction({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    try {
+      const { source, chapters, copyrightLines, summary } =
+        await loadCollection(ctx, args.jobId);
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "rendering_pdf",
+        progress: 40,
+      });
+      const { collection } = source;
+      const printSettings = resolvePrintSettings(source.template.settings);
+      const rendered = await renderInteriorPdf(
+        {
+          title: collection.title,
+          subtitle: collection.subtitle,
+          author: collection.author,
+          copyrightLines,
+          chapters,
+        },
+        printSettings,
+      );
+      if (rendered.issues.length > 0) {
+        throw new Error(
+          `Interior does not meet ${PLATFORM_RULES[printSettings.platform].label} requirements: ${rendered.issues.join("; ")}`,
+        );
+      }
+
+      const wordCount = countWords(chapters);
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "storing_output",
+        progress: 85,
+      });
+      await finishExportJob(ctx, args.jobId, {
+        bytes: rendered.bytes,
+        contentType: "application/pdf",
+        volumeRevisionIds: source.volumes.map((volume) => volume.revision._id),
+        pageCount: rendered.pageCount,
+        wordCount,
+        logs: [
+          `Rendered ${rendered.pageCount} pages (${printSettings.trim.id}, ${rendered.margins.inside}" gutter${printSettings.bleed ? ", bleed" : ""}, ${wordCount} words) from ${summary[0]}`,
+          ...summary.slice(1),
+        ].join("\n"),
+      });
+    } catch (error) {
+      await failExportJob(ctx, args.jobId, error);
+    }
+  },
+});
+
+/**
+ * Export job: build and validate the collection's EPUB, store it
+ */
+export const buildPackage = internalAction({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    try {
+      const { source, chapters, copyrightLines, summary } =
+        await loadCollection(ctx, args.jobId);
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "building_epub",
+        progress: 40,
+      });
+      const { collection, volumes } = source;
+      const settings = resolvePrintSettings(source.template.settings);
+      const { bytes } = buildEpub(
+        {
+          identifier: `urn:bookzang:collection:${collection._id}`,
+          title: collection.title,
+          subtitle: collection.subtitle,
+          author: collection.author,
+          language: volumes[0]?.book.language,
+          contributors: [],
+          subjects: [
+            ...new Set(volumes.flatMap((volume) => volume.book.subjects ?? [])),
+          ],
+          description: collection.description,
+          modified: new Date().toISOString().replace(/\.\d{3}Z$/, "Z"),
+        },
+        chapters,
+        { style: settings, copyrightLines },
+      );
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "validating_epub",
+        progress: 70,
+      });
+      const issues = validateEpub(bytes);
+      if (issues.length > 0) {
+        throw new Error(
+          `EPUB failed validation (${issues.length} issue${issues.length === 1 ? "" : "s"}): ${issues.slice(0, 10).join("; ")}`,
+        );
+      }
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "storing_output",
+        progress: 85,
+      });
+      await finishExportJob(ctx, args.jobId, {
+        bytes,
+        contentType: "application/epub+zip",
+        volumeRevisionIds: volumes.map((volume) => volume.revision._id),
+        wordCount: countWords(chapters),
+        logs: [
+          `Built ${chapters.length} chapters from ${summary[0]}; structural validation passed`,
+          ...summary.slice(1),
+        ].join("\n"),
+      });
+    } catch (error) {
+      await failExportJob(ctx, args.jobId, error);
+    }
+  },
+});
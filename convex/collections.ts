@@ -0,0 +1,239 @@
+/**
+ * Collections
+ *
+ * Box sets and omnibus editions: an ordered list of ready books with a
+ * collection title, author and description, exported as one volume by
+ * collectionExport.ts. Books deleted from the library drop out of their
+ * collections.
+ */
+
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { chapterNumberingValidator } from "./collectionBuild";
+import {
+  downloadName,
+  loadApprovedRevision,
+  loadJobTemplate,
+} from "./exportJobs";
+import { loadJobExport } from "./exports";
+
+const collectionFields = {
+  title: v.string(),
+  subtitle: v.optional(v.string()),
+  author: v.string(),
+  description: v.optional(v.string()),
+  bookIds: v.array(v.id("books")),
+  chapterNumbering: chapterNumberingValidator,
+};
+
+type CollectionInput = {
+  title: string;
+  subtitle?: string;
+  author: string;
+  description?: string;
+  bookIds: Id<"books">[];
+};
+
+/**
+ * Trimmed fields, once the title and author are set and every book is in
+ * the library, ready and listed once
+ */
+async function checkCollectionInput(ctx: MutationCtx, args: CollectionInput) {
+  const title = args.title.trim();
+  const author = args.author.trim();
+  if (!title || !author) {
+    throw new Error("A collection needs a title and an author");
+  }
+  if (new Set(args.bookIds).size !== args.bookIds.length) {
+    throw new Error("A book can only be in a collection once");
+  }
+  for (const bookId of args.bookIds) {
+    const book = await ctx.db.get(bookId);
+    if (!book) {
+      throw new Error(`Book ${bookId} not found`);
+    }
+    if (book.status !== "ready") {
+      throw new Error(`"${book.title}" is not ready`);
+    }
+  }
+  return {
+    title,
+    subtitle: args.subtitle?.trim() || undefined,
+    author,
+    description: args.description?.trim() || undefined,
+  };
+}
+
+/**
+ * Collections, newest first, with their volumes and export jobs. A
+ * finished job carries its file from the exports registry.
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const collections = await ctx.db
+      .query("collections")
+      .order("desc")
+      .collect();
+    return await Promise.all(
+      collections.map(async (collection) => {
+        const volumes = [];
+        for (const bookId of collection.bookIds) {
+          const book = await ctx.db.get(bookId);
+          if (book) {
+            volumes.push({
+              _id: book._id,
+              title: book.title,
+              author: book.author,
+              approved:
+                book.status === "ready" &&
+                (await loadApprovedRevision(ctx, book._id)) !== null,
+            });
+          }
+        }
+        const jobs = await ctx.db
+          .query("jobs")
+          .withIndex("by_collection_id", (q) =>
+            q.eq("collectionId", collection._id),
+          )
+          .order("desc")
+          .collect();
+        return {
+          ...collection,
+          volumes,
+          exports: await Promise.all(
+            jobs.map(async (job) => {
+              const template = await loadJobTemplate(ctx, job);
+              const format = job.exportFormat ?? "pdf";
+              const artifact = await loadJobExport(ctx, job._id);
+              return {
+                _id: job._id,
+                format,
+                status: job.status,
+                stage: job.stage,
+                progress: job.progress ?? 0,
+                error: job.error,
+                queuedAt: job.queuedAt,
+                templateName: template?.name,
+                templateVersion: template?.version,
+                pageCount: artifact?.pageCount,
+                size: artifact?.size,
+                checksum: artifact?.checksum,
+                stale: artifact?.stale ?? false,
+                filename:
+                  artifact?.filename ??
+                  downloadName(collection.title, template?.name, format),
+                downloadUrl: artifact?.downloadUrl ?? null,
+              };
+            }),
+          ),
+        };
+      }),
+    );
+  },
+});
+
+export const create = mutation({
+  args: collectionFields,
+  returns: v.id("collections"),
+  handler: async (ctx, args) => {
+    const fields = await checkCollectionInput(ctx, args);
+    const now = Date.now();
+    return await ctx.db.insert("collections", {
+      ...fields,
+      bookIds: args.bookIds,
+      chapterNumbering: args.chapterNumbering,
+      createdBy: (await getAuthUserId(ctx)) ?? undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const update = mutation({
+  args: { collectionId: v.id("collections"), ...collectionFields },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const collection = await ctx.db.get(args.collectionId);
+    if (!collection) {
+      throw new Error(`Collection ${args.collectionId} not found`);
+    }
+    const fields = await checkCollectionInput(ctx, args);
+    await ctx.db.patch(collection._id, {
+      ...fields,
+      bookIds: args.bookIds,
+      chapterNumbering: args.chapterNumbering,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Delete a collection with its export jobs, their registry entries and the
+ * stored files. Refused while an export is still queued or running.
+ */
+export const remove = mutation({
+  args: { collectionId: v.id("collections") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const collection = await ctx.db.get(args.collectionId);
+    if (!collection) {
+      throw new Error(`Collection ${args.collectionId} not found`);
+    }
+    const jobs = await ctx.db
+      .query("jobs")
+      .withIndex("by_collection_id", (q) =>
+        q.eq("collectionId", collection._id),
+      )
+      .collect();
+    if (
+      jobs.some((job) => job.status === "queued" || job.status === "running")
+    ) {
+      throw new Error(
+        `Collection "${collection.title}" has an export in progress`,
+      );
+    }
+    const fileIds = new Set<Id<"_storage">>();
+    for (const job of jobs) {
+      if (job.outputFileId) {
+        fileIds.add(job.outputFileId);
+      }
+      await ctx.db.delete(job._id);
+    }
+    for (const artifact of await ctx.db
+      .query("exports")
+      .withIndex("by_collection_id", (q) =>
+        q.eq("collectionId", collection._id),
+      )
+      .collect()) {
+      fileIds.add(artifact.fileId);
+      await ctx.db.delete(artifact._id);
+    }
+    // An export's file is usually also its job's output
+    for (const fileId of fileIds) {
+      await ctx.storage.delete(fileId);
+    }
+    await ctx.db.delete(collection._id);
+    return null;
+  },
+});
+
+/**
+ * Take a deleted book out of every collection it was in
+ */
+export async function removeBookFromCollections(
+  ctx: MutationCtx,
+  bookId: Id<"books">,
+) {
+  for (const collection of await ctx.db.query("collections").collect()) {
+    if (collection.bookIds.includes(bookId)) {
+      await ctx.db.patch(collection._id, {
+        bookIds: collection.bookIds.filter((id) => id !== bookId),
+        updatedAt: Date.now(),
+      });
+    }
+  }
+}
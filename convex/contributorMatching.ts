@@ -0,0 +1,205 @@
+/**
+ * Contributor records shared across books
+ *
+ * Turns a book's credits (edited contributors, or the author plus intake
+ * credits) and its Gutenberg catalog entry into role-tagged credits, then
+ * matches each credit to an existing contributor by catalog agent id, name
+ * or alias so life dates are vetted once and reused by every book.
+ *
+ * Pure functions only - contributors.ts reads and writes the tables.
+ */
+
+import { normalizeAuthor } from "./editionMatching";
+import type { CatalogAuthor } from "./gutenbergCatalog";
+import type { BookContributor, ContributorRole } from "./metadataEdits";
+
+export type ContributorCredit = {
+  name: string;
+  role: ContributorRole;
+  sortName?: string;
+  birthYear?: number;
+  deathYear?: number;
+  authorityId?: string;
+};
+
+export type ContributorRecord = {
+  id: string;
+  name: string;
+  aliases: string[];
+  birthYear?: number;
+  deathYear?: number;
+  authorityId?: string;
+};
+
+export type ContributorUpdate = {
+  aliases?: string[];
+  sortName?: string;
+  birthYear?: number;
+  deathYear?: number;
+  authorityId?: string;
+};
+
+// Catalog roles we keep; compilers, introducers etc. are not credited
+const CATALOG_ROLES: Record<string, ContributorRole> = {
+  author: "author",
+  translator: "translator",
+  illustrator: "illustrator",
+  editor: "editor",
+};
+
+export function catalogRole(role: string): ContributorRole | undefined {
+  return CATALOG_ROLES[role.trim().toLowerCase()];
+}
+
+/**
+ * Matching key for a contributor name; empty for placeholders such as
+ * "Unknown Author" and "Anonymous"
+ */
+export function contributorKey(name: string): string {
+  return normalizeAuthor(name);
+}
+
+/**
+ * Credits for a book. An edited contributor list is authoritative; otherwise
+ * catalog credits are added to the derived list. Either way catalog life
+ * dates and agent ids are attached by name.
+ */
+export function creditsForBook(
+  contributors: BookContributor[],
+  catalogAuthors: CatalogAuthor[],
+  edited: boolean,
+): ContributorCredit[] {
+  const catalog = catalogAuthors.flatMap((author) => {
+    const role = catalogRole(author.role);
+    const key = contributorKey(author.name);
+    return role && key ? [{ author, role, key }] : [];
+  });
+
+  const credits: ContributorCredit[] = [];
+  const seen = new Set<string>();
+  const add = (credit: ContributorCredit) => {
+    const key = contributorKey(credit.name);
+    if (!key || seen.has(`${credit.role}:${key}`)) {
+      return;
+    }
+    seen.add(`${credit.role}:${key}`);
+
+    const match = catalog.find((entry) => entry.key === key);
+    credits.push({
+      ...credit,
+      sortName: credit.sortName ?? match?.author.sortName,
+      birthYear: credit.birthYear ?? match?.author.birthYear,
+      deathYear: credit.deathYear ?? match?.author.deathYear,
+      authorityId: credit.authorityId ?? match?.author.agentId,
+    });
+  };
+
+  for (const contributor of contributors) {
+    add(contributor);
+  }
+  if (!edited) {
+    for (const { author, role } of catalog) {
+      add({ name: author.name, role });
+    }
+  }
+  return credits;
+}
+
+const conflicts = (a?: number, b?: number) =>
+  a !== undefined && b !== undefined && a !== b;
+
+/**
+ * Existing contributor for a credit: same catalog agent first, then same
+ * name or alias with no conflicting life dates
+ */
+export function matchContributor(
+  records: ContributorRecord[],
+  credit: ContributorCredit,
+): ContributorRecord | undefined {
+  if (credit.authorityId) {
+    const byAuthority = records.find(
+      (record) => record.authorityId === credit.authorityId,
+    );
+    if (byAuthority) {
+      return byAuthority;
+    }
+  }
+
+  const key = contributorKey(credit.name);
+  if (!key) {
+    return undefined;
+  }
+  return records.find(
+    (record) =>
+      [record.name, ...record.aliases].some(
+        (name) => contributorKey(name) === key,
+      ) &&
+      !conflicts(record.birthYear, credit.birthYear) &&
+      !conflicts(record.deathYear, credit.deathYear) &&
+      !(
+        record.authorityId &&
+        credit.authorityId &&
+        record.authorityId !== credit.authorityId
+      ),
+  );
+}
+
+/**
+ * Gaps a credit fills on an existing contributor; vetted values are never
+ * overwritten. Returns null when nothing changes.
+ */
+export function contributorUpdateFromCredit(
+  record: ContributorRecord & { sortName?: string },
+  credit: ContributorCredit,
+): ContributorUpdate | null {
+  const update: ContributorUpdate = {};
+  const known = [record.name, ...record.aliases];
+  if (!known.includes(credit.name)) {
+    update.aliases = [...record.aliases, credit.name];
+  }
+  if (record.sortName === undefined && credit.sortName) {
+    update.sortName = credit.sortName;
+  }
+  if (record.birthYear === undefined && credit.birthYear !== undefined) {
+    update.birthYear = credit.birthYear;
+  }
+  if (record.deathYear === undefined && credit.deathYear !== undefined) {
+    update.deathYear = credit.deathYear;
+  }
+  if (record.authorityId === undefined && credit.authorityId) {
+    update.authorityId = credit.authorityId;
+  }
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+/**
+ * "1775–1817", "b. 1900", "d. 1817" or ""
+ */
+export function formatLifeDates(birthYear?: number, deathYear?: number) {
+  if (birthYear !== undefined && deathYear !== undefined) {
+    return `${birthYear}–${deathYear}`;
+  }
+  if (birthYear !== undefined) {
+    return `b. ${birthYear}`;
+  }
+  return deathYear !== undefined ? `d. ${deathYear}` : "";
+}
+
+/**
+ * Author credit with life dates for prompts and front matter,
+ * e.g. "Jane Austen (1775–1817)"
+ */
+export function formatAuthorCredit(
+  authors: Array<{ name: string; birthYear?: number; deathYear?: number }>,
+  fallback: string,
+): string {
+  if (authors.length === 0) {
+    return fallback;
+  }
+  return authors
+    .map((author) => {
+      const dates = formatLifeDates(author.birthYear, author.deathYear);
+      return dates ? `${author.name} (${dates})` : author.name;
+    })
+    .join(" and ");
+}
@@ -0,0 +1,331 @@
+/**
+ * Contributors and book credits
+ *
+ * Books keep their display author string, but every credit is also linked to
+ * a shared contributor record (canonical name, aliases, life dates, Gutenberg
+ * agent id). Copyright checks, study guides and author browsing read these
+ * records so life dates are vetted once.
+ */
+
+import { v } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  contributorUpdateFromCredit,
+  creditsForBook,
+  formatLifeDates,
+  matchContributor,
+  type ContributorRecord,
+} from "./contributorMatching";
+import { scheduleCopyrightRecheck } from "./copyrightReview";
+import type { CatalogAuthor } from "./gutenbergCatalog";
+import {
+  contributorsFromMetadata,
+  type ContributorRole,
+} from "./metadataEdits";
+
+const toRecord = (
+  contributor: Doc<"contributors">,
+): ContributorRecord & {
+  sortName?: string;
+} => ({
+  id: contributor._id,
+  name: contributor.name,
+  sortName: contributor.sortName,
+  aliases: contributor.aliases,
+  birthYear: contributor.birthYear,
+  deathYear: contributor.deathYear,
+  authorityId: contributor.authorityId,
+});
+
+async function loadCatalogAuthors(
+  ctx: QueryCtx,
+  book: Doc<"books">,
+): Promise<CatalogAuthor[]> {
+  if (!book.gutenbergId) {
+    return [];
+  }
+  const candidate = await ctx.db
+    .query("discoveryCandidates")
+    .withIndex("by_gutenberg_id", (q) => q.eq("gutenbergId", book.gutenbergId!))
+    .first();
+  return candidate?.catalogAuthors ?? [];
+}
+
+/**
+ * Rebuild a book's credits from its contributors (or author and intake
+ * credits) plus its catalog entry, creating contributor records as needed
+ */
+export async function syncBookContributors(
+  ctx: MutationCtx,
+  book: Doc<"books">,
+) {
+  const credits = creditsForBook(
+    book.contributors ??
+      contributorsFromMetadata(book.author, book.metadataFields),
+    await loadCatalogAuthors(ctx, book),
+    book.contributors !== undefined,
+  );
+
+  const records = (await ctx.db.query("contributors").collect()).map(toRecord);
+  const now = Date.now();
+
+  const links: Array<{
+    contributorId: Id<"contributors">;
+    role: ContributorRole;
+  }> = [];
+  for (const credit of credits) {
+    const match = matchContributor(records, credit);
+    if (match) {
+      const update = contributorUpdateFromCredit(match, credit);
+      if (update) {
+        await ctx.db.patch(match.id as Id<"contributors">, {
+          ...update,
+          updatedAt: now,
+        });
+        Object.assign(match, update);
+      }
+      links.push({
+        contributorId: match.id as Id<"contributors">,
+        role: credit.role,
+      });
+      continue;
+    }
+
+    const contributorId = await ctx.db.insert("contributors", {
+      name: credit.name,
+      sortName: credit.sortName,
+      aliases: [],
+      birthYear: credit.birthYear,
+      deathYear: credit.deathYear,
+      authorityId: credit.authorityId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    records.push({ ...credit, id: contributorId, aliases: [] });
+    links.push({ contributorId, role: credit.role });
+  }
+
+  await deleteBookCredits(ctx, book._id);
+  for (const [order, link] of links.entries()) {
+    await ctx.db.insert("bookContributors", {
+      bookId: book._id,
+      ...link,
+      order,
+    });
+  }
+}
+
+export async function deleteBookCredits(ctx: MutationCtx, bookId: Id<"books">) {
+  for (const row of await ctx.db
+    .query("bookContributors")
+    .withIndex("by_book_id", (q) => q.eq("bookId", bookId))
+    .collect()) {
+    await ctx.db.delete(row._id);
+  }
+}
+
+/**
+ * A book's credits joined with their contributor records, in credit order
+ */
+export async function loadBookCredits(ctx: QueryCtx, bookId: Id<"books">) {
+  const rows = await ctx.db
+    .query("bookContributors")
+    .withIndex("by_book_id", (q) => q.eq("bookId", bookId))
+    .collect();
+
+  const credits = await Promise.all(
+    rows
+      .sort((a, b) => a.order - b.order)
+      .map(async (row) => {
+        const contributor = await ctx.db.get(row.contributorId);
+        return contributor ? { ...contributor, role: row.role } : null;
+      }),
+  );
+  return credits.filter((entry) => entry !== null);
+}
+
+/**
+ * Authors with at least one credited book, for browsing the library
+ */
+export const listAuthors = query({
+  args: {},
+  handler: async (ctx) => {
+    const credits = await ctx.db.query("bookContributors").collect();
+    const bookCounts = new Map<Id<"contributors">, Set<Id<"books">>>();
+    for (const row of credits) {
+      if (row.role !== "author") {
+        continue;
+      }
+      const books = bookCounts.get(row.contributorId) ?? new Set();
+      books.add(row.bookId);
+      bookCounts.set(row.contributorId, books);
+    }
+
+    const authors = await Promise.all(
+      [...bookCounts].map(async ([contributorId, books]) => {
+        const contributor = await ctx.db.get(contributorId);
+        return contributor
+          ? {
+              ...contributor,
+              lifeDates: formatLifeDates(
+                contributor.birthYear,
+                contributor.deathYear,
+              ),
+              bookCount: books.size,
+            }
+          : null;
+      }),
+    );
+
+    return authors
+      .filter((author) => author !== null)
+      .sort((a, b) =>
+        (a.sortName ?? a.name).localeCompare(b.sortName ?? b.name),
+      );
+  },
+});
+
+/**
+ * A contributor with every book they are credited on
+ */
+export const get = query({
+  args: { contributorId: v.id("contributors") },
+  handler: async (ctx, args) => {
+    const contributor = await ctx.db.get(args.contributorId);
+    if (!contributor) {
+      return null;
+    }
+
+    const rows = await ctx.db
+      .query("bookContributors")
+      .withIndex("by_contributor_id", (q) =>
+        q.eq("contributorId", args.contributorId),
+      )
+      .collect();
+    const books = await Promise.all(
+      rows.map(async (row) => {
+        const book = await ctx.db.get(row.bookId);
+        return book
+          ? { bookId: book._id, title: book.title, role: row.role }
+          : null;
+      }),
+    );
+
+    return {
+      ...contributor,
+      lifeDates: formatLifeDates(contributor.birthYear, contributor.deathYear),
+      books: books.filter((book) => book !== null),
+    };
+  },
+});
+
+export const forBook = query({
+  args: { bookId: v.id("books") },
+  handler: async (ctx, args) => {
+    return await loadBookCredits(ctx, args.bookId);
+  },
+});
+
+/**
+ * Vet a contributor record: correct the canonical name, aliases, life dates
+ * or authority link. A replaced name is kept as an alias. Every credited
+ * book's copyright is re-checked against the new dates.
+ */
+export const update = mutation({
+  args: {
+    contributorId: v.id("contributors"),
+    name: v.optional(v.string()),
+    sortName: v.optional(v.string()),
+    aliases: v.optional(v.array(v.string())),
+    birthYear: v.optional(v.union(v.number(), v.null())),
+    deathYear: v.optional(v.union(v.number(), v.null())),
+    authorityId: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const contributor = await ctx.db.get(args.contributorId);
+    if (!contributor) {
+      throw new Error(`Contributor ${args.contributorId} not found`);
+    }
+
+    const name = args.name?.trim() || contributor.name;
+    const aliases = new Set(
+      (args.aliases ?? contributor.aliases)
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+    );
+    if (name !== contributor.name) {
+      aliases.add(contributor.name);
+    }
+    aliases.delete(name);
+
+    const year = (value: number | null | undefined, current?: number) => {
+      if (value === undefined) {
+        return current;
+      }
+      if (value !== null && !Number.isInteger(value)) {
+        throw new Error("Life dates must be whole years");
+      }
+      return value ?? undefined;
+    };
+    const birthYear = year(args.birthYear, contributor.birthYear);
+    const deathYear = year(args.deathYear, contributor.deathYear);
+    if (
+      birthYear !== undefined &&
+      deathYear !== undefined &&
+      deathYear < birthYear
+    ) {
+      throw new Error("Death year cannot be before birth year");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.contributorId, {
+      name,
+      sortName: args.sortName?.trim() || contributor.sortName,
+      aliases: [...aliases],
+      birthYear,
+      deathYear,
+      authorityId:
+        args.authorityId === undefined
+          ? contributor.authorityId
+          : args.authorityId?.trim() || undefined,
+      vettedAt: now,
+      updatedAt: now,
+    });
+
+    const credits = await ctx.db
+      .query("bookContributors")
+      .withIndex("by_contributor_id", (q) =>
+        q.eq("contributorId", args.contributorId),
+      )
+      .collect();
+    await scheduleCopyrightRecheck(
+      ctx,
+      credits.map((credit) => credit.bookId),
+      "contributor_change",
+    );
+    return null;
+  },
+});
+
+/**
+ * Link every existing book to contributor records; run once after deploy
+ */
+export const backfillBookContributors = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const books = await ctx.db.query("books").collect();
+    for (const book of books) {
+      await syncBookContributors(ctx, book);
+    }
+    return books.length;
+  },
+});
@@ -2,7 +2,8 @@
  * Copyright Analysis Pipeline
  *
  * Simple header-based copyright checking - no AI required.
- * Parses Gutenberg headers for copyright warnings and publication dates.
+ * Parses Gutenberg headers for copyright warnings and publication dates,
+ * then evaluates each territory's term from contributor death years.
  */
 
 import { v } from "convex/values";
@@ -14,9 +15,50 @@ import {
 } from "./_generated/server";
 import { internal } from "./_generated/api";
 import {
+  isExplicitCopyrightWarning,
   parseCopyrightFromHeader,
   type HeaderParseResult,
 } from "./copyrightParser";
+import { evaluateCopyright, territoryVerdictValidator } from "./copyrightRules";
+import { loadBookCredits, syncBookContributors } from "./contributors";
+import {
+  applyCopyrightOverride,
+  copyrightStatusValidator,
+} from "./copyrightReview";
+import type { MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+
+/**
+ * Contributor life dates from the shared contributor records
+ */
+async function loadContributorDates(ctx: MutationCtx, bookId: Id<"books">) {
+  const book = await ctx.db.get(bookId);
+  if (!book) {
+    return undefined;
+  }
+
+  // Re-link first so catalog entries imported since intake are picked up
+  await syncBookContributors(ctx, book);
+  const credits = await loadBookCredits(ctx, bookId);
+
+  return credits.map((credit) => ({
+    name: credit.name,
+    role: credit.role,
+    deathYear: credit.deathYear,
+    confidence:
+      credit.deathYear === undefined
+        ? "low"
+        : credit.vettedAt !== undefined || credit.authorityId
+          ? "high"
+          : "medium",
+    source:
+      credit.vettedAt !== undefined
+        ? "contributor_vetted"
+        : credit.authorityId
+          ? `gutenberg_agent_${credit.authorityId}`
+          : "contributor_record",
+  }));
+}
 
 /**
  * Analyze copyright status from book file
@@ -29,14 +71,7 @@ export const analyzeCopyright: ReturnType<typeof internalAction> =
     },
     returns: v.object({
       success: v.boolean(),
-      status: v.optional(
-        v.union(
-          v.literal("cleared"),
-          v.literal("flagged"),
-          v.literal("blocked"),
-          v.literal("unknown"),
-        ),
-      ),
+      status: v.optional(copyrightStatusValidator),
       error: v.optional(v.string()),
     }),
     handler: async (ctx, args) => {
@@ -65,18 +100,21 @@ export const analyzeCopyright: ReturnType<typeof internalAction> =
         // Parse copyright from header
         const result = parseCopyrightFromHeader(text);
 
-        // Store results
-        await ctx.runMutation(internal.copyrightAi.storeAnalysis, {
-          bookId: args.bookId,
-          result,
-          triggerSource: args.triggerSource,
-        });
+        // Evaluate territories and store results
+        const status = await ctx.runMutation(
+          internal.copyrightAi.storeAnalysis,
+          {
+            bookId: args.bookId,
+            result,
+            triggerSource: args.triggerSource,
+          },
+        );
 
-        console.log(`Copyright analysis complete: ${result.status}`);
+        console.log(`Copyright analysis complete: ${status}`);
 
         return {
           success: true,
-          status: result.status,
+          status,
         };
       } catch (error) {
         const errorMessage =
@@ -98,7 +136,9 @@ export const analyzeCopyright: ReturnType<typeof internalAction> =
   });
 
 /**
- * Store copyright analysis results
+ * Evaluate each territory from the header analysis and contributor death
+ * years, then store the verdicts. Returns the book's status, which stays
+ * at a recorded manual override.
  */
 export const storeAnalysis: ReturnType<typeof internalMutation> =
   internalMutation({
@@ -107,10 +147,11 @@ export const storeAnalysis: ReturnType<typeof internalMutation> =
       result: v.any() as any, // HeaderParseResult
       triggerSource: v.optional(v.string()),
     },
-    returns: v.null(),
+    returns: copyrightStatusValidator,
     handler: async (ctx, args) => {
       const result = args.result as HeaderParseResult;
       const now = Date.now();
+      const currentYear = new Date().getFullYear();
 
       // Get existing check or create new
       const existing = await ctx.db
@@ -118,9 +159,33 @@ export const storeAnalysis: ReturnType<typeof internalMutation> =
         .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
         .first();
 
+      const book = await ctx.db.get(args.bookId);
+      const contributors = await loadContributorDates(ctx, args.bookId);
+
+      // An explicit original-publication date beats a header copyright year
+      const evaluation = evaluateCopyright({
+        publicationYear:
+          book?.publicationYear ?? result.publicationYear ?? undefined,
+        contributors: contributors ?? [],
+        explicitCopyrightWarning: result.warnings.some(
+          isExplicitCopyrightWarning,
+        ),
+        permissionWarnings: result.warnings.filter(
+          (warning) => !isExplicitCopyrightWarning(warning),
+        ),
+        gutenbergId: book?.gutenbergId,
+        currentYear,
+      });
+
+      // Re-checks refresh the verdicts but never replace a manual decision
+      const status = existing?.manualOverride
+        ? existing.status
+        : evaluation.status;
+
       const checkData = {
         bookId: args.bookId,
-        status: result.status,
+        status,
+        contributors: contributors?.length ? contributors : undefined,
         headerAnalysis: {
           scanned: true,
           warningFlags: result.warnings,
@@ -130,10 +195,19 @@ export const storeAnalysis: ReturnType<typeof internalMutation> =
           publicationYear: result.publicationYear ?? undefined,
         },
         assessment: {
-          reason: result.reason,
+          reason: evaluation.reason,
+          latestDeathYear: evaluation.latestDeathYear,
+          yearsSinceDeath:
+            evaluation.latestDeathYear !== undefined
+              ? currentYear - evaluation.latestDeathYear
+              : undefined,
         },
+        territoryVerdicts: evaluation.territories,
+        evaluatedForYear: currentYear,
         metadata: {
           researchDate: new Date().toISOString(),
+          gutenbergId: book?.gutenbergId,
+          title: book?.title,
           triggerSource: args.triggerSource,
         },
         aiAssisted: false,
@@ -148,10 +222,10 @@ export const storeAnalysis: ReturnType<typeof internalMutation> =
 
       // Update book status
       await ctx.db.patch(args.bookId, {
-        copyrightStatus: result.status,
+        copyrightStatus: status,
       });
 
-      return null;
+      return status;
     },
   });
 
@@ -173,9 +247,10 @@ export const getBookForAnalysis: ReturnType<typeof internalQuery> =
         return null;
       }
 
+      // Binary uploads (EPUB, DOCX) are read through their converted text
       return {
         _id: book._id,
-        fileId: book.fileId,
+        fileId: book.annotatedFileId ?? book.fileId,
       };
     },
   });
@@ -199,6 +274,14 @@ export const storeAnalysisFailure: ReturnType<typeof internalMutation> =
         .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
         .first();
 
+      if (existing?.manualOverride) {
+        await ctx.db.patch(existing._id, {
+          error: args.error,
+          updatedAt: now,
+        });
+        return null;
+      }
+
       const checkData = {
         bookId: args.bookId,
         status: "unknown" as const,
@@ -232,49 +315,13 @@ export const updateCopyrightStatus: ReturnType<typeof internalMutation> =
   internalMutation({
     args: {
       bookId: v.id("books"),
-      status: v.union(
-        v.literal("unknown"),
-        v.literal("checking"),
-        v.literal("cleared"),
-        v.literal("flagged"),
-        v.literal("blocked"),
-      ),
+      status: copyrightStatusValidator,
       reason: v.optional(v.string()),
       clearedBy: v.id("users"),
     },
     returns: v.null(),
     handler: async (ctx, args) => {
-      const now = Date.now();
-
-      await ctx.db.patch(args.bookId, {
-        copyrightStatus: args.status,
-      });
-
-      const existing = await ctx.db
-        .query("copyrightChecks")
-        .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
-        .first();
-
-      const checkData = {
-        bookId: args.bookId,
-        status: args.status,
-        manualOverride: true,
-        clearedBy: args.clearedBy,
-        clearedAt: now,
-        manualReason: args.reason,
-        updatedAt: now,
-      };
-
-      if (existing) {
-        await ctx.db.patch(existing._id, checkData);
-      } else {
-        await ctx.db.insert("copyrightChecks", {
-          ...checkData,
-          researchedAt: now,
-          aiAssisted: false,
-        });
-      }
-
+      await applyCopyrightOverride(ctx, args);
       return null;
     },
   });
@@ -297,6 +344,7 @@ export const getCopyrightStatus: ReturnType<typeof query> = query({
       permissionRequired: v.optional(v.boolean()),
       researchedAt: v.optional(v.number()),
       manualOverride: v.optional(v.boolean()),
+      territoryVerdicts: v.optional(v.array(territoryVerdictValidator)),
     }),
   ),
   handler: async (ctx, args) => {
@@ -317,6 +365,7 @@ export const getCopyrightStatus: ReturnType<typeof query> = query({
       permissionRequired: check?.headerAnalysis?.permissionNotes ? true : false,
       researchedAt: check?.researchedAt,
       manualOverride: check?.manualOverride,
+      territoryVerdicts: check?.territoryVerdicts,
     };
   },
 });
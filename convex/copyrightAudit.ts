@@ -0,0 +1,207 @@
+/**
+ * Copyright audit report, export gate and dashboard summaries
+ *
+ * Flattens stored copyright checks into one audit line per book and
+ * territory (verdict, rule, explanation trail, manual override and who
+ * recorded it), counts verdicts per territory for the dashboard, and
+ * decides whether a book's copyright lets it be exported or published.
+ *
+ * Pure functions only - copyrightReview.ts loads the checks.
+ */
+
+import {
+  TERRITORIES,
+  type Territory,
+  type TerritoryVerdict,
+} from "./copyrightRules";
+
+export type CopyrightAuditEntry = {
+  title: string;
+  author: string;
+  gutenbergId?: string;
+  status: string;
+  reason?: string;
+  territoryVerdicts?: TerritoryVerdict[];
+  manualOverride?: boolean;
+  manualReason?: string;
+  clearedByName?: string;
+  clearedAt?: number;
+  researchedAt?: number;
+  evaluatedForYear?: number;
+};
+
+export type TerritorySummary = {
+  territory: Territory;
+  cleared: number;
+  flagged: number;
+  blocked: number;
+  // Books with no verdict for the territory yet
+  unchecked: number;
+};
+
+export type CopyrightGateCheck = {
+  reason?: string;
+  manualOverride?: boolean;
+  manualReason?: string;
+  clearedBy?: string;
+};
+
+export type CopyrightGate = {
+  allowed: boolean;
+  // Why export is held, for readiness and the templates page
+  reason?: string;
+  clearedByOverride: boolean;
+};
+
+const AUDIT_COLUMNS = [
+  "Title",
+  "Author",
+  "Gutenberg ID",
+  "Overall status",
+  "Territory",
+  "Territory status",
+  "Rule",
+  "Public domain from",
+  "Explanation",
+  "Manual override",
+  "Override reason",
+  "Cleared by",
+  "Cleared at",
+  "Researched at",
+  "Evaluated for year",
+] as const;
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoDate = (timestamp?: number) =>
+  timestamp === undefined ? undefined : new Date(timestamp).toISOString();
+
+/**
+ * CSV audit report, one line per book and territory. Books that were never
+ * evaluated per territory get a single line with the overall status.
+ */
+export function copyrightAuditCsv(entries: CopyrightAuditEntry[]): string {
+  const lines = [AUDIT_COLUMNS.join(",")];
+
+  for (const entry of entries) {
+    const shared = {
+      before: [entry.title, entry.author, entry.gutenbergId, entry.status],
+      after: [
+        entry.manualOverride ? "yes" : "no",
+        entry.manualReason,
+        entry.clearedByName,
+        isoDate(entry.clearedAt),
+        isoDate(entry.researchedAt),
+        entry.evaluatedForYear,
+      ],
+    };
+    const verdicts = entry.territoryVerdicts ?? [];
+    const rows =
+      verdicts.length > 0
+        ? verdicts.map((verdict) => [
+            verdict.territory,
+            verdict.status,
+            verdict.rule,
+            verdict.publicDomainFrom,
+            verdict.explanation.join(" "),
+          ])
+        : [[undefined, undefined, undefined, undefined, entry.reason]];
+
+    for (const row of rows) {
+      lines.push(
+        [...shared.before, ...row, ...shared.after].map(csvCell).join(","),
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Verdict counts per territory across the library
+ */
+export function summarizeTerritories(
+  entries: Array<Pick<CopyrightAuditEntry, "territoryVerdicts">>,
+): TerritorySummary[] {
+  return TERRITORIES.map((territory) => {
+    const summary: TerritorySummary = {
+      territory,
+      cleared: 0,
+      flagged: 0,
+      blocked: 0,
+      unchecked: 0,
+    };
+    for (const entry of entries) {
+      const verdict = entry.territoryVerdicts?.find(
+        (candidate) => candidate.territory === territory,
+      );
+      if (verdict) {
+        summary[verdict.status] += 1;
+      } else {
+        summary.unchecked += 1;
+      }
+    }
+    return summary;
+  });
+}
+
+/**
+ * Export and publish gate. Cleared books pass; a manual override passes only
+ * when it records a cleared status, the reviewer and a reason.
+ */
+export function copyrightExportGate(
+  status: string | undefined,
+  check: CopyrightGateCheck | null | undefined,
+): CopyrightGate {
+  if (check?.manualOverride) {
+    if (status !== "cleared") {
+      return {
+        allowed: false,
+        reason: `Copyright manually marked ${status ?? "unknown"}${check.manualReason ? `: ${check.manualReason}` : ""}`,
+        clearedByOverride: false,
+      };
+    }
+    if (!check.clearedBy || !check.manualReason?.trim()) {
+      return {
+        allowed: false,
+        reason:
+          "Manual copyright clearance has no recorded reviewer or reason; record it on the Copyright page",
+        clearedByOverride: false,
+      };
+    }
+    return { allowed: true, clearedByOverride: true };
+  }
+
+  const detail = check?.reason ? `: ${check.reason}` : "";
+  switch (status) {
+    case "cleared":
+      return { allowed: true, clearedByOverride: false };
+    case "blocked":
+      return {
+        allowed: false,
+        reason: `Copyright blocked${detail}`,
+        clearedByOverride: false,
+      };
+    case "flagged":
+      return {
+        allowed: false,
+        reason: `Copyright needs review${detail}`,
+        clearedByOverride: false,
+      };
+    case "checking":
+      return {
+        allowed: false,
+        reason: "Copyright check in progress",
+        clearedByOverride: false,
+      };
+    default:
+      return {
+        allowed: false,
+        reason: "Copyright has not been checked",
+        clearedByOverride: false,
+      };
+  }
+}
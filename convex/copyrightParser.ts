@@ -127,6 +127,17 @@ export function checkHeaderWarnings(headerText: string): string[] {
   return warnings;
 }
 
+/**
+ * Warnings that mark the text itself as copyrighted
+ */
+export function isExplicitCopyrightWarning(warning: string): boolean {
+  return (
+    warning.includes("EXPLICIT COPYRIGHT") ||
+    warning.includes("Copyright guidelines") ||
+    warning.includes("not public domain")
+  );
+}
+
 /**
  * Parse copyright status from header
  */
@@ -136,12 +147,7 @@ export function parseCopyrightFromHeader(text: string): HeaderParseResult {
   const pubDate = extractPublicationDate(headerText);
 
   // BLOCK: Explicit copyright warnings
-  const hasCopyrightWarning = warnings.some(
-    (w) =>
-      w.includes("EXPLICIT COPYRIGHT") ||
-      w.includes("Copyright guidelines") ||
-      w.includes("not public domain"),
-  );
+  const hasCopyrightWarning = warnings.some(isExplicitCopyrightWarning);
 
   if (hasCopyrightWarning) {
     return {
@@ -0,0 +1,287 @@
+/**
+ * Copyright review
+ *
+ * Keeps copyright verdicts current and reviewable: non-cleared books are
+ * re-evaluated at year rollover (terms expire on 1 January) and whenever
+ * their contributor data changes. The dashboard lists every book by status
+ * and territory, records bulk manual overrides with who cleared them, and
+ * exports the audit report.
+ */
+
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  copyrightAuditCsv,
+  copyrightExportGate,
+  summarizeTerritories,
+} from "./copyrightAudit";
+
+export const copyrightStatusValidator = v.union(
+  v.literal("unknown"),
+  v.literal("checking"),
+  v.literal("cleared"),
+  v.literal("flagged"),
+  v.literal("blocked"),
+);
+
+type CopyrightStatus = NonNullable<Doc<"books">["copyrightStatus"]>;
+
+// Spread scheduled re-checks so a rollover doesn't read every file at once
+const RECHECK_STAGGER_MS = 1000;
+
+/**
+ * Schedule a fresh copyright analysis for books that have text to read
+ */
+export async function scheduleCopyrightRecheck(
+  ctx: MutationCtx,
+  bookIds: Id<"books">[],
+  triggerSource: string,
+) {
+  let scheduled = 0;
+  for (const bookId of new Set(bookIds)) {
+    const book = await ctx.db.get(bookId);
+    if (!book?.fileId && !book?.annotatedFileId) {
+      continue;
+    }
+    await ctx.scheduler.runAfter(
+      scheduled * RECHECK_STAGGER_MS,
+      internal.copyrightAi.analyzeCopyright,
+      { bookId, triggerSource },
+    );
+    scheduled += 1;
+  }
+  return scheduled;
+}
+
+/**
+ * Record a manual copyright decision on the book and its check
+ */
+export async function applyCopyrightOverride(
+  ctx: MutationCtx,
+  args: {
+    bookId: Id<"books">;
+    status: CopyrightStatus;
+    reason?: string;
+    clearedBy: Id<"users">;
+  },
+) {
+  const now = Date.now();
+
+  await ctx.db.patch(args.bookId, {
+    copyrightStatus: args.status,
+  });
+
+  const existing = await ctx.db
+    .query("copyrightChecks")
+    .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
+    .first();
+
+  const checkData = {
+    bookId: args.bookId,
+    status: args.status,
+    manualOverride: true,
+    clearedBy: args.clearedBy,
+    clearedAt: now,
+    manualReason: args.reason,
+    updatedAt: now,
+  };
+
+  if (existing) {
+    await ctx.db.patch(existing._id, checkData);
+  } else {
+    await ctx.db.insert("copyrightChecks", {
+      ...checkData,
+      researchedAt: now,
+      aiAssisted: false,
+    });
+  }
+}
+
+/**
+ * Whether a book's copyright lets it be exported or published
+ */
+export async function loadCopyrightGate(ctx: QueryCtx, book: Doc<"books">) {
+  const check = await ctx.db
+    .query("copyrightChecks")
+    .withIndex("by_book_id", (q) => q.eq("bookId", book._id))
+    .first();
+  return copyrightExportGate(book.copyrightStatus, {
+    reason: check?.assessment?.reason,
+    manualOverride: check?.manualOverride,
+    manualReason: check?.manualReason,
+    clearedBy: check?.clearedBy,
+  });
+}
+
+/**
+ * Throw unless the book's copyright allows the action, e.g. "export"
+ */
+export async function assertCopyrightCleared(
+  ctx: QueryCtx,
+  bookId: Id<"books">,
+  action: string,
+) {
+  const book = await ctx.db.get(bookId);
+  if (!book) {
+    throw new Error(`Book ${bookId} not found`);
+  }
+  const gate = await loadCopyrightGate(ctx, book);
+  if (!gate.allowed) {
+    throw new Error(`Cannot ${action} "${book.title}": ${gate.reason}`);
+  }
+}
+
+/**
+ * Year-rollover job: re-evaluate every book that is not cleared. Manual
+ * overrides stand until a reviewer changes them.
+ */
+export const recheckNonClearedBooks = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const books = await ctx.db.query("books").collect();
+    const bookIds: Id<"books">[] = [];
+    for (const book of books) {
+      if (book.copyrightStatus === "cleared") {
+        continue;
+      }
+      const check = await ctx.db
+        .query("copyrightChecks")
+        .withIndex("by_book_id", (q) => q.eq("bookId", book._id))
+        .first();
+      if (!check?.manualOverride) {
+        bookIds.push(book._id);
+      }
+    }
+    return await scheduleCopyrightRecheck(ctx, bookIds, "year_rollover");
+  },
+});
+
+/**
+ * Every book with its stored check, for the dashboard and audit report
+ */
+async function loadCopyrightEntries(ctx: QueryCtx) {
+  const books = await ctx.db.query("books").collect();
+  const entries = await Promise.all(
+    books.map(async (book) => {
+      const check = await ctx.db
+        .query("copyrightChecks")
+        .withIndex("by_book_id", (q) => q.eq("bookId", book._id))
+        .first();
+      const clearedBy = check?.clearedBy
+        ? await ctx.db.get(check.clearedBy)
+        : null;
+
+      return {
+        bookId: book._id,
+        title: book.title,
+        author: book.author,
+        gutenbergId: book.gutenbergId,
+        status: book.copyrightStatus ?? "unknown",
+        reason: check?.assessment?.reason,
+        territoryVerdicts: check?.territoryVerdicts,
+        manualOverride: check?.manualOverride,
+        manualReason: check?.manualReason,
+        clearedByName: clearedBy
+          ? (clearedBy.name ?? clearedBy.email ?? "Anonymous")
+          : undefined,
+        clearedAt: check?.clearedAt,
+        researchedAt: check?.researchedAt,
+        evaluatedForYear: check?.evaluatedForYear,
+        error: check?.error,
+      };
+    }),
+  );
+  return entries.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Copyright dashboard: every book with its verdicts, plus counts per territory
+ */
+export const dashboard = query({
+  args: {},
+  handler: async (ctx) => {
+    const books = await loadCopyrightEntries(ctx);
+    return {
+      books,
+      territories: summarizeTerritories(books),
+    };
+  },
+});
+
+/**
+ * CSV audit report of every book's verdicts and manual decisions
+ */
+export const auditReport = query({
+  args: {},
+  returns: v.object({ filename: v.string(), csv: v.string() }),
+  handler: async (ctx) => {
+    const entries = await loadCopyrightEntries(ctx);
+    const date = new Date().toISOString().slice(0, 10);
+    return {
+      filename: `copyright-audit-${date}.csv`,
+      csv: copyrightAuditCsv(entries),
+    };
+  },
+});
+
+/**
+ * Record the same manual decision on several books. The reason and the
+ * signed-in reviewer are kept for the audit report.
+ */
+export const bulkOverride = mutation({
+  args: {
+    bookIds: v.array(v.id("books")),
+    status: v.union(
+      v.literal("cleared"),
+      v.literal("flagged"),
+      v.literal("blocked"),
+    ),
+    reason: v.string(),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const clearedBy = await getAuthUserId(ctx);
+    if (!clearedBy) {
+      throw new Error("Sign in to override copyright status");
+    }
+    const reason = args.reason.trim();
+    if (!reason) {
+      throw new Error("A reason is required for a manual override");
+    }
+
+    const bookIds = [...new Set(args.bookIds)];
+    for (const bookId of bookIds) {
+      if (!(await ctx.db.get(bookId))) {
+        throw new Error(`Book ${bookId} not found`);
+      }
+      await applyCopyrightOverride(ctx, {
+        bookId,
+        status: args.status,
+        reason,
+        clearedBy,
+      });
+    }
+    return bookIds.length;
+  },
+});
+
+/**
+ * Re-run the copyright analysis for selected books now
+ */
+export const bulkRecheck = mutation({
+  args: { bookIds: v.array(v.id("books")) },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    return await scheduleCopyrightRecheck(ctx, args.bookIds, "manual_recheck");
+  },
+});
@@ -0,0 +1,449 @@
+/**
+ * Per-territory copyright rules
+ *
+ * Evaluates each store territory separately:
+ * - US: publication-date rules (95 years from publication, the 1964 renewal
+ *   cut-off, life+70 for works first published from 1978); a credited
+ *   translation runs from its own date or its translator's death
+ * - UK and EU: life+70
+ * - Everywhere else: life+50
+ * Authors and translators decide whether the text itself is protected;
+ * illustrators and editors only flag their separable contributions. Every
+ * verdict carries an explanation trail for the audit record.
+ *
+ * Pure functions only - copyrightAi.ts gathers the inputs and stores the
+ * verdicts on copyrightChecks.
+ */
+
+import { v } from "convex/values";
+import type { ContributorRole } from "./metadataEdits";
+
+export const TERRITORIES = ["US", "UK", "EU", "ROW"] as const;
+export type Territory = (typeof TERRITORIES)[number];
+
+// Stores we sell in; the overall status is the worst of these
+export const SALES_TERRITORIES: Territory[] = ["US", "UK", "EU"];
+
+export type VerdictStatus = "cleared" | "flagged" | "blocked";
+
+export type TerritoryVerdict = {
+  territory: Territory;
+  status: VerdictStatus;
+  rule: string;
+  // First calendar year the work is public domain there, when known
+  publicDomainFrom?: number;
+  explanation: string[];
+};
+
+export const territoryValidator = v.union(
+  v.literal("US"),
+  v.literal("UK"),
+  v.literal("EU"),
+  v.literal("ROW"),
+);
+
+export const territoryVerdictValidator = v.object({
+  territory: territoryValidator,
+  status: v.union(
+    v.literal("cleared"),
+    v.literal("flagged"),
+    v.literal("blocked"),
+  ),
+  rule: v.string(),
+  publicDomainFrom: v.optional(v.number()),
+  explanation: v.array(v.string()),
+});
+
+export type CopyrightContributor = {
+  name: string;
+  role: ContributorRole;
+  deathYear?: number;
+};
+
+export type CopyrightInput = {
+  // First publication anywhere, from an explicit statement
+  publicationYear?: number;
+  // First publication of the credited translation, when known
+  translationYear?: number;
+  contributors: CopyrightContributor[];
+  // Header marks the text as copyrighted or not public domain
+  explicitCopyrightWarning: boolean;
+  // Permission or rights-holder notices that need a human look
+  permissionWarnings: string[];
+  // Project Gutenberg clears US status before it releases a text
+  gutenbergId?: string;
+  currentYear: number;
+};
+
+export type CopyrightEvaluation = {
+  status: VerdictStatus;
+  reason: string;
+  territories: TerritoryVerdict[];
+  latestDeathYear?: number;
+};
+
+const LIFE_TERMS: Record<Exclude<Territory, "US">, number> = {
+  UK: 70,
+  EU: 70,
+  ROW: 50,
+};
+
+const US_PUBLICATION_TERM = 95;
+const US_LIFE_TERM = 70;
+// Works published 1964-1977 were renewed automatically
+const US_AUTOMATIC_RENEWAL_FROM = 1964;
+const US_LIFE_TERM_FROM = 1978;
+
+// With no death year, assume a contributor lived at most this long after
+// the work was published
+const ASSUMED_YEARS_AFTER_PUBLICATION = 80;
+
+const SEVERITY: Record<VerdictStatus, number> = {
+  cleared: 0,
+  flagged: 1,
+  blocked: 2,
+};
+
+const worst = (statuses: VerdictStatus[]): VerdictStatus =>
+  statuses.reduce<VerdictStatus>(
+    (current, status) =>
+      SEVERITY[status] > SEVERITY[current] ? status : current,
+    "cleared",
+  );
+
+const ROLE_NOUN: Record<ContributorRole, string> = {
+  author: "Author",
+  translator: "Translator",
+  illustrator: "Illustrator",
+  editor: "Editor",
+};
+
+const isCore = (contributor: CopyrightContributor) =>
+  contributor.role === "author" || contributor.role === "translator";
+
+/**
+ * Life+N for one territory. Returns the status from the text's authors and
+ * translators, then downgrades to flagged for protected illustrations or
+ * editorial matter.
+ */
+function evaluateLifeTerm(
+  territory: Territory,
+  term: number,
+  input: CopyrightInput,
+): TerritoryVerdict {
+  const { currentYear, publicationYear } = input;
+  const explanation: string[] = [];
+  const rule = `life_plus_${term}`;
+
+  // First public-domain year for one contributor's share, if computable
+  const expiry = (contributor: CopyrightContributor): number | undefined => {
+    const noun = ROLE_NOUN[contributor.role];
+    if (contributor.deathYear !== undefined) {
+      const from = contributor.deathYear + term + 1;
+      explanation.push(
+        `${noun} ${contributor.name} died ${contributor.deathYear}; protected through ${from - 1}.`,
+      );
+      return from;
+    }
+    if (
+      publicationYear !== undefined &&
+      publicationYear + ASSUMED_YEARS_AFTER_PUBLICATION + term < currentYear
+    ) {
+      const from = publicationYear + ASSUMED_YEARS_AFTER_PUBLICATION + term;
+      explanation.push(
+        `${noun} ${contributor.name} has no death year, but the work was published in ${publicationYear}; the term is assumed to have expired by ${from}.`,
+      );
+      return from;
+    }
+    explanation.push(
+      `${noun} ${contributor.name} has no death year; the life+${term} term cannot be computed.`,
+    );
+    return undefined;
+  };
+
+  const core = input.contributors.filter(isCore);
+  let status: VerdictStatus;
+  let publicDomainFrom: number | undefined;
+
+  if (core.length === 0) {
+    // Anonymous works run from publication
+    if (publicationYear === undefined) {
+      explanation.push(
+        "No named author or translator and no publication year; cannot apply an anonymous-work term.",
+      );
+      status = "flagged";
+    } else {
+      publicDomainFrom = publicationYear + term + 1;
+      explanation.push(
+        `No named author; anonymous works are protected for ${term} years from publication (${publicationYear}).`,
+      );
+      status = currentYear >= publicDomainFrom ? "cleared" : "blocked";
+    }
+  } else {
+    const expiries = core.map(expiry);
+    const known = expiries.filter((from) => from !== undefined);
+    publicDomainFrom =
+      known.length === expiries.length ? Math.max(...known) : undefined;
+
+    if (known.some((from) => currentYear < from)) {
+      status = "blocked";
+    } else if (publicDomainFrom === undefined) {
+      status = "flagged";
+    } else {
+      status = "cleared";
+    }
+  }
+
+  const separable = input.contributors.filter(
+    (contributor) => !isCore(contributor),
+  );
+  for (const contributor of separable) {
+    const from = expiry(contributor);
+    if (from === undefined || currentYear < from) {
+      explanation.push(
+        `${ROLE_NOUN[contributor.role]} ${contributor.name}'s contributions may still be protected; publish the text without them or verify.`,
+      );
+      status = worst([status, "flagged"]);
+    }
+  }
+
+  explanation.push(
+    status === "cleared"
+      ? `Public domain in ${territory} under life+${term}.`
+      : status === "blocked"
+        ? `Still protected in ${territory}${publicDomainFrom ? ` until ${publicDomainFrom}` : ""}.`
+        : `Needs review for ${territory}.`,
+  );
+
+  return { territory, status, rule, publicDomainFrom, explanation };
+}
+
+/**
+ * US rules for a translation with no known date. The translator cannot have
+ * published it after their death, so a death year bounds the translation's
+ * publication year.
+ */
+function evaluateUsTranslation(
+  translators: CopyrightContributor[],
+  currentYear: number,
+): TerritoryVerdict {
+  const deaths = translators.map((c) => c.deathYear);
+  if (!deaths.every((year) => year !== undefined)) {
+    return {
+      territory: "US",
+      status: "flagged",
+      rule: "us_translation_unknown",
+      explanation: [
+        "The translation date and the translator's death year are unknown; US terms for the translation cannot be computed.",
+      ],
+    };
+  }
+
+  const latestDeath = Math.max(...(deaths as number[]));
+  const publishedBy = latestDeath + US_PUBLICATION_TERM + 1;
+  if (currentYear >= publishedBy) {
+    return {
+      territory: "US",
+      status: "cleared",
+      rule: "us_translator_death",
+      publicDomainFrom: publishedBy,
+      explanation: [
+        `Translation date unknown; the translator died ${latestDeath}, so it was published by then and entered the public domain by ${publishedBy}.`,
+      ],
+    };
+  }
+
+  // Latest case: renewed before 1978 or life+70 from 1978
+  const publicDomainFrom = Math.max(
+    Math.min(latestDeath, US_LIFE_TERM_FROM - 1) + US_PUBLICATION_TERM + 1,
+    latestDeath + US_LIFE_TERM + 1,
+  );
+  return {
+    territory: "US",
+    status: "blocked",
+    rule: "us_translation_protected",
+    publicDomainFrom,
+    explanation: [
+      `Translation date unknown; the translator died ${latestDeath}, so the translation may be protected until ${publicDomainFrom}.`,
+    ],
+  };
+}
+
+/**
+ * US rules: 95 years from publication for works published before 1978
+ * (with the renewal question for 1931-1963), life+70 from 1978
+ */
+function evaluateUs(input: CopyrightInput): TerritoryVerdict {
+  const { currentYear } = input;
+  let { publicationYear } = input;
+  const explanation: string[] = [];
+  const gutenberg = input.gutenbergId !== undefined;
+  const gutenbergNote = `Project Gutenberg released it as eBook #${input.gutenbergId} after clearing US status.`;
+
+  // A translation has its own term; Gutenberg's clearance covers the text
+  // it released, translation included
+  const translators = input.contributors.filter((c) => c.role === "translator");
+  if (translators.length > 0 && !gutenberg) {
+    if (input.translationYear === undefined) {
+      return evaluateUsTranslation(translators, currentYear);
+    }
+    explanation.push(
+      `Translated ${input.translationYear}; US terms for the translation run from that year.`,
+    );
+    publicationYear = Math.max(
+      publicationYear ?? input.translationYear,
+      input.translationYear,
+    );
+  }
+
+  if (publicationYear === undefined) {
+    if (gutenberg) {
+      explanation.push("Publication year unknown.", gutenbergNote);
+      return {
+        territory: "US",
+        status: "cleared",
+        rule: "us_gutenberg_clearance",
+        explanation,
+      };
+    }
+    explanation.push(
+      "Publication year unknown; US terms run from publication.",
+    );
+    return {
+      territory: "US",
+      status: "flagged",
+      rule: "us_publication_unknown",
+      explanation,
+    };
+  }
+
+  const publicDomainFrom = publicationYear + US_PUBLICATION_TERM + 1;
+  if (publicationYear < US_LIFE_TERM_FROM && currentYear >= publicDomainFrom) {
+    explanation.push(
+      `Published ${publicationYear}; US terms for pre-1978 works last ${US_PUBLICATION_TERM} years, so it entered the public domain in ${publicDomainFrom}.`,
+    );
+    return {
+      territory: "US",
+      status: "cleared",
+      rule: "us_publication_95",
+      publicDomainFrom,
+      explanation,
+    };
+  }
+
+  if (publicationYear < US_AUTOMATIC_RENEWAL_FROM) {
+    explanation.push(
+      `Published ${publicationYear}; protected until ${publicDomainFrom} only if the copyright was renewed.`,
+    );
+    if (gutenberg) {
+      explanation.push(gutenbergNote);
+      return {
+        territory: "US",
+        status: "cleared",
+        rule: "us_not_renewed",
+        explanation,
+      };
+    }
+    explanation.push("Check the renewal records before publishing.");
+    return {
+      territory: "US",
+      status: "flagged",
+      rule: "us_renewal_unknown",
+      publicDomainFrom,
+      explanation,
+    };
+  }
+
+  if (publicationYear < US_LIFE_TERM_FROM) {
+    explanation.push(
+      `Published ${publicationYear}; renewal was automatic, protected until ${publicDomainFrom}.`,
+    );
+  } else {
+    const deaths = input.contributors.filter(isCore).map((c) => c.deathYear);
+    const lifeFrom =
+      deaths.length > 0 && deaths.every((year) => year !== undefined)
+        ? Math.max(...(deaths as number[])) + US_LIFE_TERM + 1
+        : undefined;
+    explanation.push(
+      `Published ${publicationYear}; works from ${US_LIFE_TERM_FROM} are protected for life+${US_LIFE_TERM}${lifeFrom ? `, until ${lifeFrom}` : ""}.`,
+    );
+  }
+
+  if (gutenberg) {
+    explanation.push(gutenbergNote);
+    return {
+      territory: "US",
+      status: "flagged",
+      rule: "us_gutenberg_clearance",
+      explanation: [
+        ...explanation,
+        "The dates disagree with that clearance; confirm the publication year.",
+      ],
+    };
+  }
+  return {
+    territory: "US",
+    status: "blocked",
+    rule:
+      publicationYear < US_LIFE_TERM_FROM ? "us_publication_95" : "us_life_70",
+    publicDomainFrom:
+      publicationYear < US_LIFE_TERM_FROM ? publicDomainFrom : undefined,
+    explanation,
+  };
+}
+
+/**
+ * Evaluate every territory and summarize the sales territories
+ */
+export function evaluateCopyright(input: CopyrightInput): CopyrightEvaluation {
+  let territories: TerritoryVerdict[] = [
+    evaluateUs(input),
+    evaluateLifeTerm("UK", LIFE_TERMS.UK, input),
+    evaluateLifeTerm("EU", LIFE_TERMS.EU, input),
+    evaluateLifeTerm("ROW", LIFE_TERMS.ROW, input),
+  ];
+
+  if (input.explicitCopyrightWarning) {
+    territories = territories.map((verdict) => ({
+      ...verdict,
+      status: "blocked",
+      rule: "header_copyright_notice",
+      explanation: [
+        "The header marks this text as copyrighted or not public domain.",
+        ...verdict.explanation,
+      ],
+    }));
+  } else if (input.permissionWarnings.length > 0) {
+    territories = territories.map((verdict) => ({
+      ...verdict,
+      status: worst([verdict.status, "flagged"]),
+      explanation: [
+        ...verdict.explanation,
+        `Header notices need review: ${input.permissionWarnings.join("; ")}.`,
+      ],
+    }));
+  }
+
+  const sales = territories.filter((verdict) =>
+    SALES_TERRITORIES.includes(verdict.territory),
+  );
+  const status = worst(sales.map((verdict) => verdict.status));
+
+  const authorDeaths = input.contributors
+    .filter((c) => c.role === "author" && c.deathYear !== undefined)
+    .map((c) => c.deathYear as number);
+
+  return {
+    status,
+    reason: sales
+      .map((verdict) =>
+        verdict.status === "blocked" && verdict.publicDomainFrom
+          ? `${verdict.territory}: blocked until ${verdict.publicDomainFrom}`
+          : `${verdict.territory}: ${verdict.status}`,
+      )
+      .join("; "),
+    territories,
+    latestDeathYear:
+      authorDeaths.length > 0 ? Math.max(...authorDeaths) : undefined,
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * Print cover export
+ *
+ * Wraps a finished PDF interior: the interior job's page count sizes the
+ * spine and its template snapshot gives the trim, so the cover always
+ * matches the file it is printed with. The job walks loading_content ->
+ * rendering_cover -> storing_output. Also keeps the book's cover image
+ * and back cover blurb.
+ */
+
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalQuery,
+  mutation,
+  query,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { assertCopyrightCleared } from "./copyrightReview";
+import {
+  COVER_DESIGNS,
+  PAPER_TYPES,
+  coverDesignValidator,
+  coverDimensions,
+  paperTypeValidator,
+} from "./coverLayout";
+import { renderCoverPdf } from "./coverPdf";
+import { failExportJob, finishExportJob, loadJobTemplate } from "./exportJobs";
+import { resolvePrintSettings } from "./printSpecs";
+
+const BLURB_MAX_LENGTH = 2000;
+
+/**
+ * A finished PDF interior of the book with its registry entry, which holds
+ * the page count and revision, and the template snapshot it was rendered
+ * with
+ */
+async function loadInterior(
+  ctx: QueryCtx,
+  bookId: Id<"books">,
+  interiorJobId: Id<"jobs">,
+) {
+  const interior = await ctx.db.get(interiorJobId);
+  if (
+    !interior ||
+    interior.bookId !== bookId ||
+    interior.type !== "export" ||
+    (interior.exportFormat ?? "pdf") !== "pdf"
+  ) {
+    throw new Error(`Export job ${interiorJobId} is not a PDF interior`);
+  }
+  const artifact = await ctx.db
+    .query("exports")
+    .withIndex("by_job_id", (q) => q.eq("jobId", interior._id))
+    .first();
+  if (artifact?.pageCount === undefined) {
+    throw new Error(
+      "The interior has no final page count; re-export the interior PDF first",
+    );
+  }
+  const template = await loadJobTemplate(ctx, interior);
+  if (!template) {
+    throw new Error(`Export job ${interiorJobId} has no template`);
+  }
+  return { interior, artifact, pageCount: artifact.pageCount, template };
+}
+
+/**
+ * Queue a cover export for a finished PDF interior
+ */
+export const start = mutation({
+  args: {
+    bookId: v.id("books"),
+    interiorJobId: v.id("jobs"),
+    design: coverDesignValidator,
+    paper: paperTypeValidator,
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    if (!book) {
+      throw new Error(`Book ${args.bookId} not found`);
+    }
+    const { interior } = await loadInterior(ctx, book._id, args.interiorJobId);
+    await assertCopyrightCleared(ctx, book._id, "export");
+
+    const jobId = await ctx.db.insert("jobs", {
+      type: "export",
+      bookId: book._id,
+      templateId: interior.templateId,
+      templateVersion: interior.templateVersion,
+      exportFormat: "cover",
+      interiorJobId: interior._id,
+      coverOptions: { design: args.design, paper: args.paper },
+      requestedBy: (await getAuthUserId(ctx)) ?? undefined,
+      status: "queued",
+      stage: "queued",
+      progress: 0,
+      logs: "",
+      queuedAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.coverExport.renderCover, {
+      jobId,
+    });
+    return jobId;
+  },
+});
+
+/**
+ * Spine width and sheet size for a finished interior on a paper, in inches
+ */
+export const dimensions = query({
+  args: {
+    bookId: v.id("books"),
+    interiorJobId: v.id("jobs"),
+    paper: paperTypeValidator,
+  },
+  handler: async (ctx, args) => {
+    const { pageCount, template } = await loadInterior(
+      ctx,
+      args.bookId,
+      args.interiorJobId,
+    );
+    const { trim } = resolvePrintSettings(template.settings);
+    const dimensions = coverDimensions(trim, pageCount, args.paper);
+    return {
+      pageCount,
+      trimSize: trim.id,
+      spineWidth: dimensions.spineWidth,
+      width: dimensions.width,
+      height: dimensions.height,
+      spineText: dimensions.spineText,
+    };
+  },
+});
+
+/**
+ * The book's cover image and back cover blurb
+ */
+export const getCoverAssets = query({
+  args: { bookId: v.id("books") },
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    if (!book) {
+      return null;
+    }
+    return {
+      blurb: book.coverBlurb ?? "",
+      imageUrl: book.coverImageFileId
+        ? await ctx.storage.getUrl(book.coverImageFileId)
+        : null,
+    };
+  },
+});
+
+/**
+ * Set or clear the book's cover image; the replaced file is deleted
+ */
+export const setCoverImage = mutation({
+  args: {
+    bookId: v.id("books"),
+    fileId: v.optional(v.id("_storage")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    if (!book) {
+      throw new Error(`Book ${args.bookId} not found`);
+    }
+    if (book.coverImageFileId && book.coverImageFileId !== args.fileId) {
+      await ctx.storage.delete(book.coverImageFileId);
+    }
+    await ctx.db.patch(book._id, { coverImageFileId: args.fileId });
+    return null;
+  },
+});
+
+export const updateBlurb = mutation({
+  args: {
+    bookId: v.id("books"),
+    blurb: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const blurb = args.blurb.trim();
+    if (blurb.length > BLURB_MAX_LENGTH) {
+      throw new Error(
+        `The blurb is ${blurb.length} characters; the limit is ${BLURB_MAX_LENGTH}`,
+      );
+    }
+    await ctx.db.patch(args.bookId, { coverBlurb: blurb || undefined });
+    return null;
+  },
+});
+
+/**
+ * Everything the cover renderer needs, read in one transaction
+ */
+export const loadCoverSource = internalQuery({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job?.bookId || !job.interiorJobId || !job.coverOptions) {
+      throw new Error(`Cover job ${args.jobId} has no book or interior`);
+    }
+    const book = await ctx.db.get(job.bookId);
+    if (!book) {
+      throw new Error(`Cover job ${args.jobId} references a missing book`);
+    }
+    const { interior, artifact, pageCount, template } = await loadInterior(
+      ctx,
+      book._id,
+      job.interiorJobId,
+    );
+    return {
+      book: {
+        title: book.title,
+        subtitle: book.subtitle,
+        author: book.author,
+        blurb: book.coverBlurb,
+        coverImageFileId: book.coverImageFileId,
+      },
+      interiorJobId: interior._id,
+      // A cover belongs to the revision its interior was built from
+      revisionId: artifact.revisionId,
+      pageCount,
+      template,
+      options: job.coverOptions,
+    };
+  },
+});
+
+/**
+ * Export job: size the sheet from the interior, lay out and store the cover
+ */
+export const renderCover = internalAction({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    try {
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "loading_content",
+        progress: 10,
+      });
+      const source = await ctx.runQuery(internal.coverExport.loadCoverSource, {
+        jobId: args.jobId,
+      });
+      const { book, options } = source;
+      let image: Uint8Array | null = null;
+      if (book.coverImageFileId) {
+        const blob = await ctx.storage.get(book.coverImageFileId);
+        if (!blob) {
+          throw new Error(`File ${book.coverImageFileId} not found in storage`);
+        }
+        image = new Uint8Array(await blob.arrayBuffer());
+      }
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "rendering_cover",
+        progress: 40,
+      });
+      const { trim } = resolvePrintSettings(source.template.settings);
+      const rendered = await renderCoverPdf(
+        {
+          title: book.title,
+          subtitle: book.subtitle,
+          author: book.author,
+          blurb: book.blurb,
+          trim,
+          pageCount: source.pageCount,
+          paper: options.paper,
+          design: options.design,
+        },
+        image,
+      );
+      if (rendered.issues.length > 0) {
+        throw new Error(
+          `Cover cannot be printed: ${rendered.issues.join("; ")}`,
+        );
+      }
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "storing_output",
+        progress: 85,
+      });
+      const { dimensions } = rendered;
+      await finishExportJob(ctx, args.jobId, {
+        bytes: rendered.bytes,
+        contentType: "application/pdf",
+        revisionId: source.revisionId,
+        logs: [
+          `Rendered a ${dimensions.width}" x ${dimensions.height}" ${COVER_DESIGNS[options.design].label} cover (${trim.id}, ${dimensions.spineWidth}" spine for ${source.pageCount} pages on ${PAPER_TYPES[options.paper].label.toLowerCase()} paper${dimensions.spineText ? "" : ", no spine text"}) with the ${source.template.name} template (v${source.template.version})`,
+          ...rendered.warnings,
+        ].join("\n"),
+      });
+    } catch (error) {
+      await failExportJob(ctx, args.jobId, error);
+    }
+  },
+});
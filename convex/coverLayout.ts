@@ -0,0 +1,424 @@
+/**
+ * Print cover layout
+ *
+ * A paperback's wraparound cover is one sheet: back cover, spine and front
+ * cover side by side, with bleed on every outside edge. The spine is as
+ * thick as the interior's pages on the chosen paper, so the sheet size
+ * comes from the finished interior's page count. The back keeps a
+ * barcode-safe area clear in its lower right corner, and spine text is only
+ * set on books thick enough to carry it.
+ *
+ * Pure functions only - measurements are in inches until layoutCover turns
+ * them into points, and coverPdf.ts draws the result.
+ */
+
+import { v, type Infer } from "convex/values";
+import { BLEED_INCHES } from "./printSpecs";
+
+export const paperTypeValidator = v.union(
+  v.literal("white"),
+  v.literal("cream"),
+  v.literal("color"),
+);
+
+export type PaperType = Infer<typeof paperTypeValidator>;
+
+export const coverDesignValidator = v.union(
+  v.literal("classic"),
+  v.literal("photo"),
+  v.literal("minimal"),
+);
+
+export type CoverDesignId = Infer<typeof coverDesignValidator>;
+
+// Sheet thickness per page, from the KDP spine calculator
+export const PAPER_TYPES: Record<
+  PaperType,
+  { label: string; inchesPerPage: number }
+> = {
+  white: { label: "White", inchesPerPage: 0.002252 },
+  cream: { label: "Cream", inchesPerPage: 0.0025 },
+  color: { label: "Premium color", inchesPerPage: 0.002347 },
+};
+
+type Rgb = [number, number, number];
+
+type CoverDesign = {
+  label: string;
+  background: Rgb;
+  spine: Rgb;
+  text: Rgb;
+  face: "serif" | "sans";
+  // Where the book's cover image goes on the front
+  image: "framed" | "full";
+};
+
+export const COVER_DESIGNS: Record<CoverDesignId, CoverDesign> = {
+  classic: {
+    label: "Classic",
+    background: [0.1, 0.16, 0.27],
+    spine: [0.07, 0.11, 0.2],
+    text: [0.96, 0.92, 0.82],
+    face: "serif",
+    image: "framed",
+  },
+  photo: {
+    label: "Full-bleed photo",
+    background: [0.08, 0.08, 0.08],
+    spine: [0.08, 0.08, 0.08],
+    text: [1, 1, 1],
+    face: "sans",
+    image: "full",
+  },
+  minimal: {
+    label: "Minimal",
+    background: [0.97, 0.95, 0.9],
+    spine: [0.97, 0.95, 0.9],
+    text: [0.12, 0.12, 0.12],
+    face: "sans",
+    image: "framed",
+  },
+};
+
+// KDP sets spine text only on books of more than 79 pages, kept this far
+// from each spine edge
+const SPINE_TEXT_MIN_PAGES = 80;
+const SPINE_TEXT_MARGIN = 0.0625;
+// Text stays this far inside the trim
+const SAFE_MARGIN = 0.25;
+const BARCODE_SIZE = { width: 2, height: 1.2 };
+const POINTS_PER_INCH = 72;
+
+export type Box = { x: number; y: number; width: number; height: number };
+
+export type CoverDimensions = {
+  spineWidth: number;
+  // Whole sheet, bleed included
+  width: number;
+  height: number;
+  bleed: number;
+  back: Box;
+  spine: Box;
+  front: Box;
+  barcode: Box;
+  spineText: boolean;
+};
+
+export type CoverFace = "title" | "body" | "italic";
+
+export type CoverMeasure = (
+  text: string,
+  face: CoverFace,
+  size: number,
+) => number;
+
+export type CoverElement =
+  | { kind: "rect"; box: Box; color: Rgb }
+  // The cover image, scaled to fill and cropped to the box
+  | { kind: "image"; box: Box }
+  | {
+      kind: "text";
+      text: string;
+      x: number;
+      y: number;
+      size: number;
+      face: CoverFace;
+      color: Rgb;
+      // Spine text runs top to bottom
+      vertical?: boolean;
+    };
+
+export type CoverInput = {
+  title: string;
+  subtitle?: string;
+  author: string;
+  blurb?: string;
+  trim: { width: number; height: number };
+  pageCount: number;
+  paper: PaperType;
+  design: CoverDesignId;
+  hasImage: boolean;
+};
+
+const roundInches = (value: number) => Math.round(value * 10000) / 10000;
+
+export function spineWidth(pageCount: number, paper: PaperType) {
+  return roundInches(pageCount * PAPER_TYPES[paper].inchesPerPage);
+}
+
+/**
+ * Sheet size and panel positions in inches, from the sheet's bottom left
+ */
+export function coverDimensions(
+  trim: { width: number; height: number },
+  pageCount: number,
+  paper: PaperType,
+): CoverDimensions {
+  const spine = spineWidth(pageCount, paper);
+  const bleed = BLEED_INCHES;
+  const back = { x: bleed, y: bleed, width: trim.width, height: trim.height };
+  const spineBox = {
+    x: bleed + trim.width,
+    y: bleed,
+    width: spine,
+    height: trim.height,
+  };
+  const front = {
+    x: bleed + trim.width + spine,
+    y: bleed,
+    width: trim.width,
+    height: trim.height,
+  };
+  return {
+    spineWidth: spine,
+    width: roundInches(bleed * 2 + trim.width * 2 + spine),
+    height: roundInches(bleed * 2 + trim.height),
+    bleed,
+    back,
+    spine: spineBox,
+    front,
+    barcode: {
+      x: back.x + back.width - SAFE_MARGIN - BARCODE_SIZE.width,
+      y: back.y + SAFE_MARGIN,
+      ...BARCODE_SIZE,
+    },
+    spineText: pageCount >= SPINE_TEXT_MIN_PAGES,
+  };
+}
+
+/**
+ * Greedy word wrap; a word wider than the line gets a line of its own
+ */
+function wrap(
+  text: string,
+  width: number,
+  face: CoverFace,
+  size: number,
+  measure: CoverMeasure,
+) {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measure(candidate, face, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) {
+      lines.push(line);
+    }
+    lines.push("");
+  }
+  lines.pop();
+  return lines;
+}
+
+const toPoints = (box: Box): Box => ({
+  x: box.x * POINTS_PER_INCH,
+  y: box.y * POINTS_PER_INCH,
+  width: box.width * POINTS_PER_INCH,
+  height: box.height * POINTS_PER_INCH,
+});
+
+/**
+ * Lay out the whole sheet in points, with the problems that would get it
+ * rejected
+ */
+export function layoutCover(input: CoverInput, measure: CoverMeasure) {
+  const design = COVER_DESIGNS[input.design];
+  const dimensions = coverDimensions(input.trim, input.pageCount, input.paper);
+  const issues: string[] = [];
+  const elements: CoverElement[] = [];
+  const pt = POINTS_PER_INCH;
+  const safe = SAFE_MARGIN * pt;
+
+  const sheet = toPoints({
+    x: 0,
+    y: 0,
+    width: dimensions.width,
+    height: dimensions.height,
+  });
+  const back = toPoints(dimensions.back);
+  const spine = toPoints(dimensions.spine);
+  const front = toPoints(dimensions.front);
+  const barcode = toPoints(dimensions.barcode);
+
+  elements.push({ kind: "rect", box: sheet, color: design.background });
+  elements.push({
+    kind: "rect",
+    box: { ...spine, y: 0, height: sheet.height },
+    color: design.spine,
+  });
+
+  // Front: title block at the top, author at the foot, image between
+  const frontWidth = front.width - safe * 2;
+  let titleSize = Math.min(40, input.trim.width * 6);
+  let titleLines = wrap(input.title, frontWidth, "title", titleSize, measure);
+  while (
+    titleSize > 14 &&
+    (titleLines.length > 3 ||
+      titleLines.some((line) => measure(line, "title", titleSize) > frontWidth))
+  ) {
+    titleSize -= 2;
+    titleLines = wrap(input.title, frontWidth, "title", titleSize, measure);
+  }
+  const centeredOnFront = (text: string, face: CoverFace, size: number) =>
+    front.x + (front.width - measure(text, face, size)) / 2;
+
+  let cursor = front.y + front.height - safe - titleSize;
+  for (const line of titleLines) {
+    elements.push({
+      kind: "text",
+      text: line,
+      x: centeredOnFront(line, "title", titleSize),
+      y: cursor,
+      size: titleSize,
+      face: "title",
+      color: design.text,
+    });
+    cursor -= titleSize * 1.15;
+  }
+  if (input.subtitle) {
+    const subtitleSize = titleSize * 0.45;
+    for (const line of wrap(
+      input.subtitle,
+      frontWidth,
+      "italic",
+      subtitleSize,
+      measure,
+    )) {
+      cursor -= subtitleSize * 0.4;
+      elements.push({
+        kind: "text",
+        text: line,
+        x: centeredOnFront(line, "italic", subtitleSize),
+        y: cursor,
+        size: subtitleSize,
+        face: "italic",
+        color: design.text,
+      });
+      cursor -= subtitleSize * 1.2;
+    }
+  }
+  const titleBottom = cursor;
+
+  const authorSize = titleSize * 0.55;
+  const authorY = front.y + safe + authorSize * 0.5;
+  elements.push({
+    kind: "text",
+    text: input.author,
+    x: centeredOnFront(input.author, "body", authorSize),
+    y: authorY,
+    size: authorSize,
+    face: "body",
+    color: design.text,
+  });
+
+  if (input.hasImage) {
+    if (design.image === "full") {
+      // Behind the text, out to the bleed on the three outside edges
+      elements.splice(2, 0, {
+        kind: "image",
+        box: {
+          x: front.x,
+          y: 0,
+          width: sheet.width - front.x,
+          height: sheet.height,
+        },
+      });
+    } else {
+      const top = titleBottom - safe;
+      const bottom = authorY + authorSize + safe;
+      if (top - bottom > pt) {
+        elements.push({
+          kind: "image",
+          box: {
+            x: front.x + safe * 2,
+            y: bottom,
+            width: front.width - safe * 4,
+            height: top - bottom,
+          },
+        });
+      }
+    }
+  }
+  if (
+    titleLines.length > 3 ||
+    titleLines.some((line) => measure(line, "title", titleSize) > frontWidth)
+  ) {
+    issues.push("The title does not fit on the front cover");
+  }
+
+  // Spine: title and author, top to bottom, centred across the spine
+  if (dimensions.spineText) {
+    const across = spine.width - SPINE_TEXT_MARGIN * 2 * pt;
+    const along = spine.height - safe * 2;
+    let spineSize = Math.min(14, across * 0.7);
+    const spineText = `${input.title}   ${input.author}`;
+    while (spineSize > 6 && measure(spineText, "title", spineSize) > along) {
+      spineSize -= 0.5;
+    }
+    if (measure(spineText, "title", spineSize) <= along) {
+      const length = measure(spineText, "title", spineSize);
+      elements.push({
+        kind: "text",
+        text: spineText,
+        x: spine.x + spine.width / 2 - spineSize * 0.35,
+        y: spine.y + spine.height - safe - (along - length) / 2,
+        size: spineSize,
+        face: "title",
+        color: design.text,
+        vertical: true,
+      });
+    } else {
+      issues.push("The title and author do not fit on the spine");
+    }
+  }
+
+  // Back: blurb above the barcode area, shrunk until it fits
+  if (input.blurb?.trim()) {
+    const blurbWidth = back.width - safe * 2;
+    const blurbTop = back.y + back.height - safe;
+    const blurbBottom = barcode.y + barcode.height + safe;
+    let blurbSize = 12;
+    let lines = wrap(input.blurb, blurbWidth, "body", blurbSize, measure);
+    while (
+      blurbSize > 8 &&
+      lines.length * blurbSize * 1.4 > blurbTop - blurbBottom
+    ) {
+      blurbSize -= 0.5;
+      lines = wrap(input.blurb, blurbWidth, "body", blurbSize, measure);
+    }
+    if (lines.length * blurbSize * 1.4 > blurbTop - blurbBottom) {
+      issues.push("The blurb is too long for the back cover");
+    }
+    lines.forEach((line, index) => {
+      if (line) {
+        elements.push({
+          kind: "text",
+          text: line,
+          x: back.x + safe,
+          y: blurbTop - blurbSize - index * blurbSize * 1.4,
+          size: blurbSize,
+          face: "body",
+          color: design.text,
+        });
+      }
+    });
+  }
+
+  // The printer places the barcode here
+  elements.push({ kind: "rect", box: barcode, color: [1, 1, 1] });
+
+  return {
+    width: sheet.width,
+    height: sheet.height,
+    elements,
+    dimensions,
+    issues,
+  };
+}
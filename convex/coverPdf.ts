@@ -0,0 +1,155 @@
+/**
+ * Print cover renderer
+ *
+ * Draws the sheet from coverLayout.ts with the standard PDF faces and the
+ * book's cover image, scaled to fill its box and cropped to it. The trim
+ * and bleed boxes tell the printer where the sheet is cut.
+ */
+
+import {
+  PDFDocument,
+  StandardFonts,
+  clip,
+  degrees,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  type PDFFont,
+  type PDFImage,
+} from "pdf-lib";
+import {
+  COVER_DESIGNS,
+  layoutCover,
+  type CoverFace,
+  type CoverInput,
+} from "./coverLayout";
+import { encodableText } from "./pdfInterior";
+
+const COVER_FACES: Record<
+  "serif" | "sans",
+  Record<CoverFace, StandardFonts>
+> = {
+  serif: {
+    title: StandardFonts.TimesRomanBold,
+    body: StandardFonts.TimesRoman,
+    italic: StandardFonts.TimesRomanItalic,
+  },
+  sans: {
+    title: StandardFonts.HelveticaBold,
+    body: StandardFonts.Helvetica,
+    italic: StandardFonts.HelveticaOblique,
+  },
+};
+
+// Print needs about 300 pixels per inch
+const MIN_IMAGE_DPI = 300;
+
+async function embedImage(pdf: PDFDocument, bytes: Uint8Array) {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e) {
+    return await pdf.embedPng(bytes);
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return await pdf.embedJpg(bytes);
+  }
+  throw new Error("The cover image must be a PNG or JPEG file");
+}
+
+/**
+ * Render the wraparound cover, with the problems that would get it
+ * rejected and any softer warnings
+ */
+export async function renderCoverPdf(
+  input: Omit<CoverInput, "hasImage">,
+  image: Uint8Array | null,
+) {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${input.title} cover`);
+  pdf.setAuthor(input.author);
+  pdf.setCreator("Bookzang");
+
+  const faces = COVER_FACES[COVER_DESIGNS[input.design].face];
+  const fonts: Record<CoverFace, PDFFont> = {
+    title: await pdf.embedFont(faces.title),
+    body: await pdf.embedFont(faces.body),
+    italic: await pdf.embedFont(faces.italic),
+  };
+  const encodable = encodableText(new Set(fonts.body.getCharacterSet()));
+  const embedded: PDFImage | null = image ? await embedImage(pdf, image) : null;
+
+  const layout = layoutCover(
+    {
+      ...input,
+      title: encodable(input.title),
+      subtitle: input.subtitle ? encodable(input.subtitle) : undefined,
+      author: encodable(input.author),
+      blurb: input.blurb ? encodable(input.blurb) : undefined,
+      hasImage: embedded !== null,
+    },
+    (text, face, size) => fonts[face].widthOfTextAtSize(text, size),
+  );
+
+  const page = pdf.addPage([layout.width, layout.height]);
+  const { bleed } = layout.dimensions;
+  page.setBleedBox(0, 0, layout.width, layout.height);
+  page.setTrimBox(
+    bleed * 72,
+    bleed * 72,
+    layout.width - bleed * 144,
+    layout.height - bleed * 144,
+  );
+
+  const warnings: string[] = [];
+  for (const element of layout.elements) {
+    if (element.kind === "rect") {
+      page.drawRectangle({
+        ...element.box,
+        color: rgb(...element.color),
+      });
+    } else if (element.kind === "image" && embedded) {
+      const { box } = element;
+      const scale = Math.max(
+        box.width / embedded.width,
+        box.height / embedded.height,
+      );
+      const width = embedded.width * scale;
+      const height = embedded.height * scale;
+      const dpi = Math.round(72 / scale);
+      if (dpi < MIN_IMAGE_DPI) {
+        warnings.push(
+          `The cover image prints at ${dpi} DPI; ${MIN_IMAGE_DPI} is recommended`,
+        );
+      }
+      page.pushOperators(
+        pushGraphicsState(),
+        rectangle(box.x, box.y, box.width, box.height),
+        clip(),
+        endPath(),
+      );
+      page.drawImage(embedded, {
+        x: box.x + (box.width - width) / 2,
+        y: box.y + (box.height - height) / 2,
+        width,
+        height,
+      });
+      page.pushOperators(popGraphicsState());
+    } else if (element.kind === "text") {
+      page.drawText(element.text, {
+        x: element.x,
+        y: element.y,
+        size: element.size,
+        font: fonts[element.face],
+        color: rgb(...element.color),
+        rotate: element.vertical ? degrees(-90) : undefined,
+      });
+    }
+  }
+
+  return {
+    bytes: await pdf.save(),
+    dimensions: layout.dimensions,
+    issues: layout.issues,
+    warnings,
+  };
+}
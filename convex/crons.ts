@@ -0,0 +1,14 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Copyright terms expire on 1 January; re-evaluate books that were not clear
+crons.cron(
+  "copyright year rollover",
+  "5 0 1 1 *",
+  internal.copyrightReview.recheckNonClearedBooks,
+  {},
+);
+
+export default crons;
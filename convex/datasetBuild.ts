@@ -0,0 +1,496 @@
+/**
+ * Training dataset build
+ *
+ * Turns approved books into JSONL records, one per chapter or per chunk of
+ * a chapter, with the book's metadata on every record. Records whose
+ * normalized text was already seen are dropped when deduplicating. Whole
+ * books go to the train or validation split by a hash of the seed and the
+ * book, so the same seed always gives the same split and no book leaks
+ * across it. Records are gathered into numbered shards per split, and the
+ * manifest totals records, characters and tokens per shard and split.
+ *
+ * Token counts are approximate: runs of letters or digits and single
+ * punctuation marks, close to a pre-tokenizer's split.
+ *
+ * Builds run in batches of books, so the state between batches - the
+ * selection, the books done, the dedup fingerprints and the open shards -
+ * round-trips through a JSON checkpoint.
+ *
+ * Pure functions only - datasets.ts selects the books and stores the shards.
+ */
+
+import { v, type Infer } from "convex/values";
+import { chapterPlainText } from "./cleanText";
+import { inlineToPlainText, parseInline } from "./annotatedMarkdown";
+
+export const datasetFiltersValidator = v.object({
+  language: v.optional(v.string()),
+  contributorId: v.optional(v.id("contributors")),
+  yearFrom: v.optional(v.number()),
+  yearTo: v.optional(v.number()),
+  subject: v.optional(v.string()),
+});
+
+export type DatasetFilters = Infer<typeof datasetFiltersValidator>;
+
+export const datasetOptionsValidator = v.object({
+  unit: v.union(v.literal("chapter"), v.literal("chunk")),
+  // Largest chunk, in characters, for chunk records
+  chunkCharacters: v.number(),
+  deduplicate: v.boolean(),
+  // Share of books held out for validation, 0 to 0.5
+  validationFraction: v.number(),
+  seed: v.string(),
+  recordsPerShard: v.number(),
+});
+
+export type DatasetOptions = Infer<typeof datasetOptionsValidator>;
+
+export type DatasetSplit = "train" | "validation";
+
+export const DATASET_LICENCE = "public-domain";
+
+export const MIN_CHUNK_CHARACTERS = 500;
+export const MAX_CHUNK_CHARACTERS = 100_000;
+export const MAX_RECORDS_PER_SHARD = 100_000;
+
+// Flush a shard early past this many characters of text, so a shard and
+// the checkpoint holding the open ones stay a few MB
+export const MAX_SHARD_CHARACTERS = 4_000_000;
+
+export type DatasetBook = {
+  bookId: string;
+  revisionId: string;
+  title: string;
+  author: string;
+  year?: number;
+  language?: string;
+  gutenbergId?: string;
+};
+
+export type DatasetRecord = {
+  id: string;
+  text: string;
+  title: string;
+  author: string;
+  year: number | null;
+  language: string | null;
+  gutenberg_id: string | null;
+  book_id: string;
+  revision_id: string;
+  chapter_index: number;
+  chapter_title: string;
+  chunk_index: number | null;
+  licence: string;
+  split: DatasetSplit;
+};
+
+export type DatasetShard = {
+  split: DatasetSplit;
+  index: number;
+  filename: string;
+  lines: string[];
+  records: number;
+  characters: number;
+  tokens: number;
+};
+
+export type DatasetState = {
+  seen: Set<string>;
+  duplicatesRemoved: number;
+  referencesStripped: number;
+  open: Partial<Record<DatasetSplit, DatasetShard>>;
+  nextIndex: Record<DatasetSplit, number>;
+};
+
+/**
+ * What a batched build carries from one batch to the next
+ */
+export type DatasetProgress = {
+  // The selection, in build order
+  bookIds: string[];
+  // The books done so far, with the records kept from each
+  books: Array<DatasetBook & { records: number }>;
+  state: DatasetState;
+};
+
+/**
+ * Problems with the dataset options, empty when they can be used
+ */
+export function datasetOptionsIssues(options: DatasetOptions): string[] {
+  const issues: string[] = [];
+  if (
+    !Number.isInteger(options.chunkCharacters) ||
+    options.chunkCharacters < MIN_CHUNK_CHARACTERS ||
+    options.chunkCharacters > MAX_CHUNK_CHARACTERS
+  ) {
+    issues.push(
+      `Chunk size must be a whole number of characters from ${MIN_CHUNK_CHARACTERS} to ${MAX_CHUNK_CHARACTERS}`,
+    );
+  }
+  if (!(options.validationFraction >= 0 && options.validationFraction <= 0.5)) {
+    issues.push("The validation share must be from 0 to 0.5");
+  }
+  if (!options.seed.trim()) {
+    issues.push("A seed is required for a reproducible split");
+  }
+  if (
+    !Number.isInteger(options.recordsPerShard) ||
+    options.recordsPerShard < 1 ||
+    options.recordsPerShard > MAX_RECORDS_PER_SHARD
+  ) {
+    issues.push(
+      `Records per shard must be a whole number from 1 to ${MAX_RECORDS_PER_SHARD}`,
+    );
+  }
+  return issues;
+}
+
+/**
+ * Whether a book passes the filters other than the author, which needs its
+ * credits
+ */
+export function matchesDatasetFilters(
+  book: { language?: string; publicationYear?: number; subjects?: string[] },
+  filters: DatasetFilters,
+): boolean {
+  if (
+    filters.language &&
+    book.language?.toLowerCase() !== filters.language.toLowerCase()
+  ) {
+    return false;
+  }
+  if (
+    (filters.yearFrom !== undefined || filters.yearTo !== undefined) &&
+    book.publicationYear === undefined
+  ) {
+    return false;
+  }
+  if (
+    filters.yearFrom !== undefined &&
+    book.publicationYear! < filters.yearFrom
+  ) {
+    return false;
+  }
+  if (filters.yearTo !== undefined && book.publicationYear! > filters.yearTo) {
+    return false;
+  }
+  if (filters.subject) {
+    const subject = filters.subject.toLowerCase();
+    return (book.subjects ?? []).some((entry) =>
+      entry.toLowerCase().includes(subject),
+    );
+  }
+  return true;
+}
+
+/**
+ * 64-bit FNV-1a of the text, as hex
+ */
+export function fingerprint(text: string): string {
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of new TextEncoder().encode(text)) {
+    hash ^= BigInt(byte);
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Text compared for deduplication: case, punctuation and spacing ignored
+ */
+export function normalizeForDedup(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function countTokens(text: string): number {
+  return text.match(/[\p{L}\p{N}]+|[^\p{L}\p{N}\s]/gu)?.length ?? 0;
+}
+
+// FNV-1a barely moves its high bits when only the last byte differs, as
+// between IDs; the MurmurHash3 finalizer spreads them
+function mix64(hash: bigint): bigint {
+  const mask = 0xffffffffffffffffn;
+  hash ^= hash >> 33n;
+  hash = (hash * 0xff51afd7ed558ccdn) & mask;
+  hash ^= hash >> 33n;
+  hash = (hash * 0xc4ceb93e5fe53c4fn) & mask;
+  return hash ^ (hash >> 33n);
+}
+
+/**
+ * The split a book belongs to, the same for the same seed every time
+ */
+export function assignSplit(
+  seed: string,
+  bookId: string,
+  validationFraction: number,
+): DatasetSplit {
+  const hash = mix64(BigInt(`0x${fingerprint(`${seed}:${bookId}`)}`));
+  const position = Number(hash >> 11n) / 2 ** 53;
+  return position < validationFraction ? "validation" : "train";
+}
+
+/**
+ * Split text into chunks of whole paragraphs no longer than maxCharacters.
+ * Paragraphs longer than that are split at the last space that fits.
+ */
+export function chunkText(text: string, maxCharacters: number): string[] {
+  const pieces = text
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => {
+      const parts: string[] = [];
+      let rest = paragraph;
+      while (rest.length > maxCharacters) {
+        const space = rest.lastIndexOf(" ", maxCharacters);
+        const cut = space > 0 ? space : maxCharacters;
+        parts.push(rest.slice(0, cut).trim());
+        rest = rest.slice(cut).trim();
+      }
+      return rest ? [...parts, rest] : parts;
+    });
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + 2 + piece.length > maxCharacters) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  return current ? [...chunks, current] : chunks;
+}
+
+/**
+ * One book's records before deduplication
+ */
+export function bookRecords(
+  book: DatasetBook,
+  chapters: Array<{ title: string; text: string }>,
+  options: DatasetOptions,
+): { records: DatasetRecord[]; referencesStripped: number } {
+  const split = assignSplit(
+    options.seed,
+    book.bookId,
+    options.validationFraction,
+  );
+  let referencesStripped = 0;
+  const records = chapters.flatMap((chapter, chapterIndex) => {
+    const plain = chapterPlainText(chapter.text);
+    const chapterTitle = inlineToPlainText(parseInline(chapter.title));
+    referencesStripped += plain.strippedReferences;
+    const texts =
+      options.unit === "chunk"
+        ? chunkText(plain.text, options.chunkCharacters)
+        : plain.text.trim()
+          ? [plain.text.trim()]
+          : [];
+    return texts.map((text, chunkIndex): DatasetRecord => ({
+      id:
+        options.unit === "chunk"
+          ? `${book.bookId}:${chapterIndex}:${chunkIndex}`
+          : `${book.bookId}:${chapterIndex}`,
+      text,
+      title: book.title,
+      author: book.author,
+      year: book.year ?? null,
+      language: book.language ?? null,
+      gutenberg_id: book.gutenbergId ?? null,
+      book_id: book.bookId,
+      revision_id: book.revisionId,
+      chapter_index: chapterIndex,
+      chapter_title: chapterTitle,
+      chunk_index: options.unit === "chunk" ? chunkIndex : null,
+      licence: DATASET_LICENCE,
+      split,
+    }));
+  });
+  return { records, referencesStripped };
+}
+
+export function createDatasetState(): DatasetState {
+  return {
+    seen: new Set(),
+    duplicatesRemoved: 0,
+    referencesStripped: 0,
+    open: {},
+    nextIndex: { train: 0, validation: 0 },
+  };
+}
+
+export const shardFilename = (split: DatasetSplit, index: number) =>
+  `${split}-${String(index).padStart(5, "0")}.jsonl`;
+
+/**
+ * Add a book's records, returning the shards that filled up and how many
+ * of the book's records were kept
+ */
+export function addBookRecords(
+  state: DatasetState,
+  book: DatasetBook,
+  chapters: Array<{ title: string; text: string }>,
+  options: DatasetOptions,
+): { shards: DatasetShard[]; records: number } {
+  const { records, referencesStripped } = bookRecords(book, chapters, options);
+  state.referencesStripped += referencesStripped;
+  const full: DatasetShard[] = [];
+  let kept = 0;
+
+  for (const record of records) {
+    if (options.deduplicate) {
+      const key = fingerprint(normalizeForDedup(record.text));
+      if (state.seen.has(key)) {
+        state.duplicatesRemoved += 1;
+        continue;
+      }
+      state.seen.add(key);
+    }
+
+    kept += 1;
+    const { split } = record;
+    let shard = state.open[split];
+    if (!shard) {
+      const index = state.nextIndex[split]++;
+      shard = {
+        split,
+        index,
+        filename: shardFilename(split, index),
+        lines: [],
+        records: 0,
+        characters: 0,
+        tokens: 0,
+      };
+      state.open[split] = shard;
+    }
+    shard.lines.push(JSON.stringify(record));
+    shard.records += 1;
+    shard.characters += record.text.length;
+    shard.tokens += countTokens(record.text);
+
+    if (
+      shard.records >= options.recordsPerShard ||
+      shard.characters >= MAX_SHARD_CHARACTERS
+    ) {
+      full.push(shard);
+      delete state.open[split];
+    }
+  }
+  return { shards: full, records: kept };
+}
+
+/**
+ * The shards still open at the end of the build
+ */
+export function finishDataset(state: DatasetState): DatasetShard[] {
+  const rest = (["train", "validation"] as const).flatMap((split) =>
+    state.open[split] ? [state.open[split]] : [],
+  );
+  state.open = {};
+  return rest;
+}
+
+export function serializeDatasetProgress(progress: DatasetProgress): string {
+  const { state } = progress;
+  return JSON.stringify({
+    bookIds: progress.bookIds,
+    books: progress.books,
+    seen: [...state.seen],
+    duplicatesRemoved: state.duplicatesRemoved,
+    referencesStripped: state.referencesStripped,
+    open: state.open,
+    nextIndex: state.nextIndex,
+  });
+}
+
+export function parseDatasetProgress(checkpoint: string): DatasetProgress {
+  const saved = JSON.parse(checkpoint);
+  return {
+    bookIds: saved.bookIds,
+    books: saved.books,
+    state: {
+      seen: new Set(saved.seen),
+      duplicatesRemoved: saved.duplicatesRemoved,
+      referencesStripped: saved.referencesStripped,
+      open: saved.open,
+      nextIndex: saved.nextIndex,
+    },
+  };
+}
+
+export const shardBody = (shard: DatasetShard) => `${shard.lines.join("\n")}\n`;
+
+type ManifestShard = Omit<DatasetShard, "lines"> & {
+  size: number;
+  sha256: string;
+};
+
+/**
+ * The dataset's manifest: what went in, how it was split, and totals per
+ * split and shard
+ */
+export function datasetManifest(input: {
+  name: string;
+  createdAt: number;
+  filters: DatasetFilters;
+  options: DatasetOptions;
+  books: Array<DatasetBook & { records: number }>;
+  shards: ManifestShard[];
+  duplicatesRemoved: number;
+  referencesStripped: number;
+}) {
+  const splits = (["train", "validation"] as const).map((split) => {
+    const shards = input.shards
+      .filter((shard) => shard.split === split)
+      .sort((a, b) => a.index - b.index);
+    return {
+      split,
+      records: shards.reduce((total, shard) => total + shard.records, 0),
+      characters: shards.reduce((total, shard) => total + shard.characters, 0),
+      tokens: shards.reduce((total, shard) => total + shard.tokens, 0),
+      shards: shards.map((shard) => ({
+        filename: shard.filename,
+        records: shard.records,
+        characters: shard.characters,
+        tokens: shard.tokens,
+        size: shard.size,
+        sha256: shard.sha256,
+      })),
+    };
+  });
+
+  return {
+    name: input.name,
+    createdAt: new Date(input.createdAt).toISOString(),
+    format: "jsonl",
+    licence: DATASET_LICENCE,
+    tokenizer: "approximate: letter/digit runs and punctuation marks",
+    filters: input.filters,
+    options: input.options,
+    totals: {
+      books: input.books.length,
+      records: splits.reduce((total, split) => total + split.records, 0),
+      characters: splits.reduce((total, split) => total + split.characters, 0),
+      tokens: splits.reduce((total, split) => total + split.tokens, 0),
+      duplicatesRemoved: input.duplicatesRemoved,
+      gutenbergReferencesStripped: input.referencesStripped,
+    },
+    splits,
+    books: input.books.map((book) => ({
+      book_id: book.bookId,
+      revision_id: book.revisionId,
+      title: book.title,
+      author: book.author,
+      year: book.year ?? null,
+      language: book.language ?? null,
+      gutenberg_id: book.gutenbergId ?? null,
+      records: book.records,
+    })),
+  };
+}
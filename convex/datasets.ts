@@ -0,0 +1,542 @@
+/**
+ * Training datasets
+ *
+ * Library-wide dataset exports: approved, copyright-cleared books chosen
+ * by filter are written as JSONL shards with a manifest, by a "dataset"
+ * job that walks selecting_books -> building_dataset -> storing_output.
+ * The build runs BOOKS_PER_BATCH books per action and reschedules itself;
+ * between batches the dataset row holds the next book and a checkpoint
+ * file with the dedup fingerprints and open shards. Shards are stored as
+ * they fill and added to the row; a failed build deletes them with its
+ * checkpoint. Records, splits and the manifest come from datasetBuild.ts.
+ */
+
+import { v, type Infer } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type ActionCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { loadCopyrightGate } from "./copyrightReview";
+import {
+  failExportJob,
+  loadApprovedRevision,
+  loadApprovedSource,
+  loadChapterTexts,
+  sha256Hex,
+} from "./exportJobs";
+import {
+  addBookRecords,
+  createDatasetState,
+  datasetFiltersValidator,
+  datasetManifest,
+  datasetOptionsIssues,
+  datasetOptionsValidator,
+  finishDataset,
+  matchesDatasetFilters,
+  parseDatasetProgress,
+  serializeDatasetProgress,
+  shardBody,
+  type DatasetProgress,
+  type DatasetShard,
+} from "./datasetBuild";
+
+// Books read per action before the build checkpoints and reschedules
+const BOOKS_PER_BATCH = 10;
+
+const shardValidator = v.object({
+  split: v.union(v.literal("train"), v.literal("validation")),
+  index: v.number(),
+  filename: v.string(),
+  fileId: v.id("_storage"),
+  records: v.number(),
+  characters: v.number(),
+  tokens: v.number(),
+  size: v.number(),
+  checksum: v.string(),
+});
+
+type StoredShard = Infer<typeof shardValidator>;
+
+/**
+ * Queue a dataset build over the books matching the filters
+ */
+export const start = mutation({
+  args: {
+    name: v.string(),
+    filters: datasetFiltersValidator,
+    options: datasetOptionsValidator,
+  },
+  returns: v.id("datasets"),
+  handler: async (ctx, args) => {
+    const name = args.name.trim();
+    const issues = [
+      ...(name ? [] : ["A dataset name is required"]),
+      ...datasetOptionsIssues(args.options),
+    ];
+    if (issues.length > 0) {
+      throw new Error(issues.join("; "));
+    }
+
+    const userId = (await getAuthUserId(ctx)) ?? undefined;
+    const now = Date.now();
+    const jobId = await ctx.db.insert("jobs", {
+      type: "dataset",
+      requestedBy: userId,
+      status: "queued",
+      stage: "queued",
+      progress: 0,
+      logs: "",
+      queuedAt: now,
+    });
+    const datasetId = await ctx.db.insert("datasets", {
+      name,
+      jobId,
+      filters: args.filters,
+      options: args.options,
+      createdBy: userId,
+      createdAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.datasets.build, {
+      datasetId,
+      jobId,
+    });
+    return datasetId;
+  },
+});
+
+/**
+ * The dataset's settings and the books it covers: ready, with an approved
+ * revision, copyright-cleared and matching the filters
+ */
+export const selectBooks = internalQuery({
+  args: { datasetId: v.id("datasets") },
+  handler: async (ctx, args) => {
+    const dataset = await ctx.db.get(args.datasetId);
+    if (!dataset) {
+      throw new Error(`Dataset ${args.datasetId} not found`);
+    }
+    const { filters } = dataset;
+
+    let books = await ctx.db
+      .query("books")
+      .filter((q) => q.eq(q.field("status"), "ready"))
+      .collect();
+    books = books.filter((book) => matchesDatasetFilters(book, filters));
+
+    if (filters.contributorId) {
+      const contributorId = filters.contributorId;
+      const credited = new Set(
+        (
+          await ctx.db
+            .query("bookContributors")
+            .withIndex("by_contributor_id", (q) =>
+              q.eq("contributorId", contributorId),
+            )
+            .collect()
+        ).map((credit) => credit.bookId),
+      );
+      books = books.filter((book) => credited.has(book._id));
+    }
+
+    const eligible = await Promise.all(
+      books.map(
+        async (book) =>
+          (await loadCopyrightGate(ctx, book)).allowed &&
+          (await loadApprovedRevision(ctx, book._id)) !== null,
+      ),
+    );
+
+    return {
+      name: dataset.name,
+      createdAt: dataset.createdAt,
+      filters,
+      options: dataset.options,
+      bookIds: books
+        .filter((_, index) => eligible[index])
+        .sort((a, b) => a._creationTime - b._creationTime)
+        .map((book) => book._id),
+    };
+  },
+});
+
+export const loadBookSource = internalQuery({
+  args: { bookId: v.id("books") },
+  handler: async (ctx, args) => await loadApprovedSource(ctx, args.bookId),
+});
+
+/**
+ * The build's settings and where it got to
+ */
+export const loadBuildProgress = internalQuery({
+  args: { datasetId: v.id("datasets") },
+  handler: async (ctx, args) => {
+    const dataset = await ctx.db.get(args.datasetId);
+    if (!dataset) {
+      throw new Error(`Dataset ${args.datasetId} not found`);
+    }
+    return {
+      name: dataset.name,
+      createdAt: dataset.createdAt,
+      filters: dataset.filters,
+      options: dataset.options,
+      nextBook: dataset.nextBook ?? 0,
+      checkpointFileId: dataset.checkpointFileId,
+      shards: dataset.shards ?? [],
+    };
+  },
+});
+
+/**
+ * Record a finished batch and schedule the next one
+ */
+export const saveBuildProgress = internalMutation({
+  args: {
+    datasetId: v.id("datasets"),
+    jobId: v.id("jobs"),
+    nextBook: v.number(),
+    checkpointFileId: v.id("_storage"),
+    shards: v.array(shardValidator),
+  },
+  handler: async (ctx, args) => {
+    const dataset = await ctx.db.get(args.datasetId);
+    if (!dataset) {
+      throw new Error(`Dataset ${args.datasetId} not found`);
+    }
+    if (dataset.checkpointFileId) {
+      await ctx.storage.delete(dataset.checkpointFileId);
+    }
+    await ctx.db.patch(dataset._id, {
+      nextBook: args.nextBook,
+      checkpointFileId: args.checkpointFileId,
+      shards: [...(dataset.shards ?? []), ...args.shards],
+    });
+    await ctx.scheduler.runAfter(0, internal.datasets.buildBatch, {
+      datasetId: args.datasetId,
+      jobId: args.jobId,
+    });
+  },
+});
+
+export const completeDataset = internalMutation({
+  args: {
+    datasetId: v.id("datasets"),
+    jobId: v.id("jobs"),
+    manifestFileId: v.id("_storage"),
+    shards: v.array(shardValidator),
+    bookCount: v.number(),
+    recordCount: v.number(),
+    characterCount: v.number(),
+    tokenCount: v.number(),
+    duplicatesRemoved: v.number(),
+    logs: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { datasetId, jobId, logs, ...result } = args;
+    const dataset = await ctx.db.get(datasetId);
+    if (dataset?.checkpointFileId) {
+      await ctx.storage.delete(dataset.checkpointFileId);
+    }
+    const now = Date.now();
+    await ctx.db.patch(datasetId, {
+      ...result,
+      nextBook: undefined,
+      checkpointFileId: undefined,
+    });
+    await ctx.db.patch(jobId, {
+      status: "completed",
+      stage: "completed",
+      progress: 100,
+      outputFileId: args.manifestFileId,
+      logs,
+      completedAt: now,
+    });
+  },
+});
+
+/**
+ * Delete what a failed build stored: the checkpoint, the shards on the row
+ * and any files the last batch stored before it failed
+ */
+export const discardBuild = internalMutation({
+  args: {
+    datasetId: v.id("datasets"),
+    fileIds: v.array(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    const dataset = await ctx.db.get(args.datasetId);
+    if (!dataset) {
+      return;
+    }
+    const fileIds = [
+      ...(dataset.checkpointFileId ? [dataset.checkpointFileId] : []),
+      ...(dataset.shards ?? []).map((shard) => shard.fileId),
+      ...args.fileIds,
+    ];
+    for (const fileId of fileIds) {
+      await ctx.storage.delete(fileId);
+    }
+    await ctx.db.patch(dataset._id, {
+      shards: undefined,
+      nextBook: undefined,
+      checkpointFileId: undefined,
+    });
+  },
+});
+
+async function storeShards(
+  ctx: ActionCtx,
+  shards: DatasetShard[],
+): Promise<StoredShard[]> {
+  const stored: StoredShard[] = [];
+  for (const shard of shards) {
+    const bytes = new TextEncoder().encode(shardBody(shard));
+    const fileId = await ctx.storage.store(
+      new Blob([bytes], { type: "application/x-ndjson" }),
+    );
+    stored.push({
+      split: shard.split,
+      index: shard.index,
+      filename: shard.filename,
+      records: shard.records,
+      characters: shard.characters,
+      tokens: shard.tokens,
+      fileId,
+      size: bytes.byteLength,
+      checksum: await sha256Hex(bytes),
+    });
+  }
+  return stored;
+}
+
+async function storeCheckpoint(ctx: ActionCtx, progress: DatasetProgress) {
+  return await ctx.storage.store(
+    new Blob([serializeDatasetProgress(progress)], {
+      type: "application/json",
+    }),
+  );
+}
+
+/**
+ * Dataset job: select the books, then hand them to the first batch
+ */
+export const build = internalAction({
+  args: { datasetId: v.id("datasets"), jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const { jobId } = args;
+    let checkpointFileId: Id<"_storage"> | undefined;
+    try {
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId,
+        stage: "selecting_books",
+        progress: 5,
+      });
+      const { bookIds } = await ctx.runQuery(internal.datasets.selectBooks, {
+        datasetId: args.datasetId,
+      });
+      if (bookIds.length === 0) {
+        throw new Error(
+          "No approved, copyright-cleared books match the dataset filters",
+        );
+      }
+
+      checkpointFileId = await storeCheckpoint(ctx, {
+        bookIds,
+        books: [],
+        state: createDatasetState(),
+      });
+      await ctx.runMutation(internal.datasets.saveBuildProgress, {
+        ...args,
+        nextBook: 0,
+        checkpointFileId,
+        shards: [],
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.datasets.discardBuild, {
+        datasetId: args.datasetId,
+        fileIds: checkpointFileId ? [checkpointFileId] : [],
+      });
+      await failExportJob(ctx, jobId, error);
+    }
+  },
+});
+
+/**
+ * Dataset job: write the next batch of books' records into shards, then
+ * checkpoint and reschedule, or after the last book store the open shards
+ * and the manifest
+ */
+export const buildBatch = internalAction({
+  args: { datasetId: v.id("datasets"), jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const { jobId } = args;
+    // Files this batch stored that are not on the dataset row yet
+    const pending: Array<Id<"_storage">> = [];
+    try {
+      const progress = await ctx.runQuery(internal.datasets.loadBuildProgress, {
+        datasetId: args.datasetId,
+      });
+      const checkpoint = progress.checkpointFileId
+        ? await ctx.storage.get(progress.checkpointFileId)
+        : null;
+      if (!checkpoint) {
+        throw new Error("The dataset build checkpoint is missing");
+      }
+      const { bookIds, books, state } = parseDatasetProgress(
+        await checkpoint.text(),
+      );
+      const { options } = progress;
+
+      const end = Math.min(progress.nextBook + BOOKS_PER_BATCH, bookIds.length);
+      const stored: StoredShard[] = [];
+      for (let position = progress.nextBook; position < end; position++) {
+        await ctx.runMutation(internal.exportJobs.updateExportStage, {
+          jobId,
+          stage: "building_dataset",
+          progress: 10 + Math.round((position / bookIds.length) * 80),
+        });
+        const bookId = bookIds[position] as Id<"books">;
+        const source = await ctx.runQuery(internal.datasets.loadBookSource, {
+          bookId,
+        });
+        const chapters = await loadChapterTexts(ctx, source);
+        const book = {
+          bookId,
+          revisionId: source.revision._id,
+          title: source.book.title,
+          author: source.book.author,
+          year: source.book.publicationYear,
+          language: source.book.language,
+          gutenbergId: source.book.gutenbergId,
+        };
+        const added = addBookRecords(state, book, chapters, options);
+        books.push({ ...book, records: added.records });
+        const batch = await storeShards(ctx, added.shards);
+        stored.push(...batch);
+        pending.push(...batch.map((shard) => shard.fileId));
+      }
+
+      if (end < bookIds.length) {
+        const checkpointFileId = await storeCheckpoint(ctx, {
+          bookIds,
+          books,
+          state,
+        });
+        pending.push(checkpointFileId);
+        await ctx.runMutation(internal.datasets.saveBuildProgress, {
+          ...args,
+          nextBook: end,
+          checkpointFileId,
+          shards: stored,
+        });
+        return;
+      }
+      const open = await storeShards(ctx, finishDataset(state));
+      stored.push(...open);
+      pending.push(...open.map((shard) => shard.fileId));
+      const shards = [...progress.shards, ...stored];
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId,
+        stage: "storing_output",
+        progress: 95,
+      });
+      const manifest = datasetManifest({
+        name: progress.name,
+        createdAt: progress.createdAt,
+        filters: progress.filters,
+        options,
+        books,
+        shards: shards.map(({ checksum, ...shard }) => ({
+          ...shard,
+          sha256: checksum,
+        })),
+        duplicatesRemoved: state.duplicatesRemoved,
+        referencesStripped: state.referencesStripped,
+      });
+      const manifestFileId = await ctx.storage.store(
+        new Blob([JSON.stringify(manifest, null, 2)], {
+          type: "application/json",
+        }),
+      );
+      pending.push(manifestFileId);
+
+      const { totals } = manifest;
+      await ctx.runMutation(internal.datasets.completeDataset, {
+        datasetId: args.datasetId,
+        jobId,
+        manifestFileId,
+        shards,
+        bookCount: totals.books,
+        recordCount: totals.records,
+        characterCount: totals.characters,
+        tokenCount: totals.tokens,
+        duplicatesRemoved: totals.duplicatesRemoved,
+        logs: [
+          `Wrote ${totals.records} ${options.unit} record${totals.records === 1 ? "" : "s"} from ${totals.books} book${totals.books === 1 ? "" : "s"} into ${shards.length} shard${shards.length === 1 ? "" : "s"} (${manifest.splits.map((split) => `${split.split}: ${split.records}`).join(", ")})`,
+          `${totals.characters} characters, about ${totals.tokens} tokens`,
+          ...(options.deduplicate
+            ? [`Removed ${totals.duplicatesRemoved} duplicate records`]
+            : []),
+          `Stripped ${totals.gutenbergReferencesStripped} blocks mentioning Project Gutenberg`,
+        ].join("\n"),
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.datasets.discardBuild, {
+        datasetId: args.datasetId,
+        fileIds: pending,
+      });
+      await failExportJob(ctx, jobId, error);
+    }
+  },
+});
+
+/**
+ * Datasets, newest first, with their job's progress and download links
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const datasets = await ctx.db.query("datasets").order("desc").collect();
+    return await Promise.all(
+      datasets.map(async (dataset) => {
+        const job = await ctx.db.get(dataset.jobId);
+        return {
+          _id: dataset._id,
+          name: dataset.name,
+          filters: dataset.filters,
+          options: dataset.options,
+          createdAt: dataset.createdAt,
+          status: job?.status ?? "failed",
+          stage: job?.stage,
+          progress: job?.progress ?? 0,
+          error: job?.error,
+          bookCount: dataset.bookCount,
+          recordCount: dataset.recordCount,
+          characterCount: dataset.characterCount,
+          tokenCount: dataset.tokenCount,
+          duplicatesRemoved: dataset.duplicatesRemoved,
+          manifestUrl: dataset.manifestFileId
+            ? await ctx.storage.getUrl(dataset.manifestFileId)
+            : null,
+          shards: await Promise.all(
+            (dataset.shards ?? []).map(async (shard) => ({
+              split: shard.split,
+              filename: shard.filename,
+              records: shard.records,
+              size: shard.size,
+              checksum: shard.checksum,
+              downloadUrl: await ctx.storage.getUrl(shard.fileId),
+            })),
+          ),
+        };
+      }),
+    );
+  },
+});
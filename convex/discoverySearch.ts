@@ -0,0 +1,75 @@
+/**
+ * Discovery candidate search helpers
+ *
+ * Convex search indexes cover one string field each, so candidates carry
+ * denormalized searchText (title/author/id) and subjectText (subjects and
+ * bookshelves) fields that intake keeps in sync on every write.
+ */
+
+export type CandidateSearchSource = {
+  gutenbergId: string;
+  title?: string;
+  author?: string;
+  languages?: string[];
+  subjects?: string[];
+  bookshelves?: string[];
+};
+
+export type CandidateSearchFields = {
+  searchText: string;
+  subjectText?: string;
+  primaryLanguage?: string;
+};
+
+// Upper bound for "enqueue all matching" so a single mutation stays well
+// inside Convex write and scheduling limits
+export const ENQUEUE_MATCHING_DEFAULT_CAP = 100;
+export const ENQUEUE_MATCHING_MAX_CAP = 250;
+
+// Candidates that may be (re)submitted from the discovery panel
+export const ENQUEUEABLE_STATUSES = [
+  "discovered",
+  "failed",
+  "duplicate_blocked",
+] as const;
+
+export function buildCandidateSearchFields(
+  candidate: CandidateSearchSource,
+): CandidateSearchFields {
+  const subjectTerms = [
+    ...(candidate.subjects ?? []),
+    ...(candidate.bookshelves ?? []),
+  ];
+
+  return {
+    searchText: [candidate.title, candidate.author, candidate.gutenbergId]
+      .filter((part): part is string => Boolean(part))
+      .join(" "),
+    subjectText: subjectTerms.length > 0 ? subjectTerms.join(" ; ") : undefined,
+    primaryLanguage: candidate.languages?.[0]?.toLowerCase(),
+  };
+}
+
+/**
+ * Case-insensitive substring match against subjects and bookshelves
+ */
+export function matchesSubject(
+  candidate: Pick<CandidateSearchSource, "subjects" | "bookshelves">,
+  subject: string | undefined,
+): boolean {
+  const needle = subject?.trim().toLowerCase();
+  if (!needle) {
+    return true;
+  }
+
+  return [...(candidate.subjects ?? []), ...(candidate.bookshelves ?? [])].some(
+    (term) => term.toLowerCase().includes(needle),
+  );
+}
+
+export function clampEnqueueCap(cap: number | undefined): number {
+  if (cap === undefined || !Number.isFinite(cap)) {
+    return ENQUEUE_MATCHING_DEFAULT_CAP;
+  }
+  return Math.min(ENQUEUE_MATCHING_MAX_CAP, Math.max(1, Math.floor(cap)));
+}
@@ -0,0 +1,360 @@
+/**
+ * Fuzzy Duplicate and Edition Matching
+ *
+ * Books are compared on normalized title/author and on a MinHash signature
+ * of word shingles from the body text. Near-identical text means the same
+ * edition was imported twice; matching title/author with different text
+ * means an alternate edition (translation, re-release, abridgement).
+ *
+ * Pure functions only - editions.ts stores fingerprints and serves groups.
+ */
+
+export const SHINGLE_SIZE = 5;
+export const SIGNATURE_SIZE = 64;
+// 16 bands of 4 rows: pairs above ~0.6 Jaccard almost always share a band
+const LSH_BANDS = 16;
+const LSH_ROWS = SIGNATURE_SIZE / LSH_BANDS;
+
+export const DUPLICATE_TEXT_SIMILARITY = 0.9;
+export const EDITION_TITLE_SIMILARITY = 0.8;
+export const EDITION_AUTHOR_SIMILARITY = 0.5;
+
+export type MatchKind = "duplicate" | "alternate_edition";
+
+export type EditionMatchInput = {
+  id: string;
+  title: string;
+  author: string;
+  textFingerprint?: number[];
+  workFamilyId?: string;
+};
+
+export type EditionMatch = {
+  a: string;
+  b: string;
+  kind: MatchKind;
+  titleSimilarity: number;
+  authorSimilarity: number;
+  textSimilarity?: number;
+  reasons: string[];
+};
+
+const START_MARKER =
+  /\*\*\*\s*START OF (?:THE|THIS) PROJECT GUTENBERG EBOOK[^\n]*\*\*\*/i;
+const END_MARKER =
+  /\*\*\*\s*END OF (?:THE|THIS) PROJECT GUTENBERG EBOOK[^\n]*\*\*\*/i;
+
+const LEADING_ARTICLE = /^(?:the|a|an|le|la|les|der|die|das|el|il)\s+/;
+
+// Honorifics plus placeholder names that must not make two books "match"
+const AUTHOR_NOISE = new Set([
+  "sir",
+  "mrs",
+  "mr",
+  "dr",
+  "jr",
+  "sr",
+  "lord",
+  "unknown",
+  "anonymous",
+  "various",
+  "author",
+]);
+
+const foldText = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+/**
+ * Lowercase, strip accents, punctuation, subtitles and leading articles
+ */
+export function normalizeTitle(title: string): string {
+  const mainTitle = foldText(title).split(/[:;]/)[0] ?? "";
+  return mainTitle
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(LEADING_ARTICLE, "");
+}
+
+/**
+ * Order-independent author key, so "Austen, Jane" matches "Jane Austen"
+ */
+export function normalizeAuthor(author: string): string {
+  return foldText(author)
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token.length > 1 && !AUTHOR_NOISE.has(token))
+    .sort()
+    .join(" ");
+}
+
+const tokenSet = (value: string) =>
+  new Set(value.split(" ").filter((token) => token.length > 0));
+
+export function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) {
+      shared += 1;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Body text between the Gutenberg START/END markers, if present
+ */
+export function extractBodyText(text: string): string {
+  const start = START_MARKER.exec(text);
+  const end = END_MARKER.exec(text);
+  if (start && end && end.index > start.index) {
+    return text.slice(start.index + start[0].length, end.index);
+  }
+  return text;
+}
+
+// FNV-1a, seeded so each signature slot behaves like an independent hash
+const hashString = (value: string, seed: number) => {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// Cheap per-slot re-mix of a base hash (xorshift-multiply)
+const mixHash = (hash: number, seed: number) => {
+  let mixed = (hash ^ Math.imul(seed + 1, 0x9e3779b1)) >>> 0;
+  mixed ^= mixed >>> 16;
+  mixed = Math.imul(mixed, 0x85ebca6b) >>> 0;
+  mixed ^= mixed >>> 13;
+  mixed = Math.imul(mixed, 0xc2b2ae35) >>> 0;
+  mixed ^= mixed >>> 16;
+  return mixed >>> 0;
+};
+
+/**
+ * MinHash signature over word shingles of the body text.
+ * Returns undefined when the text is too short to fingerprint meaningfully.
+ */
+export function computeTextFingerprint(text: string): number[] | undefined {
+  const words = foldText(extractBodyText(text))
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 0);
+
+  if (words.length < SHINGLE_SIZE * 4) {
+    return undefined;
+  }
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (let index = 0; index + SHINGLE_SIZE <= words.length; index += 1) {
+    const shingle = words.slice(index, index + SHINGLE_SIZE).join(" ");
+    const base = hashString(shingle, 0);
+    for (let slot = 0; slot < SIGNATURE_SIZE; slot += 1) {
+      const value = mixHash(base, slot);
+      if (value < signature[slot]) {
+        signature[slot] = value;
+      }
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures
+ */
+export function fingerprintSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) {
+    return 0;
+  }
+  let equal = 0;
+  for (let index = 0; index < length; index += 1) {
+    if (a[index] === b[index]) {
+      equal += 1;
+    }
+  }
+  return equal / length;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function compareEditions(
+  a: EditionMatchInput,
+  b: EditionMatchInput,
+): EditionMatch | null {
+  const titleSimilarity = jaccard(
+    tokenSet(normalizeTitle(a.title)),
+    tokenSet(normalizeTitle(b.title)),
+  );
+  const authorSimilarity = jaccard(
+    tokenSet(normalizeAuthor(a.author)),
+    tokenSet(normalizeAuthor(b.author)),
+  );
+  const textSimilarity =
+    a.textFingerprint && b.textFingerprint
+      ? fingerprintSimilarity(a.textFingerprint, b.textFingerprint)
+      : undefined;
+
+  const reasons: string[] = [];
+  let kind: MatchKind | null = null;
+
+  if (
+    textSimilarity !== undefined &&
+    textSimilarity >= DUPLICATE_TEXT_SIMILARITY
+  ) {
+    kind = "duplicate";
+    reasons.push(`Body text ${Math.round(textSimilarity * 100)}% similar`);
+  } else if (
+    titleSimilarity >= EDITION_TITLE_SIMILARITY &&
+    authorSimilarity >= EDITION_AUTHOR_SIMILARITY
+  ) {
+    kind =
+      textSimilarity === undefined &&
+      titleSimilarity === 1 &&
+      authorSimilarity === 1
+        ? "duplicate"
+        : "alternate_edition";
+    reasons.push("Title and author match after normalization");
+    if (textSimilarity !== undefined) {
+      reasons.push(`Body text ${Math.round(textSimilarity * 100)}% similar`);
+    }
+  }
+
+  if (!kind) {
+    return null;
+  }
+
+  return {
+    a: a.id,
+    b: b.id,
+    kind,
+    titleSimilarity: round(titleSimilarity),
+    authorSimilarity: round(authorSimilarity),
+    textSimilarity:
+      textSimilarity !== undefined ? round(textSimilarity) : undefined,
+    reasons,
+  };
+}
+
+/**
+ * Blocking keys so only plausible pairs are compared: the normalized title
+ * and author, plus one key per LSH band of the text signature
+ */
+export function blockingKeys(book: EditionMatchInput): string[] {
+  const keys: string[] = [];
+  const title = normalizeTitle(book.title);
+  if (title) {
+    keys.push(`t:${title}`);
+  }
+  const author = normalizeAuthor(book.author);
+  if (author) {
+    keys.push(`a:${author}`);
+  }
+  if (book.textFingerprint) {
+    for (let band = 0; band < LSH_BANDS; band += 1) {
+      const rows = book.textFingerprint.slice(
+        band * LSH_ROWS,
+        (band + 1) * LSH_ROWS,
+      );
+      keys.push(`b${band}:${rows.join(",")}`);
+    }
+  }
+  return keys;
+}
+
+export const pairKey = (a: string, b: string) =>
+  a < b ? `${a}|${b}` : `${b}|${a}`;
+
+export type EditionGroup = {
+  bookIds: string[];
+  matches: EditionMatch[];
+};
+
+/**
+ * Find match groups across the library. Pairs that were dismissed, or that
+ * already belong to the same work family, are not reported.
+ */
+export function findEditionGroups(
+  books: EditionMatchInput[],
+  dismissedPairs: Set<string> = new Set(),
+): EditionGroup[] {
+  const buckets = new Map<string, number[]>();
+  books.forEach((book, index) => {
+    for (const key of blockingKeys(book)) {
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        buckets.set(key, [index]);
+      }
+    }
+  });
+
+  const compared = new Set<string>();
+  const matches: EditionMatch[] = [];
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i += 1) {
+      for (let j = i + 1; j < bucket.length; j += 1) {
+        const a = books[bucket[i]];
+        const b = books[bucket[j]];
+        const key = pairKey(a.id, b.id);
+        if (compared.has(key)) {
+          continue;
+        }
+        compared.add(key);
+
+        if (
+          dismissedPairs.has(key) ||
+          (a.workFamilyId && a.workFamilyId === b.workFamilyId)
+        ) {
+          continue;
+        }
+        const match = compareEditions(a, b);
+        if (match) {
+          matches.push(match);
+        }
+      }
+    }
+  }
+
+  // Union-find over matched pairs
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) {
+      return id;
+    }
+    const resolved = find(root);
+    parent.set(id, resolved);
+    return resolved;
+  };
+  for (const match of matches) {
+    parent.set(find(match.a), find(match.b));
+  }
+
+  const groups = new Map<string, EditionGroup>();
+  for (const match of matches) {
+    const root = find(match.a);
+    const group = groups.get(root) ?? { bookIds: [], matches: [] };
+    for (const id of [match.a, match.b]) {
+      if (!group.bookIds.includes(id)) {
+        group.bookIds.push(id);
+      }
+    }
+    group.matches.push(match);
+    groups.set(root, group);
+  }
+
+  return Array.from(groups.values());
+}
@@ -0,0 +1,325 @@
+/**
+ * Duplicate and Edition Detection
+ *
+ * Stores a text fingerprint per book, surfaces "possible duplicate /
+ * alternate edition" groups for the Library, and links editions into work
+ * families instead of deleting one of them.
+ */
+
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  computeTextFingerprint,
+  findEditionGroups,
+  pairKey,
+} from "./editionMatching";
+
+// Books still being imported carry placeholder metadata and no text yet
+const isMatchable = (book: Doc<"books">) =>
+  book.status !== "importing" && book.status !== "failed";
+
+/**
+ * Prefer the latest cleaned revision, then converted upload markdown; fall
+ * back to the raw upload
+ */
+export const getFingerprintSource = internalQuery({
+  args: { bookId: v.id("books") },
+  returns: v.union(v.id("_storage"), v.null()),
+  handler: async (ctx, args) => {
+    const revision = await ctx.db
+      .query("cleanupRevisions")
+      .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
+      .order("desc")
+      .first();
+    if (revision?.fileId) {
+      return revision.fileId;
+    }
+
+    const book = await ctx.db.get(args.bookId);
+    return book?.annotatedFileId ?? book?.fileId ?? null;
+  },
+});
+
+export const storeFingerprint = internalMutation({
+  args: {
+    bookId: v.id("books"),
+    textFingerprint: v.optional(v.array(v.number())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    if (!book) {
+      return null;
+    }
+
+    await ctx.db.patch(args.bookId, {
+      textFingerprint: args.textFingerprint,
+      fingerprintedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Recompute a book's text fingerprint
+ * Scheduled after intake and after each cleanup run.
+ */
+export const refreshFingerprint = internalAction({
+  args: { bookId: v.id("books") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const fileId = await ctx.runQuery(internal.editions.getFingerprintSource, {
+      bookId: args.bookId,
+    });
+    if (!fileId) {
+      return null;
+    }
+
+    const blob = await ctx.storage.get(fileId);
+    if (!blob) {
+      return null;
+    }
+
+    await ctx.runMutation(internal.editions.storeFingerprint, {
+      bookId: args.bookId,
+      textFingerprint: computeTextFingerprint(await blob.text()),
+    });
+    return null;
+  },
+});
+
+/**
+ * Fingerprint every book that has none yet (or all books when forced)
+ */
+export const rescanFingerprints = mutation({
+  args: { force: v.optional(v.boolean()) },
+  returns: v.object({ scheduled: v.number() }),
+  handler: async (ctx, args) => {
+    const books = await ctx.db.query("books").collect();
+    let scheduled = 0;
+
+    for (const book of books) {
+      if (!isMatchable(book) || (book.fingerprintedAt && !args.force)) {
+        continue;
+      }
+      await ctx.scheduler.runAfter(0, internal.editions.refreshFingerprint, {
+        bookId: book._id,
+      });
+      scheduled++;
+    }
+
+    return { scheduled };
+  },
+});
+
+/**
+ * Possible duplicate / alternate edition groups across the library
+ */
+export const listEditionGroups = query({
+  args: {},
+  handler: async (ctx) => {
+    const books = (await ctx.db.query("books").collect()).filter(isMatchable);
+    const dismissals = await ctx.db.query("editionMatchDismissals").collect();
+
+    const groups = findEditionGroups(
+      books.map((book) => ({
+        id: book._id,
+        title: book.title,
+        author: book.author,
+        textFingerprint: book.textFingerprint,
+        workFamilyId: book.workFamilyId,
+      })),
+      new Set(dismissals.map((dismissal) => dismissal.pairKey)),
+    );
+
+    const booksById = new Map(books.map((book) => [book._id as string, book]));
+    return groups.map((group) => ({
+      kind: group.matches.some((match) => match.kind === "duplicate")
+        ? ("duplicate" as const)
+        : ("alternate_edition" as const),
+      books: group.bookIds.map((id) => {
+        const book = booksById.get(id)!;
+        return {
+          _id: book._id,
+          title: book.title,
+          author: book.author,
+          gutenbergId: book.gutenbergId,
+          status: book.status,
+          workFamilyId: book.workFamilyId,
+        };
+      }),
+      matches: group.matches,
+    }));
+  },
+});
+
+export const listWorkFamilies = query({
+  args: {},
+  handler: async (ctx) => {
+    const families = await ctx.db.query("workFamilies").collect();
+
+    return await Promise.all(
+      families.map(async (family) => {
+        const editions = await ctx.db
+          .query("books")
+          .withIndex("by_work_family", (q) => q.eq("workFamilyId", family._id))
+          .collect();
+
+        return {
+          ...family,
+          editions: editions.map((book) => ({
+            _id: book._id,
+            title: book.title,
+            author: book.author,
+            gutenbergId: book.gutenbergId,
+          })),
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * Link books as editions of one work, merging any families they belong to
+ */
+export const linkEditions = mutation({
+  args: { bookIds: v.array(v.id("books")) },
+  returns: v.object({ workFamilyId: v.id("workFamilies") }),
+  handler: async (ctx, args) => {
+    const bookIds = Array.from(new Set(args.bookIds));
+    if (bookIds.length < 2) {
+      throw new Error("Select at least two books to link as editions");
+    }
+
+    const books: Doc<"books">[] = [];
+    for (const bookId of bookIds) {
+      const book = await ctx.db.get(bookId);
+      if (!book) {
+        throw new Error(`Book ${bookId} not found`);
+      }
+      books.push(book);
+    }
+
+    const now = Date.now();
+    const existingFamilyIds = Array.from(
+      new Set(
+        books
+          .map((book) => book.workFamilyId)
+          .filter((id): id is Id<"workFamilies"> => id !== undefined),
+      ),
+    );
+    const workFamilyId =
+      existingFamilyIds[0] ??
+      (await ctx.db.insert("workFamilies", {
+        title: books[0].title,
+        author: books[0].author,
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+    // Fold the other families' members into the surviving one
+    for (const otherFamilyId of existingFamilyIds.slice(1)) {
+      const members = await ctx.db
+        .query("books")
+        .withIndex("by_work_family", (q) => q.eq("workFamilyId", otherFamilyId))
+        .collect();
+      for (const member of members) {
+        await ctx.db.patch(member._id, { workFamilyId });
+      }
+      await ctx.db.delete(otherFamilyId);
+    }
+
+    for (const book of books) {
+      await ctx.db.patch(book._id, { workFamilyId });
+    }
+    await ctx.db.patch(workFamilyId, { updatedAt: now });
+
+    return { workFamilyId };
+  },
+});
+
+/**
+ * Remove a book from its work family; a family left with one edition is
+ * dissolved
+ */
+export async function detachFromWorkFamily(
+  ctx: MutationCtx,
+  book: Doc<"books">,
+) {
+  if (!book.workFamilyId) {
+    return;
+  }
+  const workFamilyId = book.workFamilyId;
+  await ctx.db.patch(book._id, { workFamilyId: undefined });
+
+  const remaining = await ctx.db
+    .query("books")
+    .withIndex("by_work_family", (q) => q.eq("workFamilyId", workFamilyId))
+    .collect();
+  if (remaining.length >= 2) {
+    await ctx.db.patch(workFamilyId, { updatedAt: Date.now() });
+    return;
+  }
+
+  for (const member of remaining) {
+    await ctx.db.patch(member._id, { workFamilyId: undefined });
+  }
+  await ctx.db.delete(workFamilyId);
+}
+
+export const unlinkEdition = mutation({
+  args: { bookId: v.id("books") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    if (!book) {
+      throw new Error(`Book ${args.bookId} not found`);
+    }
+
+    await detachFromWorkFamily(ctx, book);
+    return null;
+  },
+});
+
+/**
+ * Mark every pair in a suggested group as "not the same work"
+ */
+export const dismissEditionMatch = mutation({
+  args: { bookIds: v.array(v.id("books")) },
+  returns: v.object({ dismissed: v.number() }),
+  handler: async (ctx, args) => {
+    const bookIds = Array.from(new Set(args.bookIds));
+    const now = Date.now();
+    let dismissed = 0;
+
+    for (let i = 0; i < bookIds.length; i++) {
+      for (let j = i + 1; j < bookIds.length; j++) {
+        const key = pairKey(bookIds[i], bookIds[j]);
+        const existing = await ctx.db
+          .query("editionMatchDismissals")
+          .withIndex("by_pair_key", (q) => q.eq("pairKey", key))
+          .first();
+        if (existing) {
+          continue;
+        }
+        await ctx.db.insert("editionMatchDismissals", {
+          pairKey: key,
+          bookIds: [bookIds[i], bookIds[j]],
+          dismissedAt: now,
+        });
+        dismissed++;
+      }
+    }
+
+    return { dismissed };
+  },
+});
@@ -0,0 +1,901 @@
+/**
+ * EPUB 3 building and structural validation
+ *
+ * Builds a reflowable EPUB 3 from approved chapter text: OPF metadata from
+ * the book record, a nav document, title and copyright pages, one XHTML
+ * file per chapter and a stylesheet from the template's type settings,
+ * drop caps and chapter opener. Section breaks carry the template's
+ * ornament. Collections get a title page per volume, with the volume's
+ * chapters nested under it in the contents.
+ * Annotated markdown markers (*em*, {bold:...}, {sup:...}, {smallcaps:...},
+ * [^id]) become real markup. validateEpub re-reads the finished archive and
+ * reports structural problems before an export is accepted.
+ *
+ * Pure functions only - epubExport.ts runs the export job.
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import {
+  inlineToPlainText,
+  parseBlocks,
+  parseInline,
+  sanitizeFootnoteId,
+  type BlockNode,
+  type InlineNode,
+} from "./annotatedMarkdown";
+import { parseXhtml, walkElements, type XhtmlElement } from "./xhtmlTree";
+import type { ContributorRole } from "./metadataEdits";
+import type { VolumeTitle } from "./pdfLayout";
+import {
+  SECTION_BREAKS,
+  type FontFamily,
+  type PrintSettings,
+  type SectionBreak,
+} from "./printSpecs";
+
+export type EpubMetadata = {
+  identifier: string;
+  title: string;
+  subtitle?: string;
+  author: string;
+  language?: string;
+  publicationYear?: number;
+  contributors: Array<{ name: string; role: string }>;
+  subjects?: string[];
+  description?: string;
+  // dcterms:modified, e.g. "2026-01-31T12:00:00Z"
+  modified: string;
+};
+
+// A chapter with a volume opens that volume, after its title page
+export type EpubChapter = {
+  title: string;
+  text: string;
+  volume?: VolumeTitle;
+};
+
+export type EpubStyle = Pick<
+  PrintSettings,
+  | "fontSize"
+  | "lineHeight"
+  | "fontFamily"
+  | "headingFontFamily"
+  | "dropCaps"
+  | "sectionBreak"
+  | "chapterOpener"
+>;
+
+const EPUB_MIMETYPE = "application/epub+zip";
+const CONTENT_DIR = "OEBPS";
+const OPF_PATH = `${CONTENT_DIR}/content.opf`;
+
+const MARC_RELATORS: Record<ContributorRole, string> = {
+  author: "aut",
+  translator: "trl",
+  illustrator: "ill",
+  editor: "edt",
+};
+
+const FONT_STACKS: Record<FontFamily, string> = {
+  serif: 'Georgia, "Times New Roman", serif',
+  sans: '"Helvetica Neue", Helvetica, Arial, sans-serif',
+  mono: '"Courier New", Courier, monospace',
+};
+
+// Language names as Gutenberg headers give them
+const LANGUAGE_TAGS: Record<string, string> = {
+  english: "en",
+  french: "fr",
+  german: "de",
+  spanish: "es",
+  italian: "it",
+  portuguese: "pt",
+  dutch: "nl",
+  latin: "la",
+  greek: "el",
+  russian: "ru",
+  finnish: "fi",
+  swedish: "sv",
+  danish: "da",
+  norwegian: "no",
+  polish: "pl",
+  hungarian: "hu",
+  chinese: "zh",
+  japanese: "ja",
+  esperanto: "eo",
+};
+
+const XML_ENTITY = /^&(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/;
+
+/**
+ * BCP 47 tag for a stored language, which may be a name ("English")
+ */
+export function languageTag(language: string | undefined): string {
+  const value = language?.trim() ?? "";
+  if (/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(value)) {
+    return value;
+  }
+  return LANGUAGE_TAGS[value.toLowerCase()] ?? "en";
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ─── Content documents ──────────────────────────────────────────────────────
+
+function collectFootnoteIds(blocks: BlockNode[], ids: Set<string>) {
+  for (const block of blocks) {
+    if (block.type === "footnote") {
+      ids.add(sanitizeFootnoteId(block.id));
+    } else if (block.type === "blockquote") {
+      collectFootnoteIds(block.children, ids);
+    }
+  }
+  return ids;
+}
+
+function inlineXhtml(
+  nodes: InlineNode[],
+  notes: { ids: Set<string>; referenced: Set<string> },
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeXml(node.text);
+        case "emphasis":
+          return `<em>${inlineXhtml(node.children, notes)}</em>`;
+        case "bold":
+          return `<strong>${inlineXhtml(node.children, notes)}</strong>`;
+        case "superscript":
+          return `<sup>${inlineXhtml(node.children, notes)}</sup>`;
+        case "smallcaps":
+          return `<span class="smallcaps">${inlineXhtml(node.children, notes)}</span>`;
+        case "footnoteRef": {
+          const id = sanitizeFootnoteId(node.id);
+          if (!notes.ids.has(id)) {
+            return `<sup>${escapeXml(id)}</sup>`;
+          }
+          // Only the first reference carries the back-link target
+          const refId = notes.referenced.has(id) ? "" : ` id="ref-${id}"`;
+          notes.referenced.add(id);
+          return `<a epub:type="noteref" role="doc-noteref" href="#note-${id}"${refId}><sup>${escapeXml(id)}</sup></a>`;
+        }
+      }
+    })
+    .join("");
+}
+
+function blockXhtml(
+  block: BlockNode,
+  notes: { ids: Set<string>; referenced: Set<string> },
+  ornament: string,
+): string {
+  const inline = (nodes: InlineNode[]) => inlineXhtml(nodes, notes);
+  switch (block.type) {
+    case "heading": {
+      // The chapter title is the h1
+      const level = Math.min(block.level + 1, 6);
+      return `<h${level}>${inline(block.children)}</h${level}>`;
+    }
+    case "paragraph":
+      return `<p>${inline(block.children)}</p>`;
+    case "blockquote":
+      return `<blockquote>\n${block.children
+        .map((child) => blockXhtml(child, notes, ornament))
+        .join("\n")}\n</blockquote>`;
+    case "verse":
+      return `<div class="verse">\n${block.stanzas
+        .map(
+          (stanza) =>
+            `<p class="stanza">${stanza.map(inline).join("<br/>\n")}</p>`,
+        )
+        .join("\n")}\n</div>`;
+    case "list": {
+      const tag = block.ordered ? "ol" : "ul";
+      return `<${tag}>\n${block.items
+        .map((item) => `<li>${inline(item)}</li>`)
+        .join("\n")}\n</${tag}>`;
+    }
+    case "table":
+      return `<table>\n${block.rows
+        .map((row, index) => {
+          const cell = block.hasHeader && index === 0 ? "th" : "td";
+          return `<tr>${row
+            .map((content) => `<${cell}>${inline(content)}</${cell}>`)
+            .join("")}</tr>`;
+        })
+        .join("\n")}\n</table>`;
+    case "footnote": {
+      const id = sanitizeFootnoteId(block.id);
+      const label = notes.referenced.has(id)
+        ? `<a href="#ref-${id}">${escapeXml(id)}.</a>`
+        : `${escapeXml(id)}.`;
+      return `<aside epub:type="footnote" role="doc-footnote" id="note-${id}" class="footnote">\n<p>${label} ${inline(block.children)}</p>\n</aside>`;
+    }
+    case "break":
+      return ornament
+        ? `<p class="section-break" role="separator">${ornament}</p>`
+        : `<hr class="section-break"/>`;
+  }
+}
+
+function xhtmlDocument(
+  title: string,
+  language: string,
+  body: string,
+  bodyType?: string,
+) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${bodyType ? ` epub:type="${bodyType}"` : ""}>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * One chapter as an XHTML content document
+ */
+export function chapterXhtml(
+  chapter: EpubChapter,
+  language: string,
+  sectionBreak: SectionBreak = "asterisks",
+): string {
+  const blocks = parseBlocks(chapter.text);
+  const notes = {
+    ids: collectFootnoteIds(blocks, new Set()),
+    referenced: new Set<string>(),
+  };
+  const titleNodes = parseInline(chapter.title);
+  // Footnote bodies render after their references so back-links resolve
+  const body = [
+    ...blocks.filter((block) => block.type !== "footnote"),
+    ...blocks.filter((block) => block.type === "footnote"),
+  ]
+    .map((block) =>
+      blockXhtml(block, notes, SECTION_BREAKS[sectionBreak].glyph),
+    )
+    .join("\n");
+
+  return xhtmlDocument(
+    inlineToPlainText(titleNodes),
+    language,
+    `<section epub:type="chapter" role="doc-chapter">
+<h1>${inlineXhtml(titleNodes, notes)}</h1>
+${body}
+</section>`,
+    "bodymatter",
+  );
+}
+
+/**
+ * Stylesheet from the template's type settings. Page margins belong to the
+ * reading system, so only the type carries over; the opener's drop, a
+ * fraction of the print text block, becomes ems at about 12 per quarter.
+ */
+export function epubStylesheet(style: EpubStyle): string {
+  const opener = style.chapterOpener;
+  const dropCap = style.dropCaps
+    ? `h1 + p::first-letter {
+  float: left;
+  font-family: ${FONT_STACKS[style.headingFontFamily]};
+  font-size: 3.2em;
+  line-height: 0.85;
+  margin: 0.05em 0.08em 0 0;
+}
+`
+    : "";
+  return `body {
+  font-family: ${FONT_STACKS[style.fontFamily]};
+  font-size: ${Math.round((style.fontSize / 12) * 100)}%;
+  line-height: ${style.lineHeight};
+}
+h1, h2, h3, h4, h5, h6 {
+  font-family: ${FONT_STACKS[style.headingFontFamily]};
+}
+h1 {
+  font-size: 1.6em;
+  text-align: ${opener.align};
+  text-transform: ${opener.uppercase ? "uppercase" : "none"};
+  margin: ${Math.round(opener.drop * 12 * 10) / 10}em 0 ${opener.spaceAfter}em;
+  page-break-before: always;
+}
+h2, h3, h4, h5, h6 {
+  text-align: center;
+  margin: 1.5em 0 1em;
+}
+p {
+  margin: 0;
+  text-indent: 1.5em;
+  text-align: justify;
+}
+h1 + p, h2 + p, h3 + p, h4 + p, h5 + p, h6 + p, hr + p, .section-break + p,
+blockquote p {
+  text-indent: 0;
+}
+${dropCap}
+.smallcaps {
+  font-variant: small-caps;
+}
+hr.section-break {
+  border: 0;
+  margin: 1.5em auto;
+}
+p.section-break {
+  text-indent: 0;
+  text-align: center;
+  margin: 0.75em 0;
+}
+blockquote, .verse {
+  margin: 1em 2em;
+}
+.verse .stanza {
+  text-indent: 0;
+  text-align: left;
+  margin-bottom: 1em;
+}
+table {
+  border-collapse: collapse;
+  margin: 1em auto;
+}
+th, td {
+  padding: 0.2em 0.5em;
+  vertical-align: top;
+}
+aside.footnote {
+  font-size: 0.85em;
+  margin-top: 1em;
+}
+aside.footnote p, .title-page p, .copyright p {
+  text-indent: 0;
+}
+.title-page {
+  text-align: center;
+  margin-top: 20%;
+}
+.title-page .title {
+  font-family: ${FONT_STACKS[style.headingFontFamily]};
+  font-size: 2em;
+  font-weight: bold;
+}
+.title-page .subtitle {
+  font-style: italic;
+  margin-top: 0.5em;
+}
+.title-page .author {
+  font-size: 1.3em;
+  margin-top: 3em;
+}
+.copyright {
+  margin-top: 40%;
+  font-size: 0.85em;
+}
+.copyright p {
+  margin-bottom: 0.5em;
+}
+`;
+}
+
+// ─── Package ────────────────────────────────────────────────────────────────
+
+function titlePageSection(title: VolumeTitle, attributes: string) {
+  return `<section class="title-page" ${attributes}>
+<p class="title">${escapeXml(title.title)}</p>
+${title.subtitle ? `<p class="subtitle">${escapeXml(title.subtitle)}</p>\n` : ""}<p class="author">${escapeXml(title.author)}</p>
+</section>`;
+}
+
+function packageDocument(
+  metadata: EpubMetadata,
+  language: string,
+  bodyIds: string[],
+) {
+  const authors = metadata.contributors.filter(
+    (credit) => credit.role === "author",
+  );
+  const creators = authors.length > 0 ? authors : [{ name: metadata.author }];
+  const others = metadata.contributors.filter(
+    (credit) => credit.role !== "author" && credit.role in MARC_RELATORS,
+  );
+
+  const lines = [
+    `<dc:identifier id="book-id">${escapeXml(metadata.identifier)}</dc:identifier>`,
+    `<dc:title id="title">${escapeXml(metadata.title)}</dc:title>`,
+    `<meta refines="#title" property="title-type">main</meta>`,
+    ...(metadata.subtitle
+      ? [
+          `<dc:title id="subtitle">${escapeXml(metadata.subtitle)}</dc:title>`,
+          `<meta refines="#subtitle" property="title-type">subtitle</meta>`,
+        ]
+      : []),
+    `<dc:language>${language}</dc:language>`,
+    ...creators.flatMap((creator, index) => [
+      `<dc:creator id="creator-${index + 1}">${escapeXml(creator.name)}</dc:creator>`,
+      `<meta refines="#creator-${index + 1}" property="role" scheme="marc:relators">aut</meta>`,
+    ]),
+    ...others.flatMap((credit, index) => [
+      `<dc:contributor id="contributor-${index + 1}">${escapeXml(credit.name)}</dc:contributor>`,
+      `<meta refines="#contributor-${index + 1}" property="role" scheme="marc:relators">${MARC_RELATORS[credit.role as ContributorRole]}</meta>`,
+    ]),
+    ...(metadata.publicationYear
+      ? [`<dc:date>${metadata.publicationYear}</dc:date>`]
+      : []),
+    ...(metadata.subjects ?? []).map(
+      (subject) => `<dc:subject>${escapeXml(subject)}</dc:subject>`,
+    ),
+    ...(metadata.description
+      ? [`<dc:description>${escapeXml(metadata.description)}</dc:description>`]
+      : []),
+    `<meta property="dcterms:modified">${metadata.modified}</meta>`,
+  ];
+
+  const xhtml = "application/xhtml+xml";
+  const manifest = [
+    `<item id="nav" href="nav.xhtml" media-type="${xhtml}" properties="nav"/>`,
+    `<item id="css" href="styles.css" media-type="text/css"/>`,
+    `<item id="title-page" href="title.xhtml" media-type="${xhtml}"/>`,
+    `<item id="copyright" href="copyright.xhtml" media-type="${xhtml}"/>`,
+    ...bodyIds.map(
+      (id) => `<item id="${id}" href="${id}.xhtml" media-type="${xhtml}"/>`,
+    ),
+  ];
+  const spine = ["title-page", "copyright", "nav", ...bodyIds].map(
+    (id) => `<itemref idref="${id}"/>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${lines.join("\n")}
+</metadata>
+<manifest>
+${manifest.join("\n")}
+</manifest>
+<spine>
+${spine.join("\n")}
+</spine>
+</package>
+`;
+}
+
+/**
+ * Build the EPUB archive. The mimetype entry comes first, uncompressed, as
+ * the OCF container requires.
+ */
+export function buildEpub(
+  metadata: EpubMetadata,
+  chapters: EpubChapter[],
+  options: { style: EpubStyle; copyrightLines: string[] },
+) {
+  const language = languageTag(metadata.language);
+  const chapterIds = chapters.map(
+    (_, index) => `chapter-${String(index + 1).padStart(3, "0")}`,
+  );
+  // Volume title pages, keyed by the chapter that opens the volume
+  const volumeIds = new Map<number, string>();
+  chapters.forEach((chapter, index) => {
+    if (chapter.volume) {
+      volumeIds.set(
+        index,
+        `volume-${String(volumeIds.size + 1).padStart(2, "0")}`,
+      );
+    }
+  });
+  const bodyIds = chapterIds.flatMap((id, index) =>
+    volumeIds.has(index) ? [volumeIds.get(index)!, id] : [id],
+  );
+  const chapterEntry = (chapter: EpubChapter, index: number) =>
+    `<li><a href="${chapterIds[index]}.xhtml">${escapeXml(
+      inlineToPlainText(parseInline(chapter.title)),
+    )}</a></li>`;
+  // Chapters before the first volume stay at the top level
+  const contents: string[] = [];
+  let volumeEntries: string[] | null = null;
+  const closeVolume = () => {
+    if (volumeEntries) {
+      contents.push(`<ol>\n${volumeEntries.join("\n")}\n</ol></li>`);
+      volumeEntries = null;
+    }
+  };
+  chapters.forEach((chapter, index) => {
+    if (chapter.volume) {
+      closeVolume();
+      contents.push(
+        `<li><a href="${volumeIds.get(index)}.xhtml">${escapeXml(chapter.volume.title)}</a>`,
+      );
+      volumeEntries = [];
+    }
+    (volumeEntries ?? contents).push(chapterEntry(chapter, index));
+  });
+  closeVolume();
+
+  const files: Record<string, string> = {
+    "META-INF/container.xml": `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="${OPF_PATH}" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`,
+    [OPF_PATH]: packageDocument(metadata, language, bodyIds),
+    [`${CONTENT_DIR}/nav.xhtml`]: xhtmlDocument(
+      "Contents",
+      language,
+      `<nav epub:type="toc" role="doc-toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${contents.join("\n")}
+</ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+<ol>
+<li><a epub:type="titlepage" href="title.xhtml">Title Page</a></li>
+<li><a epub:type="toc" href="nav.xhtml#toc">Contents</a></li>
+${bodyIds.length > 0 ? `<li><a epub:type="bodymatter" href="${bodyIds[0]}.xhtml">Start</a></li>\n` : ""}</ol>
+</nav>`,
+    ),
+    [`${CONTENT_DIR}/styles.css`]: epubStylesheet(options.style),
+    [`${CONTENT_DIR}/title.xhtml`]: xhtmlDocument(
+      metadata.title,
+      language,
+      titlePageSection(metadata, `epub:type="titlepage"`),
+      "frontmatter",
+    ),
+    [`${CONTENT_DIR}/copyright.xhtml`]: xhtmlDocument(
+      "Copyright",
+      language,
+      `<section class="copyright" epub:type="copyright-page">
+${options.copyrightLines
+  .filter(Boolean)
+  .map((line) => `<p>${escapeXml(line)}</p>`)
+  .join("\n")}
+</section>`,
+      "frontmatter",
+    ),
+  };
+  chapters.forEach((chapter, index) => {
+    const volumeId = volumeIds.get(index);
+    if (chapter.volume && volumeId) {
+      files[`${CONTENT_DIR}/${volumeId}.xhtml`] = xhtmlDocument(
+        chapter.volume.title,
+        language,
+        titlePageSection(chapter.volume, `epub:type="part" role="doc-part"`),
+        "bodymatter",
+      );
+    }
+    files[`${CONTENT_DIR}/${chapterIds[index]}.xhtml`] = chapterXhtml(
+      chapter,
+      language,
+      options.style.sectionBreak,
+    );
+  });
+
+  const bytes = zipSync({
+    mimetype: [strToU8(EPUB_MIMETYPE), { level: 0 }],
+    ...Object.fromEntries(
+      Object.entries(files).map(([path, content]) => [
+        path,
+        [strToU8(content), { level: 9 }],
+      ]),
+    ),
+  });
+  return { bytes, files };
+}
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+/**
+ * Well-formedness problems in an XML document: unbalanced or malformed
+ * tags, unquoted or repeated attributes, stray "<" or "&", and more or
+ * fewer than one root element
+ */
+export function xmlWellFormednessIssues(source: string): string[] {
+  const issues: string[] = [];
+  const stack: string[] = [];
+  let roots = 0;
+
+  const checkText = (text: string) => {
+    for (let i = text.indexOf("&"); i !== -1; i = text.indexOf("&", i + 1)) {
+      if (!XML_ENTITY.test(text.slice(i))) {
+        issues.push(`Unescaped "&" near "${text.slice(i, i + 12)}"`);
+        return;
+      }
+    }
+  };
+
+  const markup =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<[^<>]*>/g;
+  let last = 0;
+  for (const match of source.matchAll(markup)) {
+    const text = source.slice(last, match.index);
+    if (text.includes("<")) {
+      issues.push(
+        `Unterminated tag near "${text.slice(text.indexOf("<"), text.indexOf("<") + 20)}"`,
+      );
+    }
+    checkText(text);
+    last = match.index + match[0].length;
+
+    const tag = match[0];
+    if (/^<(!|\?)/.test(tag)) {
+      continue;
+    }
+    const end = tag.match(/^<\/([A-Za-z_][\w:.-]*)\s*>$/);
+    if (end) {
+      const open = stack.pop();
+      if (open !== end[1]) {
+        issues.push(
+          open
+            ? `</${end[1]}> closes <${open}>`
+            : `</${end[1]}> has no open element`,
+        );
+        return issues;
+      }
+      continue;
+    }
+    const start = tag.match(/^<([A-Za-z_][\w:.-]*)([\s\S]*?)(\/?)>$/);
+    if (!start) {
+      issues.push(`Malformed tag ${tag}`);
+      continue;
+    }
+    const [, name, attributeSource, selfClosing] = start;
+    const attributes = attributeSource.trim();
+    const attributePattern = /([A-Za-z_][\w:.-]*)\s*=\s*("[^"]*"|'[^']*')\s*/y;
+    const seen = new Set<string>();
+    let offset = 0;
+    while (offset < attributes.length) {
+      attributePattern.lastIndex = offset;
+      const attribute = attributePattern.exec(attributes);
+      if (!attribute) {
+        issues.push(`Malformed attributes in <${name}>`);
+        break;
+      }
+      if (seen.has(attribute[1])) {
+        issues.push(`Repeated attribute ${attribute[1]} in <${name}>`);
+      }
+      seen.add(attribute[1]);
+      checkText(attribute[2]);
+      offset = attributePattern.lastIndex;
+    }
+    if (stack.length === 0) {
+      roots += 1;
+    }
+    if (!selfClosing) {
+      stack.push(name);
+    }
+  }
+
+  const trailing = source.slice(last);
+  if (trailing.includes("<")) {
+    issues.push("Unterminated tag at end of document");
+  }
+  checkText(trailing);
+  if (stack.length > 0) {
+    issues.push(`<${stack[stack.length - 1]}> is never closed`);
+  }
+  if (roots !== 1) {
+    issues.push(`Expected one root element, found ${roots}`);
+  }
+  return issues;
+}
+
+const resolveHref = (base: string, href: string) => {
+  const parts = base.split("/").slice(0, -1);
+  for (const part of decodeURIComponent(href.split("#")[0]).split("/")) {
+    if (part === "..") {
+      parts.pop();
+    } else if (part && part !== ".") {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+};
+
+const elementsNamed = (root: ReturnType<typeof parseXhtml>, tag: string) => {
+  const found: XhtmlElement[] = [];
+  walkElements(root, (element) => {
+    if (element.tag === tag) {
+      found.push(element);
+    }
+  });
+  return found;
+};
+
+const elementText = (element: XhtmlElement) =>
+  element.children
+    .map((child) => (child.kind === "text" ? child.text : ""))
+    .join("")
+    .trim();
+
+/**
+ * Structural problems in an EPUB archive: the OCF mimetype entry, container
+ * and package document, required metadata, manifest entries for every
+ * file, spine order against the table of contents, and well-formed XHTML
+ */
+export function validateEpub(bytes: Uint8Array): string[] {
+  const issues: string[] = [];
+
+  // The first local file header must be an uncompressed "mimetype" entry
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 30 || view.getUint32(0, true) !== 0x04034b50) {
+    return ["Not a ZIP archive"];
+  }
+  const nameLength = view.getUint16(26, true);
+  const extraLength = view.getUint16(28, true);
+  const firstName = strFromU8(bytes.subarray(30, 30 + nameLength));
+  const dataStart = 30 + nameLength + extraLength;
+  if (firstName !== "mimetype") {
+    issues.push(`First archive entry is "${firstName}", not "mimetype"`);
+  } else {
+    if (view.getUint16(8, true) !== 0) {
+      issues.push("The mimetype entry is compressed");
+    }
+    if (extraLength !== 0) {
+      issues.push("The mimetype entry has an extra field");
+    }
+    const content = strFromU8(
+      bytes.subarray(dataStart, dataStart + EPUB_MIMETYPE.length),
+    );
+    if (content !== EPUB_MIMETYPE) {
+      issues.push(`The mimetype entry is "${content}"`);
+    }
+  }
+
+  let archive: Record<string, Uint8Array>;
+  try {
+    archive = unzipSync(bytes);
+  } catch (error) {
+    return [
+      ...issues,
+      `Archive cannot be read: ${error instanceof Error ? error.message : String(error)}`,
+    ];
+  }
+  const text = (path: string) =>
+    archive[path] ? strFromU8(archive[path]) : undefined;
+
+  for (const path of Object.keys(archive)) {
+    if (/\.(xhtml|opf|xml|ncx)$/.test(path)) {
+      for (const issue of xmlWellFormednessIssues(text(path)!).slice(0, 3)) {
+        issues.push(`${path}: ${issue}`);
+      }
+    }
+  }
+
+  const container = text("META-INF/container.xml");
+  if (!container) {
+    return [...issues, "META-INF/container.xml is missing"];
+  }
+  const opfPath = elementsNamed(parseXhtml(container), "rootfile")[0]?.attrs[
+    "full-path"
+  ];
+  const opf = opfPath ? text(opfPath) : undefined;
+  if (!opfPath || !opf) {
+    return [...issues, "container.xml does not point to a package document"];
+  }
+  const opfTree = parseXhtml(opf);
+
+  // Required metadata
+  const packageElement = elementsNamed(opfTree, "package")[0];
+  const uniqueId = packageElement?.attrs["unique-identifier"];
+  if (packageElement?.attrs.version !== "3.0") {
+    issues.push("Package version is not 3.0");
+  }
+  const identifier = elementsNamed(opfTree, "dc:identifier").find(
+    (element) => element.attrs.id === uniqueId,
+  );
+  if (!identifier || !elementText(identifier)) {
+    issues.push("No dc:identifier matches the package unique-identifier");
+  }
+  for (const required of ["dc:title", "dc:language"]) {
+    if (!elementsNamed(opfTree, required).some((el) => elementText(el))) {
+      issues.push(`Package metadata has no ${required}`);
+    }
+  }
+  // The XHTML parser treats <meta> as void, so read its text from the source
+  if (
+    !/<meta\s+property="dcterms:modified"\s*>\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z<\/meta>/.test(
+      opf,
+    )
+  ) {
+    issues.push("Package metadata has no valid dcterms:modified");
+  }
+
+  // Manifest
+  const items = new Map<string, { path: string; mediaType: string }>();
+  const manifested = new Set<string>();
+  let navPath: string | undefined;
+  for (const item of elementsNamed(opfTree, "item")) {
+    const { id, href } = item.attrs;
+    if (!id || !href || !item.attrs["media-type"]) {
+      issues.push("Manifest item without id, href or media-type");
+      continue;
+    }
+    if (items.has(id)) {
+      issues.push(`Duplicate manifest id "${id}"`);
+    }
+    const path = resolveHref(opfPath, href);
+    items.set(id, { path, mediaType: item.attrs["media-type"] });
+    manifested.add(path);
+    if (!archive[path]) {
+      issues.push(`Manifest item "${id}" points to missing ${path}`);
+    }
+    if ((item.attrs.properties ?? "").split(/\s+/).includes("nav")) {
+      if (navPath) {
+        issues.push("More than one manifest item is the nav document");
+      }
+      navPath = path;
+    }
+  }
+  if (!navPath) {
+    issues.push("No manifest item has the nav property");
+  }
+  for (const path of Object.keys(archive)) {
+    if (
+      path !== "mimetype" &&
+      path !== opfPath &&
+      !path.startsWith("META-INF/") &&
+      !path.endsWith("/") &&
+      !manifested.has(path)
+    ) {
+      issues.push(`${path} is not in the manifest`);
+    }
+  }
+
+  // Spine
+  const spine: string[] = [];
+  for (const itemref of elementsNamed(opfTree, "itemref")) {
+    const item = items.get(itemref.attrs.idref ?? "");
+    if (!item) {
+      issues.push(`Spine item "${itemref.attrs.idref}" is not in the manifest`);
+      continue;
+    }
+    if (item.mediaType !== "application/xhtml+xml") {
+      issues.push(`Spine item "${itemref.attrs.idref}" is not XHTML`);
+    }
+    spine.push(item.path);
+  }
+  if (spine.length === 0) {
+    issues.push("The spine is empty");
+  }
+
+  // Table of contents entries must follow spine order
+  const nav = navPath ? text(navPath) : undefined;
+  if (nav) {
+    const toc = elementsNamed(parseXhtml(nav), "nav").find(
+      (element) => element.attrs["epub:type"] === "toc",
+    );
+    if (!toc) {
+      issues.push("The nav document has no toc nav");
+    } else {
+      let previous = -1;
+      for (const link of elementsNamed([toc], "a")) {
+        const path = resolveHref(navPath!, link.attrs.href ?? "");
+        const position = spine.indexOf(path);
+        if (position === -1) {
+          issues.push(`Contents entry ${link.attrs.href} is not in the spine`);
+        } else if (position < previous) {
+          issues.push(
+            `Contents entry ${link.attrs.href} is out of spine order`,
+          );
+        } else {
+          previous = position;
+        }
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,113 @@
+/**
+ * EPUB 3 ebook export
+ *
+ * Builds an EPUB from a book's approved cleanup revision with a template's
+ * type settings as an export job. The job walks loading_content ->
+ * building_epub -> validating_epub -> storing_output and fails instead of
+ * storing a package that does not pass structural validation.
+ */
+
+import { v } from "convex/values";
+import { internalAction, mutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  copyrightPageLines,
+  countWords,
+  failExportJob,
+  finishExportJob,
+  loadChapterTexts,
+  queueExportJob,
+} from "./exportJobs";
+import { buildEpub, validateEpub } from "./epubBuild";
+import { resolvePrintSettings } from "./printSpecs";
+
+/**
+ * Queue an EPUB export for an approved, copyright-cleared book
+ */
+export const start = mutation({
+  args: {
+    bookId: v.id("books"),
+    templateId: v.id("templates"),
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, args) => {
+    const jobId = await queueExportJob(ctx, { ...args, format: "epub" });
+    await ctx.scheduler.runAfter(0, internal.epubExport.buildPackage, {
+      jobId,
+    });
+    return jobId;
+  },
+});
+
+/**
+ * Export job: load the approved text, build and validate the EPUB, store it
+ */
+export const buildPackage = internalAction({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    try {
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "loading_content",
+        progress: 10,
+      });
+      const source = await ctx.runQuery(internal.exportJobs.loadExportSource, {
+        jobId: args.jobId,
+      });
+      const chapters = await loadChapterTexts(ctx, source);
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "building_epub",
+        progress: 40,
+      });
+      const { book } = source;
+      const settings = resolvePrintSettings(source.template.settings);
+      const { bytes } = buildEpub(
+        {
+          identifier: `urn:bookzang:${book._id}`,
+          title: book.title,
+          subtitle: book.subtitle,
+          author: book.author,
+          language: book.language,
+          publicationYear: book.publicationYear,
+          contributors: source.credits,
+          subjects: book.subjects,
+          modified: new Date().toISOString().replace(/\.\d{3}Z$/, "Z"),
+        },
+        chapters,
+        {
+          style: settings,
+          copyrightLines: copyrightPageLines(source),
+        },
+      );
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "validating_epub",
+        progress: 70,
+      });
+      const issues = validateEpub(bytes);
+      if (issues.length > 0) {
+        throw new Error(
+          `EPUB failed validation (${issues.length} issue${issues.length === 1 ? "" : "s"}): ${issues.slice(0, 10).join("; ")}`,
+        );
+      }
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "storing_output",
+        progress: 85,
+      });
+      await finishExportJob(ctx, args.jobId, {
+        bytes,
+        contentType: "application/epub+zip",
+        revisionId: source.revision._id,
+        wordCount: countWords(chapters),
+        logs: `Built ${chapters.length} chapter${chapters.length === 1 ? "" : "s"} from cleanup revision ${source.revision.revisionNumber} with the ${source.template.name} template (v${source.template.version}); structural validation passed`,
+      });
+    } catch (error) {
+      await failExportJob(ctx, args.jobId, error);
+    }
+  },
+});
@@ -0,0 +1,700 @@
+import {
+  inlineToPlainText,
+  serializeBlocks,
+  serializeInline,
+  sanitizeFootnoteId,
+  type BlockNode,
+  type HeadingLevel,
+  type InlineNode,
+} from "./annotatedMarkdown";
+import {
+  hasClass,
+  parseXhtml,
+  textContent,
+  walkElements,
+  type XhtmlElement,
+  type XhtmlNode,
+} from "./xhtmlTree";
+
+export { decodeEntities } from "./xhtmlTree";
+
+export type SpineChapterInput = {
+  href: string;
+  title: string;
+  xhtml: string;
+};
+
+export type ExtractedChapter = {
+  href: string;
+  title: string;
+  content: string;
+  // Character offsets of the "## title" section within the combined markdown
+  startOffset: number;
+  endOffset: number;
+};
+
+export type ExtractedBook = {
+  markdown: string;
+  chapters: ExtractedChapter[];
+};
+
+export type ChapterManifestEntry = {
+  chapterNumber: number;
+  href: string;
+  title: string;
+  startOffset: number;
+  endOffset: number;
+};
+
+type ConvertContext = {
+  // Fragment ids that some noteref anchor points at
+  footnoteIds: Set<string>;
+};
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "center",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "ul",
+]);
+
+const EMPHASIS_TAGS = new Set(["em", "i", "cite", "dfn", "var"]);
+const BOLD_TAGS = new Set(["strong", "b"]);
+const SKIPPED_TAGS = new Set([
+  "img",
+  "script",
+  "style",
+  "svg",
+  "head",
+  "title",
+]);
+
+const NOTE_LABEL = /^\[?[\w*†‡§]{1,4}\]?\.?$/;
+const VERSE_CLASS = /^(poem|poetry|verse|stanza|lg)$/i;
+
+function epubType(element: XhtmlElement): string {
+  return element.attrs["epub:type"] ?? "";
+}
+
+function fragmentOf(href: string | undefined): string | undefined {
+  const hashIndex = href?.indexOf("#") ?? -1;
+  return href && hashIndex >= 0
+    ? href.slice(hashIndex + 1) || undefined
+    : undefined;
+}
+
+function isNoteRef(anchor: XhtmlElement, insideSup: boolean): boolean {
+  if (anchor.tag !== "a" || !fragmentOf(anchor.attrs.href)) {
+    return false;
+  }
+  if (
+    /\bnoteref\b/.test(epubType(anchor)) ||
+    hasClass(anchor, /^(fnanchor|noteref|footnote-?ref)$/i)
+  ) {
+    return true;
+  }
+  const label = textContent(anchor.children).trim();
+  const wrapsSup = anchor.children.some(
+    (child) => child.kind === "element" && child.tag === "sup",
+  );
+  return (insideSup || wrapsSup) && NOTE_LABEL.test(label);
+}
+
+function collectFootnoteIds(nodes: XhtmlNode[]): Set<string> {
+  const ids = new Set<string>();
+  const visit = (list: XhtmlNode[], insideSup: boolean) => {
+    for (const node of list) {
+      if (node.kind !== "element") {
+        continue;
+      }
+      if (isNoteRef(node, insideSup)) {
+        ids.add(fragmentOf(node.attrs.href)!);
+      }
+      visit(node.children, insideSup || node.tag === "sup");
+    }
+  };
+  visit(nodes, false);
+  return ids;
+}
+
+function isFootnoteBody(element: XhtmlElement, ctx: ConvertContext): boolean {
+  if (/\b(footnote|endnote|rearnote)\b/.test(epubType(element))) {
+    return true;
+  }
+  if (hasClass(element, /^(footnote|endnote)$/i)) {
+    return true;
+  }
+  return Boolean(element.attrs.id && ctx.footnoteIds.has(element.attrs.id));
+}
+
+function footnoteIdFor(element: XhtmlElement, ctx: ConvertContext): string {
+  if (element.attrs.id && ctx.footnoteIds.has(element.attrs.id)) {
+    return element.attrs.id;
+  }
+  let found: string | undefined;
+  walkElements(element.children, (child) => {
+    if (!found && child.attrs.id && ctx.footnoteIds.has(child.attrs.id)) {
+      found = child.attrs.id;
+    }
+  });
+  if (found) {
+    return found;
+  }
+  walkElements(element.children, (child) => {
+    if (!found && child.tag === "a" && child.attrs.id) {
+      found = child.attrs.id;
+    }
+  });
+  return found ?? element.attrs.id ?? "note";
+}
+
+function isBacklink(element: XhtmlElement): boolean {
+  return (
+    element.tag === "a" &&
+    Boolean(fragmentOf(element.attrs.href)) &&
+    NOTE_LABEL.test(textContent(element.children).trim())
+  );
+}
+
+// Gutenberg EPUBs wrap their license header/footer in these sections
+function isGutenbergBoilerplate(element: XhtmlElement): boolean {
+  return (
+    /^pg-(header|footer)$/.test(element.attrs.id ?? "") ||
+    hasClass(element, /^pg-boilerplate$/)
+  );
+}
+
+function isSmallcaps(element: XhtmlElement): boolean {
+  return (
+    hasClass(element, /^(smallcaps|small-caps|sc)$/i) ||
+    /font-variant\s*:\s*small-caps/i.test(element.attrs.style ?? "")
+  );
+}
+
+// ─── Inline conversion ──────────────────────────────────────────────────────
+
+type InlineOptions = {
+  inEmphasis?: boolean;
+  insideSup?: boolean;
+  dropBacklinks?: boolean;
+};
+
+function convertInline(
+  nodes: XhtmlNode[],
+  ctx: ConvertContext,
+  options: InlineOptions = {},
+): InlineNode[] {
+  const out: InlineNode[] = [];
+
+  for (const node of nodes) {
+    if (node.kind === "text") {
+      out.push({ type: "text", text: node.text });
+      continue;
+    }
+
+    const { tag } = node;
+    if (SKIPPED_TAGS.has(tag)) {
+      continue;
+    }
+    if (tag === "br" || BLOCK_TAGS.has(tag)) {
+      out.push({ type: "text", text: " " });
+      out.push(...convertInline(node.children, ctx, options));
+      out.push({ type: "text", text: " " });
+      continue;
+    }
+    if (options.dropBacklinks && isBacklink(node)) {
+      continue;
+    }
+    if (tag === "a" && isNoteRef(node, Boolean(options.insideSup))) {
+      out.push({
+        type: "footnoteRef",
+        id: sanitizeFootnoteId(fragmentOf(node.attrs.href)!),
+      });
+      continue;
+    }
+
+    if (EMPHASIS_TAGS.has(tag)) {
+      const children = convertInline(node.children, ctx, {
+        ...options,
+        inEmphasis: true,
+      });
+      out.push(
+        ...(options.inEmphasis
+          ? children
+          : [{ type: "emphasis" as const, children }]),
+      );
+    } else if (BOLD_TAGS.has(tag)) {
+      out.push({
+        type: "bold",
+        children: convertInline(node.children, ctx, options),
+      });
+    } else if (tag === "sup") {
+      const children = convertInline(node.children, ctx, {
+        ...options,
+        insideSup: true,
+      });
+      // A sup wrapping only a note reference is the reference itself
+      const onlyRefs = children.every(
+        (child) =>
+          child.type === "footnoteRef" ||
+          (child.type === "text" && !child.text.trim()),
+      );
+      out.push(
+        ...(onlyRefs && children.some((child) => child.type === "footnoteRef")
+          ? children
+          : [{ type: "superscript" as const, children }]),
+      );
+    } else if (tag === "span" && isSmallcaps(node)) {
+      out.push({
+        type: "smallcaps",
+        children: convertInline(node.children, ctx, options),
+      });
+    } else {
+      out.push(...convertInline(node.children, ctx, options));
+    }
+  }
+
+  return out;
+}
+
+type SpaceState = { pendingSpace: boolean; started: boolean };
+
+function collapseRun(nodes: InlineNode[], state: SpaceState): InlineNode[] {
+  const out: InlineNode[] = [];
+
+  const emitPendingSpace = () => {
+    if (state.pendingSpace && state.started) {
+      appendText(out, " ");
+    }
+    state.pendingSpace = false;
+  };
+
+  for (const node of nodes) {
+    if (node.type === "text") {
+      let text = "";
+      for (const char of node.text.replace(/\s+/g, " ")) {
+        if (char === " ") {
+          state.pendingSpace = true;
+          continue;
+        }
+        if (state.pendingSpace && state.started) {
+          text += " ";
+        }
+        state.pendingSpace = false;
+        state.started = true;
+        text += char;
+      }
+      appendText(out, text);
+      continue;
+    }
+
+    emitPendingSpace();
+    if (node.type === "footnoteRef") {
+      state.started = true;
+      out.push(node);
+      continue;
+    }
+
+    const children = collapseRun(node.children, state);
+    if (children.length > 0) {
+      out.push({ ...node, children });
+    }
+  }
+
+  return out;
+}
+
+function appendText(nodes: InlineNode[], text: string) {
+  if (!text) {
+    return;
+  }
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.text += text;
+  } else {
+    nodes.push({ type: "text", text });
+  }
+}
+
+/**
+ * Collapse whitespace across inline nodes and drop empty wrappers
+ */
+function normalizeInline(nodes: InlineNode[]): InlineNode[] {
+  const result = collapseRun(nodes, { pendingSpace: false, started: false });
+  const last = result[result.length - 1];
+  if (last?.type === "text") {
+    last.text = last.text.trimEnd();
+    if (!last.text) {
+      result.pop();
+    }
+  }
+  return result;
+}
+
+function inlineOf(
+  nodes: XhtmlNode[],
+  ctx: ConvertContext,
+  options?: InlineOptions,
+): InlineNode[] {
+  return normalizeInline(convertInline(nodes, ctx, options));
+}
+
+// ─── Block conversion ───────────────────────────────────────────────────────
+
+function childElements(element: XhtmlElement, tags: string[]): XhtmlElement[] {
+  const found: XhtmlElement[] = [];
+  const visit = (nodes: XhtmlNode[]) => {
+    for (const node of nodes) {
+      if (node.kind !== "element") {
+        continue;
+      }
+      if (tags.includes(node.tag)) {
+        found.push(node);
+      } else if (node.tag !== "table") {
+        visit(node.children);
+      }
+    }
+  };
+  visit(element.children);
+  return found;
+}
+
+function verseLines(
+  element: XhtmlElement,
+  ctx: ConvertContext,
+): InlineNode[][] {
+  const lines: InlineNode[][] = [];
+  let current: XhtmlNode[] = [];
+
+  const endLine = () => {
+    const line = inlineOf(current, ctx);
+    if (line.length > 0) {
+      lines.push(line);
+    }
+    current = [];
+  };
+
+  const visit = (nodes: XhtmlNode[]) => {
+    for (const node of nodes) {
+      if (node.kind === "element" && node.tag === "br") {
+        endLine();
+      } else if (node.kind === "element" && BLOCK_TAGS.has(node.tag)) {
+        endLine();
+        visit(node.children);
+        endLine();
+      } else if (
+        node.kind === "element" &&
+        node.children.some(
+          (child) => child.kind === "element" && child.tag === "br",
+        )
+      ) {
+        // Gutenberg verse lines look like <span class="i0">Line<br/></span>
+        const wrapper: XhtmlElement = { ...node, children: [] };
+        for (const child of node.children) {
+          if (child.kind === "element" && child.tag === "br") {
+            current.push({ ...wrapper });
+            endLine();
+            wrapper.children = [];
+          } else {
+            wrapper.children.push(child);
+          }
+        }
+        current.push(wrapper);
+      } else {
+        current.push(node);
+      }
+    }
+  };
+
+  visit(element.children);
+  endLine();
+  return lines;
+}
+
+function convertVerse(
+  element: XhtmlElement,
+  ctx: ConvertContext,
+): BlockNode | null {
+  const stanzaElements = childElements(element, ["div", "p"]).filter((child) =>
+    hasClass(child, /^(stanza|lg)$/i),
+  );
+  const stanzas = (stanzaElements.length > 0 ? stanzaElements : [element])
+    .map((stanza) => verseLines(stanza, ctx))
+    .filter((stanza) => stanza.length > 0);
+
+  return stanzas.length > 0 ? { type: "verse", stanzas } : null;
+}
+
+function isVerse(element: XhtmlElement): boolean {
+  if (
+    hasClass(element, VERSE_CLASS) ||
+    /\bz3998:(poem|verse)\b/.test(epubType(element))
+  ) {
+    return true;
+  }
+  const breaks = element.children.filter(
+    (child) => child.kind === "element" && child.tag === "br",
+  ).length;
+  return element.tag === "p" && breaks >= 2;
+}
+
+function convertTable(
+  element: XhtmlElement,
+  ctx: ConvertContext,
+): BlockNode | null {
+  const rows = childElements(element, ["tr"]);
+  if (rows.length === 0) {
+    return null;
+  }
+  const cells = rows.map((row) => childElements(row, ["td", "th"]));
+  const width = Math.max(...cells.map((row) => row.length), 1);
+  return {
+    type: "table",
+    hasHeader:
+      cells[0].length > 0 && cells[0].every((cell) => cell.tag === "th"),
+    rows: cells.map((row) => {
+      const converted = row.map((cell) => inlineOf(cell.children, ctx));
+      while (converted.length < width) {
+        converted.push([]);
+      }
+      return converted;
+    }),
+  };
+}
+
+function convertList(element: XhtmlElement, ctx: ConvertContext): BlockNode[] {
+  const items = element.children.filter(
+    (child): child is XhtmlElement =>
+      child.kind === "element" && child.tag === "li",
+  );
+  if (items.length > 0 && items.every((item) => isFootnoteBody(item, ctx))) {
+    return items.map((item) => convertFootnote(item, ctx));
+  }
+
+  const converted = items
+    .map((item) => inlineOf(item.children, ctx))
+    .filter((item) => item.length > 0);
+  return converted.length > 0
+    ? [{ type: "list", ordered: element.tag === "ol", items: converted }]
+    : [];
+}
+
+function convertFootnote(
+  element: XhtmlElement,
+  ctx: ConvertContext,
+): BlockNode {
+  const children = inlineOf(element.children, ctx, { dropBacklinks: true });
+  // Strip a leading plain-text label such as "1." left after the backlink
+  const first = children[0];
+  if (first?.type === "text") {
+    first.text = first.text.replace(/^\[?\d{1,3}\]?\.?\s+/, "");
+  }
+  return {
+    type: "footnote",
+    id: sanitizeFootnoteId(footnoteIdFor(element, ctx)),
+    children,
+  };
+}
+
+function convertBlockElement(
+  element: XhtmlElement,
+  ctx: ConvertContext,
+): BlockNode[] {
+  const { tag } = element;
+
+  if (isFootnoteBody(element, ctx)) {
+    return [convertFootnote(element, ctx)];
+  }
+
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    const children = inlineOf(element.children, ctx);
+    return children.length > 0
+      ? [
+          {
+            type: "heading",
+            level: Number(heading[1]) as HeadingLevel,
+            children,
+          },
+        ]
+      : [];
+  }
+
+  switch (tag) {
+    case "hr":
+      return [{ type: "break" }];
+    case "blockquote": {
+      const children = convertBlocks(element.children, ctx);
+      return children.length > 0 ? [{ type: "blockquote", children }] : [];
+    }
+    case "ul":
+    case "ol":
+      return convertList(element, ctx);
+    case "table": {
+      const table = convertTable(element, ctx);
+      return table ? [table] : [];
+    }
+    case "pre": {
+      const lines = textContent(element.children)
+        .split("\n")
+        .map((line) => line.trimEnd())
+        .filter(Boolean)
+        .map((line): InlineNode[] => [{ type: "text", text: line }]);
+      return lines.length > 0 ? [{ type: "verse", stanzas: [lines] }] : [];
+    }
+  }
+
+  if (isVerse(element)) {
+    const verse = convertVerse(element, ctx);
+    return verse ? [verse] : [];
+  }
+
+  if (tag === "p") {
+    const children = inlineOf(element.children, ctx);
+    return children.length > 0 ? [{ type: "paragraph", children }] : [];
+  }
+
+  return convertBlocks(element.children, ctx);
+}
+
+function convertBlocks(nodes: XhtmlNode[], ctx: ConvertContext): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let pending: XhtmlNode[] = [];
+
+  const flush = () => {
+    const children = inlineOf(pending, ctx);
+    if (children.length > 0) {
+      blocks.push({ type: "paragraph", children });
+    }
+    pending = [];
+  };
+
+  for (const node of nodes) {
+    if (
+      node.kind === "element" &&
+      (SKIPPED_TAGS.has(node.tag) || isGutenbergBoilerplate(node))
+    ) {
+      continue;
+    }
+    if (node.kind === "element" && BLOCK_TAGS.has(node.tag)) {
+      flush();
+      blocks.push(...convertBlockElement(node, ctx));
+      continue;
+    }
+    pending.push(node);
+  }
+
+  flush();
+  return blocks;
+}
+
+/**
+ * Convert an XHTML fragment into annotated markdown blocks
+ * (headings, blockquotes, verse, lists, tables, footnotes)
+ */
+export function xhtmlToBlocks(xhtml: string): BlockNode[] {
+  const nodes = parseXhtml(xhtml);
+  return convertBlocks(nodes, { footnoteIds: collectFootnoteIds(nodes) });
+}
+
+/**
+ * Flatten an XHTML fragment to a single line of inline annotations
+ */
+export function annotateInlineFormatting(xhtml: string): string {
+  const nodes = parseXhtml(xhtml);
+  return serializeInline(
+    inlineOf(nodes, { footnoteIds: collectFootnoteIds(nodes) }),
+  );
+}
+
+// Heading text compared with the nav title: case, punctuation and spacing
+// ignored
+const normalizeHeading = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+export function buildAnnotatedMarkdownFromSpine(
+  chapters: SpineChapterInput[],
+): ExtractedBook {
+  const sections: string[] = [];
+  const extracted: ExtractedChapter[] = [];
+  let offset = 0;
+
+  for (const chapter of chapters) {
+    const blocks = xhtmlToBlocks(chapter.xhtml);
+    // The nav title is the chapter heading; a leading heading that only
+    // repeats it is dropped, any other stays in the content
+    const repeatsTitle =
+      blocks[0]?.type === "heading" &&
+      normalizeHeading(inlineToPlainText(blocks[0].children)) ===
+        normalizeHeading(chapter.title);
+    const content = serializeBlocks(repeatsTitle ? blocks.slice(1) : blocks);
+    const section = `## ${chapter.title}\n\n${content}`;
+    if (sections.length > 0) {
+      offset += 2;
+    }
+
+    extracted.push({
+      href: chapter.href,
+      title: chapter.title,
+      content,
+      startOffset: offset,
+      endOffset: offset + section.length,
+    });
+    sections.push(section);
+    offset += section.length;
+  }
+
+  const markdown = sections.join("\n\n");
+
+  return {
+    markdown,
+    chapters: extracted,
+  };
+}
+
+export function buildChapterManifest(
+  book: ExtractedBook,
+): ChapterManifestEntry[] {
+  return book.chapters.map((chapter, index) => ({
+    chapterNumber: index + 1,
+    href: chapter.href,
+    title: chapter.title,
+    startOffset: chapter.startOffset,
+    endOffset: chapter.endOffset,
+  }));
+}
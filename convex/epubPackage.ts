@@ -0,0 +1,353 @@
+/**
+ * EPUB package reading (container.xml -> OPF -> spine + nav/NCX titles)
+ *
+ * Shared by the ingest daemon and upload intake; runs in the default Convex
+ * runtime, so no node: imports.
+ */
+
+import { strFromU8, unzipSync } from "fflate";
+import { decodeEntities } from "./xhtmlTree";
+import type { SpineChapterInput } from "./epubExtract";
+
+export type EpubMetadata = {
+  title?: string;
+  author?: string;
+  language?: string;
+  identifier?: string;
+  date?: string;
+};
+
+export type EpubPackage = {
+  opfPath: string;
+  metadata: EpubMetadata;
+  spine: SpineChapterInput[];
+  // Spine hrefs whose title came from the document heading, not nav/NCX
+  untitledHrefs: string[];
+};
+
+// One nav/NCX entry; the fragment names an anchor inside the document
+type TocEntry = { path: string; fragment?: string; title: string };
+
+type ManifestItem = {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties: string;
+};
+
+export function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i"),
+  );
+  const value = match?.[1] ?? match?.[2];
+  return value === undefined ? undefined : decodeEntities(value);
+}
+
+export function readElementText(
+  xml: string,
+  tagName: string,
+): string | undefined {
+  const match = xml.match(
+    new RegExp(`<${tagName}(?:\\s[^>]*)?>([\\s\\S]*?)</${tagName}>`, "i"),
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const text = decodeEntities(match[1].replace(/<[^>]+>/g, ""))
+    .replace(/\s+/g, " ")
+    .trim();
+  return text || undefined;
+}
+
+function stripFragment(href: string): string {
+  return href.split("#")[0];
+}
+
+function tocEntry(baseFile: string, href: string, title: string): TocEntry {
+  const hash = href.indexOf("#");
+  let fragment = hash === -1 ? "" : href.slice(hash + 1);
+  try {
+    fragment = decodeURIComponent(fragment);
+  } catch {
+    // Keep a malformed escape as written
+  }
+  return {
+    path: resolveZipPath(baseFile, href),
+    fragment: fragment || undefined,
+    title,
+  };
+}
+
+/**
+ * Resolve an href relative to the zip entry that references it
+ * (posix semantics; Convex has no node:path)
+ */
+export function resolveZipPath(baseFile: string, href: string): string {
+  const decoded = decodeURIComponent(stripFragment(href));
+  const baseDir = baseFile.includes("/")
+    ? baseFile.slice(0, baseFile.lastIndexOf("/"))
+    : "";
+  const segments: string[] = [];
+  for (const segment of `${baseDir}/${decoded}`.split("/")) {
+    if (segment === "" || segment === ".") {
+      continue;
+    }
+    if (segment === "..") {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
+
+function readZipText(files: Record<string, Uint8Array>, name: string): string {
+  const entry = files[name];
+  if (!entry) {
+    throw new Error(`EPUB is missing ${name}`);
+  }
+  return strFromU8(entry);
+}
+
+function parseManifestItems(opf: string): ManifestItem[] {
+  const items: ManifestItem[] = [];
+  for (const match of opf.matchAll(/<item\b[^>]*>/gi)) {
+    const tag = match[0];
+    const id = readAttribute(tag, "id");
+    const href = readAttribute(tag, "href");
+    if (!id || !href) {
+      continue;
+    }
+    items.push({
+      id,
+      href,
+      mediaType: readAttribute(tag, "media-type") ?? "",
+      properties: readAttribute(tag, "properties") ?? "",
+    });
+  }
+  return items;
+}
+
+function parseSpineIdrefs(opf: string): string[] {
+  const spine = opf.match(/<spine\b[^>]*>([\s\S]*?)<\/spine>/i)?.[1] ?? "";
+  const idrefs: string[] = [];
+  for (const match of spine.matchAll(/<itemref\b[^>]*>/gi)) {
+    const tag = match[0];
+    if (readAttribute(tag, "linear") === "no") {
+      continue;
+    }
+    const idref = readAttribute(tag, "idref");
+    if (idref) {
+      idrefs.push(idref);
+    }
+  }
+  return idrefs;
+}
+
+/**
+ * Read TOC entries from an EPUB 3 nav document, in order
+ */
+function parseNavTitles(navXhtml: string, navPath: string): TocEntry[] {
+  const entries: TocEntry[] = [];
+  const tocNav =
+    navXhtml.match(
+      /<nav\b[^>]*epub:type\s*=\s*["'][^"']*\btoc\b[^"']*["'][^>]*>([\s\S]*?)<\/nav>/i,
+    )?.[1] ?? navXhtml;
+
+  for (const match of tocNav.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+    const href = readAttribute(match[1], "href");
+    const label = decodeEntities(match[2].replace(/<[^>]+>/g, ""))
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!href || !label) {
+      continue;
+    }
+    entries.push(tocEntry(navPath, href, label));
+  }
+  return entries;
+}
+
+/**
+ * Read TOC entries from an EPUB 2 NCX document, in order
+ */
+function parseNcxTitles(ncx: string, ncxPath: string): TocEntry[] {
+  const entries: TocEntry[] = [];
+  const pattern =
+    /<navLabel>\s*<text>([\s\S]*?)<\/text>\s*<\/navLabel>\s*<content\b([^>]*)\/?>/gi;
+
+  for (const match of ncx.matchAll(pattern)) {
+    const label = decodeEntities(match[1]).replace(/\s+/g, " ").trim();
+    const src = readAttribute(match[2], "src");
+    if (!src || !label) {
+      continue;
+    }
+    entries.push(tocEntry(ncxPath, src, label));
+  }
+  return entries;
+}
+
+/**
+ * Where the element carrying an anchor id starts, backed up over opening
+ * tags right before it so "<h2><a id=...>" splits before the heading.
+ * Undefined when the document has no such anchor.
+ */
+function anchorOffset(body: string, fragment: string): number | undefined {
+  const id = fragment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = new RegExp(
+    `<[A-Za-z][^>]*\\s(?:id|name)\\s*=\\s*["']${id}["'][^>]*>`,
+  ).exec(body);
+  if (!match) {
+    return undefined;
+  }
+  let start = match.index;
+  for (;;) {
+    const opening = body.slice(0, start).match(/<[A-Za-z][^>]*>\s*$/);
+    if (!opening) {
+      return start;
+    }
+    start -= opening[0].length;
+  }
+}
+
+/**
+ * One chapter per TOC entry pointing into the document, split at the
+ * entries' anchors. Text before the first anchor stays with the first
+ * chapter; entries whose anchor is missing are dropped.
+ */
+function splitAtTocEntries(
+  href: string,
+  body: string,
+  entries: TocEntry[],
+): SpineChapterInput[] {
+  const seen = new Set<string>();
+  const cuts = entries
+    .filter((entry) => {
+      const key = entry.fragment ?? "";
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .map((entry) => ({
+      entry,
+      offset: entry.fragment ? anchorOffset(body, entry.fragment) : 0,
+    }))
+    .filter(
+      (cut): cut is { entry: TocEntry; offset: number } =>
+        cut.offset !== undefined,
+    )
+    .sort((a, b) => a.offset - b.offset)
+    // Two entries at one anchor keep the first
+    .filter((cut, index, all) => cut.offset !== all[index - 1]?.offset);
+  if (cuts.length === 0) {
+    return [{ href, title: entries[0].title, xhtml: body }];
+  }
+
+  return cuts.map((cut, index) => ({
+    href: cut.entry.fragment ? `${href}#${cut.entry.fragment}` : href,
+    title: cut.entry.title,
+    xhtml: body.slice(
+      index === 0 ? 0 : cut.offset,
+      cuts[index + 1]?.offset ?? body.length,
+    ),
+  }));
+}
+
+export function extractBody(xhtml: string): string {
+  return xhtml.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1] ?? xhtml;
+}
+
+export function firstHeading(body: string): string | undefined {
+  for (const tag of ["h1", "h2", "h3"]) {
+    const text = readElementText(body, tag);
+    if (text) {
+      return text;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Unzip an EPUB and walk container.xml -> OPF -> spine, attaching nav/NCX
+ * titles. A document the TOC links into at several anchors becomes one
+ * chapter per entry.
+ */
+export function readEpubPackage(bytes: Uint8Array): EpubPackage {
+  const files = unzipSync(bytes);
+
+  const container = readZipText(files, "META-INF/container.xml");
+  const rootfileTag = container.match(/<rootfile\b[^>]*>/i)?.[0];
+  const opfPath = rootfileTag
+    ? readAttribute(rootfileTag, "full-path")
+    : undefined;
+  if (!opfPath) {
+    throw new Error("EPUB container.xml does not declare a rootfile");
+  }
+
+  const opf = readZipText(files, opfPath);
+  const metadataBlock =
+    opf.match(
+      /<(?:opf:)?metadata\b[^>]*>([\s\S]*?)<\/(?:opf:)?metadata>/i,
+    )?.[1] ?? "";
+  const metadata: EpubMetadata = {
+    title: readElementText(metadataBlock, "dc:title"),
+    author: readElementText(metadataBlock, "dc:creator"),
+    language: readElementText(metadataBlock, "dc:language"),
+    identifier: readElementText(metadataBlock, "dc:identifier"),
+    date: readElementText(metadataBlock, "dc:date"),
+  };
+
+  const items = parseManifestItems(opf);
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+
+  let toc: TocEntry[] = [];
+  const navItem = items.find((item) => /\bnav\b/.test(item.properties));
+  if (navItem) {
+    const navPath = resolveZipPath(opfPath, navItem.href);
+    toc = parseNavTitles(readZipText(files, navPath), navPath);
+  }
+  if (toc.length === 0) {
+    const spineTag = opf.match(/<spine\b[^>]*>/i)?.[0] ?? "";
+    const tocId = readAttribute(spineTag, "toc");
+    const ncxItem =
+      (tocId ? itemsById.get(tocId) : undefined) ??
+      items.find((item) => item.mediaType === "application/x-dtbncx+xml");
+    if (ncxItem) {
+      const ncxPath = resolveZipPath(opfPath, ncxItem.href);
+      toc = parseNcxTitles(readZipText(files, ncxPath), ncxPath);
+    }
+  }
+
+  const spine: SpineChapterInput[] = [];
+  const untitledHrefs: string[] = [];
+
+  for (const idref of parseSpineIdrefs(opf)) {
+    const item = itemsById.get(idref);
+    if (!item || item.id === navItem?.id) {
+      continue;
+    }
+
+    const zipPath = resolveZipPath(opfPath, item.href);
+    const body = extractBody(readZipText(files, zipPath));
+    const entries = toc.filter((entry) => entry.path === zipPath);
+    if (entries.length === 0) {
+      untitledHrefs.push(item.href);
+      spine.push({
+        href: item.href,
+        title: firstHeading(body) ?? `Section ${spine.length + 1}`,
+        xhtml: body,
+      });
+      continue;
+    }
+
+    spine.push(...splitAtTocEntries(item.href, body, entries));
+  }
+
+  if (spine.length === 0) {
+    throw new Error("EPUB spine has no readable content documents");
+  }
+
+  return { opfPath, metadata, spine, untitledHrefs };
+}
@@ -0,0 +1,568 @@
+/**
+ * Export jobs
+ *
+ * Shared by the PDF, EPUB, cover, clean text and collection exports: the
+ * approval and copyright gate, queuing the job with the template version
+ * it uses (text exports have no template), reading the approved
+ * revision's chapters, stage updates, recording finished files in the
+ * exports registry and each book's exports with download links.
+ */
+
+import { v, type Infer } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+  internalMutation,
+  internalQuery,
+  query,
+  type ActionCtx,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { assertCopyrightCleared } from "./copyrightReview";
+import { loadBookCredits } from "./contributors";
+import { recordTemplateVersion } from "./templates";
+import type { TextOptions } from "./cleanText";
+
+export const exportFormatValidator = v.union(
+  v.literal("pdf"),
+  v.literal("epub"),
+  v.literal("cover"),
+  v.literal("txt"),
+  v.literal("markdown"),
+);
+
+export type ExportFormat = Infer<typeof exportFormatValidator>;
+
+const exportStageValidator = v.union(
+  v.literal("loading_content"),
+  v.literal("rendering_pdf"),
+  v.literal("rendering_cover"),
+  v.literal("building_epub"),
+  v.literal("validating_epub"),
+  v.literal("building_text"),
+  v.literal("selecting_books"),
+  v.literal("building_dataset"),
+  v.literal("storing_output"),
+);
+
+const CREDIT_LINES: Record<string, string> = {
+  translator: "Translated by",
+  illustrator: "Illustrated by",
+  editor: "Edited by",
+};
+
+/**
+ * The approved revision for a book, or null when the latest revision is not
+ * the one that was approved
+ */
+export async function loadApprovedRevision(ctx: QueryCtx, bookId: Id<"books">) {
+  const latestRevision = await ctx.db
+    .query("cleanupRevisions")
+    .withIndex("by_book_id_revision", (q) => q.eq("bookId", bookId))
+    .order("desc")
+    .first();
+  const latestApproval = await ctx.db
+    .query("cleanupApprovals")
+    .withIndex("by_book_id", (q) => q.eq("bookId", bookId))
+    .order("desc")
+    .first();
+
+  if (!latestRevision || latestApproval?.revisionId !== latestRevision._id) {
+    return null;
+  }
+  return latestRevision;
+}
+
+const DOWNLOAD_SUFFIXES: Record<ExportFormat, string> = {
+  pdf: ".pdf",
+  epub: ".epub",
+  cover: "-cover.pdf",
+  txt: ".txt",
+  markdown: ".md",
+};
+
+export const downloadName = (
+  title: string,
+  templateName: string | undefined,
+  format: ExportFormat,
+) =>
+  `${[title, templateName]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")}${DOWNLOAD_SUFFIXES[format]}`;
+
+/**
+ * Check an export is allowed and insert its queued job. The caller
+ * schedules the format's renderer.
+ */
+export async function queueExportJob(
+  ctx: MutationCtx,
+  args: {
+    bookId: Id<"books">;
+    templateId?: Id<"templates">;
+    format: ExportFormat;
+    textOptions?: TextOptions;
+  },
+) {
+  const book = await ctx.db.get(args.bookId);
+  if (!book) {
+    throw new Error(`Book ${args.bookId} not found`);
+  }
+  const template = args.templateId ? await ctx.db.get(args.templateId) : null;
+  if (args.templateId && (!template || template.archivedAt !== undefined)) {
+    throw new Error(`Template ${args.templateId} not found`);
+  }
+  if (book.status !== "ready" || !(await loadApprovedRevision(ctx, book._id))) {
+    throw new Error(
+      `Cannot export "${book.title}": the latest cleanup revision is not approved`,
+    );
+  }
+  await assertCopyrightCleared(ctx, book._id, "export");
+
+  let templateVersion: number | undefined;
+  if (template) {
+    await ctx.db.patch(book._id, { templateId: template._id });
+    templateVersion = await recordTemplateVersion(ctx, template);
+  }
+  return await ctx.db.insert("jobs", {
+    type: "export",
+    bookId: book._id,
+    templateId: template?._id,
+    templateVersion,
+    exportFormat: args.format,
+    textOptions: args.textOptions,
+    requestedBy: (await getAuthUserId(ctx)) ?? undefined,
+    status: "queued",
+    stage: "queued",
+    progress: 0,
+    logs: "",
+    queuedAt: Date.now(),
+  });
+}
+
+/**
+ * The template as it was when the job was queued. Jobs from before
+ * versioning use the template's current settings.
+ */
+export async function loadJobTemplate(ctx: QueryCtx, job: Doc<"jobs">) {
+  if (!job.templateId) {
+    return null;
+  }
+  const templateId = job.templateId;
+  const snapshot =
+    job.templateVersion === undefined
+      ? null
+      : await ctx.db
+          .query("templateVersions")
+          .withIndex("by_template_id_version", (q) =>
+            q.eq("templateId", templateId).eq("version", job.templateVersion!),
+          )
+          .first();
+  if (snapshot) {
+    return {
+      name: snapshot.name,
+      version: snapshot.version,
+      settings: snapshot.settings,
+    };
+  }
+  const template = await ctx.db.get(templateId);
+  return template
+    ? {
+        name: template.name,
+        version: template.version ?? 1,
+        settings: template.settings,
+      }
+    : null;
+}
+
+/**
+ * The book, its credits and the approved revision's chapters
+ */
+export async function loadApprovedSource(ctx: QueryCtx, bookId: Id<"books">) {
+  const book = await ctx.db.get(bookId);
+  if (!book) {
+    throw new Error(`Book ${bookId} not found`);
+  }
+  const revision = await loadApprovedRevision(ctx, book._id);
+  if (!revision) {
+    throw new Error(`"${book.title}" has no approved cleanup revision`);
+  }
+
+  const chapters = await ctx.db
+    .query("cleanupChapters")
+    .withIndex("by_revision_id", (q) => q.eq("revisionId", revision._id))
+    .collect();
+  const credits = await loadBookCredits(ctx, book._id);
+
+  return {
+    book: {
+      _id: book._id,
+      title: book.title,
+      subtitle: book.subtitle,
+      author: book.author,
+      publicationYear: book.publicationYear,
+      language: book.language,
+      subjects: book.subjects,
+      series: book.series,
+      gutenbergId: book.gutenbergId,
+    },
+    credits: credits.map((credit) => ({
+      name: credit.name,
+      role: credit.role as string,
+    })),
+    revision: {
+      _id: revision._id,
+      revisionNumber: revision.revisionNumber,
+      fileId: revision.fileId,
+      content: revision.content,
+    },
+    chapters: chapters
+      .sort((a, b) => a.chapterNumber - b.chapterNumber)
+      .map((chapter) => ({
+        title: chapter.title,
+        fileId: chapter.fileId,
+        content: chapter.content,
+        startOffset: chapter.startOffset,
+        endOffset: chapter.endOffset,
+      })),
+  };
+}
+
+/**
+ * Everything a renderer needs, read in one transaction
+ */
+export const loadExportSource = internalQuery({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job?.bookId || !job.templateId) {
+      throw new Error(`Export job ${args.jobId} has no book or template`);
+    }
+    const template = await loadJobTemplate(ctx, job);
+    if (!template) {
+      throw new Error(`Export job ${args.jobId} references a missing template`);
+    }
+    return { ...(await loadApprovedSource(ctx, job.bookId)), template };
+  },
+});
+
+type ExportSource = {
+  book: { title: string; author: string; publicationYear?: number };
+  credits: Array<{ name: string; role: string }>;
+  revision: { fileId?: Id<"_storage">; content?: string };
+  chapters: Array<{
+    title: string;
+    fileId?: Id<"_storage">;
+    content?: string;
+    startOffset: number;
+    endOffset: number;
+  }>;
+};
+
+/**
+ * Chapter titles and text of the approved revision. Chapter files hold the
+ * text without its heading; older chapters only have offsets into the
+ * revision, and a revision without chapters is one untitled chapter.
+ */
+export async function loadChapterTexts(ctx: ActionCtx, source: ExportSource) {
+  const readFile = async (fileId: Id<"_storage">) => {
+    const blob = await ctx.storage.get(fileId);
+    if (!blob) {
+      throw new Error(`File ${fileId} not found in storage`);
+    }
+    return await blob.text();
+  };
+  // Loaded once, only for chapters without their own file
+  let revisionText: Promise<string> | undefined;
+  const loadRevisionText = () => {
+    revisionText ??= source.revision.content
+      ? Promise.resolve(source.revision.content)
+      : source.revision.fileId
+        ? readFile(source.revision.fileId)
+        : Promise.reject(new Error("Approved revision has no stored content"));
+    return revisionText;
+  };
+
+  if (source.chapters.length === 0) {
+    return [{ title: source.book.title, text: await loadRevisionText() }];
+  }
+  return await Promise.all(
+    source.chapters.map(async (chapter) => ({
+      title: chapter.title,
+      text: chapter.fileId
+        ? await readFile(chapter.fileId)
+        : (chapter.content ??
+          (await loadRevisionText()).slice(
+            chapter.startOffset,
+            chapter.endOffset,
+          )),
+    })),
+  );
+}
+
+export function countWords(chapters: Array<{ text: string }>) {
+  return chapters.reduce(
+    (total, chapter) =>
+      total + chapter.text.split(/\s+/).filter(Boolean).length,
+    0,
+  );
+}
+
+/**
+ * "Translated by ..." and the like for the credits the copyright page names
+ */
+export function creditLines(credits: Array<{ name: string; role: string }>) {
+  return credits
+    .filter((credit) => CREDIT_LINES[credit.role])
+    .map((credit) => `${CREDIT_LINES[credit.role]} ${credit.name}`);
+}
+
+/**
+ * Copyright page text shared by the print and ebook editions
+ */
+export function copyrightPageLines(source: ExportSource) {
+  const { book } = source;
+  return [
+    book.title,
+    `by ${book.author}`,
+    "",
+    ...(book.publicationYear
+      ? [`First published ${book.publicationYear}.`]
+      : []),
+    ...creditLines(source.credits).map((line) => `${line}.`),
+    "The text of this edition is in the public domain.",
+    `This edition typeset ${new Date().getFullYear()}.`,
+  ];
+}
+
+export const updateExportStage = internalMutation({
+  args: {
+    jobId: v.id("jobs"),
+    stage: exportStageValidator,
+    progress: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    await ctx.db.patch(args.jobId, {
+      status: "running",
+      stage: args.stage,
+      progress: args.progress,
+      startedAt: job?.startedAt ?? Date.now(),
+    });
+  },
+});
+
+/**
+ * Finish the job and record its file in the exports registry, against the
+ * book's revision or, for a collection, every volume's
+ */
+export const completeExport = internalMutation({
+  args: {
+    jobId: v.id("jobs"),
+    outputFileId: v.id("_storage"),
+    logs: v.string(),
+    revisionId: v.optional(v.id("cleanupRevisions")),
+    volumeRevisionIds: v.optional(v.array(v.id("cleanupRevisions"))),
+    contentType: v.string(),
+    size: v.number(),
+    checksum: v.string(),
+    pageCount: v.optional(v.number()),
+    wordCount: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      throw new Error(`Export job ${args.jobId} not found`);
+    }
+    const template = await loadJobTemplate(ctx, job);
+    const format = job.exportFormat ?? "pdf";
+    const now = Date.now();
+
+    let builtFrom;
+    if (job.collectionId) {
+      const collection = await ctx.db.get(job.collectionId);
+      const volumes = [];
+      for (const revisionId of args.volumeRevisionIds ?? []) {
+        const revision = await ctx.db.get(revisionId);
+        if (!revision) {
+          throw new Error(`Cleanup revision ${revisionId} not found`);
+        }
+        volumes.push({
+          bookId: revision.bookId,
+          revisionId: revision._id,
+          revisionNumber: revision.revisionNumber,
+        });
+      }
+      if (volumes.length === 0) {
+        throw new Error(`Export job ${args.jobId} has no volume revisions`);
+      }
+      builtFrom = {
+        collectionId: job.collectionId,
+        volumes,
+        title: collection?.title ?? "collection",
+      };
+    } else {
+      const revision = args.revisionId
+        ? await ctx.db.get(args.revisionId)
+        : null;
+      if (!job.bookId || !revision) {
+        throw new Error(`Export job ${args.jobId} has no book or revision`);
+      }
+      const book = await ctx.db.get(job.bookId);
+      builtFrom = {
+        bookId: job.bookId,
+        revisionId: revision._id,
+        revisionNumber: revision.revisionNumber,
+        title: book?.title ?? "book",
+      };
+    }
+    const { title, ...source } = builtFrom;
+
+    await ctx.db.patch(job._id, {
+      status: "completed",
+      stage: "completed",
+      progress: 100,
+      outputFileId: args.outputFileId,
+      logs: args.logs,
+      pageCount: args.pageCount,
+      completedAt: now,
+    });
+    await ctx.db.insert("exports", {
+      ...source,
+      jobId: job._id,
+      templateId: job.templateId,
+      templateVersion: template?.version,
+      format,
+      fileId: args.outputFileId,
+      filename: downloadName(title, template?.name, format),
+      contentType: args.contentType,
+      size: args.size,
+      checksum: args.checksum,
+      pageCount: args.pageCount,
+      wordCount: args.wordCount,
+      createdBy: job.requestedBy,
+      createdAt: now,
+    });
+  },
+});
+
+export const failExport = internalMutation({
+  args: {
+    jobId: v.id("jobs"),
+    error: v.string(),
+    errorDetails: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.jobId, {
+      status: "failed",
+      stage: "failed",
+      error: args.error,
+      errorDetails: args.errorDetails,
+      failedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Store a renderer's output, checksum it and complete the job. A book's
+ * export passes its revision, a collection's the revision of each volume.
+ */
+export async function finishExportJob(
+  ctx: ActionCtx,
+  jobId: Id<"jobs">,
+  output: {
+    bytes: Uint8Array;
+    contentType: string;
+    logs: string;
+    revisionId?: Id<"cleanupRevisions">;
+    volumeRevisionIds?: Id<"cleanupRevisions">[];
+    pageCount?: number;
+    wordCount?: number;
+  },
+) {
+  const { bytes, contentType, ...details } = output;
+  const outputFileId = await ctx.storage.store(
+    new Blob([bytes], { type: contentType }),
+  );
+  await ctx.runMutation(internal.exportJobs.completeExport, {
+    jobId,
+    outputFileId,
+    contentType,
+    size: bytes.byteLength,
+    checksum: await sha256Hex(bytes),
+    ...details,
+  });
+}
+
+export async function sha256Hex(bytes: Uint8Array) {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Record a renderer's failure on its job
+ */
+export async function failExportJob(
+  ctx: ActionCtx,
+  jobId: Id<"jobs">,
+  error: unknown,
+) {
+  await ctx.runMutation(internal.exportJobs.failExport, {
+    jobId,
+    error: error instanceof Error ? error.message : String(error),
+    errorDetails: error instanceof Error ? error.stack : undefined,
+  });
+}
+
+/**
+ * A book's exports, newest first, with download links when finished
+ */
+export const listForBook = query({
+  args: { bookId: v.id("books") },
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    const jobs = await ctx.db
+      .query("jobs")
+      .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      jobs
+        .filter(
+          (job) => job.type === "export" && (job.templateId || job.textOptions),
+        )
+        .map(async (job) => {
+          // Text exports have no template
+          const template = await loadJobTemplate(ctx, job);
+          const templateName = template?.name;
+          // Jobs queued before EPUB export were all PDFs
+          const format = job.exportFormat ?? "pdf";
+          return {
+            _id: job._id,
+            format,
+            status: job.status,
+            stage: job.stage,
+            progress: job.progress ?? 0,
+            error: job.error,
+            logs: job.logs,
+            queuedAt: job.queuedAt,
+            completedAt: job.completedAt,
+            templateName,
+            templateVersion: template?.version,
+            pageCount: job.pageCount,
+            filename: downloadName(book?.title ?? "book", templateName, format),
+            downloadUrl: job.outputFileId
+              ? await ctx.storage.getUrl(job.outputFileId)
+              : null,
+          };
+        }),
+    );
+  },
+});
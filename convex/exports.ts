@@ -0,0 +1,96 @@
+/**
+ * Exports registry
+ *
+ * One row per finished export file, written when an export job completes
+ * (see completeExport in exportJobs.ts). A book's file records the
+ * revision it was built from, a collection's the revision of every volume.
+ * An export is stale once a newer cleanup revision of its book, or of any
+ * of its volumes, has been approved.
+ */
+
+import { v } from "convex/values";
+import { query, type QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+
+/**
+ * Revision number of the book's most recent approval, if any
+ */
+async function latestApprovedRevisionNumber(
+  ctx: QueryCtx,
+  bookId: Id<"books">,
+) {
+  const approval = await ctx.db
+    .query("cleanupApprovals")
+    .withIndex("by_book_id", (q) => q.eq("bookId", bookId))
+    .order("desc")
+    .first();
+  const revision = approval ? await ctx.db.get(approval.revisionId) : null;
+  return revision?.revisionNumber;
+}
+
+/**
+ * Whether a book the file was built from has a newer approved revision
+ */
+async function isStale(ctx: QueryCtx, artifact: Doc<"exports">) {
+  const builtFrom =
+    artifact.volumes ??
+    (artifact.bookId && artifact.revisionNumber !== undefined
+      ? [{ bookId: artifact.bookId, revisionNumber: artifact.revisionNumber }]
+      : []);
+  for (const { bookId, revisionNumber } of builtFrom) {
+    const approved = await latestApprovedRevisionNumber(ctx, bookId);
+    if (approved !== undefined && approved > revisionNumber) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function withDownload(ctx: QueryCtx, artifact: Doc<"exports">) {
+  const creator = artifact.createdBy
+    ? await ctx.db.get(artifact.createdBy)
+    : null;
+  return {
+    ...artifact,
+    stale: await isStale(ctx, artifact),
+    createdByName:
+      creator?.name ?? creator?.email ?? (creator ? "Anonymous" : undefined),
+    downloadUrl: await ctx.storage.getUrl(artifact.fileId),
+  };
+}
+
+/**
+ * A book's export files, newest first, with download links and staleness
+ */
+export const listForBook = query({
+  args: { bookId: v.id("books") },
+  handler: async (ctx, args) => {
+    const artifacts = await ctx.db
+      .query("exports")
+      .withIndex("by_book_id", (q) => q.eq("bookId", args.bookId))
+      .order("desc")
+      .collect();
+    return await Promise.all(
+      artifacts.map((artifact) => withDownload(ctx, artifact)),
+    );
+  },
+});
+
+/**
+ * The file an export job produced, with its download link and staleness
+ */
+export async function loadJobExport(ctx: QueryCtx, jobId: Id<"jobs">) {
+  const artifact = await ctx.db
+    .query("exports")
+    .withIndex("by_job_id", (q) => q.eq("jobId", jobId))
+    .first();
+  return artifact ? await withDownload(ctx, artifact) : null;
+}
+
+/**
+ * The file an export job produced, or null while it has none
+ */
+export const getForJob = query({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => await loadJobExport(ctx, args.jobId),
+});
@@ -0,0 +1,345 @@
+/**
+ * Gutenberg Offline Catalog Parsing
+ *
+ * Parses the official catalog dumps published by Project Gutenberg:
+ * - pg_catalog.csv (one row per ebook, authors with life dates inline)
+ * - per-ebook RDF files from rdf-files.tar (adds download counts and
+ *   structured agent birth/death dates)
+ *
+ * Pure functions only - the import script reads the files and pushes the
+ * resulting records through intake.importCatalogCandidates.
+ */
+
+export type CatalogAuthor = {
+  name: string;
+  // Catalog form, e.g. "Austen, Jane"; name is the display form
+  sortName: string;
+  role: string;
+  birthYear?: number;
+  deathYear?: number;
+  // Gutenberg agent number (RDF only), the authority id for contributors
+  agentId?: string;
+};
+
+export type CatalogRecord = {
+  gutenbergId: string;
+  type: string;
+  title?: string;
+  author?: string;
+  authors: CatalogAuthor[];
+  languages: string[];
+  subjects: string[];
+  bookshelves: string[];
+  locClasses: string[];
+  downloadCount?: number;
+  issued?: string;
+};
+
+const DEFAULT_ROLE = "Author";
+
+const collapseWhitespace = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const splitList = (value: string | undefined) =>
+  (value ?? "")
+    .split(/;\s*/)
+    .map((entry) => collapseWhitespace(entry))
+    .filter((entry) => entry.length > 0);
+
+/**
+ * Parse RFC 4180 CSV (quoted fields may contain commas, quotes and newlines)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+const parseYear = (value: string | undefined): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const match = value.match(/(\d{1,4})\??\s*(BCE)?/i);
+  if (!match) {
+    return undefined;
+  }
+  const year = Number(match[1]);
+  return match[2] ? -year : year;
+};
+
+// Matches the trailing life-dates segment: "1775-1817", "1870?-1940",
+// "1900-", "-1850", "751? BCE-651? BCE"
+const LIFE_DATES_PATTERN =
+  /^((?:\d{1,4}\??(?:\s*BCE)?)?)\s*-\s*((?:\d{1,4}\??(?:\s*BCE)?)?)$/i;
+
+/**
+ * Convert catalog "Last, First" names into display order
+ */
+export function toDisplayName(sortName: string): string {
+  const parts = sortName
+    .replace(/\s*\([^)]*\)/g, "")
+    .split(/,\s*/)
+    .filter((part) => part.length > 0);
+
+  if (parts.length < 2) {
+    return collapseWhitespace(sortName);
+  }
+
+  return collapseWhitespace(`${parts[1]} ${parts[0]}`);
+}
+
+/**
+ * Parse one entry of the CSV Authors column,
+ * e.g. "Doyle, Arthur Conan, 1859-1930 [Editor]"
+ */
+export function parseCatalogAuthor(entry: string): CatalogAuthor | null {
+  let remaining = collapseWhitespace(entry);
+  if (!remaining) {
+    return null;
+  }
+
+  let role = DEFAULT_ROLE;
+  const roleMatch = remaining.match(/\s*\[([^\]]+)\]$/);
+  if (roleMatch) {
+    role = roleMatch[1].trim();
+    remaining = remaining.slice(0, roleMatch.index).trim();
+  }
+
+  let birthYear: number | undefined;
+  let deathYear: number | undefined;
+  const lastComma = remaining.lastIndexOf(",");
+  if (lastComma !== -1) {
+    const datesMatch = remaining
+      .slice(lastComma + 1)
+      .trim()
+      .match(LIFE_DATES_PATTERN);
+    if (datesMatch) {
+      birthYear = parseYear(datesMatch[1]);
+      deathYear = parseYear(datesMatch[2]);
+      remaining = remaining.slice(0, lastComma).trim();
+    }
+  }
+
+  return {
+    name: toDisplayName(remaining),
+    sortName: remaining,
+    role,
+    birthYear,
+    deathYear,
+  };
+}
+
+const displayAuthor = (authors: CatalogAuthor[]) => {
+  const credited = authors.filter((author) => author.role === DEFAULT_ROLE);
+  const names = (credited.length > 0 ? credited : authors).map(
+    (author) => author.name,
+  );
+  return names.length > 0 ? names.join(", ") : undefined;
+};
+
+/**
+ * Parse pg_catalog.csv
+ * Columns: Text#, Type, Issued, Title, Language, Authors, Subjects, LoCC,
+ * Bookshelves. The CSV carries no download counts; use the RDF dump for those.
+ */
+export function parseCatalogCsv(text: string): CatalogRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = new Map(
+    header.map((name, index) => [name.trim().toLowerCase(), index]),
+  );
+  const column = (cells: string[], name: string) => {
+    const index = columns.get(name);
+    return index === undefined ? undefined : cells[index];
+  };
+
+  if (!columns.has("text#")) {
+    throw new Error("Catalog CSV is missing the Text# column");
+  }
+
+  const records: CatalogRecord[] = [];
+  for (const cells of rows) {
+    const gutenbergId = column(cells, "text#")?.trim();
+    if (!gutenbergId || !/^\d+$/.test(gutenbergId)) {
+      continue;
+    }
+
+    const authors = splitList(column(cells, "authors"))
+      .map(parseCatalogAuthor)
+      .filter((author): author is CatalogAuthor => author !== null);
+    const title = collapseWhitespace(column(cells, "title") ?? "");
+
+    records.push({
+      gutenbergId,
+      type: column(cells, "type")?.trim() || "Text",
+      title: title || undefined,
+      author: displayAuthor(authors),
+      authors,
+      languages: splitList(column(cells, "language")),
+      subjects: splitList(column(cells, "subjects")),
+      bookshelves: splitList(column(cells, "bookshelves")),
+      locClasses: splitList(column(cells, "locc")),
+      issued: column(cells, "issued")?.trim() || undefined,
+    });
+  }
+
+  return records;
+}
+
+const decodeXmlEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity) => {
+    const lower = String(entity).toLowerCase();
+    if (lower.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith("#")) {
+      return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    }
+    return (
+      { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[lower] ?? entity
+    );
+  });
+
+const elementText = (xml: string, tag: string) => {
+  const match = xml.match(
+    new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`),
+  );
+  return match ? collapseWhitespace(decodeXmlEntities(match[1])) : undefined;
+};
+
+const elementBlocks = (xml: string, tag: string) =>
+  Array.from(
+    xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g")),
+    (match) => match[1],
+  );
+
+// Description values grouped by the vocabulary they belong to (LCSH, LCC, ...)
+const describedValues = (xml: string, tag: string, vocabulary?: string) =>
+  elementBlocks(xml, tag)
+    .filter((block) => {
+      if (!vocabulary) {
+        return true;
+      }
+      const memberOf = block.match(/<dcam:memberOf[^>]*rdf:resource="([^"]+)"/);
+      return memberOf?.[1].endsWith(`/${vocabulary}`) ?? false;
+    })
+    .map((block) => elementText(block, "rdf:value"))
+    .filter((value): value is string => Boolean(value));
+
+const MARC_ROLES: Record<string, string> = {
+  "dcterms:creator": DEFAULT_ROLE,
+  "marcrel:edt": "Editor",
+  "marcrel:trl": "Translator",
+  "marcrel:ill": "Illustrator",
+  "marcrel:com": "Compiler",
+  "marcrel:aui": "Author of introduction, etc.",
+  "marcrel:ctb": "Contributor",
+};
+
+/**
+ * Parse a single pgNNN.rdf file from the RDF catalog dump
+ */
+export function parseCatalogRdf(xml: string): CatalogRecord | null {
+  const ebookMatch = xml.match(
+    /<pgterms:ebook\s[^>]*rdf:about="ebooks\/(\d+)"[^>]*>([\s\S]*?)<\/pgterms:ebook>/,
+  );
+  if (!ebookMatch) {
+    return null;
+  }
+  const [, gutenbergId, body] = ebookMatch;
+
+  const authors: CatalogAuthor[] = [];
+  for (const [tag, role] of Object.entries(MARC_ROLES)) {
+    for (const block of elementBlocks(body, tag)) {
+      const sortName = elementText(block, "pgterms:name");
+      if (!sortName) {
+        continue;
+      }
+      authors.push({
+        name: toDisplayName(sortName),
+        sortName,
+        role,
+        birthYear: parseYear(elementText(block, "pgterms:birthdate")),
+        deathYear: parseYear(elementText(block, "pgterms:deathdate")),
+        agentId: block.match(
+          /<pgterms:agent\s[^>]*rdf:about="[^"]*agents\/(\d+)"/,
+        )?.[1],
+      });
+    }
+  }
+
+  const downloads = Number(elementText(body, "pgterms:downloads"));
+
+  return {
+    gutenbergId,
+    type: describedValues(body, "dcterms:type")[0] ?? "Text",
+    title: elementText(body, "dcterms:title"),
+    author: displayAuthor(authors),
+    authors,
+    languages: describedValues(body, "dcterms:language"),
+    subjects: describedValues(body, "dcterms:subject", "LCSH"),
+    bookshelves: describedValues(body, "pgterms:bookshelf"),
+    locClasses: describedValues(body, "dcterms:subject", "LCC"),
+    downloadCount: Number.isFinite(downloads) ? downloads : undefined,
+    issued: elementText(body, "dcterms:issued"),
+  };
+}
+
+/**
+ * Latest known death year among credited authors, used by copyright checks
+ */
+export function latestAuthorDeathYear(
+  authors: Array<Pick<CatalogAuthor, "role" | "deathYear">>,
+): number | undefined {
+  const years = authors
+    .filter((author) => author.role === DEFAULT_ROLE)
+    .map((author) => author.deathYear)
+    .filter((year): year is number => year !== undefined);
+  return years.length > 0 ? Math.max(...years) : undefined;
+}
@@ -0,0 +1,408 @@
+/**
+ * Structured book metadata with confidence and provenance
+ *
+ * Reads title, subtitle, contributors, language, dates and series from the
+ * Project Gutenberg header (the "Key: value" block before the START marker),
+ * falling back to the "eBook of X, by Y" banner and the title page. Every
+ * field records how sure we are and the line it came from, so reviewers can
+ * confirm or correct weak fields before copyright and export steps use them.
+ *
+ * Pure functions only - intakeMetadata.ts stores the result on the book.
+ */
+
+import { v } from "convex/values";
+import { yearFromDate, type UploadMetadata } from "./uploadFormats";
+
+export const METADATA_FIELD_NAMES = [
+  "title",
+  "subtitle",
+  "author",
+  "translator",
+  "editor",
+  "illustrator",
+  "language",
+  "releaseDate",
+  "originalPublicationDate",
+  "series",
+] as const;
+
+export type MetadataFieldName = (typeof METADATA_FIELD_NAMES)[number];
+
+export type MetadataSource =
+  | "gutenberg_header"
+  | "gutenberg_banner"
+  | "title_page"
+  | "file_metadata"
+  | "upload_form"
+  | "file_name"
+  | "reviewer";
+
+export type MetadataField = {
+  value: string;
+  // 0..1; below LOW_CONFIDENCE_THRESHOLD the field needs review
+  confidence: number;
+  source: MetadataSource;
+  // 1-based line number in the source text, when there is one
+  line?: number;
+  sourceLine?: string;
+  reviewedAt?: number;
+};
+
+export type MetadataFields = Partial<Record<MetadataFieldName, MetadataField>>;
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const metadataFieldValidator = v.object({
+  value: v.string(),
+  confidence: v.number(),
+  source: v.union(
+    v.literal("gutenberg_header"),
+    v.literal("gutenberg_banner"),
+    v.literal("title_page"),
+    v.literal("file_metadata"),
+    v.literal("upload_form"),
+    v.literal("file_name"),
+    v.literal("reviewer"),
+  ),
+  line: v.optional(v.number()),
+  sourceLine: v.optional(v.string()),
+  reviewedAt: v.optional(v.number()),
+});
+
+export const metadataFieldsValidator = v.object({
+  title: v.optional(metadataFieldValidator),
+  subtitle: v.optional(metadataFieldValidator),
+  author: v.optional(metadataFieldValidator),
+  translator: v.optional(metadataFieldValidator),
+  editor: v.optional(metadataFieldValidator),
+  illustrator: v.optional(metadataFieldValidator),
+  language: v.optional(metadataFieldValidator),
+  releaseDate: v.optional(metadataFieldValidator),
+  originalPublicationDate: v.optional(metadataFieldValidator),
+  series: v.optional(metadataFieldValidator),
+});
+
+export const metadataFieldNameValidator = v.union(
+  v.literal("title"),
+  v.literal("subtitle"),
+  v.literal("author"),
+  v.literal("translator"),
+  v.literal("editor"),
+  v.literal("illustrator"),
+  v.literal("language"),
+  v.literal("releaseDate"),
+  v.literal("originalPublicationDate"),
+  v.literal("series"),
+);
+
+const START_MARKER =
+  /\*\*\*\s*START OF (?:THE|THIS) PROJECT GUTENBERG EBOOK[^\n]*\*\*\*/i;
+const END_MARKER =
+  /\*\*\*\s*END OF (?:THE|THIS) PROJECT GUTENBERG EBOOK[^\n]*\*\*\*/i;
+
+// Header keys, lower-cased, mapped to the field they fill
+const HEADER_KEYS: Record<string, MetadataFieldName> = {
+  title: "title",
+  subtitle: "subtitle",
+  author: "author",
+  authors: "author",
+  translator: "translator",
+  translators: "translator",
+  editor: "editor",
+  editors: "editor",
+  illustrator: "illustrator",
+  illustrators: "illustrator",
+  language: "language",
+  "release date": "releaseDate",
+  "posting date": "releaseDate",
+  "original publication": "originalPublicationDate",
+  "first published": "originalPublicationDate",
+  series: "series",
+};
+
+const HEADER_CONFIDENCE = 0.95;
+const SUBTITLE_SPLIT_CONFIDENCE = 0.8;
+const BANNER_CONFIDENCE = 0.7;
+const TITLE_PAGE_CONFIDENCE = 0.6;
+const SERIES_GUESS_CONFIDENCE = 0.5;
+const COPYRIGHT_LINE_CONFIDENCE = 0.5;
+
+// Title-page lines naming a contributor
+const TITLE_PAGE_CREDITS: Array<{ field: MetadataFieldName; pattern: RegExp }> =
+  [
+    {
+      field: "translator",
+      pattern:
+        /^(?:translated|done into english|rendered into english|english version)(?: (?:from|out of) the [\w-]+)?(?:,? with [\w\s,]+?)?,? by\s+(.+?)\.?$/i,
+    },
+    {
+      field: "editor",
+      pattern: /^edited(?:,? with [\w\s,]+?)?,? by\s+(.+?)\.?$/i,
+    },
+    {
+      field: "illustrator",
+      pattern:
+        /^(?:illustrated|with illustrations|illustrations) by\s+(.+?)\.?$/i,
+    },
+  ];
+
+const TITLE_PAGE_LINES = 200;
+
+const trimSourceLine = (line: string) => line.trim().slice(0, 200);
+
+function cleanHeaderValue(field: MetadataFieldName, value: string): string {
+  let cleaned = value.replace(/\s+/g, " ").trim();
+  if (field === "releaseDate") {
+    // "June 27, 2008 [eBook #11] Most recently updated: ..."
+    cleaned = cleaned
+      .replace(/\[\s*e-?book\s*#\d+\s*\]/i, "")
+      .replace(/\[?\s*(?:most recently|last) updated:.*$/i, "")
+      .replace(/\]\s*$/, "")
+      .trim();
+  }
+  return cleaned;
+}
+
+/**
+ * Split "Frankenstein; Or, The Modern Prometheus" or a wrapped title line
+ * into main title and subtitle
+ */
+export function splitTitle(title: string): {
+  title: string;
+  subtitle?: string;
+} {
+  const match = title.match(/^(.+?)(?:\s*[:;]\s+|\s+-{1,2}\s+)(.+)$/);
+  if (!match || match[1].length < 2) {
+    return { title };
+  }
+  return {
+    title: match[1].trim(),
+    subtitle: match[2].replace(/^or,\s*/i, "Or, ").trim(),
+  };
+}
+
+/**
+ * Series from a title such as "The Rover Boys at School (Rover Boys Series,
+ * No. 1)" or "The Works of Charles Dickens, Vol. 3"
+ */
+export function seriesFromTitle(title: string): string | undefined {
+  const parenthetical = title.match(
+    /\(([^()]*?\bSeries\b[^()]*?)(?:,?\s*(?:No\.|Vol\.|Volume|Book|#)\s*[\dIVXLC]+)?\)\s*$/i,
+  );
+  if (parenthetical) {
+    return parenthetical[1].trim();
+  }
+  const volume = title.match(
+    /^(.+?),?\s+(?:Vol\.|Volume|Part|Book)\s+[\dIVXLC]+\b/i,
+  );
+  return volume?.[1].trim();
+}
+
+/**
+ * Extract structured metadata from a Gutenberg plain-text file
+ */
+export function extractGutenbergMetadata(text: string): {
+  fields: MetadataFields;
+  bodyLength: number;
+} {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const fields: MetadataFields = {};
+  const set = (name: MetadataFieldName, field: MetadataField) => {
+    if (!field.value) {
+      return;
+    }
+    const existing = fields[name];
+    if (!existing || existing.confidence < field.confidence) {
+      fields[name] = field;
+    }
+  };
+
+  const startMatch = START_MARKER.exec(text);
+  const endMatch = END_MARKER.exec(text);
+  const startLine = startMatch
+    ? text.slice(0, startMatch.index).split("\n").length - 1
+    : -1;
+
+  // Header block: "Key: value" lines, values may wrap onto indented lines
+  const headerEnd = startLine >= 0 ? startLine : Math.min(lines.length, 120);
+  for (let index = 0; index < headerEnd; index++) {
+    const match = lines[index].match(
+      /^\s*([A-Za-z][A-Za-z ]{1,30}?)\s*:\s*(.+)$/,
+    );
+    const field = match
+      ? HEADER_KEYS[match[1].trim().toLowerCase()]
+      : undefined;
+    if (!match || !field) {
+      continue;
+    }
+
+    const keyLine = index;
+    let value = match[2];
+    while (
+      index + 1 < headerEnd &&
+      /^\s{2,}\S/.test(lines[index + 1]) &&
+      !/^\s*[A-Za-z][A-Za-z ]{1,30}:/.test(lines[index + 1])
+    ) {
+      value += ` ${lines[++index].trim()}`;
+    }
+
+    set(field, {
+      value: cleanHeaderValue(field, value),
+      confidence: HEADER_CONFIDENCE,
+      source: "gutenberg_header",
+      line: keyLine + 1,
+      sourceLine: trimSourceLine(lines[keyLine]),
+    });
+  }
+
+  // "The Project Gutenberg eBook of X, by Y" banner on the first lines
+  for (let index = 0; index < Math.min(lines.length, 10); index++) {
+    const banner = lines[index].match(
+      /Project Gutenberg e-?Book,? of\s+(.+?)(?:,\s+by\s+(.+?))?\s*$/i,
+    );
+    if (!banner) {
+      continue;
+    }
+    const source = {
+      confidence: BANNER_CONFIDENCE,
+      source: "gutenberg_banner" as const,
+      line: index + 1,
+      sourceLine: trimSourceLine(lines[index]),
+    };
+    set("title", { ...source, value: banner[1].trim() });
+    if (banner[2]) {
+      set("author", { ...source, value: banner[2].trim() });
+    }
+    break;
+  }
+
+  // Subtitle and series derived from the title
+  const title = fields.title;
+  if (title) {
+    const split = splitTitle(title.value);
+    if (split.subtitle) {
+      fields.title = { ...title, value: split.title };
+      set("subtitle", {
+        ...title,
+        value: split.subtitle,
+        confidence: Math.min(title.confidence, SUBTITLE_SPLIT_CONFIDENCE),
+      });
+    }
+    const series = seriesFromTitle(title.value);
+    if (series) {
+      set("series", {
+        ...title,
+        value: series,
+        confidence: SERIES_GUESS_CONFIDENCE,
+      });
+    }
+  }
+
+  // Title page: the first lines after the START marker
+  const titlePageStart = startLine >= 0 ? startLine + 1 : 0;
+  const titlePageEnd = Math.min(
+    lines.length,
+    titlePageStart + TITLE_PAGE_LINES,
+  );
+  for (let index = titlePageStart; index < titlePageEnd; index++) {
+    const line = lines[index].trim();
+    if (!line) {
+      continue;
+    }
+    const located = {
+      source: "title_page" as const,
+      line: index + 1,
+      sourceLine: trimSourceLine(line),
+    };
+
+    for (const { field, pattern } of TITLE_PAGE_CREDITS) {
+      const match = line.match(pattern);
+      if (match) {
+        set(field, {
+          ...located,
+          value: match[1].trim(),
+          confidence: TITLE_PAGE_CONFIDENCE,
+        });
+      }
+    }
+
+    const published = line.match(
+      /\b(?:first published|originally published|first edition)(?:,)?\s*(?:in\s*)?(\d{4})\b/i,
+    );
+    if (published) {
+      set("originalPublicationDate", {
+        ...located,
+        value: published[1],
+        confidence: TITLE_PAGE_CONFIDENCE,
+      });
+    }
+
+    const copyright = line.match(/^copyright,?\s*(?:\(c\)|©)?\s*(\d{4})\b/i);
+    if (copyright) {
+      set("originalPublicationDate", {
+        ...located,
+        value: copyright[1],
+        confidence: COPYRIGHT_LINE_CONFIDENCE,
+      });
+    }
+  }
+
+  const body =
+    startMatch && endMatch && endMatch.index > startMatch.index
+      ? text
+          .slice(startMatch.index + startMatch[0].length, endMatch.index)
+          .trim()
+      : text.trim();
+
+  return { fields, bodyLength: body.length };
+}
+
+/**
+ * Fields declared by a converted upload (OPF, <meta>, front matter,
+ * docProps); trusted, but below a Gutenberg header key
+ */
+export function fieldsFromUploadMetadata(
+  metadata: UploadMetadata,
+  sourceLabel: string,
+): MetadataFields {
+  const fields: MetadataFields = {};
+  const declared = (value: string | undefined, key: string) =>
+    value
+      ? {
+          value,
+          confidence: 0.9,
+          source: "file_metadata" as const,
+          sourceLine: `${sourceLabel} ${key}`,
+        }
+      : undefined;
+
+  const title = metadata.title ? splitTitle(metadata.title) : undefined;
+  fields.title = declared(title?.title, "title");
+  fields.subtitle = declared(title?.subtitle, "title");
+  fields.author = declared(metadata.author, "author");
+  fields.language = declared(metadata.language, "language");
+  fields.originalPublicationDate = declared(metadata.date, "date");
+
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, field]) => field !== undefined),
+  ) as MetadataFields;
+}
+
+/**
+ * Publication year from an explicit original-publication statement only;
+ * stray dates elsewhere in the text are never used
+ */
+export function publicationYearFrom(
+  fields: MetadataFields,
+): number | undefined {
+  return yearFromDate(fields.originalPublicationDate?.value);
+}
+
+export function lowConfidenceFields(
+  fields: MetadataFields,
+): MetadataFieldName[] {
+  return METADATA_FIELD_NAMES.filter((name) => {
+    const field = fields[name];
+    return field !== undefined && field.confidence < LOW_CONFIDENCE_THRESHOLD;
+  });
+}
@@ -1,8 +1,146 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import { decideRetry, maxAttemptsForMode } from "./ingestRetryPolicy";
 
 const DEFAULT_LEASE_MS = 30_000;
 
+const sourceFormatValidator = v.union(
+  v.literal("epub3.images"),
+  v.literal("epub.images"),
+  v.literal("epub.noimages"),
+  v.literal("txt"),
+);
+
+/**
+ * The intake job (and its discovery candidate) waiting on the daemon to
+ * download this book, if the book came from a catalog-only pick
+ */
+async function findWaitingIntake(ctx: MutationCtx, bookId: Id<"books">) {
+  const jobs = await ctx.db
+    .query("jobs")
+    .withIndex("by_book_id", (q) => q.eq("bookId", bookId))
+    .collect();
+  return (
+    jobs.find(
+      (job) =>
+        job.type === "import" &&
+        (job.status === "queued" || job.status === "running"),
+    ) ?? null
+  );
+}
+
+/**
+ * Carry a daemon outcome over to the waiting intake job, book and candidate
+ */
+async function settleIntake(
+  ctx: MutationCtx,
+  ingestJob: Doc<"ingestJobs">,
+  outcome:
+    | { status: "running" }
+    | { status: "completed"; logs: string; sourceFormat: "epub" | "text" }
+    | { status: "failed"; error: string },
+) {
+  const intake = await findWaitingIntake(ctx, ingestJob.bookId);
+  if (!intake) {
+    return;
+  }
+  const now = Date.now();
+  const candidateId = intake.discoveryCandidateId;
+
+  if (outcome.status === "running") {
+    await ctx.db.patch(intake._id, {
+      status: "running",
+      stage: "loading_file",
+      startedAt: intake.startedAt ?? now,
+      logs: `Ingest daemon downloading Gutenberg #${ingestJob.gutenbergId}`,
+    });
+    if (candidateId) {
+      await ctx.db.patch(candidateId, { status: "running" });
+    }
+    return;
+  }
+
+  if (outcome.status === "failed") {
+    await ctx.db.patch(intake._id, {
+      status: "failed",
+      stage: "failed",
+      progress: 100,
+      failedAt: now,
+      error: outcome.error,
+      logs: "Ingest daemon download failed",
+    });
+    await ctx.db.patch(ingestJob.bookId, {
+      status: "failed",
+      lastError: outcome.error,
+    });
+    if (candidateId) {
+      await ctx.db.patch(candidateId, {
+        status: "failed",
+        error: outcome.error,
+      });
+    }
+    return;
+  }
+
+  await ctx.db.patch(intake._id, {
+    status: "completed",
+    stage: "completed",
+    progress: 100,
+    completedAt: now,
+    logs: outcome.logs,
+    error: undefined,
+  });
+  await ctx.db.patch(ingestJob.bookId, {
+    status: "imported",
+    copyrightStatus: "checking",
+    sourceFormat: outcome.sourceFormat,
+    lastError: undefined,
+  });
+  if (candidateId) {
+    await ctx.db.patch(candidateId, { status: "completed", error: undefined });
+  }
+  await ctx.scheduler.runAfter(0, internal.copyrightAi.analyzeCopyright, {
+    bookId: ingestJob.bookId,
+    triggerSource: "intake",
+  });
+  await ctx.scheduler.runAfter(0, internal.editions.refreshFingerprint, {
+    bookId: ingestJob.bookId,
+  });
+}
+
+/**
+ * Record a failed attempt: back off and requeue, or dead-letter when exhausted
+ */
+async function recordFailedAttempt(
+  ctx: MutationCtx,
+  job: Doc<"ingestJobs">,
+  error: string,
+  now: number,
+) {
+  const decision = decideRetry({
+    mode: job.mode,
+    attempts: job.attempts ?? 1,
+    now,
+  });
+
+  await ctx.db.patch(job._id, {
+    status: decision.action === "retry" ? "queued" : "dead_letter",
+    notBefore: decision.action === "retry" ? decision.notBefore : undefined,
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined,
+    stage: decision.action === "retry" ? "retry_scheduled" : "dead_letter",
+    error,
+    updatedAt: now,
+  });
+  if (decision.action !== "retry") {
+    await settleIntake(ctx, job, { status: "failed", error });
+  }
+
+  return decision;
+}
+
 export const recoverStaleLeases = mutation({
   args: {
     now: v.optional(v.number()),
@@ -20,12 +158,13 @@ export const recoverStaleLeases = mutation({
         continue;
       }
 
-      await ctx.db.patch(job._id, {
-        status: "queued",
-        leaseOwner: undefined,
-        leaseExpiresAt: undefined,
-        updatedAt: now,
-      });
+      // A worker that stopped heartbeating used up its attempt
+      await recordFailedAttempt(
+        ctx,
+        job,
+        `Lease held by ${job.leaseOwner ?? "unknown worker"} expired without completion`,
+        now,
+      );
       recovered += 1;
     }
 
@@ -39,26 +178,52 @@ export const leaseNext = mutation({
     leaseMs: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const job = await ctx.db
+    const now = Date.now();
+    // Rows without notBefore sort first, then retries whose backoff elapsed
+    const queued = await ctx.db
       .query("ingestJobs")
-      .withIndex("by_status", (q) => q.eq("status", "queued"))
-      .first();
+      .withIndex("by_status_not_before", (q) =>
+        q.eq("status", "queued").lte("notBefore", now),
+      )
+      .take(25);
+
+    // Mutations are serializable: if two workers read the same queued row,
+    // one commit conflicts and retries against the patched state. A queued
+    // row that still carries a live lease is skipped rather than shared.
+    const job = queued.find(
+      (candidate) =>
+        !candidate.leaseOwner ||
+        !candidate.leaseExpiresAt ||
+        candidate.leaseExpiresAt <= now,
+    );
 
     if (!job) {
       return null;
     }
 
-    const now = Date.now();
     const leaseMs = args.leaseMs ?? DEFAULT_LEASE_MS;
 
+    const attempts = (job.attempts ?? 0) + 1;
+
     await ctx.db.patch(job._id, {
       status: "leased",
       leaseOwner: args.workerId,
       leaseExpiresAt: now + leaseMs,
+      attempts,
+      notBefore: undefined,
       updatedAt: now,
     });
+    await settleIntake(ctx, job, { status: "running" });
 
-    return job._id;
+    return {
+      ingestJobId: job._id,
+      bookId: job.bookId,
+      gutenbergId: job.gutenbergId,
+      mode: job.mode,
+      formatOverride: job.formatOverride,
+      attempt: attempts,
+      maxAttempts: maxAttemptsForMode(job.mode),
+    };
   },
 });
 
@@ -98,7 +263,9 @@ export const complete = mutation({
     selectedFormat: v.string(),
     sourceUrl: v.string(),
     localSourcePath: v.string(),
-    localExtractedPath: v.string(),
+    localExtractedPath: v.optional(v.string()),
+    extractedFileId: v.optional(v.id("_storage")),
+    chapterManifestFileId: v.optional(v.id("_storage")),
     checksum: v.string(),
     warning: v.optional(v.string()),
   },
@@ -108,7 +275,7 @@ export const complete = mutation({
       throw new Error("Ingest job not found");
     }
 
-    if (job.leaseOwner !== args.workerId) {
+    if (job.status !== "leased" || job.leaseOwner !== args.workerId) {
       throw new Error("Worker does not hold lease");
     }
 
@@ -122,16 +289,60 @@ export const complete = mutation({
       sourceUrl: args.sourceUrl,
       localSourcePath: args.localSourcePath,
       localExtractedPath: args.localExtractedPath,
+      extractedFileId: args.extractedFileId,
+      chapterManifestFileId: args.chapterManifestFileId,
       checksum: args.checksum,
       warning: args.warning,
       error: undefined,
       updatedAt: now,
     });
+    await settleIntake(ctx, job, {
+      status: "completed",
+      sourceFormat: args.extractedFileId ? "epub" : "text",
+      logs: `Downloaded ${args.selectedFormat} from ${args.sourceUrl}${args.warning ? `\n${args.warning}` : ""}`,
+    });
+
+    // Annotated markdown goes straight to cleanup; plain text waits for the
+    // regular intake/cleanup flow
+    if (args.extractedFileId) {
+      await ctx.scheduler.runAfter(0, internal.cleanup.startCleanupFromIngest, {
+        ingestJobId: job._id,
+      });
+    }
 
     return null;
   },
 });
 
+/**
+ * Hand a leased job back to the queue (daemon shutdown)
+ * No-op when the worker no longer holds the lease.
+ */
+export const release = mutation({
+  args: {
+    ingestJobId: v.id("ingestJobs"),
+    workerId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.ingestJobId);
+    if (!job || job.status !== "leased" || job.leaseOwner !== args.workerId) {
+      return { released: false };
+    }
+
+    // Shutdown is not the job's fault, so the attempt is handed back too
+    await ctx.db.patch(job._id, {
+      status: "queued",
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined,
+      attempts: Math.max(0, (job.attempts ?? 1) - 1),
+      stage: "released",
+      updatedAt: Date.now(),
+    });
+
+    return { released: true };
+  },
+});
+
 export const fail = mutation({
   args: {
     ingestJobId: v.id("ingestJobs"),
@@ -148,16 +359,50 @@ export const fail = mutation({
       throw new Error("Worker does not hold lease");
     }
 
-    await ctx.db.patch(job._id, {
-      status: "failed",
-      leaseOwner: undefined,
-      leaseExpiresAt: undefined,
-      stage: "failed",
-      error: args.error,
-      updatedAt: Date.now(),
-    });
+    const decision = await recordFailedAttempt(
+      ctx,
+      job,
+      args.error,
+      Date.now(),
+    );
+    return { action: decision.action };
+  },
+});
 
-    return null;
+/**
+ * Requeue failed or dead-lettered jobs with a fresh attempt budget
+ * Optionally pins the source format the daemon must use.
+ */
+export const requeue = mutation({
+  args: {
+    ingestJobIds: v.array(v.id("ingestJobs")),
+    formatOverride: v.optional(sourceFormatValidator),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    let requeued = 0;
+    let skipped = 0;
+
+    for (const ingestJobId of args.ingestJobIds) {
+      const job = await ctx.db.get(ingestJobId);
+      if (!job || (job.status !== "failed" && job.status !== "dead_letter")) {
+        skipped += 1;
+        continue;
+      }
+
+      await ctx.db.patch(job._id, {
+        status: "queued",
+        attempts: 0,
+        notBefore: undefined,
+        formatOverride: args.formatOverride,
+        stage: "queued",
+        error: undefined,
+        updatedAt: now,
+      });
+      requeued += 1;
+    }
+
+    return { requeued, skipped };
   },
 });
 
@@ -173,13 +418,25 @@ export const listErrorEvents = query({
       .withIndex("by_status", (q) => q.eq("status", "failed"))
       .collect();
 
+    const deadLettered = await ctx.db
+      .query("ingestJobs")
+      .withIndex("by_status", (q) => q.eq("status", "dead_letter"))
+      .collect();
+
+    // Queued rows that carry an error are waiting out a retry backoff
+    const queued = await ctx.db
+      .query("ingestJobs")
+      .withIndex("by_status", (q) => q.eq("status", "queued"))
+      .collect();
+
     const completed = await ctx.db
       .query("ingestJobs")
       .withIndex("by_status", (q) => q.eq("status", "completed"))
       .collect();
 
+    const retryingRows = queued.filter((job) => Boolean(job.error));
     const warningRows = completed.filter((job) => Boolean(job.warning));
-    const rows = [...failed, ...warningRows]
+    const rows = [...failed, ...deadLettered, ...retryingRows, ...warningRows]
       .sort((a, b) => b.updatedAt - a.updatedAt)
       .slice(0, limit);
 
@@ -198,6 +455,10 @@ export const listErrorEvents = query({
           bookId: job.bookId,
           error: job.error,
           warning: job.warning,
+          attempts: job.attempts ?? 0,
+          maxAttempts: maxAttemptsForMode(job.mode),
+          notBefore: job.notBefore,
+          formatOverride: job.formatOverride,
           leaseOwner: job.leaseOwner,
           leaseExpiresAt: job.leaseExpiresAt,
           selectedFormat: job.selectedFormat,
@@ -0,0 +1,42 @@
+export type IngestMode = "quality" | "fast";
+
+// Quality mode keeps trying for an EPUB longer; fast mode gives up sooner
+export const MAX_ATTEMPTS_BY_MODE: Record<IngestMode, number> = {
+  quality: 5,
+  fast: 3,
+};
+
+export const BASE_RETRY_DELAY_MS = 30_000;
+export const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+type DecideRetryArgs = {
+  mode: IngestMode;
+  // Attempts made so far, including the one that just failed
+  attempts: number;
+  now: number;
+};
+
+export type RetryDecision =
+  | { action: "retry"; notBefore: number; delayMs: number }
+  | { action: "dead_letter" };
+
+export function maxAttemptsForMode(mode: IngestMode): number {
+  return MAX_ATTEMPTS_BY_MODE[mode];
+}
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, 4m, ... capped at one hour
+ */
+export function computeRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
+
+export function decideRetry(args: DecideRetryArgs): RetryDecision {
+  if (args.attempts >= maxAttemptsForMode(args.mode)) {
+    return { action: "dead_letter" };
+  }
+
+  const delayMs = computeRetryDelayMs(args.attempts);
+  return { action: "retry", notBefore: args.now + delayMs, delayMs };
+}
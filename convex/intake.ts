@@ -1,13 +1,27 @@
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
-import { mutation, query } from "./_generated/server";
+import { paginationOptsValidator, type PaginationOptions } from "convex/server";
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  buildCandidateSearchFields,
+  clampEnqueueCap,
+  ENQUEUEABLE_STATUSES,
+  matchesSubject,
+} from "./discoverySearch";
 
 const internalApi = internal as any;
 
-const findBookByGutenbergId = async (ctx: any, gutenbergId: string) => {
+const findBookByGutenbergId = async (ctx: QueryCtx, gutenbergId: string) => {
   return await ctx.db
     .query("books")
-    .withIndex("by_gutenberg_id", (q: any) => q.eq("gutenbergId", gutenbergId))
+    .withIndex("by_gutenberg_id", (q) => q.eq("gutenbergId", gutenbergId))
     .first();
 };
 
@@ -25,6 +39,8 @@ const enqueueSharedIntake = async (
   },
 ) => {
   const now = Date.now();
+  // Discovery picks without a file are downloaded by the ingest daemon
+  const viaDaemon = !args.fileId && Boolean(args.gutenbergId);
   const bookId = await ctx.db.insert("books", {
     title: args.title ?? "Pending metadata extraction",
     author: args.author ?? "Unknown Author",
@@ -45,7 +61,9 @@ const enqueueSharedIntake = async (
     bookId,
     gutenbergId: args.gutenbergId,
     progress: 0,
-    logs: "Queued for metadata extraction",
+    logs: viaDaemon
+      ? `Queued for the ingest daemon to download Gutenberg #${args.gutenbergId}`
+      : "Queued for metadata extraction",
     queuedAt: now,
     discoveryCandidateId: args.candidateId as any,
   });
@@ -60,6 +78,19 @@ const enqueueSharedIntake = async (
     });
   }
 
+  if (viaDaemon) {
+    await ctx.db.insert("ingestJobs", {
+      bookId,
+      gutenbergId: args.gutenbergId,
+      mode: "quality",
+      status: "queued",
+      stage: "queued",
+      queuedAt: now,
+      updatedAt: now,
+    });
+    return { jobId, bookId };
+  }
+
   await ctx.scheduler.runAfter(
     0,
     internalApi.intakeMetadata.extractAndPersist,
@@ -67,6 +98,7 @@ const enqueueSharedIntake = async (
       jobId,
       bookId,
       fileId: args.fileId,
+      fileName: args.fileName,
       source: args.source,
       gutenbergId: args.gutenbergId,
       sourcePath: args.sourcePath,
@@ -175,6 +207,7 @@ export const createDiscoveryCandidates = mutation({
       if (existing) {
         existingCandidateIds.push(existing._id);
         await ctx.db.patch(existing._id, {
+          ...buildCandidateSearchFields({ ...existing, ...candidate }),
           gutenbergId: candidate.gutenbergId,
           sourcePath: candidate.sourcePath,
           title: candidate.title,
@@ -198,6 +231,7 @@ export const createDiscoveryCandidates = mutation({
       }
 
       const candidateId = await ctx.db.insert("discoveryCandidates", {
+        ...buildCandidateSearchFields(candidate),
         gutenbergId: candidate.gutenbergId,
         sourcePath: candidate.sourcePath,
         title: candidate.title,
@@ -221,74 +255,522 @@ export const createDiscoveryCandidates = mutation({
   },
 });
 
+const catalogAuthorValidator = v.object({
+  name: v.string(),
+  sortName: v.string(),
+  role: v.string(),
+  birthYear: v.optional(v.number()),
+  deathYear: v.optional(v.number()),
+  agentId: v.optional(v.string()),
+});
+
+const LOW_CONFIDENCE_WARNING = /^Low-confidence metadata/;
+
+export const importCatalogCandidates = mutation({
+  args: {
+    catalogSource: v.union(v.literal("csv"), v.literal("rdf")),
+    records: v.array(
+      v.object({
+        gutenbergId: v.string(),
+        title: v.optional(v.string()),
+        author: v.optional(v.string()),
+        authors: v.array(catalogAuthorValidator),
+        languages: v.array(v.string()),
+        subjects: v.array(v.string()),
+        bookshelves: v.array(v.string()),
+        locClasses: v.array(v.string()),
+        downloadCount: v.optional(v.number()),
+        issued: v.optional(v.string()),
+      }),
+    ),
+  },
+  handler: async (ctx: any, args) => {
+    const now = Date.now();
+    let created = 0;
+    let updated = 0;
+
+    for (const record of args.records) {
+      const catalogFields = {
+        catalogSource: args.catalogSource,
+        catalogImportedAt: now,
+        catalogAuthors: record.authors,
+        languages: record.languages,
+        subjects: record.subjects,
+        bookshelves: record.bookshelves,
+        locClasses: record.locClasses,
+        issued: record.issued,
+      };
+
+      const existing = await ctx.db
+        .query("discoveryCandidates")
+        .withIndex("by_gutenberg_id", (q: any) =>
+          q.eq("gutenbergId", record.gutenbergId),
+        )
+        .first();
+
+      if (existing) {
+        // Catalog metadata beats the regex preview from discover-library, but
+        // a CSV re-import must not wipe download counts from an RDF import
+        const title = record.title ?? existing.title;
+        const author = record.author ?? existing.author;
+        await ctx.db.patch(existing._id, {
+          ...catalogFields,
+          ...buildCandidateSearchFields({ ...record, title, author }),
+          title,
+          author,
+          downloadCount: record.downloadCount ?? existing.downloadCount,
+          warning:
+            record.title &&
+            record.author &&
+            LOW_CONFIDENCE_WARNING.test(existing.warning ?? "")
+              ? undefined
+              : existing.warning,
+        });
+        updated += 1;
+        continue;
+      }
+
+      await ctx.db.insert("discoveryCandidates", {
+        ...catalogFields,
+        ...buildCandidateSearchFields(record),
+        gutenbergId: record.gutenbergId,
+        title: record.title,
+        author: record.author,
+        downloadCount: record.downloadCount,
+        status: "discovered",
+        discoveredAt: now,
+      });
+      created += 1;
+    }
+
+    return {
+      status: "ok" as const,
+      created,
+      updated,
+    };
+  },
+});
+
+const candidateStatusValidator = v.union(
+  v.literal("discovered"),
+  v.literal("queued"),
+  v.literal("running"),
+  v.literal("completed"),
+  v.literal("failed"),
+  v.literal("duplicate_blocked"),
+);
+
+const candidateFiltersValidator = v.object({
+  search: v.optional(v.string()),
+  status: v.optional(candidateStatusValidator),
+  language: v.optional(v.string()),
+  subject: v.optional(v.string()),
+});
+
+type CandidateFilters = {
+  search?: string;
+  status?: string;
+  language?: string;
+  subject?: string;
+};
+
+/**
+ * Pick the narrowest index for the filters. Only one search index can be used
+ * per query, so a subject filter alongside a text search is applied in memory.
+ */
+const queryCandidates = (ctx: any, filters: CandidateFilters) => {
+  const search = filters.search?.trim();
+  const subject = filters.subject?.trim();
+  const language = filters.language?.trim().toLowerCase() || undefined;
+  const table = ctx.db.query("discoveryCandidates");
+
+  if (search && /^\d+$/.test(search)) {
+    return table.withIndex("by_gutenberg_id", (q: any) =>
+      q.eq("gutenbergId", search),
+    );
+  }
+
+  if (search || subject) {
+    const [indexName, field, text] = search
+      ? ["search_text", "searchText", search]
+      : ["search_subjects", "subjectText", subject];
+    return table.withSearchIndex(indexName, (q: any) => {
+      let scoped = q.search(field, text);
+      if (filters.status) {
+        scoped = scoped.eq("status", filters.status);
+      }
+      if (language) {
+        scoped = scoped.eq("primaryLanguage", language);
+      }
+      return scoped;
+    });
+  }
+
+  if (filters.status && language) {
+    return table
+      .withIndex("by_status_language", (q: any) =>
+        q.eq("status", filters.status).eq("primaryLanguage", language),
+      )
+      .order("desc");
+  }
+  if (filters.status) {
+    return table
+      .withIndex("by_status", (q: any) => q.eq("status", filters.status))
+      .order("desc");
+  }
+  if (language) {
+    return table
+      .withIndex("by_primary_language", (q: any) =>
+        q.eq("primaryLanguage", language),
+      )
+      .order("desc");
+  }
+  return table.order("desc");
+};
+
+// Filters the chosen index could not express
+const matchesResidualFilters = (
+  candidate: Doc<"discoveryCandidates">,
+  filters: CandidateFilters,
+) => {
+  if (filters.status && candidate.status !== filters.status) {
+    return false;
+  }
+  const language = filters.language?.trim().toLowerCase();
+  if (language && candidate.primaryLanguage !== language) {
+    return false;
+  }
+  return !filters.search?.trim() || matchesSubject(candidate, filters.subject);
+};
+
+/**
+ * Whether queryCandidates leaves filters for matchesResidualFilters: the
+ * Gutenberg ID lookup ignores every other filter, and a text search cannot
+ * also use the subject index
+ */
+const hasResidualFilters = (filters: CandidateFilters) => {
+  const search = filters.search?.trim();
+  if (!search) {
+    return false;
+  }
+  if (/^\d+$/.test(search)) {
+    return Boolean(
+      filters.status || filters.language?.trim() || filters.subject?.trim(),
+    );
+  }
+  return Boolean(filters.subject?.trim());
+};
+
+type EnqueueOutcome =
+  "enqueue" | "duplicate_blocked" | "already_enqueued" | "not_enqueueable";
+
+type Classification =
+  | { outcome: "duplicate_blocked"; existingBook: Doc<"books"> }
+  | {
+      outcome: Exclude<EnqueueOutcome, "duplicate_blocked">;
+      existingBook: Doc<"books"> | null;
+    };
+
+// Candidates skipped before any book lookup: linked already, or in a status
+// that cannot be resubmitted
+const skippedOutcome = (
+  candidate: Doc<"discoveryCandidates">,
+): "already_enqueued" | "not_enqueueable" | null => {
+  if (candidate.linkedJobId) {
+    return "already_enqueued";
+  }
+  if (!(ENQUEUEABLE_STATUSES as readonly string[]).includes(candidate.status)) {
+    return "not_enqueueable";
+  }
+  return null;
+};
+
+const classifyCandidate = async (
+  ctx: QueryCtx,
+  candidate: Doc<"discoveryCandidates">,
+  overrideDuplicate: boolean,
+): Promise<Classification> => {
+  const skipped = skippedOutcome(candidate);
+  if (skipped) {
+    return { outcome: skipped, existingBook: null };
+  }
+
+  const existingBook = await findBookByGutenbergId(ctx, candidate.gutenbergId);
+  if (existingBook && !overrideDuplicate) {
+    return { outcome: "duplicate_blocked", existingBook };
+  }
+  return { outcome: "enqueue", existingBook };
+};
+
+const enqueueCandidate = async (
+  ctx: MutationCtx,
+  candidate: Doc<"discoveryCandidates">,
+  overrideDuplicate: boolean,
+) => {
+  const { outcome, existingBook } = await classifyCandidate(
+    ctx,
+    candidate,
+    overrideDuplicate,
+  );
+
+  if (outcome === "already_enqueued" || outcome === "not_enqueueable") {
+    return {
+      status: "already_enqueued" as const,
+      duplicate: false,
+      candidateId: candidate._id,
+      bookId: candidate.linkedBookId,
+      jobId: candidate.linkedJobId,
+    };
+  }
+
+  if (outcome === "duplicate_blocked") {
+    await ctx.db.patch(candidate._id, {
+      status: "duplicate_blocked",
+      linkedBookId: existingBook._id,
+      error:
+        "Duplicate Gutenberg ID. Use overrideDuplicate to import intentionally.",
+    });
+
+    return {
+      status: "duplicate_blocked" as const,
+      duplicate: true,
+      candidateId: candidate._id,
+      existingBookId: existingBook._id,
+      gutenbergId: candidate.gutenbergId,
+      message: "Duplicate blocked for discovery candidate",
+    };
+  }
+
+  const enqueued = await enqueueSharedIntake(ctx, {
+    source: "discovery",
+    gutenbergId: candidate.gutenbergId,
+    sourcePath: candidate.sourcePath,
+    title: candidate.title,
+    author: candidate.author,
+    candidateId: candidate._id as unknown as string,
+  });
+
+  return {
+    status: "enqueued" as const,
+    duplicate: false,
+    candidateId: candidate._id,
+    ...enqueued,
+  };
+};
+
+// Hard ceiling on rows read while looking for enqueueable matches
+const MAX_MATCH_SCAN = 5_000;
+
+/**
+ * Page through candidates with residual filters. Convex allows one
+ * paginate() per query, so the matches are gathered up front (a search
+ * index returns at most 1024 rows anyway) and the cursor is an offset into
+ * them; every page but the last is full.
+ */
+const paginateResidualMatches = async (
+  ctx: QueryCtx,
+  filters: CandidateFilters,
+  paginationOpts: PaginationOptions,
+) => {
+  const matches: Doc<"discoveryCandidates">[] = [];
+  let scanned = 0;
+  for await (const candidate of queryCandidates(ctx, filters)) {
+    scanned += 1;
+    if (scanned > MAX_MATCH_SCAN) {
+      break;
+    }
+    if (matchesResidualFilters(candidate, filters)) {
+      matches.push(candidate);
+    }
+  }
+
+  const start = Number(paginationOpts.cursor ?? 0) || 0;
+  const end = start + paginationOpts.numItems;
+  return {
+    page: matches.slice(start, end),
+    isDone: end >= matches.length,
+    continueCursor: String(end),
+  };
+};
+
+/**
+ * Resolve a batch target: explicit ids, or enqueueable rows matching
+ * filters. In filter mode the matches that are linked already or not
+ * enqueueable are counted in `skipped` instead, and do not use up the cap.
+ */
+const collectBatchTargets = async (
+  ctx: QueryCtx,
+  args: {
+    candidateIds?: Id<"discoveryCandidates">[];
+    filters?: CandidateFilters;
+    cap?: number;
+  },
+) => {
+  const cap = clampEnqueueCap(args.cap);
+  const skipped = { already_enqueued: 0, not_enqueueable: 0 };
+
+  if (args.candidateIds) {
+    const candidates = await Promise.all(
+      args.candidateIds.slice(0, cap).map((id) => ctx.db.get(id)),
+    );
+    return {
+      candidates: candidates.filter(
+        (candidate): candidate is Doc<"discoveryCandidates"> =>
+          candidate !== null,
+      ),
+      capped: args.candidateIds.length > cap,
+      skipped,
+    };
+  }
+
+  const filters = args.filters ?? {};
+  const candidates: Doc<"discoveryCandidates">[] = [];
+  let scanned = 0;
+  for await (const candidate of queryCandidates(ctx, filters)) {
+    scanned += 1;
+    if (scanned > MAX_MATCH_SCAN) {
+      break;
+    }
+    if (!matchesResidualFilters(candidate, filters)) {
+      continue;
+    }
+    const outcome = skippedOutcome(candidate);
+    if (outcome) {
+      skipped[outcome] += 1;
+      continue;
+    }
+    if (candidates.length === cap) {
+      return { candidates, capped: true, skipped };
+    }
+    candidates.push(candidate);
+  }
+
+  return { candidates, capped: scanned > MAX_MATCH_SCAN, skipped };
+};
+
+const batchTargetArgs = {
+  candidateIds: v.optional(v.array(v.id("discoveryCandidates"))),
+  filters: v.optional(candidateFiltersValidator),
+  cap: v.optional(v.number()),
+  overrideDuplicate: v.optional(v.boolean()),
+};
+
 export const enqueueDiscoveryCandidate = mutation({
   args: {
     candidateId: v.id("discoveryCandidates"),
     overrideDuplicate: v.optional(v.boolean()),
   },
-  handler: async (ctx: any, args) => {
+  handler: async (ctx: MutationCtx, args) => {
     const candidate = await ctx.db.get(args.candidateId);
     if (!candidate) {
       throw new Error("Discovery candidate not found");
     }
 
-    if (candidate.linkedJobId) {
-      return {
-        status: "already_enqueued" as const,
-        duplicate: false,
-        candidateId: candidate._id,
-        bookId: candidate.linkedBookId,
-        jobId: candidate.linkedJobId,
-      };
+    return await enqueueCandidate(
+      ctx,
+      candidate,
+      Boolean(args.overrideDuplicate),
+    );
+  },
+});
+
+/**
+ * Dry run for a batch enqueue: what would be enqueued, blocked or skipped
+ */
+export const previewEnqueueCandidates = query({
+  args: batchTargetArgs,
+  handler: async (ctx: QueryCtx, args) => {
+    if (!args.candidateIds && !args.filters) {
+      throw new Error("Provide candidateIds or filters");
     }
 
-    const existing = await findBookByGutenbergId(ctx, candidate.gutenbergId);
-    if (existing && !args.overrideDuplicate) {
-      await ctx.db.patch(candidate._id, {
-        status: "duplicate_blocked",
-        linkedBookId: existing._id,
-        error:
-          "Duplicate Gutenberg ID. Use overrideDuplicate to import intentionally.",
-      });
+    const { candidates, capped, skipped } = await collectBatchTargets(
+      ctx,
+      args,
+    );
+    const counts: Record<EnqueueOutcome, number> = {
+      enqueue: 0,
+      duplicate_blocked: 0,
+      ...skipped,
+    };
+    const blocked = [];
 
-      return {
-        status: "duplicate_blocked" as const,
-        duplicate: true,
-        candidateId: candidate._id,
-        existingBookId: existing._id,
-        gutenbergId: candidate.gutenbergId,
-        message: "Duplicate blocked for discovery candidate",
-      };
+    for (const candidate of candidates) {
+      const { outcome, existingBook } = await classifyCandidate(
+        ctx,
+        candidate,
+        Boolean(args.overrideDuplicate),
+      );
+      counts[outcome] += 1;
+      if (outcome === "duplicate_blocked") {
+        blocked.push({
+          candidateId: candidate._id,
+          gutenbergId: candidate.gutenbergId,
+          title: candidate.title,
+          existingBookId: existingBook._id,
+          existingBookTitle: existingBook.title,
+        });
+      }
     }
 
-    const enqueued = await enqueueSharedIntake(ctx, {
-      source: "discovery",
-      gutenbergId: candidate.gutenbergId,
-      sourcePath: candidate.sourcePath,
-      title: candidate.title,
-      author: candidate.author,
-      candidateId: candidate._id as unknown as string,
-    });
-
     return {
-      status: "enqueued" as const,
-      duplicate: false,
-      candidateId: candidate._id,
-      ...enqueued,
+      total:
+        candidates.length + skipped.already_enqueued + skipped.not_enqueueable,
+      capped,
+      cap: clampEnqueueCap(args.cap),
+      wouldEnqueue: counts.enqueue,
+      wouldBlock: counts.duplicate_blocked,
+      alreadyEnqueued: counts.already_enqueued,
+      notEnqueueable: counts.not_enqueueable,
+      blocked,
     };
   },
 });
 
+export const enqueueDiscoveryCandidates = mutation({
+  args: batchTargetArgs,
+  handler: async (ctx: MutationCtx, args) => {
+    if (!args.candidateIds && !args.filters) {
+      throw new Error("Provide candidateIds or filters");
+    }
+
+    const { candidates, capped } = await collectBatchTargets(ctx, args);
+    let enqueued = 0;
+    let duplicateBlocked = 0;
+    let skipped = 0;
+
+    for (const candidate of candidates) {
+      const result = await enqueueCandidate(
+        ctx,
+        candidate,
+        Boolean(args.overrideDuplicate),
+      );
+      if (result.status === "enqueued") {
+        enqueued += 1;
+      } else if (result.status === "duplicate_blocked") {
+        duplicateBlocked += 1;
+      } else {
+        skipped += 1;
+      }
+    }
+
+    return { enqueued, duplicateBlocked, skipped, capped };
+  },
+});
+
 export const listDiscoveryCandidates = query({
-  args: {},
-  handler: async (ctx) => {
-    const candidates = await ctx.db
-      .query("discoveryCandidates")
-      .order("desc")
-      .collect();
+  args: {
+    paginationOpts: paginationOptsValidator,
+    filters: v.optional(candidateFiltersValidator),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    const filters = args.filters ?? {};
+    const result = hasResidualFilters(filters)
+      ? await paginateResidualMatches(ctx, filters, args.paginationOpts)
+      : await queryCandidates(ctx, filters).paginate(args.paginationOpts);
 
-    return await Promise.all(
-      candidates.map(async (candidate) => {
+    const page = await Promise.all(
+      result.page.map(async (candidate: Doc<"discoveryCandidates">) => {
         const existingBook = candidate.linkedBookId
           ? await ctx.db.get(candidate.linkedBookId)
           : await findBookByGutenbergId(ctx, candidate.gutenbergId);
@@ -301,5 +783,34 @@ export const listDiscoveryCandidates = query({
         };
       }),
     );
+
+    return { ...result, page };
+  },
+});
+
+/**
+ * Fill search fields on candidates written before they existed.
+ * Run once with `npx convex run intake:backfillCandidateSearchFields`.
+ */
+export const backfillCandidateSearchFields = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx: any, args) => {
+    const result = await ctx.db
+      .query("discoveryCandidates")
+      .paginate({ cursor: args.cursor ?? null, numItems: 500 });
+
+    for (const candidate of result.page) {
+      await ctx.db.patch(candidate._id, buildCandidateSearchFields(candidate));
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internalApi.intake.backfillCandidateSearchFields,
+        { cursor: result.continueCursor },
+      );
+    }
+
+    return { patched: result.page.length, isDone: result.isDone };
   },
 });
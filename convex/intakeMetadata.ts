@@ -1,66 +1,44 @@
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
 import { internalAction, internalMutation } from "./_generated/server";
+import { convertUpload, detectUploadFormat, fileStem } from "./uploadFormats";
+import {
+  extractGutenbergMetadata,
+  fieldsFromUploadMetadata,
+  lowConfidenceFields,
+  metadataFieldsValidator,
+  publicationYearFrom,
+  type MetadataFields,
+} from "./gutenbergMetadata";
+import { syncBookContributors } from "./contributors";
 
-const START_MARKER =
-  /\*\*\* START OF (?:THE|THIS) PROJECT GUTENBERG EBOOK[^\n]*\*\*\*/i;
-const END_MARKER =
-  /\*\*\* END OF (?:THE|THIS) PROJECT GUTENBERG EBOOK[^\n]*\*\*\*/i;
-
-const extractLineValue = (text: string, key: "Title" | "Author") => {
-  const match = text.match(new RegExp(`^${key}:\\s*(.+)$`, "im"));
-  return match?.[1]?.trim();
-};
-
-const YEAR_PATTERN = /\b(18\d{2}|19\d{2}|20\d{2})\b/;
-
-const extractYear = (body: string): string | undefined => {
-  // Look for copyright year first (most reliable)
-  const copyrightMatch = body.match(/Copyright(?:,)?\s*(?:©)?\s*(\d{4})/i);
-  if (copyrightMatch) {
-    return copyrightMatch[1];
-  }
-
-  // Look for year standalone in first 1000 characters of body
-  // Common pattern: year appears on its own line after author
-  const firstChunk = body.slice(0, 2000);
-  const yearMatch = firstChunk.match(YEAR_PATTERN);
-  if (yearMatch) {
-    return yearMatch[1];
-  }
-
-  return undefined;
-};
-
-const parseMetadata = (text: string) => {
-  const title = extractLineValue(text, "Title") ?? "Unknown Title";
-  const author = extractLineValue(text, "Author") ?? "Unknown Author";
-
-  const startMatch = START_MARKER.exec(text);
-  const endMatch = END_MARKER.exec(text);
-
-  const body =
-    startMatch && endMatch && endMatch.index > startMatch.index
-      ? text
-          .slice(startMatch.index + startMatch[0].length, endMatch.index)
-          .trim()
-      : text.trim();
-
-  const year = extractYear(body);
-
-  return {
-    title,
-    author,
-    year,
-    bodyLength: body.length,
-  };
-};
+// Title given to a book by intake until metadata has been extracted
+const PENDING_TITLE = "Pending metadata extraction";
+const UNKNOWN_AUTHOR = "Unknown Author";
+
+// Where each converted format declares its metadata
+const METADATA_SOURCE_LABEL = {
+  markdown: "Front matter",
+  epub: "OPF",
+  html: "HTML <meta>",
+  html_zip: "HTML <meta>",
+  docx: "DOCX core properties",
+} as const;
+
+const convertedFormatValidator = v.union(
+  v.literal("markdown"),
+  v.literal("epub"),
+  v.literal("html"),
+  v.literal("html_zip"),
+  v.literal("docx"),
+);
 
 export const extractAndPersist = internalAction({
   args: {
     jobId: v.id("jobs"),
     bookId: v.id("books"),
     fileId: v.optional(v.id("_storage")),
+    fileName: v.optional(v.string()),
     source: v.union(v.literal("upload"), v.literal("discovery")),
     gutenbergId: v.optional(v.string()),
     sourcePath: v.optional(v.string()),
@@ -82,25 +60,65 @@ export const extractAndPersist = internalAction({
         throw new Error("Uploaded file could not be loaded from storage");
       }
 
-      const text = await blob.text();
-      if (!text.trim()) {
-        throw new Error("Uploaded file is empty");
+      const bytes = new Uint8Array(await blob.arrayBuffer());
+      const format = detectUploadFormat(args.fileName, bytes);
+
+      if (format === "text") {
+        const text = new TextDecoder().decode(bytes);
+        if (!text.trim()) {
+          throw new Error("Uploaded file is empty");
+        }
+
+        await ctx.runMutation(internal.intakeMetadata.markParsing, {
+          jobId: args.jobId,
+        });
+
+        const extracted = extractGutenbergMetadata(text);
+
+        await ctx.runMutation(internal.intakeMetadata.markCompleted, {
+          jobId: args.jobId,
+          bookId: args.bookId,
+          candidateId: args.candidateId,
+          metadataFields: extracted.fields,
+          bodyLength: extracted.bodyLength,
+        });
+        return;
       }
 
       await ctx.runMutation(internal.intakeMetadata.markParsing, {
         jobId: args.jobId,
+        logs: `Converting ${format} upload to annotated markdown`,
       });
 
-      const parsed = parseMetadata(text);
+      const fileName = args.fileName ?? `upload.${format}`;
+      const converted = convertUpload(format, fileName, bytes);
+      const annotatedFileId = await ctx.storage.store(
+        new Blob([converted.book.markdown], { type: "text/markdown" }),
+      );
+      const chapterManifestFileId = await ctx.storage.store(
+        new Blob([JSON.stringify(converted.chapters)], {
+          type: "application/json",
+        }),
+      );
 
       await ctx.runMutation(internal.intakeMetadata.markCompleted, {
         jobId: args.jobId,
         bookId: args.bookId,
         candidateId: args.candidateId,
-        title: parsed.title,
-        author: parsed.author,
-        year: parsed.year,
-        bodyLength: parsed.bodyLength,
+        metadataFields: fieldsFromUploadMetadata(
+          converted.metadata,
+          METADATA_SOURCE_LABEL[format],
+        ),
+        fallbackTitle: fileStem(fileName),
+        bodyLength: converted.book.markdown.length,
+        conversion: {
+          sourceFormat: format,
+          annotatedFileId,
+          chapterManifestFileId,
+          chapterCount: converted.chapters.length,
+          language: converted.metadata.language,
+          warnings: converted.warnings,
+        },
       });
     } catch (error) {
       const message =
@@ -146,12 +164,13 @@ export const markRunning = internalMutation({
 export const markParsing = internalMutation({
   args: {
     jobId: v.id("jobs"),
+    logs: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     await ctx.db.patch(args.jobId, {
       stage: "parsing_metadata",
       progress: 60,
-      logs: "Parsing Gutenberg metadata markers",
+      logs: args.logs ?? "Parsing Gutenberg metadata markers",
     });
   },
 });
@@ -161,29 +180,90 @@ export const markCompleted = internalMutation({
     jobId: v.id("jobs"),
     bookId: v.id("books"),
     candidateId: v.optional(v.id("discoveryCandidates")),
-    title: v.string(),
-    author: v.string(),
-    year: v.optional(v.string()),
+    metadataFields: metadataFieldsValidator,
+    // Used when neither the file nor the upload form gave a title
+    fallbackTitle: v.optional(v.string()),
     bodyLength: v.number(),
+    conversion: v.optional(
+      v.object({
+        sourceFormat: convertedFormatValidator,
+        annotatedFileId: v.id("_storage"),
+        chapterManifestFileId: v.id("_storage"),
+        chapterCount: v.number(),
+        language: v.optional(v.string()),
+        warnings: v.array(v.string()),
+      }),
+    ),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
+    const book = await ctx.db.get(args.bookId);
+    if (!book) {
+      throw new Error(`Book ${args.bookId} not found`);
+    }
+
+    // Title/author typed into the upload form stand in for missing
+    // extracted values; the file name is the last resort
+    const fields: MetadataFields = { ...args.metadataFields };
+    if (!fields.title && book.title !== PENDING_TITLE) {
+      fields.title = {
+        value: book.title,
+        confidence: 0.9,
+        source: "upload_form",
+      };
+    } else if (!fields.title && args.fallbackTitle) {
+      fields.title = {
+        value: args.fallbackTitle,
+        confidence: 0.3,
+        source: "file_name",
+        sourceLine: book.fileName,
+      };
+    }
+    if (!fields.author && book.author !== UNKNOWN_AUTHOR) {
+      fields.author = {
+        value: book.author,
+        confidence: 0.9,
+        source: "upload_form",
+      };
+    }
+    const conversion = args.conversion;
 
     await ctx.db.patch(args.bookId, {
-      title: args.title,
-      author: args.author,
-      publicationYear: args.year ? parseInt(args.year, 10) : undefined,
+      title: fields.title?.value ?? "Unknown Title",
+      author: fields.author?.value ?? UNKNOWN_AUTHOR,
+      subtitle: fields.subtitle?.value,
+      series: fields.series?.value,
+      releaseDate: fields.releaseDate?.value,
+      publicationYear: publicationYearFrom(fields),
+      metadataFields: fields,
+      metadataNeedsReview: lowConfidenceFields(fields).length > 0,
       status: "imported",
       copyrightStatus: "checking",
       lastError: undefined,
+      sourceFormat: conversion?.sourceFormat ?? "text",
+      annotatedFileId: conversion?.annotatedFileId,
+      chapterManifestFileId: conversion?.chapterManifestFileId,
+      language: fields.language?.value ?? conversion?.language,
     });
 
+    const updated = await ctx.db.get(args.bookId);
+    if (updated) {
+      await syncBookContributors(ctx, updated);
+    }
+
+    const logs = conversion
+      ? [
+          `Converted ${conversion.sourceFormat} upload: ${conversion.chapterCount} chapter(s), ${args.bodyLength} chars`,
+          ...conversion.warnings,
+        ].join("\n")
+      : `Metadata extracted successfully (${args.bodyLength} body chars)`;
+
     await ctx.db.patch(args.jobId, {
       status: "completed",
       stage: "completed",
       progress: 100,
       completedAt: now,
-      logs: `Metadata extracted successfully (${args.bodyLength} body chars)`,
+      logs,
       error: undefined,
       errorDetails: undefined,
     });
@@ -200,6 +280,10 @@ export const markCompleted = internalMutation({
       bookId: args.bookId,
       triggerSource: "intake",
     });
+
+    await ctx.scheduler.runAfter(0, internal.editions.refreshFingerprint, {
+      bookId: args.bookId,
+    });
   },
 });
 
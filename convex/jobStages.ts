@@ -16,6 +16,17 @@ export const mainJobStageValidator = v.union(
   v.literal("ai_chunking"),
   v.literal("ai_processing"),
   v.literal("ai_applying_patches"),
+  // Export stages
+  v.literal("loading_content"),
+  v.literal("rendering_pdf"),
+  v.literal("rendering_cover"),
+  v.literal("building_epub"),
+  v.literal("validating_epub"),
+  v.literal("building_text"),
+  // Dataset stages
+  v.literal("selecting_books"),
+  v.literal("building_dataset"),
+  v.literal("storing_output"),
   // Completion stages
   v.literal("completed"),
   v.literal("failed"),
@@ -1,6 +1,7 @@
 import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
 import { mainJobStageValidator } from "./jobStages";
+import { assertCopyrightCleared } from "./copyrightReview";
 
 const canonicalStatuses = ["queued", "running", "completed", "failed"] as const;
 
@@ -176,6 +177,9 @@ export const create = mutation({
     gutenbergId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    if (args.type === "export" && args.bookId) {
+      await assertCopyrightCleared(ctx, args.bookId, "export");
+    }
     return await ctx.db.insert("jobs", {
       ...args,
       status: "queued",
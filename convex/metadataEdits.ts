@@ -0,0 +1,316 @@
+/**
+ * Manual book metadata edits
+ *
+ * Normalizes and validates an edit form submission, diffs it against the
+ * book so only real changes reach the history table, and keeps the
+ * extracted metadataFields in step so an edited field counts as reviewed.
+ *
+ * Pure functions only - books.ts applies the result and records history.
+ */
+
+import { v } from "convex/values";
+import type { MetadataFieldName, MetadataFields } from "./gutenbergMetadata";
+
+export const CONTRIBUTOR_ROLES = [
+  "author",
+  "translator",
+  "illustrator",
+  "editor",
+] as const;
+
+export type ContributorRole = (typeof CONTRIBUTOR_ROLES)[number];
+
+export type BookContributor = {
+  name: string;
+  role: ContributorRole;
+};
+
+export const contributorRoleValidator = v.union(
+  v.literal("author"),
+  v.literal("translator"),
+  v.literal("illustrator"),
+  v.literal("editor"),
+);
+
+export const bookContributorValidator = v.object({
+  name: v.string(),
+  role: contributorRoleValidator,
+});
+
+export const EDITABLE_METADATA_FIELDS = [
+  "title",
+  "author",
+  "subtitle",
+  "series",
+  "language",
+  "publicationYear",
+  "gutenbergId",
+  "contributors",
+  "subjects",
+] as const;
+
+export type EditableMetadataField = (typeof EDITABLE_METADATA_FIELDS)[number];
+
+export const editableMetadataFieldValidator = v.union(
+  v.literal("title"),
+  v.literal("author"),
+  v.literal("subtitle"),
+  v.literal("series"),
+  v.literal("language"),
+  v.literal("publicationYear"),
+  v.literal("gutenbergId"),
+  v.literal("contributors"),
+  v.literal("subjects"),
+);
+
+export type MetadataValue = string | number | string[] | BookContributor[];
+
+// Stored history values; a missing value means the field was unset
+export const metadataValueValidator = v.union(
+  v.string(),
+  v.number(),
+  v.array(v.string()),
+  v.array(bookContributorValidator),
+);
+
+// Edit form payload: omitted fields are left alone, null clears a field
+export const metadataEditsValidator = v.object({
+  title: v.optional(v.string()),
+  author: v.optional(v.string()),
+  subtitle: v.optional(v.union(v.string(), v.null())),
+  series: v.optional(v.union(v.string(), v.null())),
+  language: v.optional(v.union(v.string(), v.null())),
+  publicationYear: v.optional(v.union(v.number(), v.null())),
+  gutenbergId: v.optional(v.union(v.string(), v.null())),
+  contributors: v.optional(v.array(bookContributorValidator)),
+  subjects: v.optional(v.array(v.string())),
+});
+
+export type MetadataEdits = {
+  title?: string;
+  author?: string;
+  subtitle?: string | null;
+  series?: string | null;
+  language?: string | null;
+  publicationYear?: number | null;
+  gutenbergId?: string | null;
+  contributors?: BookContributor[];
+  subjects?: string[];
+};
+
+export type EditableMetadata = {
+  title?: string;
+  author?: string;
+  subtitle?: string;
+  series?: string;
+  language?: string;
+  publicationYear?: number;
+  gutenbergId?: string;
+  contributors?: BookContributor[];
+  subjects?: string[];
+};
+
+export type MetadataChange = {
+  field: EditableMetadataField;
+  previousValue?: MetadataValue;
+  newValue?: MetadataValue;
+};
+
+// Extracted metadata fields an edit counts as a review of
+const REVIEWED_FIELD: Partial<
+  Record<EditableMetadataField, MetadataFieldName>
+> = {
+  title: "title",
+  author: "author",
+  subtitle: "subtitle",
+  series: "series",
+  language: "language",
+  publicationYear: "originalPublicationDate",
+};
+
+const CREDITED_ROLES = ["translator", "illustrator", "editor"] as const;
+
+const clean = (value: string) => value.replace(/\s+/g, " ").trim();
+
+/**
+ * Trim and validate submitted edits
+ * Returns each submitted field's new value; undefined means "clear".
+ */
+export function normalizeMetadataEdits(
+  edits: MetadataEdits,
+  currentYear = new Date().getFullYear(),
+): Map<EditableMetadataField, MetadataValue | undefined> {
+  const normalized = new Map<
+    EditableMetadataField,
+    MetadataValue | undefined
+  >();
+
+  for (const field of ["title", "author"] as const) {
+    const value = edits[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (!clean(value)) {
+      throw new Error(`${field} cannot be empty`);
+    }
+    normalized.set(field, clean(value));
+  }
+
+  for (const field of ["subtitle", "series", "language"] as const) {
+    const value = edits[field];
+    if (value !== undefined) {
+      normalized.set(
+        field,
+        value === null ? undefined : clean(value) || undefined,
+      );
+    }
+  }
+
+  if (edits.publicationYear !== undefined) {
+    const year = edits.publicationYear;
+    if (
+      year !== null &&
+      (!Number.isInteger(year) || year < 1000 || year > currentYear)
+    ) {
+      throw new Error(
+        `Publication year must be between 1000 and ${currentYear}`,
+      );
+    }
+    normalized.set("publicationYear", year ?? undefined);
+  }
+
+  if (edits.gutenbergId !== undefined) {
+    const id = edits.gutenbergId === null ? "" : edits.gutenbergId.trim();
+    if (id && !/^\d+$/.test(id)) {
+      throw new Error("Gutenberg ID must be a number");
+    }
+    normalized.set("gutenbergId", id || undefined);
+  }
+
+  if (edits.contributors !== undefined) {
+    const seen = new Set<string>();
+    const contributors: BookContributor[] = [];
+    for (const contributor of edits.contributors) {
+      const name = clean(contributor.name);
+      if (!name) {
+        throw new Error("Contributor names cannot be empty");
+      }
+      const key = `${contributor.role}:${name.toLowerCase()}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        contributors.push({ name, role: contributor.role });
+      }
+    }
+    normalized.set(
+      "contributors",
+      contributors.length > 0 ? contributors : undefined,
+    );
+  }
+
+  if (edits.subjects !== undefined) {
+    const seen = new Set<string>();
+    const subjects = edits.subjects.map(clean).filter((subject) => {
+      const key = subject.toLowerCase();
+      if (!subject || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+    normalized.set("subjects", subjects.length > 0 ? subjects : undefined);
+  }
+
+  return normalized;
+}
+
+export function metadataValuesEqual(
+  a: MetadataValue | undefined,
+  b: MetadataValue | undefined,
+): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Changes between the book's current values and normalized edits, in
+ * EDITABLE_METADATA_FIELDS order
+ */
+export function diffMetadata(
+  current: EditableMetadata,
+  normalized: Map<EditableMetadataField, MetadataValue | undefined>,
+): MetadataChange[] {
+  return EDITABLE_METADATA_FIELDS.flatMap((field) => {
+    if (!normalized.has(field)) {
+      return [];
+    }
+    const newValue = normalized.get(field);
+    const previousValue = current[field];
+    return metadataValuesEqual(previousValue, newValue)
+      ? []
+      : [{ field, previousValue, newValue }];
+  });
+}
+
+/**
+ * Contributors for a book without an edited list: the author column plus
+ * credits found at intake
+ */
+export function contributorsFromMetadata(
+  author: string,
+  fields: MetadataFields | undefined,
+): BookContributor[] {
+  const contributors: BookContributor[] = [{ name: author, role: "author" }];
+  for (const role of CREDITED_ROLES) {
+    const credit = fields?.[role]?.value;
+    if (credit) {
+      contributors.push({ name: credit, role });
+    }
+  }
+  return contributors;
+}
+
+/**
+ * metadataFields after applying changes: edited fields become
+ * reviewer-sourced, cleared fields are dropped
+ */
+export function metadataFieldsAfterChanges(
+  fields: MetadataFields | undefined,
+  changes: MetadataChange[],
+  now: number,
+): MetadataFields {
+  const next: MetadataFields = { ...fields };
+  const review = (name: MetadataFieldName, value: string | undefined) => {
+    if (value === undefined) {
+      delete next[name];
+      return;
+    }
+    next[name] = {
+      ...next[name],
+      value,
+      confidence: 1,
+      source: "reviewer",
+      reviewedAt: now,
+    };
+  };
+
+  for (const change of changes) {
+    const name = REVIEWED_FIELD[change.field];
+    if (name) {
+      review(
+        name,
+        change.newValue === undefined ? undefined : String(change.newValue),
+      );
+    }
+
+    if (change.field === "contributors") {
+      const contributors = (change.newValue ?? []) as BookContributor[];
+      for (const role of CREDITED_ROLES) {
+        const names = contributors
+          .filter((contributor) => contributor.role === role)
+          .map((contributor) => contributor.name);
+        review(role, names.length > 0 ? names.join(", ") : undefined);
+      }
+    }
+  }
+
+  return next;
+}
@@ -0,0 +1,98 @@
+/**
+ * PDF interior export
+ *
+ * Renders a book's approved cleanup revision with a template as an export
+ * job. The job walks loading_content -> rendering_pdf -> storing_output and
+ * keeps the stored PDF on the job for download.
+ */
+
+import { v } from "convex/values";
+import { internalAction, mutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  copyrightPageLines,
+  countWords,
+  failExportJob,
+  finishExportJob,
+  loadChapterTexts,
+  queueExportJob,
+} from "./exportJobs";
+import { renderInteriorPdf } from "./pdfInterior";
+import { PLATFORM_RULES, resolvePrintSettings } from "./printSpecs";
+
+/**
+ * Queue a PDF interior export for an approved, copyright-cleared book
+ */
+export const start = mutation({
+  args: {
+    bookId: v.id("books"),
+    templateId: v.id("templates"),
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, args) => {
+    const jobId = await queueExportJob(ctx, { ...args, format: "pdf" });
+    await ctx.scheduler.runAfter(0, internal.pdfExport.renderInterior, {
+      jobId,
+    });
+    return jobId;
+  },
+});
+
+/**
+ * Export job: load the approved text, lay it out and store the PDF
+ */
+export const renderInterior = internalAction({
+  args: { jobId: v.id("jobs") },
+  handler: async (ctx, args) => {
+    try {
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "loading_content",
+        progress: 10,
+      });
+      const source = await ctx.runQuery(internal.exportJobs.loadExportSource, {
+        jobId: args.jobId,
+      });
+      const chapters = await loadChapterTexts(ctx, source);
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "rendering_pdf",
+        progress: 40,
+      });
+      const { book } = source;
+      const printSettings = resolvePrintSettings(source.template.settings);
+      const rendered = await renderInteriorPdf(
+        {
+          title: book.title,
+          subtitle: book.subtitle,
+          author: book.author,
+          copyrightLines: copyrightPageLines(source),
+          chapters,
+        },
+        printSettings,
+      );
+      if (rendered.issues.length > 0) {
+        throw new Error(
+          `Interior does not meet ${PLATFORM_RULES[printSettings.platform].label} requirements: ${rendered.issues.join("; ")}`,
+        );
+      }
+
+      await ctx.runMutation(internal.exportJobs.updateExportStage, {
+        jobId: args.jobId,
+        stage: "storing_output",
+        progress: 85,
+      });
+      await finishExportJob(ctx, args.jobId, {
+        bytes: rendered.bytes,
+        contentType: "application/pdf",
+        revisionId: source.revision._id,
+        pageCount: rendered.pageCount,
+        wordCount: countWords(chapters),
+        logs: `Rendered ${rendered.pageCount} pages (${printSettings.trim.id}, ${rendered.margins.inside}" gutter${printSettings.bleed ? ", bleed" : ""}) from cleanup revision ${source.revision.revisionNumber} with the ${source.template.name} template (v${source.template.version})`,
+      });
+    } catch (error) {
+      await failExportJob(ctx, args.jobId, error);
+    }
+  },
+});
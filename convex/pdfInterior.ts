@@ -0,0 +1,175 @@
+/**
+ * PDF interior renderer
+ *
+ * Draws the page model from pdfLayout.ts with the standard PDF faces for
+ * the template's body and heading font families, and Zapf Dingbats for
+ * ornaments, so no font files need to ship with the deployment. Characters
+ * the standard fonts cannot encode fall back to their unaccented form, or
+ * "?".
+ */
+
+import { PDFDocument, StandardFonts, type PDFFont } from "pdf-lib";
+import {
+  layoutPrintInterior,
+  type FontStyle,
+  type InteriorBook,
+  type MeasureText,
+} from "./pdfLayout";
+import {
+  BLEED_INCHES,
+  type FontFamily,
+  type PrintSettings,
+} from "./printSpecs";
+import { POINTS_PER_INCH } from "./pdfLayout";
+
+const FONT_FACES: Record<
+  FontFamily,
+  Record<"regular" | "italic" | "bold", StandardFonts>
+> = {
+  serif: {
+    regular: StandardFonts.TimesRoman,
+    italic: StandardFonts.TimesRomanItalic,
+    bold: StandardFonts.TimesRomanBold,
+  },
+  sans: {
+    regular: StandardFonts.Helvetica,
+    italic: StandardFonts.HelveticaOblique,
+    bold: StandardFonts.HelveticaBold,
+  },
+  mono: {
+    regular: StandardFonts.Courier,
+    italic: StandardFonts.CourierOblique,
+    bold: StandardFonts.CourierBold,
+  },
+};
+
+const TYPOGRAPHIC_FALLBACKS: Record<string, string> = {
+  "\u2010": "-",
+  "\u2011": "-",
+  "\u2012": "-",
+  "\u2015": "\u2014",
+  "\u2032": "'",
+  "\u2033": '"',
+  "\u2002": " ",
+  "\u2003": " ",
+  "\u2009": " ",
+  "\u202f": " ",
+};
+
+/**
+ * Map text onto the characters a standard font can encode
+ */
+export function encodableText(supported: Set<number>) {
+  return (text: string) => {
+    let result = "";
+    for (const ch of text) {
+      const code = ch.codePointAt(0) ?? 0;
+      // Line breaks still separate paragraphs for the layout
+      if (ch === "\n" || supported.has(code)) {
+        result += ch;
+        continue;
+      }
+      const fallback =
+        TYPOGRAPHIC_FALLBACKS[ch] ??
+        ch.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+      result += [...fallback].every((part) =>
+        supported.has(part.codePointAt(0) ?? 0),
+      )
+        ? fallback
+        : "?";
+    }
+    return result;
+  };
+}
+
+/**
+ * The template's faces embedded in a document, with their measure and the
+ * mapping of book text onto what they can encode
+ */
+export async function embedInteriorFonts(
+  pdf: PDFDocument,
+  settings: Pick<PrintSettings, "fontFamily" | "headingFontFamily">,
+) {
+  const faces = FONT_FACES[settings.fontFamily];
+  const fonts: Record<FontStyle, PDFFont> = {
+    regular: await pdf.embedFont(faces.regular),
+    italic: await pdf.embedFont(faces.italic),
+    bold: await pdf.embedFont(faces.bold),
+    heading: await pdf.embedFont(FONT_FACES[settings.headingFontFamily].bold),
+    ornament: await pdf.embedFont(StandardFonts.ZapfDingbats),
+  };
+  const measure: MeasureText = (text, style, size) =>
+    fonts[style].widthOfTextAtSize(text, size);
+  const encodable = encodableText(new Set(fonts.regular.getCharacterSet()));
+  const encodeBook = (book: InteriorBook): InteriorBook => ({
+    title: encodable(book.title),
+    subtitle: book.subtitle ? encodable(book.subtitle) : undefined,
+    author: encodable(book.author),
+    copyrightLines: book.copyrightLines.map(encodable),
+    chapters: book.chapters.map((chapter) => ({
+      title: encodable(chapter.title),
+      text: encodable(chapter.text),
+      volume: chapter.volume && {
+        title: encodable(chapter.volume.title),
+        subtitle: chapter.volume.subtitle
+          ? encodable(chapter.volume.subtitle)
+          : undefined,
+        author: encodable(chapter.volume.author),
+      },
+    })),
+  });
+  return { fonts, measure, encodeBook };
+}
+
+/**
+ * Render a print-ready interior PDF, with any platform requirements the
+ * finished layout misses
+ */
+export async function renderInteriorPdf(
+  book: InteriorBook,
+  settings: PrintSettings,
+) {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(book.title);
+  pdf.setAuthor(book.author);
+  pdf.setCreator("Bookzang");
+
+  const { fonts, measure, encodeBook } = await embedInteriorFonts(
+    pdf,
+    settings,
+  );
+  const { layout, margins, issues } = layoutPrintInterior(encodeBook(book), {
+    settings,
+    measure,
+  });
+
+  const bleed = settings.bleed ? BLEED_INCHES * POINTS_PER_INCH : 0;
+  layout.pages.forEach((laidOut, index) => {
+    const page = pdf.addPage([layout.width, layout.height]);
+    if (bleed > 0) {
+      // Bleed runs off the outside edge: right on rectos, left on versos
+      page.setTrimBox(
+        index % 2 === 0 ? 0 : bleed,
+        bleed,
+        settings.trim.width * POINTS_PER_INCH,
+        settings.trim.height * POINTS_PER_INCH,
+      );
+      page.setBleedBox(0, 0, layout.width, layout.height);
+    }
+    for (const item of laidOut.items) {
+      page.drawText(item.text, {
+        x: item.x,
+        y: item.y,
+        size: item.size,
+        font: fonts[item.style],
+      });
+    }
+  });
+
+  return {
+    bytes: await pdf.save(),
+    pageCount: layout.pages.length,
+    margins,
+    issues,
+  };
+}
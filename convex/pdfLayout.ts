@@ -0,0 +1,975 @@
+/**
+ * PDF interior layout
+ *
+ * Lays out an approved book for print: half title, title page, copyright
+ * page and contents (roman folios), then chapters (arabic folios) with
+ * openers on a recto, running heads (book title on versos, chapter title
+ * on rectos) and page numbers. Text is set justified with the template's
+ * font size, line height and mirrored margins, keeping at least the
+ * template's widow/orphan minimum of a paragraph's lines together. The
+ * template also picks the opener's alignment, case and spacing, an
+ * optional drop cap and the section break ornament. Collections add a
+ * title page before each volume's first chapter, list volumes in the
+ * contents and use the volume title on versos.
+ *
+ * Chapter text is annotated markdown (see annotatedMarkdown.ts): verse is
+ * set line for line, quotations and lists are inset, and footnotes follow
+ * the chapter's text.
+ *
+ * Pure functions only - text widths come from the caller's measure, and
+ * pdfInterior.ts draws the result.
+ */
+
+import {
+  parseBlocks,
+  parseInline as parseInlineNodes,
+  sanitizeFootnoteId,
+  type BlockNode,
+  type HeadingLevel,
+  type InlineNode,
+} from "./annotatedMarkdown";
+import {
+  BLEED_INCHES,
+  DEFAULT_CHAPTER_OPENER,
+  SECTION_BREAKS,
+  effectiveMargins,
+  validatePrintLayout,
+  type ChapterOpener,
+  type PrintMargins,
+  type PrintSettings,
+  type SectionBreak,
+} from "./printSpecs";
+
+// Body text faces, the heading face (set bold) and the ornament dingbats
+export type FontStyle = "regular" | "italic" | "bold" | "heading" | "ornament";
+
+export type MeasureText = (
+  text: string,
+  style: FontStyle,
+  size: number,
+) => number;
+
+// Template settings; margins in inches, inside being the gutter edge
+export type InteriorSettings = {
+  fontSize: number;
+  lineHeight: number;
+  margins: PrintMargins;
+  widowOrphanLines?: number;
+  dropCaps?: boolean;
+  sectionBreak?: SectionBreak;
+  chapterOpener?: ChapterOpener;
+};
+
+// Trim size in inches
+export type TrimSize = { width: number; height: number };
+
+// Title page of one book in a collection
+export type VolumeTitle = { title: string; subtitle?: string; author: string };
+
+// A chapter with a volume opens that volume, after its title page
+export type InteriorChapter = {
+  title: string;
+  text: string;
+  volume?: VolumeTitle;
+};
+
+export type InteriorBook = {
+  title: string;
+  subtitle?: string;
+  author: string;
+  copyrightLines: string[];
+  chapters: InteriorChapter[];
+};
+
+export type PlacedText = {
+  text: string;
+  x: number;
+  y: number;
+  style: FontStyle;
+  size: number;
+};
+
+export type LaidOutPage = {
+  // Printed folio ("iii", "12"), also used for blank pages
+  label: string;
+  items: PlacedText[];
+};
+
+export type InteriorLayout = {
+  width: number;
+  height: number;
+  pages: LaidOutPage[];
+  contents: Array<{ title: string; page: string; volume?: boolean }>;
+};
+
+// Small caps are set as reduced capitals, superscripts reduced and raised
+type RunVariant = "smallcaps" | "superscript";
+type Run = { text: string; style: FontStyle; variant?: RunVariant };
+type Word = Run[];
+
+// Insets are in ems from both margins, for quotations and lists; list
+// items and table rows are set flush and ragged
+type Block =
+  | { kind: "paragraph"; words: Word[]; inset: number; plain?: boolean }
+  | { kind: "heading"; level: HeadingLevel; words: Word[] }
+  | { kind: "verse"; stanzas: Word[][][]; inset: number }
+  | { kind: "note"; words: Word[] }
+  | { kind: "break" };
+
+export const POINTS_PER_INCH = 72;
+
+export const DEFAULT_TRIM_SIZE: TrimSize = { width: 6, height: 9 };
+
+// Paragraph indent and drop cap, relative to the body text
+const INDENT_EMS = 1.5;
+const DROP_CAP_LINES = 3;
+// Cap height of the standard faces, as a fraction of the font size
+const CAP_HEIGHT = 0.7;
+const OPENER_TITLE_SCALE = 1.6;
+const HEADING_SCALE = 1.15;
+const NOTE_SCALE = 0.85;
+const SMALL_CAPS_SCALE = 0.78;
+const SUPERSCRIPT_SCALE = 0.6;
+const SUPERSCRIPT_RISE = 0.35;
+const QUOTE_INSET_EMS = 1.5;
+const VERSE_INSET_EMS = 2;
+// Verse lines too long for the measure turn over with a hanging indent
+const VERSE_TURNOVER_EMS = 1.5;
+const RUNNING_HEAD_SCALE = 0.8;
+const FOLIO_SCALE = 0.85;
+
+const ROMAN: Array<[number, string]> = [
+  [1000, "m"],
+  [900, "cm"],
+  [500, "d"],
+  [400, "cd"],
+  [100, "c"],
+  [90, "xc"],
+  [50, "l"],
+  [40, "xl"],
+  [10, "x"],
+  [9, "ix"],
+  [5, "v"],
+  [4, "iv"],
+  [1, "i"],
+];
+
+export function romanNumeral(value: number): string {
+  let remaining = value;
+  let result = "";
+  for (const [amount, numeral] of ROMAN) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
+
+// Characters of inline nodes with the style and variant each is set in
+function inlineChars(
+  nodes: InlineNode[],
+  style: FontStyle,
+  variant: RunVariant | undefined,
+  chars: Run[],
+) {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        for (const ch of node.text) {
+          if (variant === "superscript") {
+            chars.push({ text: ch, style, variant });
+          } else if (variant === "smallcaps" && ch !== ch.toUpperCase()) {
+            // Small caps keep capitals full size and reduce the rest
+            chars.push({ text: ch.toUpperCase(), style, variant });
+          } else {
+            chars.push({ text: ch, style });
+          }
+        }
+        break;
+      case "emphasis":
+        inlineChars(node.children, "italic", variant, chars);
+        break;
+      case "bold":
+        inlineChars(node.children, "bold", variant, chars);
+        break;
+      case "superscript":
+        inlineChars(node.children, style, "superscript", chars);
+        break;
+      case "smallcaps":
+        inlineChars(node.children, style, "smallcaps", chars);
+        break;
+      case "footnoteRef":
+        inlineChars(
+          [{ type: "text", text: sanitizeFootnoteId(node.id) }],
+          style,
+          "superscript",
+          chars,
+        );
+        break;
+    }
+  }
+  return chars;
+}
+
+// Split characters into words of runs at whitespace
+function inlineWords(nodes: InlineNode[]): Word[] {
+  const words: Word[] = [];
+  let current: Run[] = [];
+  for (const char of inlineChars(nodes, "regular", undefined, [])) {
+    if (/\s/.test(char.text)) {
+      if (current.length > 0) {
+        words.push(current);
+        current = [];
+      }
+      continue;
+    }
+    const lastRun = current[current.length - 1];
+    if (lastRun?.style === char.style && lastRun.variant === char.variant) {
+      lastRun.text += char.text;
+    } else {
+      current.push({ ...char });
+    }
+  }
+  if (current.length > 0) {
+    words.push(current);
+  }
+  return words;
+}
+
+/**
+ * Words with their runs. Annotated markdown emphasis and {bold:...} become
+ * font styles, {smallcaps:...} and {sup:...} run variants, and footnote
+ * references superscript labels; escaped characters are literal.
+ */
+export function parseInline(text: string): Word[] {
+  return inlineWords(parseInlineNodes(text));
+}
+
+function blockToInterior(block: BlockNode, inset: number): Block[] {
+  switch (block.type) {
+    case "heading":
+      return [
+        {
+          kind: "heading",
+          level: block.level,
+          words: inlineWords(block.children),
+        },
+      ];
+    case "paragraph":
+      return [{ kind: "paragraph", words: inlineWords(block.children), inset }];
+    case "blockquote":
+      return block.children.flatMap((child) =>
+        blockToInterior(child, inset + QUOTE_INSET_EMS),
+      );
+    case "verse":
+      return [
+        {
+          kind: "verse",
+          stanzas: block.stanzas.map((stanza) => stanza.map(inlineWords)),
+          inset: inset + VERSE_INSET_EMS,
+        },
+      ];
+    case "list":
+      return block.items.map((item, index) => ({
+        kind: "paragraph",
+        words: [
+          [{ text: block.ordered ? `${index + 1}.` : "•", style: "regular" }],
+          ...inlineWords(item),
+        ],
+        inset: inset + QUOTE_INSET_EMS,
+        plain: true,
+      }));
+    case "table":
+      // One line per row, cells separated by a middle dot
+      return block.rows.map((row, index) => ({
+        kind: "paragraph",
+        words: row.flatMap((cell, cellIndex) => {
+          const words = inlineWords(cell).map((word) =>
+            block.hasHeader && index === 0
+              ? word.map((run) => ({ ...run, style: "bold" as const }))
+              : word,
+          );
+          return cellIndex === 0
+            ? words
+            : [[{ text: "·", style: "regular" as const }], ...words];
+        }),
+        inset,
+        plain: true,
+      }));
+    case "footnote":
+      return [
+        {
+          kind: "note",
+          words: [
+            [{ text: `${sanitizeFootnoteId(block.id)}.`, style: "regular" }],
+            ...inlineWords(block.children),
+          ],
+        },
+      ];
+    case "break":
+      return [{ kind: "break" }];
+  }
+}
+
+/**
+ * Blocks of a chapter's annotated markdown. Footnote bodies are collected
+ * after the text, as in the EPUB.
+ */
+export function interiorBlocks(text: string): Block[] {
+  const blocks = parseBlocks(text);
+  return [
+    ...blocks.filter((block) => block.type !== "footnote"),
+    ...blocks.filter((block) => block.type === "footnote"),
+  ].flatMap((block) => blockToInterior(block, 0));
+}
+
+/**
+ * Line indexes where a paragraph of lineCount lines moves to a new page,
+ * given the lines left on the current page. No page keeps fewer than
+ * minLines of the paragraph at its foot (orphan) or head (widow); the
+ * short page is left with a ragged bottom instead.
+ */
+export function paragraphBreaks(
+  lineCount: number,
+  linesLeft: number,
+  linesPerPage: number,
+  minLines: number,
+): number[] {
+  const breaks: number[] = [];
+  let start = 0;
+  let room = linesLeft;
+  while (lineCount - start > room) {
+    let take = room;
+    if (minLines > 1 && linesPerPage >= minLines * 2) {
+      if (lineCount - start - take < minLines) {
+        take = lineCount - start - minLines;
+      }
+      if (take < minLines) {
+        take = 0;
+      }
+    }
+    if (take <= 0 && room >= linesPerPage) {
+      take = room;
+    }
+    start += Math.max(0, take);
+    breaks.push(start);
+    room = linesPerPage;
+  }
+  return breaks;
+}
+
+/**
+ * Lay out the whole interior
+ */
+export function layoutInterior(
+  book: InteriorBook,
+  options: {
+    settings: InteriorSettings;
+    trim?: TrimSize;
+    bleed?: boolean;
+    measure: MeasureText;
+  },
+): InteriorLayout {
+  const { settings, measure } = options;
+  const trim = options.trim ?? DEFAULT_TRIM_SIZE;
+  const width = trim.width * POINTS_PER_INCH;
+  const height = trim.height * POINTS_PER_INCH;
+  const margin = {
+    top: settings.margins.top * POINTS_PER_INCH,
+    bottom: settings.margins.bottom * POINTS_PER_INCH,
+    inside: settings.margins.inside * POINTS_PER_INCH,
+    outside: settings.margins.outside * POINTS_PER_INCH,
+  };
+  const size = settings.fontSize;
+  const leading = size * settings.lineHeight;
+  const minLines = settings.widowOrphanLines ?? 2;
+  const opener = settings.chapterOpener ?? DEFAULT_CHAPTER_OPENER;
+  const ornament = SECTION_BREAKS[settings.sectionBreak ?? "asterisks"].glyph;
+  // Laid out as a recto; versos are shifted at the end
+  const blockLeft = margin.inside;
+  const blockWidth = width - margin.inside - margin.outside;
+  const blockTop = height - margin.top;
+  const blockBottom = margin.bottom;
+
+  const runSize = (run: Run, wordSize: number) =>
+    run.variant === "superscript"
+      ? wordSize * SUPERSCRIPT_SCALE
+      : run.variant === "smallcaps"
+        ? wordSize * SMALL_CAPS_SCALE
+        : wordSize;
+
+  const wordWidth = (word: Word, wordSize: number) =>
+    word.reduce(
+      (total, run) =>
+        total + measure(run.text, run.style, runSize(run, wordSize)),
+      0,
+    );
+
+  const centered = (
+    text: string,
+    y: number,
+    style: FontStyle,
+    textSize: number,
+  ): PlacedText => ({
+    text,
+    x: blockLeft + (blockWidth - measure(text, style, textSize)) / 2,
+    y,
+    style,
+    size: textSize,
+  });
+
+  const placeWord = (
+    items: PlacedText[],
+    word: Word,
+    x: number,
+    y: number,
+    wordSize: number,
+  ) => {
+    let cursor = x;
+    for (const run of word) {
+      const textSize = runSize(run, wordSize);
+      items.push({
+        text: run.text,
+        x: cursor,
+        y: run.variant === "superscript" ? y + wordSize * SUPERSCRIPT_RISE : y,
+        style: run.style,
+        size: textSize,
+      });
+      cursor += measure(run.text, run.style, textSize);
+    }
+  };
+
+  // Greedy line breaking; an over-long word gets a line of its own. Lines
+  // end rightInset short of the text block's right edge.
+  const breakLines = (
+    words: Word[],
+    indentOf: (lineIndex: number) => number,
+    wordSize: number,
+    rightInset = 0,
+  ) => {
+    const space = measure(" ", "regular", wordSize);
+    const end = blockWidth - rightInset;
+    const lines: Array<{
+      words: Word[];
+      widths: number[];
+      indent: number;
+      end: number;
+    }> = [];
+    let line = {
+      words: [] as Word[],
+      widths: [] as number[],
+      indent: indentOf(0),
+      end,
+    };
+    let used = line.indent;
+    for (const word of words) {
+      const w = wordWidth(word, wordSize);
+      const needed = line.words.length > 0 ? used + space + w : used + w;
+      if (needed > end && line.words.length > 0) {
+        lines.push(line);
+        line = {
+          words: [word],
+          widths: [w],
+          indent: indentOf(lines.length),
+          end,
+        };
+        used = line.indent + w;
+      } else {
+        line.words.push(word);
+        line.widths.push(w);
+        used = needed;
+      }
+    }
+    if (line.words.length > 0) {
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  const frontPages: LaidOutPage[] = [];
+  const bodyPages: LaidOutPage[] = [];
+
+  // Front matter: half title, blank, title page, copyright page
+  frontPages.push({
+    label: "i",
+    items: [
+      centered(book.title, height * 0.66, "regular", size * OPENER_TITLE_SCALE),
+    ],
+  });
+  frontPages.push({ label: "ii", items: [] });
+
+  const titlePageItems = (title: VolumeTitle) => [
+    centered(title.title, height * 0.66, "heading", size * 2),
+    ...(title.subtitle
+      ? [
+          centered(
+            title.subtitle,
+            height * 0.66 - size * 2.6,
+            "italic",
+            size * 1.2,
+          ),
+        ]
+      : []),
+    centered(title.author, height * 0.45, "regular", size * 1.3),
+  ];
+  frontPages.push({ label: "iii", items: titlePageItems(book) });
+
+  const copyrightSize = size * 0.8;
+  frontPages.push({
+    label: "iv",
+    items: book.copyrightLines.flatMap((line, index) => {
+      const y =
+        blockBottom +
+        (book.copyrightLines.length - 1 - index) * copyrightSize * 1.5;
+      return line
+        ? [
+            {
+              text: line,
+              x: blockLeft,
+              y,
+              style: "regular" as const,
+              size: copyrightSize,
+            },
+          ]
+        : [];
+    }),
+  });
+
+  // Contents pages are sized now and filled once page numbers are known
+  const contentsHeadingY = blockTop - size * OPENER_TITLE_SCALE;
+  const contentsFirstY = contentsHeadingY - leading * 3;
+  const entriesFirstPage = Math.max(
+    1,
+    Math.floor((contentsFirstY - blockBottom) / leading) + 1,
+  );
+  const entriesPerPage = Math.max(
+    1,
+    Math.floor((blockTop - size - blockBottom) / leading) + 1,
+  );
+  const hasVolumes = book.chapters.some((chapter) => chapter.volume);
+  const entryCount =
+    book.chapters.length +
+    book.chapters.filter((chapter) => chapter.volume).length;
+  const contentsPageCount =
+    entryCount <= entriesFirstPage
+      ? 1
+      : 1 + Math.ceil((entryCount - entriesFirstPage) / entriesPerPage);
+  const contentsStart = frontPages.length;
+  for (let i = 0; i < contentsPageCount; i += 1) {
+    frontPages.push({
+      label: romanNumeral(frontPages.length + 1),
+      items: [],
+    });
+  }
+  // Body starts on a recto
+  if (frontPages.length % 2 === 1) {
+    frontPages.push({ label: romanNumeral(frontPages.length + 1), items: [] });
+  }
+
+  // Body
+  const linesPerPage = Math.max(
+    1,
+    Math.floor((blockTop - size - blockBottom) / leading) + 1,
+  );
+  const openerPages = new Set<number>();
+  const volumePages = new Set<number>();
+  const chapterOfPage: string[] = [];
+  const volumeOfPage: string[] = [];
+  const contents: InteriorLayout["contents"] = [];
+
+  let page: LaidOutPage | null = null;
+  let line = 0;
+  let chapterTitle = "";
+  let volumeTitle = book.title;
+
+  const newPage = () => {
+    page = { label: String(bodyPages.length + 1), items: [] };
+    bodyPages.push(page);
+    chapterOfPage.push(chapterTitle);
+    volumeOfPage.push(volumeTitle);
+    line = 0;
+    return page;
+  };
+  const currentPage = () => page ?? newPage();
+  const baseline = (index: number) => blockTop - size - index * leading;
+
+  // Place lines, moving to a new page at the widow/orphan-safe breaks
+  const placeLines = (
+    lines: ReturnType<typeof breakLines>,
+    options: { justify: boolean; center?: boolean; lineSize: number },
+  ) => {
+    const space = measure(" ", "regular", options.lineSize);
+    const breaks = new Set(
+      paragraphBreaks(
+        lines.length,
+        linesPerPage - line,
+        linesPerPage,
+        minLines,
+      ),
+    );
+    lines.forEach((entry, index) => {
+      if (breaks.has(index) || line >= linesPerPage) {
+        newPage();
+      }
+      const target = currentPage();
+      const y = baseline(line);
+      const natural =
+        entry.widths.reduce((total, w) => total + w, 0) +
+        space * Math.max(0, entry.words.length - 1);
+      const isLast = index === lines.length - 1;
+      const gap =
+        options.justify && !isLast && entry.words.length > 1
+          ? (entry.end - entry.indent - natural) / (entry.words.length - 1) +
+            space
+          : space;
+      let x = options.center
+        ? blockLeft + (blockWidth - natural) / 2
+        : blockLeft + entry.indent;
+      entry.words.forEach((word, wordIndex) => {
+        placeWord(target.items, word, x, y, options.lineSize);
+        x += entry.widths[wordIndex] + gap;
+      });
+      line += 1;
+    });
+  };
+
+  // The first letter, with any opening punctuation, set as a drop cap
+  // beside the paragraph's first lines
+  const placeDropCap = (words: Word[]) => {
+    const first = words[0]?.[0];
+    const match = first?.text.match(/^[\p{Ps}\p{Pi}"']*[\p{L}\p{N}]/u);
+    if (!first || !match || line + DROP_CAP_LINES > linesPerPage) {
+      return null;
+    }
+    const capSize =
+      ((DROP_CAP_LINES - 1) * leading + size * CAP_HEIGHT) / CAP_HEIGHT;
+    const target = currentPage();
+    target.items.push({
+      text: match[0],
+      x: blockLeft,
+      y: baseline(line + DROP_CAP_LINES - 1),
+      style: "regular",
+      size: capSize,
+    });
+    const rest = first.text.slice(match[0].length);
+    const firstWord = rest
+      ? [{ ...first, text: rest }, ...words[0].slice(1)]
+      : words[0].slice(1);
+    return {
+      words:
+        firstWord.length > 0 ? [firstWord, ...words.slice(1)] : words.slice(1),
+      indent: measure(match[0], "regular", capSize) + size * 0.25,
+      page: target,
+      endLine: line + DROP_CAP_LINES,
+    };
+  };
+
+  for (const chapter of book.chapters) {
+    if (chapter.volume) {
+      // A volume's title page is a recto with no head or folio
+      volumeTitle = chapter.volume.title;
+      chapterTitle = chapter.volume.title;
+      newPage();
+      if (bodyPages.length % 2 === 0) {
+        newPage();
+      }
+      const volumePage = currentPage();
+      volumePages.add(bodyPages.length - 1);
+      volumePage.items.push(...titlePageItems(chapter.volume));
+      contents.push({
+        title: chapter.volume.title,
+        page: volumePage.label,
+        volume: true,
+      });
+    }
+    chapterTitle = chapter.title;
+    // Openers start on a recto (odd page)
+    newPage();
+    if (bodyPages.length % 2 === 0) {
+      newPage();
+    }
+    const openerPage = currentPage();
+    openerPages.add(bodyPages.length - 1);
+    contents.push({ title: chapter.title, page: openerPage.label });
+
+    const titleSize = size * OPENER_TITLE_SCALE;
+    const titleLines = breakLines(
+      parseInline(chapter.title).map((word) =>
+        word.map((run) =>
+          opener.uppercase ? { ...run, text: run.text.toUpperCase() } : run,
+        ),
+      ),
+      () => 0,
+      titleSize,
+    );
+    line = Math.floor(linesPerPage * opener.drop);
+    for (const titleLine of titleLines) {
+      const natural =
+        titleLine.widths.reduce((total, w) => total + w, 0) +
+        measure(" ", "regular", titleSize) * (titleLine.words.length - 1);
+      let x =
+        opener.align === "left"
+          ? blockLeft
+          : blockLeft + (blockWidth - natural) / 2;
+      titleLine.words.forEach((word, index) => {
+        placeWord(
+          openerPage.items,
+          word.map((run) => ({ ...run, style: "heading" as const })),
+          x,
+          baseline(line),
+          titleSize,
+        );
+        x += titleLine.widths[index] + measure(" ", "regular", titleSize);
+      });
+      line += Math.ceil(OPENER_TITLE_SCALE);
+    }
+    line += opener.spaceAfter;
+
+    // A blank line between blocks set apart from the running text
+    const skipLine = () => {
+      if (line > 0 && line < linesPerPage) {
+        line += 1;
+      }
+    };
+
+    let afterBreak = true;
+    let firstParagraph = true;
+    let notesStarted = false;
+    for (const block of interiorBlocks(chapter.text)) {
+      if (block.kind === "break") {
+        if (line > 0 && line < linesPerPage) {
+          if (ornament) {
+            currentPage().items.push(
+              centered(
+                ornament,
+                baseline(line),
+                ornament.startsWith("*") ? "regular" : "ornament",
+                size,
+              ),
+            );
+          }
+          line += 1;
+        }
+        afterBreak = true;
+        continue;
+      }
+      if (block.kind === "heading") {
+        // Keep a subheading with at least two lines of its text
+        if (line + 3 > linesPerPage) {
+          newPage();
+        } else if (line > 0) {
+          line += 1;
+        }
+        const headingSize = size * (block.level <= 2 ? HEADING_SCALE : 1);
+        placeLines(
+          breakLines(
+            block.words.map((word) =>
+              word.map((run) => ({ ...run, style: "heading" as const })),
+            ),
+            () => 0,
+            headingSize,
+          ),
+          { justify: false, center: true, lineSize: headingSize },
+        );
+        afterBreak = true;
+        continue;
+      }
+      if (block.kind === "verse") {
+        // Line for line, stanzas kept together where the page allows
+        const inset = size * block.inset;
+        for (const stanza of block.stanzas) {
+          skipLine();
+          placeLines(
+            stanza.flatMap((verseLine) =>
+              breakLines(
+                verseLine,
+                (index) =>
+                  index === 0 ? inset : inset + size * VERSE_TURNOVER_EMS,
+                size,
+                inset,
+              ),
+            ),
+            { justify: false, lineSize: size },
+          );
+        }
+        skipLine();
+        afterBreak = true;
+        continue;
+      }
+      if (block.kind === "note") {
+        // Notes follow the chapter's text, set small
+        if (!notesStarted) {
+          skipLine();
+          notesStarted = true;
+        }
+        placeLines(
+          breakLines(block.words, () => 0, size * NOTE_SCALE),
+          {
+            justify: true,
+            lineSize: size * NOTE_SCALE,
+          },
+        );
+        continue;
+      }
+      const dropCap =
+        firstParagraph && settings.dropCaps && block.inset === 0 && !block.plain
+          ? placeDropCap(block.words)
+          : null;
+      firstParagraph = false;
+      if (dropCap) {
+        placeLines(
+          breakLines(
+            dropCap.words,
+            (index) => (index < DROP_CAP_LINES ? dropCap.indent : 0),
+            size,
+          ),
+          { justify: true, lineSize: size },
+        );
+        // A short paragraph still leaves room for the whole cap
+        if (currentPage() === dropCap.page) {
+          line = Math.max(line, dropCap.endLine);
+        }
+      } else {
+        const inset = size * block.inset;
+        const indent = afterBreak || block.plain ? 0 : size * INDENT_EMS;
+        placeLines(
+          breakLines(
+            block.words,
+            (index) => inset + (index === 0 ? indent : 0),
+            size,
+            inset,
+          ),
+          { justify: !block.plain, lineSize: size },
+        );
+      }
+      afterBreak = false;
+    }
+  }
+
+  // Running heads and folios for body pages
+  const headSize = size * RUNNING_HEAD_SCALE;
+  const folioSize = size * FOLIO_SCALE;
+  const headY = height - margin.top / 2;
+  const folioY = margin.bottom / 2;
+  bodyPages.forEach((bodyPage, index) => {
+    if (bodyPage.items.length === 0 || volumePages.has(index)) {
+      return;
+    }
+    if (!openerPages.has(index)) {
+      const head =
+        (index + 1) % 2 === 0 ? volumeOfPage[index] : chapterOfPage[index];
+      bodyPage.items.push(centered(head, headY, "italic", headSize));
+    }
+    bodyPage.items.push(centered(bodyPage.label, folioY, "regular", folioSize));
+  });
+
+  // Fill the contents now that opener pages are numbered
+  const folioWidth = (label: string) => measure(label, "regular", size);
+  contents.forEach((entry, index) => {
+    const pageIndex =
+      index < entriesFirstPage
+        ? 0
+        : 1 + Math.floor((index - entriesFirstPage) / entriesPerPage);
+    const row =
+      index < entriesFirstPage
+        ? index
+        : (index - entriesFirstPage) % entriesPerPage;
+    const y =
+      pageIndex === 0
+        ? contentsFirstY - row * leading
+        : blockTop - size - row * leading;
+    const target = frontPages[contentsStart + pageIndex];
+    // Chapters sit indented under their volume
+    const indent = hasVolumes && !entry.volume ? size * INDENT_EMS : 0;
+    const style = entry.volume ? "heading" : "regular";
+    let title = entry.title;
+    const room = blockWidth - indent - folioWidth(entry.page) - size * 2;
+    while (title.length > 1 && measure(title, style, size) > room) {
+      title = `${title.slice(0, -2).trimEnd()}…`;
+    }
+    target.items.push({ text: title, x: blockLeft + indent, y, style, size });
+    target.items.push({
+      text: entry.page,
+      x: blockLeft + blockWidth - folioWidth(entry.page),
+      y,
+      style: "regular",
+      size,
+    });
+  });
+  const contentsPage = frontPages[contentsStart];
+  contentsPage.items.unshift(
+    centered(
+      "Contents",
+      contentsHeadingY,
+      "heading",
+      size * OPENER_TITLE_SCALE,
+    ),
+  );
+  for (let i = 0; i < contentsPageCount; i += 1) {
+    const target = frontPages[contentsStart + i];
+    target.items.push(centered(target.label, folioY, "regular", folioSize));
+  }
+
+  // Mirror versos so the gutter is on the spine side, and offset by bleed
+  const bleed = options.bleed ? BLEED_INCHES * POINTS_PER_INCH : 0;
+  const pages = [...frontPages, ...bodyPages];
+  pages.forEach((laidOut, index) => {
+    const shift = index % 2 === 0 ? 0 : margin.outside - margin.inside + bleed;
+    for (const item of laidOut.items) {
+      item.x += shift;
+      item.y += bleed;
+    }
+  });
+
+  return {
+    width: width + bleed,
+    height: height + bleed * 2,
+    pages,
+    contents,
+  };
+}
+
+/**
+ * Lay out for a print platform. The gutter depends on the final page
+ * count, so the layout is redone until the count stays in one gutter band,
+ * then checked against the platform's minimums.
+ */
+export function layoutPrintInterior(
+  book: InteriorBook,
+  options: { settings: PrintSettings; measure: MeasureText },
+) {
+  const { settings, measure } = options;
+  const layoutWith = (margins: PrintMargins) =>
+    layoutInterior(book, {
+      settings: {
+        fontSize: settings.fontSize,
+        lineHeight: settings.lineHeight,
+        margins,
+        widowOrphanLines: settings.widowOrphanLines,
+        dropCaps: settings.dropCaps,
+        sectionBreak: settings.sectionBreak,
+        chapterOpener: settings.chapterOpener,
+      },
+      trim: settings.trim,
+      bleed: settings.bleed,
+      measure,
+    });
+
+  let margins = effectiveMargins(settings, 0);
+  let layout = layoutWith(margins);
+  for (let pass = 0; pass < 4; pass += 1) {
+    const next = effectiveMargins(settings, layout.pages.length);
+    if (next.inside === margins.inside) {
+      break;
+    }
+    margins = next;
+    layout = layoutWith(margins);
+  }
+
+  return {
+    layout,
+    margins,
+    issues: validatePrintLayout(settings, margins, layout.pages.length),
+  };
+}
@@ -0,0 +1,343 @@
+/**
+ * Print specifications for KDP and IngramSpark interiors
+ *
+ * Template settings name a trim size, bleed, mirrored inside/outside
+ * margins, body and heading fonts, drop caps, a section break ornament,
+ * the chapter opener and widow/orphan control. The inside margin is a
+ * floor: the gutter grows with page count to the platform's requirement,
+ * and the finished layout is validated against the platform's minimum
+ * margins and page-count range. All measurements are in inches.
+ *
+ * Pure functions only - pdfLayout.ts and epubBuild.ts lay out against
+ * these settings, pdfExport.ts reports the validation and templates.ts
+ * checks edited settings with templateSettingsIssues.
+ */
+
+import { v, type Infer } from "convex/values";
+
+export const TRIM_SIZES = [
+  { id: "5x8", width: 5, height: 8 },
+  { id: "5.06x7.81", width: 5.06, height: 7.81 },
+  { id: "5.25x8", width: 5.25, height: 8 },
+  { id: "5.5x8.5", width: 5.5, height: 8.5 },
+  { id: "6x9", width: 6, height: 9 },
+  { id: "6.14x9.21", width: 6.14, height: 9.21 },
+  { id: "7x10", width: 7, height: 10 },
+  { id: "8.5x11", width: 8.5, height: 11 },
+] as const;
+
+export type TrimSizeId = (typeof TRIM_SIZES)[number]["id"];
+
+export const DEFAULT_TRIM_SIZE_ID: TrimSizeId = "6x9";
+
+// Bleed extends the outside edge, top and bottom of every page
+export const BLEED_INCHES = 0.125;
+
+export const printPlatformValidator = v.union(
+  v.literal("kdp"),
+  v.literal("ingramspark"),
+);
+
+export type PrintPlatform = Infer<typeof printPlatformValidator>;
+
+export const fontFamilyValidator = v.union(
+  v.literal("serif"),
+  v.literal("sans"),
+  v.literal("mono"),
+);
+
+export type FontFamily = Infer<typeof fontFamilyValidator>;
+
+export const sectionBreakValidator = v.union(
+  v.literal("asterisks"),
+  v.literal("fleuron"),
+  v.literal("hedera"),
+  v.literal("diamond"),
+  v.literal("space"),
+);
+
+export type SectionBreak = Infer<typeof sectionBreakValidator>;
+
+// Ornaments other than asterisks are set in the dingbat face
+export const SECTION_BREAKS: Record<
+  SectionBreak,
+  { label: string; glyph: string }
+> = {
+  asterisks: { label: "Asterisks", glyph: "*   *   *" },
+  fleuron: { label: "Fleuron", glyph: "\u2766" },
+  hedera: { label: "Hedera", glyph: "\u2767" },
+  diamond: { label: "Diamond", glyph: "\u2756" },
+  space: { label: "Blank line", glyph: "" },
+};
+
+// drop is the fraction of the text block above the title; spaceAfter is
+// in lines
+export const chapterOpenerValidator = v.object({
+  align: v.union(v.literal("center"), v.literal("left")),
+  uppercase: v.boolean(),
+  drop: v.number(),
+  spaceAfter: v.number(),
+});
+
+export type ChapterOpener = Infer<typeof chapterOpenerValidator>;
+
+export const DEFAULT_CHAPTER_OPENER: ChapterOpener = {
+  align: "center",
+  uppercase: false,
+  drop: 0.25,
+  spaceAfter: 2,
+};
+
+/**
+ * Stored template settings. Templates saved before print specs have
+ * left/right margins, read as inside/outside, and take the defaults below.
+ */
+export const templateSettingsValidator = v.object({
+  fontSize: v.number(),
+  lineHeight: v.number(),
+  margins: v.object({
+    top: v.number(),
+    bottom: v.number(),
+    inside: v.optional(v.number()),
+    outside: v.optional(v.number()),
+    left: v.optional(v.number()),
+    right: v.optional(v.number()),
+  }),
+  fontFamily: v.optional(fontFamilyValidator),
+  headingFontFamily: v.optional(fontFamilyValidator),
+  dropCaps: v.optional(v.boolean()),
+  sectionBreak: v.optional(sectionBreakValidator),
+  chapterOpener: v.optional(chapterOpenerValidator),
+  trimSize: v.optional(v.string()),
+  bleed: v.optional(v.boolean()),
+  platform: v.optional(printPlatformValidator),
+  // Fewest lines of a paragraph left alone at a page's foot or head
+  widowOrphanLines: v.optional(v.number()),
+});
+
+export type TemplateSettings = Infer<typeof templateSettingsValidator>;
+
+export type PrintMargins = {
+  top: number;
+  bottom: number;
+  inside: number;
+  outside: number;
+};
+
+export type PrintSettings = {
+  fontSize: number;
+  lineHeight: number;
+  fontFamily: FontFamily;
+  headingFontFamily: FontFamily;
+  dropCaps: boolean;
+  sectionBreak: SectionBreak;
+  chapterOpener: ChapterOpener;
+  trim: { id: TrimSizeId; width: number; height: number };
+  bleed: boolean;
+  platform: PrintPlatform;
+  margins: PrintMargins;
+  widowOrphanLines: number;
+};
+
+type PlatformRules = {
+  label: string;
+  minPages: number;
+  maxPages: number;
+  // Minimum inside margin, by the highest page count it covers
+  gutter: Array<{ maxPages: number; inches: number }>;
+  outside: { bleed: number; noBleed: number };
+  topBottom: { bleed: number; noBleed: number };
+};
+
+export const PLATFORM_RULES: Record<PrintPlatform, PlatformRules> = {
+  kdp: {
+    label: "Amazon KDP",
+    minPages: 24,
+    maxPages: 828,
+    gutter: [
+      { maxPages: 150, inches: 0.375 },
+      { maxPages: 300, inches: 0.5 },
+      { maxPages: 500, inches: 0.625 },
+      { maxPages: 700, inches: 0.75 },
+      { maxPages: 828, inches: 0.875 },
+    ],
+    outside: { bleed: 0.375, noBleed: 0.25 },
+    topBottom: { bleed: 0.375, noBleed: 0.25 },
+  },
+  ingramspark: {
+    label: "IngramSpark",
+    minPages: 18,
+    maxPages: 1200,
+    gutter: [
+      { maxPages: 300, inches: 0.5 },
+      { maxPages: 600, inches: 0.625 },
+      { maxPages: 1200, inches: 0.75 },
+    ],
+    outside: { bleed: 0.5, noBleed: 0.5 },
+    topBottom: { bleed: 0.5, noBleed: 0.5 },
+  },
+};
+
+export function findTrimSize(id: string | undefined) {
+  return TRIM_SIZES.find((size) => size.id === id);
+}
+
+/**
+ * Template settings with defaults filled in and margins mirrored
+ */
+export function resolvePrintSettings(
+  settings: TemplateSettings,
+): PrintSettings {
+  const trim =
+    findTrimSize(settings.trimSize) ?? findTrimSize(DEFAULT_TRIM_SIZE_ID)!;
+  const fontFamily = settings.fontFamily ?? "serif";
+  return {
+    fontSize: settings.fontSize,
+    lineHeight: settings.lineHeight,
+    fontFamily,
+    headingFontFamily: settings.headingFontFamily ?? fontFamily,
+    dropCaps: settings.dropCaps ?? false,
+    sectionBreak: settings.sectionBreak ?? "asterisks",
+    chapterOpener: settings.chapterOpener ?? DEFAULT_CHAPTER_OPENER,
+    trim,
+    bleed: settings.bleed ?? false,
+    platform: settings.platform ?? "kdp",
+    margins: {
+      top: settings.margins.top,
+      bottom: settings.margins.bottom,
+      inside: settings.margins.inside ?? settings.margins.left ?? 0,
+      outside: settings.margins.outside ?? settings.margins.right ?? 0,
+    },
+    widowOrphanLines: settings.widowOrphanLines ?? 2,
+  };
+}
+
+/**
+ * The platform's minimum inside margin for a page count
+ */
+export function requiredGutter(platform: PrintPlatform, pageCount: number) {
+  const { gutter } = PLATFORM_RULES[platform];
+  return (
+    gutter.find((band) => pageCount <= band.maxPages) ??
+    gutter[gutter.length - 1]
+  ).inches;
+}
+
+export function minimumMargins(
+  platform: PrintPlatform,
+  pageCount: number,
+  bleed: boolean,
+): PrintMargins {
+  const rules = PLATFORM_RULES[platform];
+  const edge = (limits: { bleed: number; noBleed: number }) =>
+    bleed ? limits.bleed : limits.noBleed;
+  return {
+    top: edge(rules.topBottom),
+    bottom: edge(rules.topBottom),
+    inside: requiredGutter(platform, pageCount),
+    outside: edge(rules.outside),
+  };
+}
+
+/**
+ * Margins used for a page count: the template's, with the inside margin
+ * widened to the platform gutter
+ */
+export function effectiveMargins(
+  settings: PrintSettings,
+  pageCount: number,
+): PrintMargins {
+  return {
+    ...settings.margins,
+    inside: Math.max(
+      settings.margins.inside,
+      requiredGutter(settings.platform, pageCount),
+    ),
+  };
+}
+
+/**
+ * Problems that would get the interior rejected by the platform
+ */
+export function validatePrintLayout(
+  settings: PrintSettings,
+  margins: PrintMargins,
+  pageCount: number,
+): string[] {
+  const rules = PLATFORM_RULES[settings.platform];
+  const minimum = minimumMargins(settings.platform, pageCount, settings.bleed);
+  const issues: string[] = [];
+
+  if (pageCount < rules.minPages) {
+    issues.push(
+      `${rules.label} needs at least ${rules.minPages} pages; the interior has ${pageCount}`,
+    );
+  }
+  if (pageCount > rules.maxPages) {
+    issues.push(
+      `${rules.label} allows at most ${rules.maxPages} pages; the interior has ${pageCount}`,
+    );
+  }
+  for (const side of ["top", "bottom", "inside", "outside"] as const) {
+    if (margins[side] + 1e-9 < minimum[side]) {
+      issues.push(
+        `${side[0].toUpperCase()}${side.slice(1)} margin ${margins[side]}" is below the ${rules.label} minimum of ${minimum[side]}" for ${pageCount} pages${settings.bleed ? " with bleed" : ""}`,
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Problems with edited template settings, before any layout. Platform
+ * minimums depend on the page count and are checked at export.
+ */
+export function templateSettingsIssues(settings: TemplateSettings): string[] {
+  const issues: string[] = [];
+  const inRange = (label: string, value: number, min: number, max: number) => {
+    if (!Number.isFinite(value) || value < min || value > max) {
+      issues.push(`${label} must be between ${min} and ${max}`);
+    }
+  };
+
+  inRange("Font size", settings.fontSize, 6, 24);
+  inRange("Line height", settings.lineHeight, 1, 3);
+  if (settings.widowOrphanLines !== undefined) {
+    inRange("Widow/orphan lines", settings.widowOrphanLines, 1, 4);
+  }
+  if (settings.chapterOpener) {
+    inRange("Chapter drop", settings.chapterOpener.drop, 0, 0.5);
+    inRange(
+      "Space after chapter title",
+      settings.chapterOpener.spaceAfter,
+      0,
+      6,
+    );
+  }
+
+  const trim = findTrimSize(settings.trimSize ?? DEFAULT_TRIM_SIZE_ID);
+  if (!trim) {
+    issues.push(`Unknown trim size "${settings.trimSize}"`);
+    return issues;
+  }
+  const { margins } = resolvePrintSettings(settings);
+  for (const side of ["top", "bottom", "inside", "outside"] as const) {
+    inRange(
+      `${side[0].toUpperCase()}${side.slice(1)} margin`,
+      margins[side],
+      0,
+      2,
+    );
+  }
+  if (margins.inside + margins.outside > trim.width / 2) {
+    issues.push(
+      `Inside and outside margins leave less than half the ${trim.id} page width for text`,
+    );
+  }
+  if (margins.top + margins.bottom > trim.height / 2) {
+    issues.push(
+      `Top and bottom margins leave less than half the ${trim.id} page height for text`,
+    );
+  }
+  return issues;
+}
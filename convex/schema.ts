@@ -2,6 +2,23 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 import { cleanupJobStageValidator, mainJobStageValidator } from "./jobStages";
+import { metadataFieldsValidator } from "./gutenbergMetadata";
+import { territoryVerdictValidator } from "./copyrightRules";
+import { templateSettingsValidator } from "./printSpecs";
+import { exportFormatValidator } from "./exportJobs";
+import { coverDesignValidator, paperTypeValidator } from "./coverLayout";
+import { textOptionsValidator } from "./cleanText";
+import { chapterNumberingValidator } from "./collectionBuild";
+import {
+  datasetFiltersValidator,
+  datasetOptionsValidator,
+} from "./datasetBuild";
+import {
+  bookContributorValidator,
+  contributorRoleValidator,
+  editableMetadataFieldValidator,
+  metadataValueValidator,
+} from "./metadataEdits";
 
 const applicationTables = {
   books: defineTable({
@@ -32,16 +49,105 @@ const applicationTables = {
     importedAt: v.number(),
     fileId: v.optional(v.id("_storage")),
     fileName: v.optional(v.string()),
+    // Detected upload format; non-text uploads are converted at intake into
+    // annotated markdown plus a chapter manifest (see uploadFormats.ts)
+    sourceFormat: v.optional(
+      v.union(
+        v.literal("text"),
+        v.literal("markdown"),
+        v.literal("epub"),
+        v.literal("html"),
+        v.literal("html_zip"),
+        v.literal("docx"),
+      ),
+    ),
+    annotatedFileId: v.optional(v.id("_storage")),
+    chapterManifestFileId: v.optional(v.id("_storage")),
+    language: v.optional(v.string()),
+    subtitle: v.optional(v.string()),
+    series: v.optional(v.string()),
+    releaseDate: v.optional(v.string()),
+    // Per-field value, confidence and source line from intake extraction,
+    // see gutenbergMetadata.ts; reviewers confirm or correct weak fields
+    metadataFields: v.optional(metadataFieldsValidator),
+    metadataNeedsReview: v.optional(v.boolean()),
+    // Edited credits with roles; unset means author plus intake credits
+    contributors: v.optional(v.array(bookContributorValidator)),
+    subjects: v.optional(v.array(v.string())),
     lastError: v.optional(v.string()),
+    // MinHash signature of the body text, see editionMatching.ts
+    textFingerprint: v.optional(v.array(v.number())),
+    fingerprintedAt: v.optional(v.number()),
+    workFamilyId: v.optional(v.id("workFamilies")),
+    // Print cover artwork and back cover copy, see coverExport.ts
+    coverImageFileId: v.optional(v.id("_storage")),
+    coverBlurb: v.optional(v.string()),
   })
     .index("by_gutenberg_id", ["gutenbergId"])
-    .index("by_source_path", ["sourcePath"]),
+    .index("by_source_path", ["sourcePath"])
+    .index("by_work_family", ["workFamilyId"]),
+
+  // Editions of the same work (translations, re-releases) linked together
+  workFamilies: defineTable({
+    title: v.string(),
+    author: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  // Book pairs a reviewer marked as "not the same work"
+  editionMatchDismissals: defineTable({
+    pairKey: v.string(),
+    bookIds: v.array(v.id("books")),
+    dismissedAt: v.number(),
+  }).index("by_pair_key", ["pairKey"]),
+
+  // People credited on books, shared so life dates are vetted once
+  contributors: defineTable({
+    name: v.string(),
+    // Catalog form, e.g. "Austen, Jane"
+    sortName: v.optional(v.string()),
+    aliases: v.array(v.string()),
+    birthYear: v.optional(v.number()),
+    deathYear: v.optional(v.number()),
+    // Gutenberg catalog agent number (pgterms:agent) from the offline dump
+    authorityId: v.optional(v.string()),
+    // Set when a reviewer confirmed or corrected the record
+    vettedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_authority_id", ["authorityId"])
+    .index("by_name", ["name"]),
+
+  // Credits joining books to contributors, in credit order
+  bookContributors: defineTable({
+    bookId: v.id("books"),
+    contributorId: v.id("contributors"),
+    role: contributorRoleValidator,
+    order: v.number(),
+  })
+    .index("by_book_id", ["bookId"])
+    .index("by_contributor_id", ["contributorId"]),
+
+  // Audit trail of manual metadata edits; an unset value means "cleared"
+  bookMetadataHistory: defineTable({
+    bookId: v.id("books"),
+    field: editableMetadataFieldValidator,
+    previousValue: v.optional(metadataValueValidator),
+    newValue: v.optional(metadataValueValidator),
+    kind: v.union(v.literal("edit"), v.literal("review"), v.literal("revert")),
+    changedBy: v.optional(v.id("users")),
+    changedAt: v.number(),
+    revertOf: v.optional(v.id("bookMetadataHistory")),
+  }).index("by_book_id", ["bookId"]),
 
   discoveryCandidates: defineTable({
     gutenbergId: v.string(),
     title: v.optional(v.string()),
     author: v.optional(v.string()),
-    sourcePath: v.string(),
+    // Absent for catalog-only rows whose files have not been downloaded yet
+    sourcePath: v.optional(v.string()),
     status: v.union(
       v.literal("discovered"),
       v.literal("queued"),
@@ -56,13 +162,53 @@ const applicationTables = {
     linkedJobId: v.optional(v.id("jobs")),
     warning: v.optional(v.string()),
     error: v.optional(v.string()),
+    // Offline Gutenberg catalog metadata (pg_catalog.csv / RDF dump)
+    catalogSource: v.optional(v.union(v.literal("csv"), v.literal("rdf"))),
+    catalogImportedAt: v.optional(v.number()),
+    catalogAuthors: v.optional(
+      v.array(
+        v.object({
+          name: v.string(),
+          sortName: v.string(),
+          role: v.string(),
+          birthYear: v.optional(v.number()),
+          deathYear: v.optional(v.number()),
+          agentId: v.optional(v.string()),
+        }),
+      ),
+    ),
+    languages: v.optional(v.array(v.string())),
+    subjects: v.optional(v.array(v.string())),
+    bookshelves: v.optional(v.array(v.string())),
+    locClasses: v.optional(v.array(v.string())),
+    downloadCount: v.optional(v.number()),
+    issued: v.optional(v.string()),
+    // Denormalized search fields, see discoverySearch.ts
+    searchText: v.optional(v.string()),
+    subjectText: v.optional(v.string()),
+    primaryLanguage: v.optional(v.string()),
   })
     .index("by_gutenberg_id", ["gutenbergId"])
     .index("by_status", ["status"])
-    .index("by_source_path", ["sourcePath"]),
+    .index("by_source_path", ["sourcePath"])
+    .index("by_primary_language", ["primaryLanguage"])
+    .index("by_status_language", ["status", "primaryLanguage"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["status", "primaryLanguage"],
+    })
+    .searchIndex("search_subjects", {
+      searchField: "subjectText",
+      filterFields: ["status", "primaryLanguage"],
+    }),
 
   jobs: defineTable({
-    type: v.union(v.literal("import"), v.literal("clean"), v.literal("export")),
+    type: v.union(
+      v.literal("import"),
+      v.literal("clean"),
+      v.literal("export"),
+      v.literal("dataset"),
+    ),
     status: v.union(
       v.literal("queued"),
       v.literal("running"),
@@ -78,6 +224,28 @@ const applicationTables = {
     logs: v.optional(v.string()),
     error: v.optional(v.string()),
     errorDetails: v.optional(v.string()),
+    // Export jobs: the template and format used and the stored output file
+    templateId: v.optional(v.id("templates")),
+    // Template version the export was queued with
+    templateVersion: v.optional(v.number()),
+    exportFormat: v.optional(exportFormatValidator),
+    outputFileId: v.optional(v.id("_storage")),
+    // Export jobs: who queued it, for the exports registry
+    requestedBy: v.optional(v.id("users")),
+    // PDF interiors: final page count, which sizes the cover's spine
+    pageCount: v.optional(v.number()),
+    // Cover exports: the interior they wrap and the cover choices
+    interiorJobId: v.optional(v.id("jobs")),
+    coverOptions: v.optional(
+      v.object({
+        design: coverDesignValidator,
+        paper: paperTypeValidator,
+      }),
+    ),
+    // Text and Markdown exports: wrapping, quotes and PG references
+    textOptions: v.optional(textOptionsValidator),
+    // Collection exports: the box set rendered instead of a single book
+    collectionId: v.optional(v.id("collections")),
     queuedAt: v.number(),
     startedAt: v.optional(v.number()),
     completedAt: v.optional(v.number()),
@@ -85,7 +253,97 @@ const applicationTables = {
   })
     .index("by_status", ["status"])
     .index("by_book_id", ["bookId"])
-    .index("by_gutenberg_id", ["gutenbergId"]),
+    .index("by_gutenberg_id", ["gutenbergId"])
+    .index("by_collection_id", ["collectionId"]),
+
+  // Finished export files, one per completed export job, see exports.ts
+  exports: defineTable({
+    // A single book's export, or a collection's (see collectionExport.ts)
+    bookId: v.optional(v.id("books")),
+    collectionId: v.optional(v.id("collections")),
+    jobId: v.id("jobs"),
+    // The approved revision a book's file was built from
+    revisionId: v.optional(v.id("cleanupRevisions")),
+    revisionNumber: v.optional(v.number()),
+    // The approved revision of each volume of a collection's file
+    volumes: v.optional(
+      v.array(
+        v.object({
+          bookId: v.id("books"),
+          revisionId: v.id("cleanupRevisions"),
+          revisionNumber: v.number(),
+        }),
+      ),
+    ),
+    templateId: v.optional(v.id("templates")),
+    templateVersion: v.optional(v.number()),
+    format: exportFormatValidator,
+    fileId: v.id("_storage"),
+    filename: v.string(),
+    contentType: v.string(),
+    size: v.number(),
+    // SHA-256 of the stored file, hex
+    checksum: v.string(),
+    pageCount: v.optional(v.number()),
+    wordCount: v.optional(v.number()),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+  })
+    .index("by_book_id", ["bookId"])
+    .index("by_collection_id", ["collectionId"])
+    .index("by_job_id", ["jobId"]),
+
+  // Library-wide training datasets, built by a "dataset" job, see datasets.ts
+  datasets: defineTable({
+    name: v.string(),
+    jobId: v.id("jobs"),
+    filters: datasetFiltersValidator,
+    options: datasetOptionsValidator,
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    // Written when the build completes
+    manifestFileId: v.optional(v.id("_storage")),
+    // Added batch by batch as they fill
+    shards: v.optional(
+      v.array(
+        v.object({
+          split: v.union(v.literal("train"), v.literal("validation")),
+          index: v.number(),
+          filename: v.string(),
+          fileId: v.id("_storage"),
+          records: v.number(),
+          characters: v.number(),
+          tokens: v.number(),
+          size: v.number(),
+          // SHA-256 of the stored shard, hex
+          checksum: v.string(),
+        }),
+      ),
+    ),
+    bookCount: v.optional(v.number()),
+    recordCount: v.optional(v.number()),
+    characterCount: v.optional(v.number()),
+    tokenCount: v.optional(v.number()),
+    duplicatesRemoved: v.optional(v.number()),
+    // While building: the next book in the selection, and the checkpoint
+    // (see datasetBuild.ts) the next batch resumes from
+    nextBook: v.optional(v.number()),
+    checkpointFileId: v.optional(v.id("_storage")),
+  }).index("by_job_id", ["jobId"]),
+
+  // Box sets and omnibus editions of several books, see collections.ts
+  collections: defineTable({
+    title: v.string(),
+    subtitle: v.optional(v.string()),
+    author: v.string(),
+    description: v.optional(v.string()),
+    // Volumes in reading order
+    bookIds: v.array(v.id("books")),
+    chapterNumbering: chapterNumberingValidator,
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }),
 
   ingestJobs: defineTable({
     bookId: v.id("books"),
@@ -96,14 +354,23 @@ const applicationTables = {
       v.literal("leased"),
       v.literal("completed"),
       v.literal("failed"),
+      v.literal("dead_letter"),
     ),
     leaseOwner: v.optional(v.string()),
     leaseExpiresAt: v.optional(v.number()),
     stage: v.optional(v.string()),
+    // Retry bookkeeping: attempts counts leases; queued rows wait for notBefore
+    attempts: v.optional(v.number()),
+    notBefore: v.optional(v.number()),
+    formatOverride: v.optional(v.string()),
     selectedFormat: v.optional(v.string()),
     sourceUrl: v.optional(v.string()),
     localSourcePath: v.optional(v.string()),
     localExtractedPath: v.optional(v.string()),
+    // Annotated markdown + chapters.json uploaded by the daemon for cleanup
+    extractedFileId: v.optional(v.id("_storage")),
+    chapterManifestFileId: v.optional(v.id("_storage")),
+    cleanupJobId: v.optional(v.id("cleanupJobs")),
     checksum: v.optional(v.string()),
     warning: v.optional(v.string()),
     error: v.optional(v.string()),
@@ -111,6 +378,7 @@ const applicationTables = {
     updatedAt: v.number(),
   })
     .index("by_status", ["status"])
+    .index("by_status_not_before", ["status", "notBefore"])
     .index("by_book_id", ["bookId"])
     .index("by_gutenberg_id", ["gutenbergId"]),
 
@@ -118,18 +386,25 @@ const applicationTables = {
     name: v.string(),
     description: v.string(),
     preview: v.string(),
-    settings: v.object({
-      fontSize: v.number(),
-      lineHeight: v.number(),
-      margins: v.object({
-        top: v.number(),
-        bottom: v.number(),
-        left: v.number(),
-        right: v.number(),
-      }),
-    }),
+    settings: templateSettingsValidator,
+    // Bumped on every edit; templateVersions keeps each version's settings.
+    // Templates from before versioning are version 1.
+    version: v.optional(v.number()),
+    updatedAt: v.optional(v.number()),
+    // Deleted templates are archived so past exports keep their template
+    archivedAt: v.optional(v.number()),
   }),
 
+  // Immutable snapshot of each template version an export can use
+  templateVersions: defineTable({
+    templateId: v.id("templates"),
+    version: v.number(),
+    name: v.string(),
+    description: v.string(),
+    settings: templateSettingsValidator,
+    createdAt: v.number(),
+  }).index("by_template_id_version", ["templateId", "version"]),
+
   // Cleanup revision tracking - immutable original + versioned cleaned revisions
   // NOTE: Content is stored in Convex File Storage, not in database (1MB limit)
   cleanupOriginals: defineTable({
@@ -322,6 +597,10 @@ const applicationTables = {
         yearsSinceDeath: v.optional(v.number()),
       }),
     ),
+    // Per-territory verdicts with explanation trails (copyrightRules.ts)
+    territoryVerdicts: v.optional(v.array(territoryVerdictValidator)),
+    // Calendar year the verdicts were computed for; terms expire on Jan 1
+    evaluatedForYear: v.optional(v.number()),
     headerAnalysis: v.optional(
       v.object({
         scanned: v.boolean(),
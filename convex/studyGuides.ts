@@ -1,6 +1,9 @@
 import { query, mutation, internalMutation, internalAction } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import { loadBookCredits } from "./contributors";
+import { formatAuthorCredit } from "./contributorMatching";
+import { assertCopyrightCleared } from "./copyrightReview";
 
 // Default disclaimer text
 const DEFAULT_DISCLAIMER = `This study guide is an independent companion resource. It does not contain the original copyrighted text of the work being studied. All summaries, analysis, and educational content are original creations.`;
@@ -446,6 +449,11 @@ export const update = mutation({
     updates.updatedAt = now;
 
     if (args.status === "published") {
+      const guide = await ctx.db.get(args.guideId);
+      if (!guide) {
+        throw new Error("Study guide not found");
+      }
+      await assertCopyrightCleared(ctx, guide.bookId, "publish a study guide for");
       updates.publishedAt = now;
     }
 
@@ -734,7 +742,13 @@ export const getBookInfoQuery = internalMutation({
   args: { bookId: v.id("books") },
   handler: async (ctx, args) => {
     const book = await ctx.db.get(args.bookId);
-    return book ? { title: book.title, author: book.author } : null;
+    if (!book) return null;
+
+    // Vetted names and life dates from the contributor records
+    const authors = (await loadBookCredits(ctx, args.bookId)).filter(
+      (credit) => credit.role === "author",
+    );
+    return { title: book.title, author: formatAuthorCredit(authors, book.author) };
   },
 });
 
@@ -0,0 +1,137 @@
+/**
+ * Live template preview
+ *
+ * Lays out a sample chapter of a ready book with unsaved template settings,
+ * measured with the same faces as the PDF export, and returns the first
+ * body pages for the template editor to draw.
+ */
+
+import { v } from "convex/values";
+import { PDFDocument } from "pdf-lib";
+import { action, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { loadApprovedRevision, loadChapterTexts } from "./exportJobs";
+import { embedInteriorFonts } from "./pdfInterior";
+import { layoutPrintInterior } from "./pdfLayout";
+import {
+  resolvePrintSettings,
+  templateSettingsIssues,
+  templateSettingsValidator,
+} from "./printSpecs";
+
+const PREVIEW_PAGES = 6;
+// Enough text to fill the preview pages even at small sizes
+const SAMPLE_CHARS = 20000;
+// Shorter chapters are usually a preface or an epigraph
+const MIN_SAMPLE_CHARS = 2000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The first full-length chapter of a book's approved revision
+ */
+export const loadSampleSource = internalQuery({
+  args: { bookId: v.id("books") },
+  handler: async (ctx, args) => {
+    const book = await ctx.db.get(args.bookId);
+    if (!book) {
+      throw new Error(`Book ${args.bookId} not found`);
+    }
+    const revision = await loadApprovedRevision(ctx, book._id);
+    if (book.status !== "ready" || !revision) {
+      throw new Error(`"${book.title}" has no approved cleanup revision`);
+    }
+
+    const chapters = (
+      await ctx.db
+        .query("cleanupChapters")
+        .withIndex("by_revision_id", (q) => q.eq("revisionId", revision._id))
+        .collect()
+    ).sort((a, b) => a.chapterNumber - b.chapterNumber);
+    const sample =
+      chapters.find(
+        (chapter) =>
+          chapter.endOffset - chapter.startOffset >= MIN_SAMPLE_CHARS,
+      ) ?? chapters[0];
+
+    return {
+      book: { title: book.title, author: book.author },
+      credits: [],
+      revision: { fileId: revision.fileId, content: revision.content },
+      chapters: sample
+        ? [
+            {
+              title: sample.title,
+              fileId: sample.fileId,
+              content: sample.content,
+              startOffset: sample.startOffset,
+              endOffset: sample.endOffset,
+            },
+          ]
+        : [],
+    };
+  },
+});
+
+/**
+ * Preview pages for template settings, or the problems that keep them from
+ * being saved
+ */
+export const render = action({
+  args: {
+    bookId: v.id("books"),
+    settings: templateSettingsValidator,
+  },
+  handler: async (ctx, args) => {
+    const issues = templateSettingsIssues(args.settings);
+    if (issues.length > 0) {
+      return { issues, chapterTitle: "", width: 0, height: 0, pages: [] };
+    }
+
+    const source = await ctx.runQuery(
+      internal.templatePreview.loadSampleSource,
+      { bookId: args.bookId },
+    );
+    const [chapter] = await loadChapterTexts(ctx, source);
+    const paragraphEnd = chapter.text.lastIndexOf("\n\n", SAMPLE_CHARS);
+    const text =
+      chapter.text.length <= SAMPLE_CHARS
+        ? chapter.text
+        : chapter.text.slice(0, paragraphEnd > 0 ? paragraphEnd : SAMPLE_CHARS);
+
+    const settings = resolvePrintSettings(args.settings);
+    const pdf = await PDFDocument.create();
+    const { measure, encodeBook } = await embedInteriorFonts(pdf, settings);
+    const { layout } = layoutPrintInterior(
+      encodeBook({
+        title: source.book.title,
+        author: source.book.author,
+        copyrightLines: [],
+        chapters: [{ title: chapter.title, text }],
+      }),
+      { settings, measure },
+    );
+
+    // Front matter is the same for every template, so start at the opener
+    const bodyStart = layout.pages.findIndex(
+      (page) => page.label === layout.contents[0]?.page,
+    );
+    return {
+      issues: [],
+      chapterTitle: chapter.title,
+      width: round(layout.width),
+      height: round(layout.height),
+      pages: layout.pages
+        .slice(bodyStart, bodyStart + PREVIEW_PAGES)
+        .map((page) => ({
+          label: page.label,
+          items: page.items.map((item) => ({
+            ...item,
+            x: round(item.x),
+            y: round(item.y),
+            size: round(item.size),
+          })),
+        })),
+    };
+  },
+});
@@ -1,10 +1,157 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, type MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import {
+  templateSettingsIssues,
+  templateSettingsValidator,
+  type TemplateSettings,
+} from "./printSpecs";
+
+/**
+ * Snapshot the template's current version if it has none yet, and return
+ * the version number. Templates from before versioning get their version 1
+ * snapshot the first time they are edited or exported.
+ */
+export async function recordTemplateVersion(
+  ctx: MutationCtx,
+  template: Doc<"templates">,
+) {
+  const version = template.version ?? 1;
+  const existing = await ctx.db
+    .query("templateVersions")
+    .withIndex("by_template_id_version", (q) =>
+      q.eq("templateId", template._id).eq("version", version),
+    )
+    .first();
+  if (!existing) {
+    await ctx.db.insert("templateVersions", {
+      templateId: template._id,
+      version,
+      name: template.name,
+      description: template.description,
+      settings: template.settings,
+      createdAt: Date.now(),
+    });
+  }
+  return version;
+}
+
+function assertValidTemplate(name: string, settings: TemplateSettings) {
+  if (!name.trim()) {
+    throw new Error("Template name is required");
+  }
+  const issues = templateSettingsIssues(settings);
+  if (issues.length > 0) {
+    throw new Error(`Invalid template settings: ${issues.join("; ")}`);
+  }
+}
 
 export const list = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("templates").collect();
+    const templates = await ctx.db.query("templates").collect();
+    return templates
+      .filter((template) => template.archivedAt === undefined)
+      .map((template) => ({ ...template, version: template.version ?? 1 }));
+  },
+});
+
+/**
+ * A template's saved versions, newest first
+ */
+export const listVersions = query({
+  args: { templateId: v.id("templates") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("templateVersions")
+      .withIndex("by_template_id_version", (q) =>
+        q.eq("templateId", args.templateId),
+      )
+      .order("desc")
+      .collect();
+  },
+});
+
+export const create = mutation({
+  args: {
+    name: v.string(),
+    description: v.string(),
+    settings: templateSettingsValidator,
+  },
+  returns: v.id("templates"),
+  handler: async (ctx, args) => {
+    assertValidTemplate(args.name, args.settings);
+    const templateId = await ctx.db.insert("templates", {
+      name: args.name.trim(),
+      description: args.description.trim(),
+      preview: "Aa",
+      settings: args.settings,
+      version: 1,
+      updatedAt: Date.now(),
+    });
+    const template = await ctx.db.get(templateId);
+    await recordTemplateVersion(ctx, template!);
+    return templateId;
+  },
+});
+
+/**
+ * Save edits as a new version; returns the template's version afterwards
+ */
+export const update = mutation({
+  args: {
+    templateId: v.id("templates"),
+    name: v.string(),
+    description: v.string(),
+    settings: templateSettingsValidator,
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const template = await ctx.db.get(args.templateId);
+    if (!template || template.archivedAt !== undefined) {
+      throw new Error(`Template ${args.templateId} not found`);
+    }
+    assertValidTemplate(args.name, args.settings);
+
+    // Keep the version being replaced before moving on from it
+    const current = await recordTemplateVersion(ctx, template);
+    const name = args.name.trim();
+    const description = args.description.trim();
+    if (
+      name === template.name &&
+      description === template.description &&
+      JSON.stringify(args.settings) === JSON.stringify(template.settings)
+    ) {
+      return current;
+    }
+
+    const version = current + 1;
+    await ctx.db.patch(template._id, {
+      name,
+      description,
+      settings: args.settings,
+      version,
+      updatedAt: Date.now(),
+    });
+    await recordTemplateVersion(ctx, (await ctx.db.get(template._id))!);
+    return version;
+  },
+});
+
+/**
+ * Delete a template. It is archived rather than removed so exports made
+ * with it still resolve their version.
+ */
+export const remove = mutation({
+  args: { templateId: v.id("templates") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const template = await ctx.db.get(args.templateId);
+    if (!template || template.archivedAt !== undefined) {
+      throw new Error(`Template ${args.templateId} not found`);
+    }
+    await ctx.db.patch(template._id, { archivedAt: Date.now() });
+    return null;
   },
 });
 
@@ -18,10 +165,16 @@ export const seed = mutation({
       name: "Classic",
       description: "Traditional book layout with serif fonts and standard margins",
       preview: "Aa",
+      version: 1,
       settings: {
         fontSize: 12,
         lineHeight: 1.5,
-        margins: { top: 1, bottom: 1, left: 1, right: 1 },
+        margins: { top: 0.75, bottom: 0.75, inside: 0.875, outside: 0.625 },
+        fontFamily: "serif",
+        trimSize: "6x9",
+        bleed: false,
+        platform: "kdp",
+        widowOrphanLines: 2,
       },
     });
 
@@ -29,10 +182,16 @@ export const seed = mutation({
       name: "Modern",
       description: "Clean, contemporary design with sans-serif fonts",
       preview: "Aa",
+      version: 1,
       settings: {
         fontSize: 11,
         lineHeight: 1.4,
-        margins: { top: 0.8, bottom: 0.8, left: 0.8, right: 0.8 },
+        margins: { top: 0.6, bottom: 0.6, inside: 0.75, outside: 0.5 },
+        fontFamily: "sans",
+        trimSize: "5.5x8.5",
+        bleed: false,
+        platform: "kdp",
+        widowOrphanLines: 2,
       },
     });
 
@@ -40,10 +199,16 @@ export const seed = mutation({
       name: "Large Print",
       description: "Accessibility-focused with larger text and generous spacing",
       preview: "Aa",
+      version: 1,
       settings: {
         fontSize: 16,
         lineHeight: 1.8,
-        margins: { top: 1.2, bottom: 1.2, left: 1.2, right: 1.2 },
+        margins: { top: 0.75, bottom: 0.75, inside: 1, outside: 0.75 },
+        fontFamily: "serif",
+        trimSize: "8.5x11",
+        bleed: false,
+        platform: "ingramspark",
+        widowOrphanLines: 2,
       },
     });
   },
@@ -0,0 +1,944 @@
+/**
+ * Upload format detection and conversion
+ *
+ * Library uploads may be Gutenberg plain text, Markdown, EPUB, HTML (a single
+ * page or a zip of pages) or DOCX. Everything except plain text is turned
+ * into XHTML sections and run through the same spine conversion the ingest
+ * daemon uses, so cleanup receives annotated markdown plus a chapter
+ * manifest. Metadata comes from the file itself (OPF, <meta> tags, front
+ * matter, docProps) rather than a Gutenberg header.
+ *
+ * Pure functions only - intakeMetadata.ts loads the blob and stores results.
+ */
+
+import { strFromU8, unzipSync } from "fflate";
+import {
+  buildAnnotatedMarkdownFromSpine,
+  buildChapterManifest,
+  type ChapterManifestEntry,
+  type ExtractedBook,
+  type SpineChapterInput,
+} from "./epubExtract";
+import {
+  extractBody,
+  firstHeading,
+  readAttribute,
+  readElementText,
+  readEpubPackage,
+} from "./epubPackage";
+import { decodeEntities } from "./xhtmlTree";
+
+export type UploadFormat =
+  "text" | "markdown" | "epub" | "html" | "html_zip" | "docx";
+
+export type ConvertedUploadFormat = Exclude<UploadFormat, "text">;
+
+// Offered by the import file picker
+export const UPLOAD_FILE_EXTENSIONS = [
+  ".txt",
+  ".md",
+  ".markdown",
+  ".epub",
+  ".html",
+  ".htm",
+  ".xhtml",
+  ".zip",
+  ".docx",
+];
+
+export type UploadMetadata = {
+  title?: string;
+  author?: string;
+  language?: string;
+  date?: string;
+  year?: number;
+};
+
+export type ConvertedUpload = {
+  format: ConvertedUploadFormat;
+  book: ExtractedBook;
+  chapters: ChapterManifestEntry[];
+  metadata: UploadMetadata;
+  warnings: string[];
+};
+
+const HTML_ENTRY = /\.(x?html?)$/i;
+const HEADING_PATTERN = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi;
+
+const plainText = (markup: string) =>
+  decodeEntities(markup.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const decodeText = (bytes: Uint8Array) =>
+  strFromU8(bytes).replace(/^\uFEFF/, "");
+
+const isZip = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+/**
+ * File name without directory or extension, for untitled uploads
+ */
+export function fileStem(fileName: string | undefined): string | undefined {
+  const stem = fileName
+    ?.split("/")
+    .pop()
+    ?.replace(/\.[^.]+$/, "")
+    .replace(/[_-]+/g, " ")
+    .trim();
+  return stem || undefined;
+}
+
+export function yearFromDate(date: string | undefined): number | undefined {
+  const match = date?.match(/\b(1[4-9]\d{2}|20\d{2})\b/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function listZipEntries(bytes: Uint8Array): string[] {
+  const names: string[] = [];
+  unzipSync(bytes, {
+    filter: (file) => {
+      names.push(file.name);
+      return false;
+    },
+  });
+  return names;
+}
+
+/**
+ * Decide how an upload should be read, from its extension and content
+ */
+export function detectUploadFormat(
+  fileName: string | undefined,
+  bytes: Uint8Array,
+): UploadFormat {
+  const extension = fileName?.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] ?? "";
+
+  if (isZip(bytes)) {
+    const names = listZipEntries(bytes);
+    if (extension === ".epub" || names.includes("META-INF/container.xml")) {
+      return "epub";
+    }
+    if (names.includes("word/document.xml")) {
+      return "docx";
+    }
+    if (names.some((name) => HTML_ENTRY.test(name))) {
+      return "html_zip";
+    }
+    throw new Error("Zip upload contains no EPUB, DOCX or HTML content");
+  }
+
+  if ([".epub", ".docx", ".zip"].includes(extension)) {
+    throw new Error(`${fileName} is not a valid zip archive`);
+  }
+  if (extension === ".md" || extension === ".markdown") {
+    return "markdown";
+  }
+  if (HTML_ENTRY.test(extension)) {
+    return "html";
+  }
+  if (extension === ".txt") {
+    return "text";
+  }
+
+  const head = decodeText(bytes.subarray(0, 512));
+  return /^\s*(<!doctype html|<html|<\?xml)/i.test(head) ? "html" : "text";
+}
+
+// ─── HTML ──────────────────────────────────────────────────────────────────
+
+function removeHeadingText(xhtml: string, title: string): string {
+  let removed = false;
+  return xhtml.replace(HEADING_PATTERN, (heading, _level, inner: string) => {
+    if (removed || plainText(inner).toLowerCase() !== title.toLowerCase()) {
+      return heading;
+    }
+    removed = true;
+    return "";
+  });
+}
+
+/**
+ * Split an HTML body into chapters at the shallowest heading level that
+ * repeats (h1, h2 or h3). Content before the first chapter heading becomes a
+ * front section unless it only repeats the book title.
+ */
+export function splitHtmlSections(
+  body: string,
+  bookTitle: string,
+  href: string,
+): SpineChapterInput[] {
+  const headings = Array.from(body.matchAll(HEADING_PATTERN))
+    .map((match) => ({
+      level: Number(match[1]),
+      start: match.index,
+      end: match.index + match[0].length,
+      title: plainText(match[2]),
+    }))
+    .filter((heading) => heading.title);
+
+  const splitLevel = [1, 2, 3].find(
+    (level) => headings.filter((heading) => heading.level === level).length > 1,
+  );
+
+  if (splitLevel === undefined) {
+    const title = headings[0]?.title ?? bookTitle;
+    return [{ href, title, xhtml: removeHeadingText(body, title) }];
+  }
+
+  const boundaries = headings.filter((heading) => heading.level === splitLevel);
+  const sections: SpineChapterInput[] = [];
+
+  const preamble = removeHeadingText(
+    body.slice(0, boundaries[0].start),
+    bookTitle,
+  );
+  if (plainText(preamble)) {
+    sections.push({ href: `${href}#front`, title: bookTitle, xhtml: preamble });
+  }
+
+  boundaries.forEach((heading, index) => {
+    sections.push({
+      href: `${href}#section-${index + 1}`,
+      title: heading.title,
+      xhtml: body.slice(
+        heading.end,
+        boundaries[index + 1]?.start ?? body.length,
+      ),
+    });
+  });
+
+  return sections;
+}
+
+function readMetaTags(html: string): Map<string, string> {
+  const meta = new Map<string, string>();
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = (
+      readAttribute(match[0], "name") ?? readAttribute(match[0], "property")
+    )?.toLowerCase();
+    const content = readAttribute(match[0], "content")?.trim();
+    if (key && content && !meta.has(key)) {
+      meta.set(key, content);
+    }
+  }
+  return meta;
+}
+
+/**
+ * Title/author/language/date from Dublin Core, citation and Open Graph
+ * <meta> tags, falling back to <title> and <html lang>
+ */
+export function readHtmlMetadata(html: string): UploadMetadata {
+  const meta = readMetaTags(html);
+  const pick = (...keys: string[]) =>
+    keys.map((key) => meta.get(key)).find((value) => value !== undefined);
+  const htmlTag = html.match(/<html\b[^>]*>/i)?.[0];
+
+  const date = pick(
+    "dc.date",
+    "dcterms.date",
+    "dcterms.issued",
+    "dcterms.created",
+    "citation_publication_date",
+    "date",
+  );
+
+  return {
+    title:
+      pick("dc.title", "dcterms.title", "citation_title", "og:title") ??
+      readElementText(html, "title"),
+    author: pick(
+      "dc.creator",
+      "dcterms.creator",
+      "author",
+      "citation_author",
+      "book:author",
+    ),
+    language:
+      pick("dc.language", "dcterms.language", "language") ??
+      (htmlTag
+        ? (readAttribute(htmlTag, "lang") ?? readAttribute(htmlTag, "xml:lang"))
+        : undefined),
+    date,
+    year: yearFromDate(date),
+  };
+}
+
+function mergeMetadata(...sources: UploadMetadata[]): UploadMetadata {
+  const merged: UploadMetadata = {};
+  for (const source of sources) {
+    merged.title ??= source.title;
+    merged.author ??= source.author;
+    merged.language ??= source.language;
+    merged.date ??= source.date;
+    merged.year ??= source.year;
+  }
+  return merged;
+}
+
+function convertHtml(fileName: string, html: string) {
+  const metadata = readHtmlMetadata(html);
+  const body = extractBody(html);
+  const bookTitle = metadata.title ?? firstHeading(body) ?? "Untitled";
+  return {
+    metadata,
+    spine: splitHtmlSections(body, bookTitle, fileName),
+    warnings: [] as string[],
+  };
+}
+
+/**
+ * A zip of HTML pages: one chapter per page, in natural file-name order
+ */
+function convertHtmlZip(bytes: Uint8Array) {
+  const files = unzipSync(bytes, {
+    filter: (file) =>
+      HTML_ENTRY.test(file.name) && !file.name.startsWith("__MACOSX/"),
+  });
+  const names = Object.keys(files).sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true }),
+  );
+
+  if (names.length === 1) {
+    return convertHtml(names[0], decodeText(files[names[0]]));
+  }
+
+  // index.html usually carries the book-level <meta> tags
+  const pages = names.map((name) => ({ name, html: decodeText(files[name]) }));
+  const metadataOrder = [
+    ...pages.filter((page) => /(^|\/)index\.x?html?$/i.test(page.name)),
+    ...pages,
+  ];
+  const metadata = mergeMetadata(
+    ...metadataOrder.map((page) => readHtmlMetadata(page.html)),
+  );
+
+  const spine: SpineChapterInput[] = [];
+  const warnings: string[] = [];
+  for (const page of pages) {
+    const body = extractBody(page.html);
+    if (!plainText(body)) {
+      warnings.push(`Skipped ${page.name}: no text content`);
+      continue;
+    }
+    const title =
+      firstHeading(body) ??
+      readElementText(page.html, "title") ??
+      fileStem(page.name) ??
+      `Section ${spine.length + 1}`;
+    spine.push({
+      href: page.name,
+      title,
+      xhtml: removeHeadingText(body, title),
+    });
+  }
+
+  return { metadata, spine, warnings };
+}
+
+// ─── Markdown ──────────────────────────────────────────────────────────────
+
+/**
+ * Split YAML-style front matter (`key: value` lines and `- item` lists
+ * between --- fences) from the document
+ */
+export function parseFrontMatter(source: string): {
+  data: Record<string, string>;
+  content: string;
+} {
+  const match = source.match(
+    /^\uFEFF?---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/,
+  );
+  if (!match) {
+    return { data: {}, content: source };
+  }
+
+  const data: Record<string, string> = {};
+  let lastKey: string | undefined;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.+)$/);
+    if (item && lastKey) {
+      const value = unquote(item[1]);
+      data[lastKey] = data[lastKey] ? `${data[lastKey]}, ${value}` : value;
+      continue;
+    }
+    const pair = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+    if (pair) {
+      lastKey = pair[1].toLowerCase();
+      data[lastKey] = unquote(pair[2].replace(/^\[(.*)\]$/, "$1"));
+    }
+  }
+
+  return { data, content: source.slice(match[0].length) };
+}
+
+function unquote(value: string): string {
+  return value
+    .trim()
+    .replace(/^(["'])(.*)\1$/, "$2")
+    .trim();
+}
+
+function markdownInline(text: string): string {
+  return (
+    escapeHtml(text)
+      // Backslash escapes survive as character references
+      .replace(
+        /\\([!-/:-@[-`{-~])/g,
+        (_, char: string) => `&#${char.charCodeAt(0)};`,
+      )
+      .replace(/`([^`]+)`/g, "$1")
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[\^([^\]\s]+)\]/g, '<a epub:type="noteref" href="#$1">$1</a>')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "<b>$2</b>")
+      .replace(/\*(?=\S)([\s\S]*?\S)\*/g, "<em>$1</em>")
+      .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, "$1<em>$2</em>")
+      .replace(/\^([^^\s]+)\^/g, "<sup>$1</sup>")
+  );
+}
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const THEMATIC_BREAK = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const ATX_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FOOTNOTE_DEFINITION = /^\[\^([^\]\s]+)\]:\s*(.*)$/;
+
+/**
+ * Convert CommonMark-style Markdown into XHTML the spine converter reads
+ * (headings, paragraphs, emphasis, lists, quotes, tables, footnotes)
+ */
+export function markdownToHtml(source: string): string {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const html: string[] = [];
+  let index = 0;
+
+  const isBlank = (line: string | undefined) =>
+    line === undefined || line.trim() === "";
+  const startsBlock = (line: string) =>
+    ATX_HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    /^\s*(>|```|\|)/.test(line) ||
+    FOOTNOTE_DEFINITION.test(line);
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${markdownInline(heading[2])}</h${level}>`);
+      index++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      html.push("<hr/>");
+      index++;
+      continue;
+    }
+
+    if (/^\s*```/.test(line)) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !/^\s*```/.test(lines[index])) {
+        code.push(lines[index++]);
+      }
+      index++;
+      html.push(`<pre>${escapeHtml(code.join("\n"))}</pre>`);
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && !isBlank(lines[index])) {
+        quoted.push(lines[index++].replace(/^\s*>\s?/, ""));
+      }
+      html.push(
+        `<blockquote>${markdownToHtml(quoted.join("\n"))}</blockquote>`,
+      );
+      continue;
+    }
+
+    const footnote = line.match(FOOTNOTE_DEFINITION);
+    if (footnote) {
+      const text = [footnote[2]];
+      index++;
+      while (index < lines.length && /^\s{2,}\S/.test(lines[index])) {
+        text.push(lines[index++].trim());
+      }
+      html.push(
+        `<aside epub:type="footnote" id="${escapeHtml(footnote[1])}"><p>${markdownInline(text.join(" "))}</p></aside>`,
+      );
+      continue;
+    }
+
+    if (/^\s*\|/.test(line)) {
+      const rows: string[] = [];
+      let hasHeader = false;
+      while (index < lines.length && /^\s*\|/.test(lines[index])) {
+        const row = lines[index++].trim();
+        if (/^\|(\s*:?-{3,}:?\s*\|)+$/.test(row)) {
+          hasHeader = rows.length === 1;
+          continue;
+        }
+        rows.push(row);
+      }
+      const body = rows.map((row, rowIndex) => {
+        const cellTag = hasHeader && rowIndex === 0 ? "th" : "td";
+        const cells = row
+          .replace(/^\||\|$/g, "")
+          .split("|")
+          .map(
+            (cell) => `<${cellTag}>${markdownInline(cell.trim())}</${cellTag}>`,
+          );
+        return `<tr>${cells.join("")}</tr>`;
+      });
+      html.push(`<table>${body.join("")}</table>`);
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      while (index < lines.length) {
+        const current = lines[index];
+        const item = current.match(LIST_ITEM);
+        if (item) {
+          items.push(item[2]);
+        } else if (!isBlank(current) && !startsBlock(current) && items.length) {
+          items[items.length - 1] += ` ${current.trim()}`;
+        } else {
+          break;
+        }
+        index++;
+      }
+      const tag = ordered ? "ol" : "ul";
+      html.push(
+        `<${tag}>${items.map((item) => `<li>${markdownInline(item)}</li>`).join("")}</${tag}>`,
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      !isBlank(lines[index]) &&
+      (paragraph.length === 0 || !startsBlock(lines[index]))
+    ) {
+      paragraph.push(lines[index++].trim().replace(/\\$/, ""));
+    }
+    html.push(`<p>${markdownInline(paragraph.join(" "))}</p>`);
+  }
+
+  return html.join("\n");
+}
+
+function convertMarkdown(fileName: string, source: string) {
+  const { data, content } = parseFrontMatter(source);
+  const html = markdownToHtml(content);
+  const date = data.date ?? data.year ?? data.published;
+
+  const metadata: UploadMetadata = {
+    title: data.title || readElementText(html, "h1"),
+    author: data.author || data.authors || data.creator || undefined,
+    language: data.language || data.lang || undefined,
+    date: date || undefined,
+    year: yearFromDate(date),
+  };
+
+  return {
+    metadata,
+    spine: splitHtmlSections(
+      html,
+      metadata.title ?? fileStem(fileName) ?? "Untitled",
+      fileName,
+    ),
+    warnings: [] as string[],
+  };
+}
+
+// ─── DOCX ──────────────────────────────────────────────────────────────────
+
+type DocxParagraph = {
+  headingLevel?: number;
+  list?: "ul" | "ol";
+  html: string;
+  footnoteIds: string[];
+};
+
+const xmlAttr = (xml: string, tag: string, attr = "w:val") => {
+  const element = xml.match(new RegExp(`<${tag}\\b[^>]*>`))?.[0];
+  return element ? readAttribute(element, attr) : undefined;
+};
+
+// <w:b/> is on; <w:b w:val="0"/> or "false" switches it off
+const runFlag = (rPr: string, tag: string) => {
+  const element = rPr.match(new RegExp(`<${tag}\\b[^>]*>`))?.[0];
+  if (!element) {
+    return false;
+  }
+  const value = readAttribute(element, "w:val");
+  return value !== "0" && value !== "false";
+};
+
+/**
+ * Heading level per paragraph style id ("Heading1", localized "Überschrift 1"),
+ * read from the style names and outline levels in styles.xml. The document
+ * "Title" style maps to level 0: it names the book, not a chapter.
+ */
+function readDocxHeadingStyles(stylesXml: string): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const match of stylesXml.matchAll(
+    /<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g,
+  )) {
+    const styleId = readAttribute(match[1], "w:styleId");
+    if (!styleId) {
+      continue;
+    }
+    const name = xmlAttr(match[2], "w:name")?.toLowerCase() ?? "";
+    const outline = xmlAttr(match[2], "w:outlineLvl");
+    const level =
+      name === "title"
+        ? 0
+        : Number(name.match(/^heading ([1-6])$/)?.[1] ?? NaN) ||
+          (outline !== undefined ? Number(outline) + 1 : NaN);
+    if (level >= 0 && level <= 6) {
+      levels.set(styleId, level);
+    }
+  }
+  return levels;
+}
+
+/**
+ * Map numbering ids to bullet vs numbered lists (first level's numFmt)
+ */
+function readDocxListKinds(numberingXml: string): Map<string, "ul" | "ol"> {
+  const abstractKinds = new Map<string, "ul" | "ol">();
+  for (const match of numberingXml.matchAll(
+    /<w:abstractNum\b([^>]*)>([\s\S]*?)<\/w:abstractNum>/g,
+  )) {
+    const id = readAttribute(match[1], "w:abstractNumId");
+    const format = xmlAttr(match[2], "w:numFmt");
+    if (id) {
+      abstractKinds.set(id, format === "bullet" || !format ? "ul" : "ol");
+    }
+  }
+
+  const kinds = new Map<string, "ul" | "ol">();
+  for (const match of numberingXml.matchAll(
+    /<w:num\b([^>]*)>([\s\S]*?)<\/w:num>/g,
+  )) {
+    const numId = readAttribute(match[1], "w:numId");
+    const abstractId = xmlAttr(match[2], "w:abstractNumId");
+    if (numId && abstractId) {
+      kinds.set(numId, abstractKinds.get(abstractId) ?? "ul");
+    }
+  }
+  return kinds;
+}
+
+function docxRunsToHtml(paragraphXml: string, footnoteIds: string[]): string {
+  let html = "";
+  for (const match of paragraphXml.matchAll(/<w:r\b[^>]*>([\s\S]*?)<\/w:r>/g)) {
+    const run = match[1];
+    const rPr = run.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1] ?? "";
+
+    let text = "";
+    for (const part of run.matchAll(
+      /<w:t\b[^>]*\/>|<w:t\b[^>]*>([\s\S]*?)<\/w:t>|<w:(tab|br)\b[^>]*\/>|<w:footnoteReference\b([^>]*)\/>/g,
+    )) {
+      if (part[1] !== undefined) {
+        text += part[1];
+      } else if (part[2]) {
+        text += " ";
+      } else if (part[3] !== undefined) {
+        const id = readAttribute(part[3], "w:id");
+        if (id) {
+          footnoteIds.push(id);
+          text += `<a epub:type="noteref" href="#fn-${id}">${id}</a>`;
+        }
+      }
+    }
+    if (!text) {
+      continue;
+    }
+
+    const isNoteRef = text.startsWith("<a ");
+    if (!isNoteRef) {
+      if (runFlag(rPr, "w:smallCaps")) {
+        text = `<span class="smallcaps">${text}</span>`;
+      }
+      if (xmlAttr(rPr, "w:vertAlign") === "superscript") {
+        text = `<sup>${text}</sup>`;
+      }
+      if (runFlag(rPr, "w:i")) {
+        text = `<em>${text}</em>`;
+      }
+      if (runFlag(rPr, "w:b")) {
+        text = `<b>${text}</b>`;
+      }
+    }
+    html += text;
+  }
+  return html.trim();
+}
+
+function readDocxParagraph(
+  paragraphXml: string,
+  headingStyles: Map<string, number>,
+  listKinds: Map<string, "ul" | "ol">,
+): DocxParagraph {
+  const pPr = paragraphXml.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] ?? "";
+  const styleId = xmlAttr(pPr, "w:pStyle");
+  const numId = xmlAttr(pPr, "w:numId");
+  const listStyle = styleId?.match(/^List(Bullet|Number)/)?.[1];
+  const footnoteIds: string[] = [];
+
+  return {
+    headingLevel: styleId ? headingStyles.get(styleId) : undefined,
+    list:
+      numId && numId !== "0"
+        ? (listKinds.get(numId) ?? "ul")
+        : listStyle === "Number"
+          ? "ol"
+          : listStyle
+            ? "ul"
+            : undefined,
+    html: docxRunsToHtml(paragraphXml, footnoteIds),
+    footnoteIds,
+  };
+}
+
+function readDocxFootnotes(footnotesXml: string): Map<string, string> {
+  const footnotes = new Map<string, string>();
+  for (const match of footnotesXml.matchAll(
+    /<w:footnote\b([^>]*)>([\s\S]*?)<\/w:footnote>/g,
+  )) {
+    const id = readAttribute(match[1], "w:id");
+    if (!id || readAttribute(match[1], "w:type")) {
+      // separator / continuationSeparator entries
+      continue;
+    }
+    const paragraphs = Array.from(
+      match[2].matchAll(/<w:p\b[^>]*>([\s\S]*?)<\/w:p>/g),
+    )
+      .map((paragraph) => docxRunsToHtml(paragraph[1], []))
+      .filter(Boolean);
+    footnotes.set(id, paragraphs.join(" "));
+  }
+  return footnotes;
+}
+
+/**
+ * Convert word/document.xml into XHTML: styled headings, b/i/superscript/
+ * small-caps runs, lists, tables and footnotes (placed after the paragraph
+ * that references them). Title-styled paragraphs are returned separately.
+ */
+export function docxToHtml(files: Record<string, Uint8Array>): {
+  html: string;
+  title?: string;
+} {
+  const read = (name: string) => (files[name] ? decodeText(files[name]) : "");
+  const document = read("word/document.xml");
+  if (!document) {
+    throw new Error("DOCX is missing word/document.xml");
+  }
+
+  const headingStyles = readDocxHeadingStyles(read("word/styles.xml"));
+  const listKinds = readDocxListKinds(read("word/numbering.xml"));
+  const footnotes = readDocxFootnotes(read("word/footnotes.xml"));
+  const body = document.match(/<w:body>([\s\S]*?)<\/w:body>/)?.[1] ?? document;
+
+  const html: string[] = [];
+  let title: string | undefined;
+  // Cast keeps TS from narrowing to null; closeList() reassigns it
+  let openList = null as { tag: "ul" | "ol"; items: string[] } | null;
+  const closeList = () => {
+    if (openList) {
+      html.push(
+        `<${openList.tag}>${openList.items.map((item) => `<li>${item}</li>`).join("")}</${openList.tag}>`,
+      );
+      openList = null;
+    }
+  };
+  const pushFootnotes = (ids: string[]) => {
+    for (const id of ids) {
+      const text = footnotes.get(id);
+      if (text) {
+        html.push(
+          `<aside epub:type="footnote" id="fn-${id}"><p>${text}</p></aside>`,
+        );
+      }
+    }
+  };
+
+  for (const match of body.matchAll(
+    /<w:tbl>[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p\b[^>]*>[\s\S]*?<\/w:p>/g,
+  )) {
+    const block = match[0];
+
+    if (block.startsWith("<w:tbl>")) {
+      closeList();
+      const rows = Array.from(
+        block.matchAll(/<w:tr\b[^>]*>([\s\S]*?)<\/w:tr>/g),
+      );
+      const rowHtml = rows.map((row, rowIndex) => {
+        const cellTag =
+          rowIndex === 0 && /<w:tblHeader\b/.test(row[1]) ? "th" : "td";
+        const cells = Array.from(
+          row[1].matchAll(/<w:tc\b[^>]*>([\s\S]*?)<\/w:tc>/g),
+        ).map((cell) => {
+          const text = Array.from(
+            cell[1].matchAll(/<w:p\b[^>]*>([\s\S]*?)<\/w:p>/g),
+          )
+            .map((paragraph) => docxRunsToHtml(paragraph[1], []))
+            .filter(Boolean)
+            .join(" ");
+          return `<${cellTag}>${text}</${cellTag}>`;
+        });
+        return `<tr>${cells.join("")}</tr>`;
+      });
+      html.push(`<table>${rowHtml.join("")}</table>`);
+      continue;
+    }
+
+    const paragraph = readDocxParagraph(block, headingStyles, listKinds);
+    if (!paragraph.html) {
+      continue;
+    }
+    if (paragraph.headingLevel === 0) {
+      title ??= plainText(paragraph.html);
+      continue;
+    }
+
+    if (paragraph.list && !paragraph.headingLevel) {
+      if (openList?.tag !== paragraph.list) {
+        closeList();
+        openList = { tag: paragraph.list, items: [] };
+      }
+      openList.items.push(paragraph.html);
+      pushFootnotes(paragraph.footnoteIds);
+      continue;
+    }
+
+    closeList();
+    html.push(
+      paragraph.headingLevel
+        ? `<h${paragraph.headingLevel}>${paragraph.html}</h${paragraph.headingLevel}>`
+        : `<p>${paragraph.html}</p>`,
+    );
+    pushFootnotes(paragraph.footnoteIds);
+  }
+  closeList();
+
+  return { html: html.join("\n"), title };
+}
+
+function convertDocx(fileName: string, bytes: Uint8Array) {
+  const files = unzipSync(bytes, {
+    filter: (file) =>
+      file.name.startsWith("word/") || file.name === "docProps/core.xml",
+  });
+  const core = files["docProps/core.xml"]
+    ? decodeText(files["docProps/core.xml"])
+    : "";
+  const { html, title } = docxToHtml(files);
+  const date =
+    readElementText(core, "dcterms:created") ??
+    readElementText(core, "dcterms:modified");
+
+  const metadata: UploadMetadata = {
+    title: readElementText(core, "dc:title") ?? title,
+    author: readElementText(core, "dc:creator"),
+    language: readElementText(core, "dc:language"),
+    date,
+    year: yearFromDate(date),
+  };
+
+  return {
+    metadata,
+    spine: splitHtmlSections(
+      html,
+      metadata.title ?? fileStem(fileName) ?? "Untitled",
+      fileName,
+    ),
+    warnings: [] as string[],
+  };
+}
+
+// ─── EPUB ──────────────────────────────────────────────────────────────────
+
+function convertEpub(bytes: Uint8Array) {
+  const epub = readEpubPackage(bytes);
+  const warnings: string[] = [];
+  if (epub.untitledHrefs.length > 0) {
+    warnings.push(
+      `${epub.untitledHrefs.length} spine document(s) had no nav entry; titles taken from headings`,
+    );
+  }
+  return {
+    metadata: {
+      title: epub.metadata.title,
+      author: epub.metadata.author,
+      language: epub.metadata.language,
+      date: epub.metadata.date,
+      year: yearFromDate(epub.metadata.date),
+    },
+    spine: epub.spine,
+    warnings,
+  };
+}
+
+/**
+ * Convert a non-plain-text upload into annotated markdown, a chapter
+ * manifest and the metadata declared by the file
+ */
+export function convertUpload(
+  format: ConvertedUploadFormat,
+  fileName: string,
+  bytes: Uint8Array,
+): ConvertedUpload {
+  const source =
+    format === "epub"
+      ? convertEpub(bytes)
+      : format === "docx"
+        ? convertDocx(fileName, bytes)
+        : format === "html_zip"
+          ? convertHtmlZip(bytes)
+          : format === "html"
+            ? convertHtml(fileName, decodeText(bytes))
+            : convertMarkdown(fileName, decodeText(bytes));
+
+  if (source.spine.length === 0) {
+    throw new Error(`No readable text found in ${fileName}`);
+  }
+
+  const book = buildAnnotatedMarkdownFromSpine(source.spine);
+  if (!book.chapters.some((chapter) => chapter.content.trim())) {
+    throw new Error(`No readable text found in ${fileName}`);
+  }
+
+  const warnings = [...source.warnings];
+  if (source.spine.length === 1 && format !== "epub") {
+    warnings.push(
+      "No repeated chapter headings found; imported as one section",
+    );
+  }
+
+  return {
+    format,
+    book,
+    chapters: buildChapterManifest(book),
+    metadata: source.metadata,
+    warnings,
+  };
+}
@@ -0,0 +1,170 @@
+export type XhtmlText = { kind: "text"; text: string };
+
+export type XhtmlElement = {
+  kind: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: XhtmlNode[];
+};
+
+export type XhtmlNode = XhtmlText | XhtmlElement;
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "wbr",
+]);
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([A-Za-z][\w:.-]*)\s*>|<([A-Za-z][\w:.-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "\u2014",
+  ndash: "\u2013",
+  hellip: "\u2026",
+  lsquo: "\u2018",
+  rsquo: "\u2019",
+  ldquo: "\u201C",
+  rdquo: "\u201D",
+};
+
+const ATTR_PATTERN =
+  /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * Decode named and numeric character references in a single pass
+ * Unknown named entities are left untouched.
+ */
+export function decodeEntities(input: string): string {
+  return input.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, body: string) => {
+      if (body[0] === "#") {
+        const codePoint =
+          body[1] === "x" || body[1] === "X"
+            ? parseInt(body.slice(2), 16)
+            : parseInt(body.slice(1), 10);
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : entity;
+      }
+      return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+    },
+  );
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(
+      match[2] ?? match[3] ?? match[4] ?? "",
+    );
+  }
+  return attrs;
+}
+
+/**
+ * Tolerant XHTML fragment parser
+ * Unclosed elements close at their parent's end tag; stray end tags are ignored.
+ */
+export function parseXhtml(source: string): XhtmlNode[] {
+  const root: XhtmlElement = {
+    kind: "element",
+    tag: "#root",
+    attrs: {},
+    children: [],
+  };
+  const stack: XhtmlElement[] = [root];
+  let lastIndex = 0;
+
+  const appendText = (text: string) => {
+    if (!text) {
+      return;
+    }
+    const parent = stack[stack.length - 1];
+    const last = parent.children[parent.children.length - 1];
+    if (last?.kind === "text") {
+      last.text += text;
+    } else {
+      parent.children.push({ kind: "text", text });
+    }
+  };
+
+  for (const match of source.matchAll(TOKEN_PATTERN)) {
+    appendText(decodeEntities(source.slice(lastIndex, match.index)));
+    lastIndex = match.index + match[0].length;
+
+    const [, cdata, closeTag, openTag, attrSource, selfClosing] = match;
+
+    if (cdata !== undefined) {
+      appendText(cdata);
+      continue;
+    }
+
+    if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      const depth = stack.map((el) => el.tag).lastIndexOf(tag);
+      if (depth > 0) {
+        stack.length = depth;
+      }
+      continue;
+    }
+
+    if (openTag) {
+      const element: XhtmlElement = {
+        kind: "element",
+        tag: openTag.toLowerCase(),
+        attrs: parseAttributes(attrSource ?? ""),
+        children: [],
+      };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing && !VOID_TAGS.has(element.tag)) {
+        stack.push(element);
+      }
+    }
+  }
+
+  appendText(decodeEntities(source.slice(lastIndex)));
+  return root.children;
+}
+
+export function hasClass(element: XhtmlElement, pattern: RegExp): boolean {
+  return (element.attrs.class ?? "")
+    .split(/\s+/)
+    .some((name) => pattern.test(name));
+}
+
+export function textContent(nodes: XhtmlNode[]): string {
+  return nodes
+    .map((node) =>
+      node.kind === "text" ? node.text : textContent(node.children),
+    )
+    .join("");
+}
+
+export function walkElements(
+  nodes: XhtmlNode[],
+  visit: (element: XhtmlElement) => void,
+) {
+  for (const node of nodes) {
+    if (node.kind === "element") {
+      visit(node);
+      walkElements(node.children, visit);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { strToU8, zipSync } from "fflate";
+import { buildLocalPaths } from "../localPaths";
+import { extractEpubToLibrary, readEpubPackage } from "../epubUnpack";
+
+const CONTAINER = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+const xhtml = (body: string) =>
+  `<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>Ignored</title></head><body>${body}</body></html>`;
+
+function buildEpub3() {
+  const opf = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Alice&#39;s Adventures</dc:title>
+    <dc:creator>Lewis Carroll</dc:creator>
+    <dc:language>en</dc:language>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="c2" href="text/chapter%202.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c1" href="text/chapter1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="lic" href="text/license.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="nav"/>
+    <itemref idref="c1"/>
+    <itemref idref="c2"/>
+    <itemref idref="lic" linear="no"/>
+  </spine>
+</package>`;
+  const nav = xhtml(`<nav epub:type="toc"><ol>
+    <li><a href="text/chapter1.xhtml">Down the <i>Rabbit</i>-Hole</a></li>
+    <li><a href="text/chapter%202.xhtml#start">The Pool of Tears</a></li>
+  </ol></nav>`);
+
+  return zipSync({
+    mimetype: strToU8("application/epub+zip"),
+    "META-INF/container.xml": strToU8(CONTAINER),
+    "OEBPS/content.opf": strToU8(opf),
+    "OEBPS/nav.xhtml": strToU8(nav),
+    "OEBPS/text/chapter1.xhtml": strToU8(
+      xhtml("<h2>CHAPTER I</h2><p>Alice was <em>very</em> tired.</p>"),
+    ),
+    "OEBPS/text/chapter 2.xhtml": strToU8(xhtml("<p>Curiouser and curiouser!</p>")),
+    "OEBPS/text/license.xhtml": strToU8(xhtml("<p>Project Gutenberg License</p>")),
+  });
+}
+
+function buildEpub2WithNcx() {
+  const opf = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Walden</dc:title></metadata>
+  <manifest>
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="a" href="a.html" media-type="application/xhtml+xml"/>
+    <item id="b" href="b.html" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine toc="ncx"><itemref idref="a"/><itemref idref="b"/></spine>
+</package>`;
+  const ncx = `<?xml version="1.0"?><ncx><navMap>
+    <navPoint id="p1"><navLabel><text>Economy</text></navLabel><content src="a.html"/></navPoint>
+  </navMap></ncx>`;
+
+  return zipSync({
+    "META-INF/container.xml": strToU8(CONTAINER),
+    "OEBPS/content.opf": strToU8(opf),
+    "OEBPS/toc.ncx": strToU8(ncx),
+    "OEBPS/a.html": strToU8(xhtml("<p>When I wrote the following pages</p>")),
+    "OEBPS/b.html": strToU8(xhtml("<h1>Where I Lived</h1><p>At a certain season</p>")),
+  });
+}
+
+test("epub3 spine order and nav titles are used", () => {
+  const epub = readEpubPackage(buildEpub3());
+
+  assert.equal(epub.metadata.title, "Alice's Adventures");
+  assert.equal(epub.metadata.author, "Lewis Carroll");
+  assert.deepEqual(
+    epub.spine.map((item) => item.title),
+    ["Down the Rabbit-Hole", "The Pool of Tears"],
+  );
+  assert.equal(epub.untitledHrefs.length, 0);
+  assert.doesNotMatch(epub.spine[0].xhtml, /Ignored/);
+});
+
+test("epub2 falls back to NCX titles, then document headings", () => {
+  const epub = readEpubPackage(buildEpub2WithNcx());
+
+  assert.deepEqual(
+    epub.spine.map((item) => item.title),
+    ["Economy", "Where I Lived"],
+  );
+  assert.deepEqual(epub.untitledHrefs, ["b.html"]);
+});
+
+test("nav anchors into one document split it into one chapter per entry", () => {
+  const opf = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Emma</dc:title></metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="body" href="body.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine><itemref idref="body"/></spine>
+</package>`;
+  const nav = xhtml(`<nav epub:type="toc"><ol>
+    <li><a href="body.xhtml#ch1">Chapter I</a></li>
+    <li><a href="body.xhtml#ch2">Chapter II</a></li>
+  </ol></nav>`);
+  const body = xhtml(
+    `<p>Contents</p><div class="chapter"><h2><a id="ch1"></a>CHAPTER I</h2><p>Emma Woodhouse.</p></div>` +
+      `<div class="chapter"><h2><a id="ch2"></a>CHAPTER II</h2><p>Mr. Weston.</p></div>`,
+  );
+  const epub = readEpubPackage(
+    zipSync({
+      "META-INF/container.xml": strToU8(CONTAINER),
+      "OEBPS/content.opf": strToU8(opf),
+      "OEBPS/nav.xhtml": strToU8(nav),
+      "OEBPS/body.xhtml": strToU8(body),
+    }),
+  );
+
+  assert.deepEqual(
+    epub.spine.map((item) => [item.href, item.title]),
+    [
+      ["body.xhtml#ch1", "Chapter I"],
+      ["body.xhtml#ch2", "Chapter II"],
+    ],
+  );
+  // Text before the first anchor stays with the first chapter
+  assert.match(epub.spine[0].xhtml, /^<p>Contents<\/p>.*Emma Woodhouse/);
+  assert.doesNotMatch(epub.spine[0].xhtml, /Weston/);
+  assert.match(epub.spine[1].xhtml, /^<div class="chapter"><h2><a id="ch2">/);
+});
+
+test("extraction writes annotated markdown, chapters.json and manifest.json", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "bookzang-epub-"));
+
+  try {
+    const paths = buildLocalPaths(root, "11");
+    const epubPath = path.join(root, "pg11.epub");
+    await writeFile(epubPath, buildEpub3());
+
+    const { book, manifest } = await extractEpubToLibrary(epubPath, paths, "11");
+
+    const markdown = await readFile(paths.extractedPath, "utf8");
+    assert.equal(markdown, book.markdown);
+    assert.match(markdown, /## Down the Rabbit-Hole[\s\S]*\*very\*[\s\S]*## The Pool of Tears/);
+
+    const chapters = JSON.parse(await readFile(paths.derivedPath, "utf8"));
+    assert.equal(chapters.length, 2);
+    assert.equal(
+      markdown.slice(chapters[1].startOffset, chapters[1].endOffset),
+      "## The Pool of Tears\n\nCuriouser and curiouser!",
+    );
+
+    const written = JSON.parse(await readFile(paths.manifestPath, "utf8"));
+    assert.equal(written.chapterCount, 2);
+    assert.equal(written.source.checksum, manifest.source.checksum);
+    assert.equal(written.metadata.language, "en");
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
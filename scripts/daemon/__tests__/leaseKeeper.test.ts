@@ -0,0 +1,77 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { sleep } from "../leaseLogic";
+import {
+  heartbeatIntervalMs,
+  LeaseLostError,
+  startLeaseKeeper,
+} from "../leaseKeeper";
+
+test("heartbeats renew on a timer with the current stage", async () => {
+  const stages: string[] = [];
+  const keeper = startLeaseKeeper({
+    leaseMs: 1_000,
+    intervalMs: 20,
+    initialStage: "leased",
+    heartbeat: async (stage) => {
+      stages.push(stage);
+    },
+  });
+
+  try {
+    await keeper.setStage("downloading");
+    await sleep(70);
+    assert.equal(stages[0], "downloading");
+    assert.ok(stages.length >= 3, `expected timer beats, got ${stages.length}`);
+    assert.ok(stages.every((stage) => stage === "downloading"));
+  } finally {
+    keeper.stop();
+  }
+});
+
+test("a rejected lease aborts the job", async () => {
+  const keeper = startLeaseKeeper({
+    leaseMs: 1_000,
+    intervalMs: 10_000,
+    initialStage: "leased",
+    heartbeat: async () => {
+      throw new Error("Worker does not hold lease");
+    },
+  });
+
+  try {
+    await assert.rejects(() => keeper.setStage("extracting"), LeaseLostError);
+    assert.equal(keeper.signal.aborted, true);
+  } finally {
+    keeper.stop();
+  }
+});
+
+test("transient heartbeat errors only abort once the lease window passes", async () => {
+  let clock = 0;
+  const keeper = startLeaseKeeper({
+    leaseMs: 1_000,
+    intervalMs: 10_000,
+    initialStage: "leased",
+    now: () => clock,
+    heartbeat: async () => {
+      throw new Error("fetch failed");
+    },
+  });
+
+  try {
+    clock = 500;
+    await keeper.setStage("downloading");
+    assert.equal(keeper.signal.aborted, false);
+
+    clock = 1_200;
+    await assert.rejects(() => keeper.setStage("verifying"), /expired/);
+  } finally {
+    keeper.stop();
+  }
+});
+
+test("heartbeat interval leaves room for a missed beat", () => {
+  assert.equal(heartbeatIntervalMs(30_000), 10_000);
+  assert.equal(heartbeatIntervalMs(300), 250);
+});
@@ -0,0 +1,172 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { buildLocalPaths } from "../localPaths";
+import {
+  buildSourceCandidates,
+  downloadSource,
+  resolveAvailableSources,
+  selectPreferredSource,
+  sha256,
+  verifyDownloadedSource,
+} from "../sourceResolver";
+
+async function makeMirror(files: Record<string, string>) {
+  const root = await mkdtemp(path.join(os.tmpdir(), "bookzang-mirror-"));
+  for (const [name, contents] of Object.entries(files)) {
+    const filePath = path.join(root, "cache", "epub", "11", name);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, contents);
+  }
+  return root;
+}
+
+test("quality mode prefers epub over txt", () => {
+  const picked = selectPreferredSource(
+    [
+      { format: "txt", url: "https://example.test/pg11.txt" },
+      { format: "epub.noimages", url: "https://example.test/pg11.epub" },
+    ],
+    "quality",
+  );
+  assert.equal(picked.format, "epub.noimages");
+});
+
+test("fast mode prefers txt over epub", () => {
+  const picked = selectPreferredSource(
+    [
+      { format: "epub3.images", url: "https://example.test/pg11-images-3.epub" },
+      { format: "txt", url: "https://example.test/pg11.txt" },
+    ],
+    "fast",
+  );
+  assert.equal(picked.format, "txt");
+});
+
+test("selection fails when nothing is available", () => {
+  assert.throws(() => selectPreferredSource([], "quality"), /No supported/);
+});
+
+test("candidates follow the Gutenberg cache layout", () => {
+  const candidates = buildSourceCandidates("https://mirror.test/", "11");
+  assert.deepEqual(
+    candidates.map((c) => c.url),
+    [
+      "https://mirror.test/cache/epub/11/pg11-images-3.epub",
+      "https://mirror.test/cache/epub/11/pg11-images.epub",
+      "https://mirror.test/cache/epub/11/pg11.epub",
+      "https://mirror.test/cache/epub/11/pg11.txt",
+    ],
+  );
+  assert.throws(() => buildSourceCandidates("/mirror", "../11"), /Invalid/);
+});
+
+test("local mirror resolves and downloads with a real checksum", async () => {
+  const mirror = await makeMirror({
+    "pg11.epub": "epub-bytes",
+    "pg11.txt": "txt-bytes",
+  });
+  const library = await mkdtemp(path.join(os.tmpdir(), "bookzang-lib-"));
+
+  try {
+    const available = await resolveAvailableSources(mirror, "11");
+    assert.deepEqual(
+      available.map((c) => c.format),
+      ["epub.noimages", "txt"],
+    );
+
+    const paths = buildLocalPaths(library, "11");
+    const downloaded = await downloadSource(
+      selectPreferredSource(available, "quality"),
+      paths,
+    );
+
+    assert.equal(downloaded.format, "epub.noimages");
+    assert.equal(downloaded.localSourcePath, paths.epubPath);
+    assert.equal(downloaded.checksum, sha256("epub-bytes"));
+    assert.equal(await readFile(paths.epubPath, "utf8"), "epub-bytes");
+  } finally {
+    await rm(mirror, { recursive: true, force: true });
+    await rm(library, { recursive: true, force: true });
+  }
+});
+
+test("http stand-in resolves via HEAD and downloads txt in fast mode", async () => {
+  const server = http.createServer((req, res) => {
+    if (req.url === "/cache/epub/11/pg11.txt") {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end(req.method === "HEAD" ? undefined : "plain text body");
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const library = await mkdtemp(path.join(os.tmpdir(), "bookzang-lib-"));
+
+  try {
+    const mirror = `http://127.0.0.1:${port}`;
+    const available = await resolveAvailableSources(mirror, "11");
+    assert.deepEqual(available.map((c) => c.format), ["txt"]);
+
+    const paths = buildLocalPaths(library, "11");
+    const downloaded = await downloadSource(
+      selectPreferredSource(available, "fast"),
+      paths,
+    );
+
+    assert.equal(downloaded.sourceUrl, `${mirror}/cache/epub/11/pg11.txt`);
+    assert.equal(downloaded.localSourcePath, paths.txtPath);
+    assert.equal(downloaded.checksum, sha256("plain text body"));
+  } finally {
+    server.close();
+    await rm(library, { recursive: true, force: true });
+  }
+});
+
+test("verification rejects truncated files and non-zip EPUBs", async () => {
+  const mirror = await makeMirror({ "pg11.epub": "PK\u0003\u0004zip-body" });
+  const library = await mkdtemp(path.join(os.tmpdir(), "bookzang-lib-"));
+
+  try {
+    const [epub] = await resolveAvailableSources(mirror, "11");
+    const paths = buildLocalPaths(library, "11");
+    const downloaded = await downloadSource(epub, paths);
+    await verifyDownloadedSource(downloaded);
+
+    await writeFile(paths.epubPath, "PK\u0003\u0004zip");
+    await assert.rejects(() => verifyDownloadedSource(downloaded), /checksum/);
+
+    await writeFile(paths.epubPath, "not-a-zip-body");
+    await assert.rejects(
+      () =>
+        verifyDownloadedSource({
+          ...downloaded,
+          checksum: sha256("not-a-zip-body"),
+          sizeBytes: 14,
+        }),
+      /not a zip/,
+    );
+  } finally {
+    await rm(mirror, { recursive: true, force: true });
+    await rm(library, { recursive: true, force: true });
+  }
+});
+
+test("a requeue format override pins the source format", () => {
+  const available = [
+    { format: "epub.noimages" as const, url: "https://example.test/pg11.epub" },
+    { format: "txt" as const, url: "https://example.test/pg11.txt" },
+  ];
+
+  assert.equal(selectPreferredSource(available, "quality", "txt").format, "txt");
+  assert.throws(
+    () => selectPreferredSource(available, "fast", "epub3.images"),
+    /not available/,
+  );
+});
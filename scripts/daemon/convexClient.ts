@@ -1,6 +1,16 @@
 import { ConvexHttpClient } from "convex/browser";
+import type { SourceFormat } from "./sourceResolver";
 
 type LeaseArgs = { workerId: string; leaseMs?: number };
+export type LeasedJob = {
+  ingestJobId: string;
+  bookId: string;
+  gutenbergId: string;
+  mode: "quality" | "fast";
+  formatOverride?: SourceFormat;
+  attempt: number;
+  maxAttempts: number;
+};
 type HeartbeatArgs = {
   ingestJobId: string;
   workerId: string;
@@ -13,7 +23,9 @@ type CompleteArgs = {
   selectedFormat: string;
   sourceUrl: string;
   localSourcePath: string;
-  localExtractedPath: string;
+  localExtractedPath?: string;
+  extractedFileId?: string;
+  chapterManifestFileId?: string;
   checksum: string;
   warning?: string;
 };
@@ -31,7 +43,7 @@ export class IngestConvexClient {
     });
   }
 
-  async leaseNext(args: LeaseArgs) {
+  async leaseNext(args: LeaseArgs): Promise<LeasedJob | null> {
     return await this.client.mutation("ingestJobs:leaseNext" as any, args);
   }
 
@@ -43,7 +55,41 @@ export class IngestConvexClient {
     return await this.client.mutation("ingestJobs:complete" as any, args);
   }
 
-  async fail(ingestJobId: string, error: string, workerId?: string) {
+  /**
+   * Upload an artifact to Convex file storage and return its storage id
+   */
+  async uploadArtifact(contents: string, contentType: string): Promise<string> {
+    const uploadUrl: string = await this.client.mutation(
+      "files:generateUploadUrl" as any,
+      {},
+    );
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": contentType },
+      body: contents,
+    });
+    if (!response.ok) {
+      throw new Error(`Artifact upload failed with HTTP ${response.status}`);
+    }
+    const { storageId } = (await response.json()) as { storageId: string };
+    return storageId;
+  }
+
+  async release(
+    ingestJobId: string,
+    workerId: string,
+  ): Promise<{ released: boolean }> {
+    return await this.client.mutation("ingestJobs:release" as any, {
+      ingestJobId,
+      workerId,
+    });
+  }
+
+  async fail(
+    ingestJobId: string,
+    error: string,
+    workerId?: string,
+  ): Promise<{ action: "retry" | "dead_letter" }> {
     return await this.client.mutation("ingestJobs:fail" as any, {
       ingestJobId,
       workerId,
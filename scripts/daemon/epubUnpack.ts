@@ -0,0 +1,97 @@
+import { readFile } from "node:fs/promises";
+import {
+  buildAnnotatedMarkdownFromSpine,
+  buildChapterManifest,
+  type ChapterManifestEntry,
+  type ExtractedBook,
+} from "../../convex/epubExtract";
+import { readEpubPackage, type EpubMetadata } from "../../convex/epubPackage";
+import type { LocalPaths } from "./localPaths";
+import { sha256, writeLocalArtifact } from "./sourceResolver";
+
+export {
+  buildChapterManifest,
+  type ChapterManifestEntry,
+} from "../../convex/epubExtract";
+export {
+  readEpubPackage,
+  type EpubMetadata,
+  type EpubPackage,
+} from "../../convex/epubPackage";
+
+export type ArtifactManifest = {
+  version: 1;
+  gutenbergId: string;
+  extractedAt: string;
+  source: {
+    path: string;
+    checksum: string;
+    sizeBytes: number;
+  };
+  metadata: EpubMetadata;
+  artifacts: {
+    extractedPath: string;
+    derivedPath: string;
+    extractedChecksum: string;
+  };
+  chapterCount: number;
+  warnings: string[];
+};
+
+export type ExtractEpubResult = {
+  book: ExtractedBook;
+  chapters: ChapterManifestEntry[];
+  manifest: ArtifactManifest;
+};
+
+/**
+ * Extract a local EPUB into book.annotated.md, chapters.json and manifest.json
+ */
+export async function extractEpubToLibrary(
+  epubPath: string,
+  paths: LocalPaths,
+  gutenbergId: string,
+): Promise<ExtractEpubResult> {
+  const bytes = await readFile(epubPath);
+  const epub = readEpubPackage(bytes);
+  const book = buildAnnotatedMarkdownFromSpine(epub.spine);
+
+  const warnings: string[] = [];
+  if (epub.untitledHrefs.length > 0) {
+    warnings.push(
+      `${epub.untitledHrefs.length} spine document(s) had no nav entry; titles taken from headings`,
+    );
+  }
+
+  const chapters = buildChapterManifest(book);
+  await writeLocalArtifact(paths.extractedPath, book.markdown);
+  await writeLocalArtifact(
+    paths.derivedPath,
+    JSON.stringify(chapters, null, 2),
+  );
+
+  const manifest: ArtifactManifest = {
+    version: 1,
+    gutenbergId,
+    extractedAt: new Date().toISOString(),
+    source: {
+      path: epubPath,
+      checksum: sha256(bytes),
+      sizeBytes: bytes.length,
+    },
+    metadata: epub.metadata,
+    artifacts: {
+      extractedPath: paths.extractedPath,
+      derivedPath: paths.derivedPath,
+      extractedChecksum: sha256(book.markdown),
+    },
+    chapterCount: book.chapters.length,
+    warnings,
+  };
+  await writeLocalArtifact(
+    paths.manifestPath,
+    JSON.stringify(manifest, null, 2),
+  );
+
+  return { book, chapters, manifest };
+}
@@ -1,7 +1,21 @@
 import { config as loadEnv } from "dotenv";
-import crypto from "node:crypto";
-import { IngestConvexClient } from "./convexClient";
+import { IngestConvexClient, type LeasedJob } from "./convexClient";
+import { extractEpubToLibrary } from "./epubUnpack";
 import { computeNextLeaseDelayMs, sleep } from "./leaseLogic";
+import {
+  LeaseLostError,
+  startLeaseKeeper,
+  type LeaseKeeper,
+} from "./leaseKeeper";
+import { buildLocalPaths } from "./localPaths";
+import {
+  DEFAULT_MIRROR,
+  downloadSource,
+  isEpubFormat,
+  resolveAvailableSources,
+  selectPreferredSource,
+  verifyDownloadedSource,
+} from "./sourceResolver";
 
 loadEnv({ path: ".env.local" });
 loadEnv();
@@ -18,66 +32,242 @@ const workerId =
 const leaseMs = process.env.INGEST_LEASE_MS
   ? Number(process.env.INGEST_LEASE_MS)
   : 30_000;
+const concurrency = Math.max(
+  1,
+  Number(process.env.INGEST_CONCURRENCY ?? 1) || 1,
+);
+// How long in-flight jobs may keep running after SIGTERM before their
+// leases are released back to the queue
+const shutdownGraceMs = process.env.INGEST_SHUTDOWN_GRACE_MS
+  ? Number(process.env.INGEST_SHUTDOWN_GRACE_MS)
+  : 20_000;
+// Library root for local artifacts; mirror may be an http(s) base URL or a
+// local directory using the Gutenberg cache layout (for offline runs).
+const libraryRoot = process.env.LIBRARY_ROOT ?? "Library";
+const mirror = process.env.GUTENBERG_MIRROR ?? DEFAULT_MIRROR;
 
-function fakeChecksum(input: string) {
-  return crypto.createHash("sha256").update(input).digest("hex");
+type InFlightJob = {
+  slotWorkerId: string;
+  keeper: LeaseKeeper;
+};
+
+const inFlight = new Map<string, InFlightJob>();
+let shuttingDown = false;
+
+function log(message: string) {
+  process.stdout.write(`[ingest-daemon] ${message}\n`);
 }
 
-async function processLeasedJob(client: IngestConvexClient, ingestJobId: string) {
-  await client.heartbeat({ ingestJobId, workerId, stage: "resolving_source", leaseMs });
+function logError(message: string) {
+  process.stderr.write(`[ingest-daemon] ${message}\n`);
+}
+
+async function processLeasedJob(
+  client: IngestConvexClient,
+  job: LeasedJob,
+  keeper: LeaseKeeper,
+  slotWorkerId: string,
+) {
+  const { ingestJobId, gutenbergId, mode, formatOverride } = job;
+  const { signal } = keeper;
+
+  await keeper.setStage("resolving_source");
+  const available = await resolveAvailableSources(mirror, gutenbergId);
+  if (available.length === 0) {
+    throw new Error(
+      `No source formats found for Gutenberg #${gutenbergId} at ${mirror}`,
+    );
+  }
+
+  const selected = selectPreferredSource(available, mode, formatOverride);
+  const paths = buildLocalPaths(libraryRoot, gutenbergId);
+
+  await keeper.setStage("downloading");
+  const downloaded = await downloadSource(selected, paths, signal);
+
+  await keeper.setStage("verifying");
+  await verifyDownloadedSource(downloaded);
+
+  const warnings: string[] = [];
+  if (mode === "quality" && !isEpubFormat(downloaded.format)) {
+    warnings.push("EPUB not available from mirror; fell back to plain text.");
+  }
+
+  let localExtractedPath: string | undefined;
+  let extractedFileId: string | undefined;
+  let chapterManifestFileId: string | undefined;
+  if (isEpubFormat(downloaded.format)) {
+    await keeper.setStage("extracting");
+    const extracted = await extractEpubToLibrary(
+      downloaded.localSourcePath,
+      paths,
+      gutenbergId,
+    );
+    localExtractedPath = extracted.manifest.artifacts.extractedPath;
+    warnings.push(...extracted.manifest.warnings);
 
-  // Placeholder until resolver/downloader/extractor wiring lands.
-  // This keeps lease lifecycle operational and testable.
-  const selectedFormat = "epub.noimages";
-  const sourceUrl = "https://www.gutenberg.org/ebooks/11.epub.noimages";
-  const localSourcePath = "Library/epub/11/pg11.epub";
-  const localExtractedPath = "Library/work/11/extracted/book.annotated.md";
-  const checksum = fakeChecksum(`${ingestJobId}:${selectedFormat}`);
+    // Convex cannot read the local Library, so hand cleanup its own copy
+    await keeper.setStage("uploading");
+    extractedFileId = await client.uploadArtifact(
+      extracted.book.markdown,
+      "text/markdown",
+    );
+    chapterManifestFileId = await client.uploadArtifact(
+      JSON.stringify(extracted.chapters),
+      "application/json",
+    );
+  }
 
+  signal.throwIfAborted();
   await client.complete({
     ingestJobId,
-    workerId,
-    selectedFormat,
-    sourceUrl,
-    localSourcePath,
+    workerId: slotWorkerId,
+    selectedFormat: downloaded.format,
+    sourceUrl: downloaded.sourceUrl,
+    localSourcePath: downloaded.localSourcePath,
     localExtractedPath,
-    checksum,
-    warning: "Daemon scaffolding mode: placeholder artifact metadata.",
+    extractedFileId,
+    chapterManifestFileId,
+    checksum: downloaded.checksum,
+    warning: warnings.length > 0 ? warnings.join(" ") : undefined,
   });
 }
 
-async function run() {
-  const client = new IngestConvexClient(convexUrl);
+async function runJob(
+  client: IngestConvexClient,
+  leased: LeasedJob,
+  slotWorkerId: string,
+) {
+  const { ingestJobId } = leased;
+  const keeper = startLeaseKeeper({
+    leaseMs,
+    initialStage: "leased",
+    heartbeat: (stage) =>
+      client.heartbeat({ ingestJobId, workerId: slotWorkerId, stage, leaseMs }),
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      logError(`heartbeat failed job=${ingestJobId}: ${message}`);
+    },
+  });
+  inFlight.set(ingestJobId, { slotWorkerId, keeper });
+
+  try {
+    await processLeasedJob(client, leased, keeper, slotWorkerId);
+    log(`completed job=${ingestJobId} worker=${slotWorkerId}`);
+  } catch (error) {
+    const reason = keeper.signal.aborted ? keeper.signal.reason : error;
+    const message = reason instanceof Error ? reason.message : String(reason);
+
+    if (reason instanceof LeaseLostError) {
+      // Someone else owns the job now (or shutdown released it); don't fail it
+      logError(`abandoned job=${ingestJobId}: ${message}`);
+    } else {
+      try {
+        const { action } = await client.fail(
+          ingestJobId,
+          message,
+          slotWorkerId,
+        );
+        logError(
+          `failed job=${ingestJobId} attempt=${leased.attempt}/${leased.maxAttempts} ` +
+            `(${action === "retry" ? "retry scheduled" : "dead-lettered"}): ${message}`,
+        );
+      } catch (failError) {
+        // The lease expires and stale-lease recovery picks the job up again
+        const failMessage =
+          failError instanceof Error ? failError.message : String(failError);
+        logError(
+          `could not record failure job=${ingestJobId}: ${failMessage} (job error: ${message})`,
+        );
+      }
+    }
+  } finally {
+    keeper.stop();
+    inFlight.delete(ingestJobId);
+  }
+}
+
+async function runSlot(client: IngestConvexClient, slot: number) {
+  const slotWorkerId = concurrency > 1 ? `${workerId}#${slot + 1}` : workerId;
   let emptyLeaseLoops = 0;
+  let failedLoops = 0;
 
-  process.stdout.write(`[ingest-daemon] starting worker=${workerId}\n`);
+  // A failed pass (say Convex is unreachable) backs off and tries again, so
+  // one error never takes the slot down
+  while (!shuttingDown) {
+    try {
+      await client.recoverStaleLeases();
 
-  while (true) {
-    await client.recoverStaleLeases();
+      const leased = await client.leaseNext({
+        workerId: slotWorkerId,
+        leaseMs,
+      });
+      failedLoops = 0;
+      if (!leased) {
+        emptyLeaseLoops += 1;
+        await sleep(computeNextLeaseDelayMs(emptyLeaseLoops));
+        continue;
+      }
 
-    const leased = await client.leaseNext({ workerId, leaseMs });
-    if (!leased) {
-      emptyLeaseLoops += 1;
-      await sleep(computeNextLeaseDelayMs(emptyLeaseLoops));
-      continue;
+      emptyLeaseLoops = 0;
+      await runJob(client, leased, slotWorkerId);
+    } catch (error) {
+      failedLoops += 1;
+      const message = error instanceof Error ? error.message : String(error);
+      logError(`lease loop failed worker=${slotWorkerId}: ${message}`);
+      await sleep(computeNextLeaseDelayMs(failedLoops));
     }
+  }
+}
+
+/**
+ * Stop leasing, give in-flight jobs a grace period, then release their leases
+ */
+async function shutdown(client: IngestConvexClient, signalName: string) {
+  if (shuttingDown) {
+    logError(`${signalName} received again; exiting now`);
+    process.exit(1);
+  }
+  shuttingDown = true;
+  log(`${signalName} received; draining ${inFlight.size} job(s)`);
 
-    emptyLeaseLoops = 0;
-    const ingestJobId = String(leased);
+  const deadline = Date.now() + shutdownGraceMs;
+  while (inFlight.size > 0 && Date.now() < deadline) {
+    await sleep(250);
+  }
 
+  for (const [ingestJobId, job] of inFlight) {
+    job.keeper.abort(new LeaseLostError("Released during daemon shutdown"));
     try {
-      await processLeasedJob(client, ingestJobId);
-      process.stdout.write(`[ingest-daemon] completed job=${ingestJobId}\n`);
+      const { released } = await client.release(ingestJobId, job.slotWorkerId);
+      log(`${released ? "released" : "could not release"} job=${ingestJobId}`);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      await client.fail(ingestJobId, message, workerId);
-      process.stderr.write(`[ingest-daemon] failed job=${ingestJobId}: ${message}\n`);
+      logError(`release failed job=${ingestJobId}: ${message}`);
     }
   }
+
+  process.exit(0);
+}
+
+async function run() {
+  const client = new IngestConvexClient(convexUrl);
+
+  log(`starting worker=${workerId} concurrency=${concurrency}`);
+
+  for (const signalName of ["SIGTERM", "SIGINT"] as const) {
+    process.on(signalName, () => {
+      void shutdown(client, signalName);
+    });
+  }
+
+  await Promise.all(
+    Array.from({ length: concurrency }, (_, slot) => runSlot(client, slot)),
+  );
 }
 
 run().catch((error) => {
   const message = error instanceof Error ? error.message : String(error);
-  process.stderr.write(`[ingest-daemon] fatal: ${message}\n`);
+  logError(`fatal: ${message}`);
   process.exitCode = 1;
 });
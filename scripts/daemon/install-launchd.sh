@@ -8,6 +8,8 @@ DAEMON_LABEL="${DAEMON_LABEL:-com.bookzang.ingest.daemon}"
 TARGET_PLIST="$TARGET_DIR/$DAEMON_LABEL.plist"
 LOG_DIR="$HOME/Library/Logs/bookzang"
 LIBRARY_ROOT="${LIBRARY_ROOT:-$ROOT_DIR/Library}"
+GUTENBERG_MIRROR="${GUTENBERG_MIRROR:-https://www.gutenberg.org}"
+INGEST_CONCURRENCY="${INGEST_CONCURRENCY:-2}"
 NPM_BIN="$(command -v npm)"
 NODE_BIN="$(command -v node)"
 SYSTEM_PATH="${PATH:-/opt/homebrew/bin:/usr/local/bin:/usr/bin:/bin:/usr/sbin:/sbin}"
@@ -40,6 +42,8 @@ sed \
   -e "s|__LABEL__|$DAEMON_LABEL|g" \
   -e "s|__WORKDIR__|$ROOT_DIR|g" \
   -e "s|__LIBRARY_ROOT__|$LIBRARY_ROOT|g" \
+  -e "s|__GUTENBERG_MIRROR__|$GUTENBERG_MIRROR|g" \
+  -e "s|__INGEST_CONCURRENCY__|$INGEST_CONCURRENCY|g" \
   -e "s|__NODE_BIN__|$NODE_BIN|g" \
   -e "s|__TSX_BIN__|$TSX_BIN|g" \
   -e "s|__DAEMON_ENTRY__|$DAEMON_ENTRY|g" \
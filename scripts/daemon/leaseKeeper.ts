@@ -0,0 +1,101 @@
+export type HeartbeatFn = (stage: string) => Promise<unknown>;
+
+export type LeaseKeeper = {
+  // Aborted when the lease is lost or the job is cancelled for shutdown
+  signal: AbortSignal;
+  stage: () => string;
+  setStage: (stage: string) => Promise<void>;
+  abort: (reason: Error) => void;
+  stop: () => void;
+};
+
+export class LeaseLostError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LeaseLostError";
+  }
+}
+
+type LeaseKeeperOptions = {
+  heartbeat: HeartbeatFn;
+  initialStage: string;
+  leaseMs: number;
+  intervalMs?: number;
+  now?: () => number;
+  onError?: (error: unknown) => void;
+};
+
+export function heartbeatIntervalMs(leaseMs: number): number {
+  // Three renewals per lease window leaves room for one missed beat
+  return Math.max(250, Math.floor(leaseMs / 3));
+}
+
+function isLeaseRejection(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /does not hold lease|not found/i.test(message);
+}
+
+/**
+ * Renew a job lease on a background timer while the job runs
+ *
+ * Each stage change is reported immediately. The signal aborts when Convex
+ * rejects the lease (another worker took it) or when no heartbeat has
+ * succeeded for a whole lease window, since the lease has then expired.
+ */
+export function startLeaseKeeper(options: LeaseKeeperOptions): LeaseKeeper {
+  const now = options.now ?? Date.now;
+  const controller = new AbortController();
+  let stage = options.initialStage;
+  let lastRenewedAt = now();
+  let inFlight = false;
+
+  const beat = async () => {
+    if (controller.signal.aborted) {
+      return;
+    }
+    try {
+      await options.heartbeat(stage);
+      lastRenewedAt = now();
+    } catch (error) {
+      options.onError?.(error);
+      if (isLeaseRejection(error)) {
+        controller.abort(new LeaseLostError(`Lease lost: ${String(error)}`));
+      } else if (now() - lastRenewedAt >= options.leaseMs) {
+        controller.abort(
+          new LeaseLostError("Lease expired before it could be renewed"),
+        );
+      }
+    }
+  };
+
+  const timer = setInterval(
+    () => {
+      if (inFlight) {
+        return;
+      }
+      inFlight = true;
+      void beat().finally(() => {
+        inFlight = false;
+      });
+    },
+    options.intervalMs ?? heartbeatIntervalMs(options.leaseMs),
+  );
+  timer.unref?.();
+
+  return {
+    signal: controller.signal,
+    stage: () => stage,
+    async setStage(nextStage: string) {
+      controller.signal.throwIfAborted();
+      stage = nextStage;
+      await beat();
+      controller.signal.throwIfAborted();
+    },
+    abort(reason: Error) {
+      controller.abort(reason);
+    },
+    stop() {
+      clearInterval(timer);
+    },
+  };
+}
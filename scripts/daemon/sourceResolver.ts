@@ -0,0 +1,208 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import type { LocalPaths } from "./localPaths";
+
+export type IngestMode = "quality" | "fast";
+
+export type SourceFormat = "epub3.images" | "epub.images" | "epub.noimages" | "txt";
+
+export type SourceCandidate = {
+  format: SourceFormat;
+  url: string;
+};
+
+export type DownloadedSource = {
+  format: SourceFormat;
+  sourceUrl: string;
+  localSourcePath: string;
+  checksum: string;
+  sizeBytes: number;
+};
+
+export const QUALITY_PRIORITY: SourceFormat[] = [
+  "epub3.images",
+  "epub.images",
+  "epub.noimages",
+  "txt",
+];
+
+export const FAST_PRIORITY: SourceFormat[] = [
+  "txt",
+  "epub.noimages",
+  "epub.images",
+  "epub3.images",
+];
+
+export const DEFAULT_MIRROR = "https://www.gutenberg.org";
+
+const CACHE_FILE_NAMES: Record<SourceFormat, (gutenbergId: string) => string> = {
+  "epub3.images": (id) => `pg${id}-images-3.epub`,
+  "epub.images": (id) => `pg${id}-images.epub`,
+  "epub.noimages": (id) => `pg${id}.epub`,
+  txt: (id) => `pg${id}.txt`,
+};
+
+export function isEpubFormat(format: SourceFormat): boolean {
+  return format !== "txt";
+}
+
+function isHttpMirror(mirror: string): boolean {
+  return /^https?:\/\//i.test(mirror);
+}
+
+/**
+ * Build candidate URLs (or local file paths) for every known format using
+ * the Gutenberg cache layout: <mirror>/cache/epub/<id>/pg<id>[-images[-3]].epub
+ */
+export function buildSourceCandidates(
+  mirror: string,
+  gutenbergId: string,
+): SourceCandidate[] {
+  if (!/^\d+$/.test(gutenbergId)) {
+    throw new Error(`Invalid Gutenberg ID: ${gutenbergId}`);
+  }
+
+  return QUALITY_PRIORITY.map((format) => {
+    const fileName = CACHE_FILE_NAMES[format](gutenbergId);
+    const url = isHttpMirror(mirror)
+      ? `${mirror.replace(/\/+$/, "")}/cache/epub/${gutenbergId}/${fileName}`
+      : path.join(mirror, "cache", "epub", gutenbergId, fileName);
+    return { format, url };
+  });
+}
+
+export function selectPreferredSource(
+  available: SourceCandidate[],
+  mode: IngestMode,
+  formatOverride?: SourceFormat,
+): SourceCandidate {
+  if (formatOverride) {
+    const pinned = available.find((candidate) => candidate.format === formatOverride);
+    if (!pinned) {
+      throw new Error(`Requested format ${formatOverride} is not available from mirror`);
+    }
+    return pinned;
+  }
+
+  const priority = mode === "fast" ? FAST_PRIORITY : QUALITY_PRIORITY;
+
+  for (const format of priority) {
+    const hit = available.find((candidate) => candidate.format === format);
+    if (hit) {
+      return hit;
+    }
+  }
+
+  throw new Error("No supported source formats available");
+}
+
+async function isCandidateAvailable(candidate: SourceCandidate): Promise<boolean> {
+  if (isHttpMirror(candidate.url)) {
+    try {
+      const response = await fetch(candidate.url, { method: "HEAD" });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  try {
+    const info = await stat(candidate.url);
+    return info.isFile() && info.size > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Probe the mirror for every candidate format and return only the ones that exist
+ */
+export async function resolveAvailableSources(
+  mirror: string,
+  gutenbergId: string,
+): Promise<SourceCandidate[]> {
+  const candidates = buildSourceCandidates(mirror, gutenbergId);
+  const checks = await Promise.all(candidates.map(isCandidateAvailable));
+  return candidates.filter((_, index) => checks[index]);
+}
+
+async function readSourceBytes(
+  candidate: SourceCandidate,
+  signal?: AbortSignal,
+): Promise<Buffer> {
+  if (!isHttpMirror(candidate.url)) {
+    return await readFile(candidate.url, { signal });
+  }
+
+  const response = await fetch(candidate.url, { signal });
+  if (!response.ok) {
+    throw new Error(
+      `Download failed for ${candidate.url}: HTTP ${response.status}`,
+    );
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export function sha256(bytes: Buffer | string): string {
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+export async function writeLocalArtifact(
+  filePath: string,
+  contents: Buffer | string,
+) {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, contents);
+}
+
+/**
+ * Download the selected source into the Library layout and checksum it
+ */
+export async function downloadSource(
+  candidate: SourceCandidate,
+  paths: LocalPaths,
+  signal?: AbortSignal,
+): Promise<DownloadedSource> {
+  const bytes = await readSourceBytes(candidate, signal);
+  if (bytes.length === 0) {
+    throw new Error(`Downloaded source is empty: ${candidate.url}`);
+  }
+
+  const localSourcePath = isEpubFormat(candidate.format)
+    ? paths.epubPath
+    : paths.txtPath;
+  await writeLocalArtifact(localSourcePath, bytes);
+
+  return {
+    format: candidate.format,
+    sourceUrl: candidate.url,
+    localSourcePath,
+    checksum: sha256(bytes),
+    sizeBytes: bytes.length,
+  };
+}
+
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * Re-read the stored source and check it is complete and of the expected kind
+ */
+export async function verifyDownloadedSource(downloaded: DownloadedSource) {
+  const bytes = await readFile(downloaded.localSourcePath);
+
+  if (bytes.length !== downloaded.sizeBytes || sha256(bytes) !== downloaded.checksum) {
+    throw new Error(
+      `Stored source does not match download checksum: ${downloaded.localSourcePath}`,
+    );
+  }
+
+  if (isEpubFormat(downloaded.format)) {
+    if (!bytes.subarray(0, 4).equals(ZIP_MAGIC)) {
+      throw new Error(`Downloaded EPUB is not a zip archive: ${downloaded.sourceUrl}`);
+    }
+  } else if (bytes.subarray(0, 4096).includes(0)) {
+    throw new Error(`Downloaded text contains binary data: ${downloaded.sourceUrl}`);
+  }
+}
@@ -0,0 +1,196 @@
+import path from "node:path";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { gunzipSync } from "node:zlib";
+import { config as loadEnv } from "dotenv";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "../convex/_generated/api";
+import {
+  parseCatalogCsv,
+  parseCatalogRdf,
+  type CatalogRecord,
+} from "../convex/gutenbergCatalog";
+
+loadEnv({ path: ".env.local" });
+loadEnv();
+
+const convexUrl = process.env.CONVEX_URL ?? process.env.VITE_CONVEX_URL;
+
+if (!convexUrl) {
+  throw new Error(
+    "Missing CONVEX_URL or VITE_CONVEX_URL in environment (.env.local)",
+  );
+}
+
+type CatalogSource = "csv" | "rdf";
+
+type Totals = {
+  parsed: number;
+  skipped: number;
+  created: number;
+  updated: number;
+};
+
+const catalogPath = process.argv[2] ?? process.env.GUTENBERG_CATALOG;
+
+const importLimit = process.env.CATALOG_LIMIT
+  ? Number(process.env.CATALOG_LIMIT)
+  : undefined;
+
+// Comma-separated language codes, e.g. "en,fr"; empty imports every language
+const languageFilter = new Set(
+  (process.env.CATALOG_LANGUAGES ?? "")
+    .split(",")
+    .map((code) => code.trim().toLowerCase())
+    .filter((code) => code.length > 0),
+);
+
+const chunkSize = 200;
+
+const readText = async (filePath: string) => {
+  const buffer = await readFile(filePath);
+  return filePath.endsWith(".gz")
+    ? gunzipSync(buffer).toString("utf8")
+    : buffer.toString("utf8");
+};
+
+const shouldImport = (record: CatalogRecord) => {
+  // Audio books and other non-text entries have nothing for us to ingest
+  if (record.type !== "Text") {
+    return false;
+  }
+  if (languageFilter.size === 0) {
+    return true;
+  }
+  return record.languages.some((language) =>
+    languageFilter.has(language.toLowerCase()),
+  );
+};
+
+/**
+ * Yield catalog records from a CSV file, a single RDF file, or a directory
+ * holding the extracted RDF dump (cache/epub/<id>/pg<id>.rdf)
+ */
+async function* readCatalog(
+  inputPath: string,
+): AsyncGenerator<{ source: CatalogSource; record: CatalogRecord }> {
+  const info = await stat(inputPath);
+
+  if (info.isDirectory()) {
+    const entries = await readdir(inputPath, { recursive: true });
+    const rdfFiles = entries
+      .filter((entry) => entry.endsWith(".rdf"))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    for (const entry of rdfFiles) {
+      const record = parseCatalogRdf(
+        await readText(path.join(inputPath, entry)),
+      );
+      if (record) {
+        yield { source: "rdf", record };
+      }
+    }
+    return;
+  }
+
+  if (/\.rdf(\.gz)?$/i.test(inputPath)) {
+    const record = parseCatalogRdf(await readText(inputPath));
+    if (record) {
+      yield { source: "rdf", record };
+    }
+    return;
+  }
+
+  if (/\.csv(\.gz)?$/i.test(inputPath)) {
+    for (const record of parseCatalogCsv(await readText(inputPath))) {
+      yield { source: "csv", record };
+    }
+    return;
+  }
+
+  throw new Error(
+    `Unsupported catalog input ${inputPath}. Use pg_catalog.csv(.gz), a .rdf file, or the extracted RDF directory (tar xjf rdf-files.tar.bz2).`,
+  );
+}
+
+const pushChunk = async (
+  client: ConvexHttpClient,
+  source: CatalogSource,
+  chunk: CatalogRecord[],
+  totals: Totals,
+) => {
+  if (chunk.length === 0) {
+    return;
+  }
+
+  const result = await client.mutation(api.intake.importCatalogCandidates, {
+    catalogSource: source,
+    records: chunk.map((record) => ({
+      gutenbergId: record.gutenbergId,
+      title: record.title,
+      author: record.author,
+      authors: record.authors,
+      languages: record.languages,
+      subjects: record.subjects,
+      bookshelves: record.bookshelves,
+      locClasses: record.locClasses,
+      downloadCount: record.downloadCount,
+      issued: record.issued,
+    })),
+  });
+
+  totals.created += result.created;
+  totals.updated += result.updated;
+};
+
+const importCatalog = async (
+  client: ConvexHttpClient,
+  inputPath: string,
+): Promise<Totals> => {
+  const totals: Totals = { parsed: 0, skipped: 0, created: 0, updated: 0 };
+  const batch: CatalogRecord[] = [];
+  let batchSource: CatalogSource = "csv";
+
+  for await (const { source, record } of readCatalog(inputPath)) {
+    if (importLimit && totals.parsed >= importLimit) {
+      break;
+    }
+
+    if (!shouldImport(record)) {
+      totals.skipped += 1;
+      continue;
+    }
+
+    totals.parsed += 1;
+    batchSource = source;
+    batch.push(record);
+
+    if (batch.length >= chunkSize) {
+      await pushChunk(client, batchSource, batch, totals);
+      batch.length = 0;
+      process.stdout.write(`Imported ${totals.parsed} catalog entries...\n`);
+    }
+  }
+
+  await pushChunk(client, batchSource, batch, totals);
+  return totals;
+};
+
+const run = async () => {
+  if (!catalogPath) {
+    throw new Error(
+      "Pass the catalog path as an argument or set GUTENBERG_CATALOG",
+    );
+  }
+
+  const client = new ConvexHttpClient(convexUrl);
+  const totals = await importCatalog(client, path.resolve(catalogPath));
+
+  console.log(
+    `Catalog import complete: imported=${totals.parsed}, created=${totals.created}, updated=${totals.updated}, skipped=${totals.skipped}`,
+  );
+};
+
+run().catch((error) => {
+  console.error("Catalog import failed:", error);
+  process.exitCode = 1;
+});
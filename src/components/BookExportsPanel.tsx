@@ -0,0 +1,87 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { AlertTriangle, Download, Loader2 } from "lucide-react";
+import { formatFileSize, getExportFormatLabel } from "@/lib/exportFormats";
+
+interface BookExportsPanelProps {
+  bookId: Id<"books">;
+}
+
+/**
+ * Finished export files for a book, newest first. Files built from an
+ * older revision than the latest approved one are marked stale.
+ */
+export function BookExportsPanel({ bookId }: BookExportsPanelProps) {
+  const exports = useQuery(api.exports.listForBook, { bookId });
+
+  if (exports === undefined) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="animate-spin text-indigo-400" size={18} />
+      </div>
+    );
+  }
+
+  if (exports.length === 0) {
+    return (
+      <p className="text-xs text-white/60">
+        No exports yet. Export the book from the Templates page.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {exports.map((artifact) => (
+        <li
+          key={artifact._id}
+          className="rounded-lg border border-white/10 bg-slate-900/35 p-2.5 text-xs"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium text-white">
+              {getExportFormatLabel(artifact.format)}
+              <span className="ml-1.5 font-normal text-white/60">
+                rev {artifact.revisionNumber}
+                {artifact.templateVersion !== undefined &&
+                  ` · template v${artifact.templateVersion}`}
+              </span>
+            </span>
+            {artifact.downloadUrl && (
+              <a
+                href={artifact.downloadUrl}
+                download={artifact.filename}
+                className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300"
+              >
+                <Download size={12} />
+                Download
+              </a>
+            )}
+          </div>
+          <div className="mt-1 text-white/60">
+            {formatFileSize(artifact.size)}
+            {artifact.pageCount !== undefined &&
+              ` · ${artifact.pageCount} pages`}
+            {artifact.wordCount !== undefined &&
+              ` · ${artifact.wordCount.toLocaleString()} words`}
+            {" · "}
+            {new Date(artifact.createdAt).toLocaleDateString()}
+            {artifact.createdByName && ` by ${artifact.createdByName}`}
+          </div>
+          <div
+            className="mt-1 truncate font-mono text-[10px] text-white/40"
+            title={`SHA-256 ${artifact.checksum}`}
+          >
+            sha256 {artifact.checksum}
+          </div>
+          {artifact.stale && (
+            <div className="mt-1.5 flex items-center gap-1.5 text-amber-200/90">
+              <AlertTriangle size={12} className="text-amber-300/80" />
+              Stale: a newer revision has been approved
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,390 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { History, Loader2, Plus, RotateCcw, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+type HistoryEntry = Doc<"bookMetadataHistory">;
+type Contributor = NonNullable<Doc<"books">["contributors"]>[number];
+type ContributorRole = Contributor["role"];
+
+const ROLES: ContributorRole[] = [
+  "author",
+  "translator",
+  "illustrator",
+  "editor",
+];
+
+const fieldLabel: Record<HistoryEntry["field"], string> = {
+  title: "Title",
+  author: "Author",
+  subtitle: "Subtitle",
+  series: "Series",
+  language: "Language",
+  publicationYear: "Publication year",
+  gutenbergId: "Gutenberg ID",
+  contributors: "Contributors",
+  subjects: "Subjects",
+};
+
+const inputClass =
+  "w-full px-3 py-2 bg-slate-800/40 border border-white/5 rounded-lg text-sm text-white placeholder:text-white/50 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all";
+
+function formatValue(value: HistoryEntry["previousValue"]): string {
+  if (value === undefined) {
+    return "—";
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((item) =>
+        typeof item === "string" ? item : `${item.name} (${item.role})`,
+      )
+      .join(", ");
+  }
+  return String(value);
+}
+
+interface BookMetadataEditorProps {
+  bookId: Id<"books">;
+  onClose: () => void;
+}
+
+export function BookMetadataEditor({
+  bookId,
+  onClose,
+}: BookMetadataEditorProps) {
+  const current = useQuery(api.books.getEditableMetadata, { bookId });
+  const history = useQuery(api.books.metadataHistory, { bookId });
+  const updateMetadata = useMutation(api.books.updateMetadata);
+  const revertField = useMutation(api.books.revertMetadataField);
+
+  const [title, setTitle] = useState("");
+  const [author, setAuthor] = useState("");
+  const [subtitle, setSubtitle] = useState("");
+  const [series, setSeries] = useState("");
+  const [language, setLanguage] = useState("");
+  const [year, setYear] = useState("");
+  const [gutenbergId, setGutenbergId] = useState("");
+  const [subjects, setSubjects] = useState("");
+  const [contributors, setContributors] = useState<Contributor[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [revertingId, setRevertingId] =
+    useState<Id<"bookMetadataHistory"> | null>(null);
+
+  // Fill the form once; later query updates must not clobber typing
+  useEffect(() => {
+    if (!current || loaded) {
+      return;
+    }
+    setTitle(current.title ?? "");
+    setAuthor(current.author ?? "");
+    setSubtitle(current.subtitle ?? "");
+    setSeries(current.series ?? "");
+    setLanguage(current.language ?? "");
+    setYear(current.publicationYear?.toString() ?? "");
+    setGutenbergId(current.gutenbergId ?? "");
+    setSubjects((current.subjects ?? []).join(", "));
+    setContributors(current.contributors ?? []);
+    setLoaded(true);
+  }, [current, loaded]);
+
+  const updateContributor = (index: number, patch: Partial<Contributor>) =>
+    setContributors((list) =>
+      list.map((contributor, i) =>
+        i === index ? { ...contributor, ...patch } : contributor,
+      ),
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedYear = year.trim() ? Number(year.trim()) : null;
+    if (parsedYear !== null && Number.isNaN(parsedYear)) {
+      toast.error("Publication year must be a number");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const changed = await updateMetadata({
+        bookId,
+        edits: {
+          title,
+          author,
+          subtitle: subtitle || null,
+          series: series || null,
+          language: language || null,
+          publicationYear: parsedYear,
+          gutenbergId: gutenbergId || null,
+          contributors: contributors.filter((c) => c.name.trim()),
+          subjects: subjects.split(/[,;\n]/),
+        },
+      });
+      toast.success(
+        changed === 0
+          ? "No changes to save"
+          : `Saved ${changed} change${changed === 1 ? "" : "s"}`,
+      );
+      if (changed > 0) {
+        onClose();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevert = async (entry: HistoryEntry) => {
+    setRevertingId(entry._id);
+    try {
+      await revertField({ historyId: entry._id });
+      toast.success(`${fieldLabel[entry.field]} reverted`);
+      // Reload the form from the reverted values
+      setLoaded(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-2xl auth-card p-8 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Edit Metadata</h3>
+            <p className="text-sm text-white/90 mt-1">
+              Every change is recorded and can be reverted
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-xl bg-slate-800/40 hover:bg-slate-700/50 border border-white/5 flex items-center justify-center text-white/70 hover:text-white transition-all"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {!loaded ? (
+          <div className="flex items-center justify-center py-12 text-white/60">
+            <Loader2 size={20} className="animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <label className="block text-sm text-white/70 sm:col-span-2">
+                Title
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                />
+              </label>
+              <label className="block text-sm text-white/70 sm:col-span-2">
+                Subtitle
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={subtitle}
+                  onChange={(e) => setSubtitle(e.target.value)}
+                />
+              </label>
+              <label className="block text-sm text-white/70">
+                Author
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={author}
+                  onChange={(e) => setAuthor(e.target.value)}
+                />
+              </label>
+              <label className="block text-sm text-white/70">
+                Series
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={series}
+                  onChange={(e) => setSeries(e.target.value)}
+                />
+              </label>
+              <label className="block text-sm text-white/70">
+                Language
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value)}
+                  placeholder="e.g. English"
+                />
+              </label>
+              <label className="block text-sm text-white/70">
+                Publication year
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                  inputMode="numeric"
+                />
+              </label>
+              <label className="block text-sm text-white/70">
+                Gutenberg ID
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={gutenbergId}
+                  onChange={(e) => setGutenbergId(e.target.value)}
+                  inputMode="numeric"
+                />
+              </label>
+              <label className="block text-sm text-white/70">
+                Subjects
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={subjects}
+                  onChange={(e) => setSubjects(e.target.value)}
+                  placeholder="Comma separated"
+                />
+              </label>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm text-white/70">Contributors</span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setContributors((list) => [
+                      ...list,
+                      { name: "", role: "author" },
+                    ])
+                  }
+                  className="inline-flex items-center gap-1.5 rounded border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition-colors hover:bg-white/10"
+                >
+                  <Plus size={12} />
+                  Add
+                </button>
+              </div>
+              <div className="space-y-2">
+                {contributors.map((contributor, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      className={inputClass}
+                      value={contributor.name}
+                      onChange={(e) =>
+                        updateContributor(index, { name: e.target.value })
+                      }
+                      placeholder="Name"
+                    />
+                    <select
+                      className={`${inputClass} w-36 flex-shrink-0`}
+                      value={contributor.role}
+                      onChange={(e) =>
+                        updateContributor(index, {
+                          role: e.target.value as ContributorRole,
+                        })
+                      }
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setContributors((list) =>
+                          list.filter((_, i) => i !== index),
+                        )
+                      }
+                      className="rounded p-1.5 text-white/60 hover:bg-white/10 hover:text-rose-300"
+                      title="Remove"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-5 py-3 bg-slate-800/40 hover:bg-slate-700/50 border border-white/5 text-white/80 rounded-xl transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex-1 flex items-center justify-center gap-2 px-5 py-3 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-400 hover:to-purple-400 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-xl transition-all shadow-lg shadow-indigo-500/25"
+              >
+                {isSaving && <Loader2 size={16} className="animate-spin" />}
+                Save Changes
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="mt-8 pt-6 border-t border-white/10">
+          <h4 className="flex items-center gap-2 text-sm font-medium text-white/80 mb-3">
+            <History size={14} />
+            History
+          </h4>
+          {history === undefined ? (
+            <Loader2 size={16} className="animate-spin text-white/60" />
+          ) : history.length === 0 ? (
+            <p className="text-xs text-white/60">No edits yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {history.map((entry) => (
+                <li
+                  key={entry._id}
+                  className="flex items-start justify-between gap-3 rounded-lg border border-white/10 bg-slate-900/35 px-3 py-2 text-xs"
+                >
+                  <div className="min-w-0">
+                    <div className="text-white/90">
+                      <span className="font-medium">
+                        {fieldLabel[entry.field]}
+                      </span>
+                      {entry.kind !== "edit" && (
+                        <span className="ml-1.5 text-white/50">
+                          ({entry.kind})
+                        </span>
+                      )}
+                    </div>
+                    <div className="mt-0.5 break-words text-white/70">
+                      <span className="line-through decoration-white/30">
+                        {formatValue(entry.previousValue)}
+                      </span>
+                      {" → "}
+                      {formatValue(entry.newValue)}
+                    </div>
+                    <div className="mt-0.5 text-white/50">
+                      {entry.changedByName ?? "Unknown user"} ·{" "}
+                      {new Date(entry.changedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => void handleRevert(entry)}
+                    disabled={revertingId !== null}
+                    className="inline-flex flex-shrink-0 items-center gap-1.5 rounded border border-white/10 bg-white/5 px-2 py-1 text-white/80 transition-colors hover:bg-white/10 disabled:opacity-50"
+                    title="Restore the value before this change"
+                  >
+                    {revertingId === entry._id ? (
+                      <Loader2 size={12} className="animate-spin" />
+                    ) : (
+                      <RotateCcw size={12} />
+                    )}
+                    Revert
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
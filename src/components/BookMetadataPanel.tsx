@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { Check, Loader2, Pencil, X } from "lucide-react";
+import { toast } from "sonner";
+
+type MetadataFields = NonNullable<Doc<"books">["metadataFields"]>;
+type FieldName = keyof MetadataFields;
+type MetadataSource = NonNullable<MetadataFields["title"]>["source"];
+
+// Mirrors LOW_CONFIDENCE_THRESHOLD in convex/gutenbergMetadata.ts
+const LOW_CONFIDENCE = 0.7;
+
+const fieldLabel: Record<FieldName, string> = {
+  title: "Title",
+  subtitle: "Subtitle",
+  author: "Author",
+  translator: "Translator",
+  editor: "Editor",
+  illustrator: "Illustrator",
+  language: "Language",
+  releaseDate: "Release date",
+  originalPublicationDate: "Originally published",
+  series: "Series",
+};
+
+const sourceLabel: Record<MetadataSource, string> = {
+  gutenberg_header: "Gutenberg header",
+  gutenberg_banner: "Gutenberg banner",
+  title_page: "Title page",
+  file_metadata: "File metadata",
+  upload_form: "Entered at upload",
+  file_name: "File name",
+  reviewer: "Reviewed",
+};
+
+interface BookMetadataPanelProps {
+  bookId: Id<"books">;
+  fields: MetadataFields | undefined;
+}
+
+export function BookMetadataPanel({ bookId, fields }: BookMetadataPanelProps) {
+  const reviewField = useMutation(api.books.reviewMetadataField);
+  const [editing, setEditing] = useState<FieldName | null>(null);
+  const [draft, setDraft] = useState("");
+  const [pendingField, setPendingField] = useState<FieldName | null>(null);
+
+  const entries = (Object.keys(fieldLabel) as FieldName[]).flatMap((name) => {
+    const field = fields?.[name];
+    return field ? [{ name, field }] : [];
+  });
+
+  const save = async (name: FieldName, value?: string) => {
+    setPendingField(name);
+    try {
+      await reviewField({ bookId, field: name, value });
+      setEditing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setPendingField(null);
+    }
+  };
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-xs text-white/60">
+        No structured metadata was extracted for this book.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {entries.map(({ name, field }) => {
+        const isLow = field.confidence < LOW_CONFIDENCE;
+        const isPending = pendingField === name;
+
+        return (
+          <li
+            key={name}
+            className={`rounded-lg border px-2.5 py-2 text-xs ${
+              isLow
+                ? "border-amber-500/40 bg-amber-500/10"
+                : "border-white/10 bg-slate-900/35"
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="uppercase tracking-wide text-white/60">
+                {fieldLabel[name]}
+              </span>
+              <span
+                className={isLow ? "text-amber-200" : "text-emerald-300/80"}
+              >
+                {Math.round(field.confidence * 100)}%
+              </span>
+            </div>
+
+            {editing === name ? (
+              <div className="mt-1.5 flex items-center gap-1.5">
+                <input
+                  autoFocus
+                  className="min-w-0 flex-1 rounded border border-white/10 bg-slate-900/60 px-2 py-1 text-xs text-white focus:border-indigo-500/50 focus:outline-none"
+                  onChange={(e) => setDraft(e.target.value)}
+                  value={draft}
+                />
+                <button
+                  className="rounded p-1 text-emerald-300 hover:bg-white/10 disabled:opacity-50"
+                  disabled={isPending || !draft.trim()}
+                  onClick={() => void save(name, draft)}
+                  title="Save"
+                  type="button"
+                >
+                  {isPending ? (
+                    <Loader2 size={12} className="animate-spin" />
+                  ) : (
+                    <Check size={12} />
+                  )}
+                </button>
+                <button
+                  className="rounded p-1 text-white/60 hover:bg-white/10"
+                  onClick={() => setEditing(null)}
+                  title="Cancel"
+                  type="button"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ) : (
+              <div className="mt-1 flex items-start justify-between gap-2">
+                <span className="text-white/90">{field.value}</span>
+                <span className="flex flex-shrink-0 items-center gap-1">
+                  {field.source !== "reviewer" && (
+                    <button
+                      className="rounded p-1 text-white/60 hover:bg-white/10 hover:text-emerald-300 disabled:opacity-50"
+                      disabled={isPending}
+                      onClick={() => void save(name)}
+                      title="Confirm"
+                      type="button"
+                    >
+                      {isPending ? (
+                        <Loader2 size={12} className="animate-spin" />
+                      ) : (
+                        <Check size={12} />
+                      )}
+                    </button>
+                  )}
+                  <button
+                    className="rounded p-1 text-white/60 hover:bg-white/10 hover:text-white"
+                    onClick={() => {
+                      setDraft(field.value);
+                      setEditing(name);
+                    }}
+                    title="Correct"
+                    type="button"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                </span>
+              </div>
+            )}
+
+            <p
+              className="mt-1 text-[11px] text-white/50"
+              title={field.sourceLine}
+            >
+              {sourceLabel[field.source]}
+              {field.line !== undefined && ` · line ${field.line}`}
+              {field.sourceLine && (
+                <span className="ml-1 font-mono text-white/40">
+                  “{field.sourceLine}”
+                </span>
+              )}
+            </p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,497 @@
+/**
+ * CollectionsPanel - Box sets and omnibus editions
+ *
+ * Collects ready books in reading order under one title and author, and
+ * exports them as a single PDF or EPUB with a title page per volume and a
+ * combined contents.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  BookCopy,
+  Download,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { formatFileSize, getExportFormatLabel } from "@/lib/exportFormats";
+import {
+  getJobStageLabel,
+  getJobStatusBadgeClass,
+  getJobStatusLabel,
+} from "@/lib/jobStatus";
+
+type ChapterNumbering = "restart" | "continuous";
+
+const NUMBERING_LABELS: Record<ChapterNumbering, string> = {
+  restart: "Restart in each book",
+  continuous: "Continuous through the set",
+};
+
+const inputClass =
+  "w-full px-3 py-2 bg-slate-800/40 border border-white/5 rounded-lg text-sm text-white placeholder:text-white/50 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all";
+
+const buttonClass =
+  "inline-flex items-center gap-1 rounded bg-slate-700/60 px-2 py-1 text-xs text-white hover:bg-slate-600/60 disabled:opacity-50";
+
+type CollectionDraft = {
+  title: string;
+  subtitle: string;
+  author: string;
+  description: string;
+  bookIds: Id<"books">[];
+  chapterNumbering: ChapterNumbering;
+};
+
+const emptyDraft: CollectionDraft = {
+  title: "",
+  subtitle: "",
+  author: "",
+  description: "",
+  bookIds: [],
+  chapterNumbering: "restart",
+};
+
+function CollectionForm({
+  initial,
+  onSave,
+  onCancel,
+}: {
+  initial: CollectionDraft;
+  onSave: (draft: CollectionDraft) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const readyBooks = useQuery(api.books.listReadyBooks, {});
+  const [draft, setDraft] = useState(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const booksById = new Map(
+    (readyBooks ?? []).map((book: Doc<"books">) => [book._id, book]),
+  );
+  const available = (readyBooks ?? []).filter(
+    (book: Doc<"books">) => !draft.bookIds.includes(book._id),
+  );
+
+  const moveBook = (index: number, offset: number) => {
+    const bookIds = [...draft.bookIds];
+    [bookIds[index], bookIds[index + offset]] = [
+      bookIds[index + offset],
+      bookIds[index],
+    ];
+    setDraft({ ...draft, bookIds });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-lg border border-white/10 bg-slate-900/40 p-3"
+    >
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <input
+          className={inputClass}
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          placeholder="The Complete Novels"
+        />
+        <input
+          className={inputClass}
+          value={draft.subtitle}
+          onChange={(e) => setDraft({ ...draft, subtitle: e.target.value })}
+          placeholder="Subtitle (optional)"
+        />
+        <input
+          className={inputClass}
+          value={draft.author}
+          onChange={(e) => setDraft({ ...draft, author: e.target.value })}
+          placeholder="Author"
+        />
+      </div>
+      <textarea
+        className={`${inputClass} min-h-16`}
+        value={draft.description}
+        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+        placeholder="Description (optional)"
+      />
+      <label className="block text-sm text-white/70">
+        Chapter numbering
+        <select
+          className={`${inputClass} mt-1.5`}
+          value={draft.chapterNumbering}
+          onChange={(e) =>
+            setDraft({
+              ...draft,
+              chapterNumbering: e.target.value as ChapterNumbering,
+            })
+          }
+        >
+          {(Object.keys(NUMBERING_LABELS) as ChapterNumbering[]).map(
+            (numbering) => (
+              <option key={numbering} value={numbering}>
+                {NUMBERING_LABELS[numbering]}
+              </option>
+            ),
+          )}
+        </select>
+      </label>
+
+      <ol className="space-y-1">
+        {draft.bookIds.map((bookId, index) => (
+          <li
+            key={bookId}
+            className="flex items-center justify-between gap-2 rounded bg-slate-800/40 px-2 py-1 text-sm text-white"
+          >
+            <span className="truncate">
+              {index + 1}. {booksById.get(bookId)?.title ?? "Unavailable book"}
+            </span>
+            <span className="flex gap-1">
+              <button
+                type="button"
+                className={buttonClass}
+                disabled={index === 0}
+                onClick={() => moveBook(index, -1)}
+                title="Move up"
+              >
+                <ArrowUp size={12} />
+              </button>
+              <button
+                type="button"
+                className={buttonClass}
+                disabled={index === draft.bookIds.length - 1}
+                onClick={() => moveBook(index, 1)}
+                title="Move down"
+              >
+                <ArrowDown size={12} />
+              </button>
+              <button
+                type="button"
+                className={buttonClass}
+                onClick={() =>
+                  setDraft({
+                    ...draft,
+                    bookIds: draft.bookIds.filter((id) => id !== bookId),
+                  })
+                }
+                title="Remove"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          </li>
+        ))}
+      </ol>
+      <select
+        className={inputClass}
+        value=""
+        onChange={(e) =>
+          e.target.value &&
+          setDraft({
+            ...draft,
+            bookIds: [...draft.bookIds, e.target.value as Id<"books">],
+          })
+        }
+      >
+        <option value="">Add a ready book…</option>
+        {available.map((book: Doc<"books">) => (
+          <option key={book._id} value={book._id}>
+            {book.title} — {book.author}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" className={buttonClass} onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || !draft.title.trim() || !draft.author.trim()}
+          className="inline-flex items-center gap-1 rounded bg-blue-500 px-3 py-1 text-xs font-medium text-white hover:bg-blue-600 disabled:opacity-50"
+        >
+          {isSaving && <Loader2 size={12} className="animate-spin" />}
+          Save Collection
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function CollectionsPanel() {
+  const collections = useQuery(api.collections.list, {});
+  const templates = useQuery(api.templates.list);
+  const createCollection = useMutation(api.collections.create);
+  const updateCollection = useMutation(api.collections.update);
+  const removeCollection = useMutation(api.collections.remove);
+  const startExport = useMutation(api.collectionExport.start);
+
+  const [editing, setEditing] = useState<Id<"collections"> | "new" | null>(
+    null,
+  );
+  const [templateIds, setTemplateIds] = useState<
+    Record<string, Id<"templates">>
+  >({});
+
+  const toArgs = (draft: CollectionDraft) => ({
+    title: draft.title,
+    subtitle: draft.subtitle || undefined,
+    author: draft.author,
+    description: draft.description || undefined,
+    bookIds: draft.bookIds,
+    chapterNumbering: draft.chapterNumbering,
+  });
+
+  const handleSave = async (draft: CollectionDraft) => {
+    try {
+      if (editing === "new") {
+        await createCollection(toArgs(draft));
+        toast.success("Collection created");
+      } else if (editing) {
+        await updateCollection({ collectionId: editing, ...toArgs(draft) });
+        toast.success("Collection saved");
+      }
+      setEditing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async (collectionId: Id<"collections">) => {
+    if (!confirm("Delete this collection and its exports?")) {
+      return;
+    }
+    try {
+      await removeCollection({ collectionId });
+      toast.success("Collection deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    }
+  };
+
+  const handleExport = async (
+    collectionId: Id<"collections">,
+    format: "pdf" | "epub",
+  ) => {
+    const templateId = templateIds[collectionId] ?? templates?.[0]?._id;
+    if (!templateId) {
+      toast.error("Create a template first");
+      return;
+    }
+    try {
+      await startExport({ collectionId, templateId, format });
+      toast.success(`${getExportFormatLabel(format)} export queued`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-white/5 bg-slate-800/40 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-white">
+            Box Sets & Collections
+          </h3>
+          <p className="text-sm text-white/70">
+            Several ready books exported as one volume, each with its own title
+            page and a combined table of contents.
+          </p>
+        </div>
+        {editing === null && (
+          <button className={buttonClass} onClick={() => setEditing("new")}>
+            <Plus size={12} />
+            New Collection
+          </button>
+        )}
+      </div>
+
+      {editing === "new" && (
+        <CollectionForm
+          initial={emptyDraft}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {collections && collections.length > 0 && (
+        <ul className="space-y-3">
+          {collections.map((collection) =>
+            editing === collection._id ? (
+              <li key={collection._id}>
+                <CollectionForm
+                  initial={{
+                    title: collection.title,
+                    subtitle: collection.subtitle ?? "",
+                    author: collection.author,
+                    description: collection.description ?? "",
+                    bookIds: collection.bookIds,
+                    chapterNumbering: collection.chapterNumbering,
+                  }}
+                  onSave={handleSave}
+                  onCancel={() => setEditing(null)}
+                />
+              </li>
+            ) : (
+              <li
+                key={collection._id}
+                className="space-y-2 rounded-lg border border-white/10 bg-slate-900/40 p-3 text-sm"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="flex items-center gap-2 font-medium text-white">
+                      <BookCopy size={14} className="text-indigo-300" />
+                      {collection.title}
+                    </p>
+                    <p className="text-xs text-white/60">
+                      {collection.author} · {collection.volumes.length} books ·
+                      chapters{" "}
+                      {NUMBERING_LABELS[
+                        collection.chapterNumbering
+                      ].toLowerCase()}
+                    </p>
+                  </div>
+                  <span className="flex gap-1">
+                    <button
+                      className={buttonClass}
+                      onClick={() => setEditing(collection._id)}
+                      title="Edit"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      className={buttonClass}
+                      onClick={() => void handleDelete(collection._id)}
+                      title="Delete"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </span>
+                </div>
+
+                <ol className="list-inside list-decimal text-xs text-white/80">
+                  {collection.volumes.map((volume) => (
+                    <li key={volume._id}>
+                      {volume.title}
+                      {!volume.approved && (
+                        <span className="ml-2 text-amber-300">
+                          latest revision not approved
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    className="rounded border border-white/10 bg-slate-800/60 px-2 py-1 text-xs text-white"
+                    value={
+                      templateIds[collection._id] ?? templates?.[0]?._id ?? ""
+                    }
+                    onChange={(e) =>
+                      setTemplateIds({
+                        ...templateIds,
+                        [collection._id]: e.target.value as Id<"templates">,
+                      })
+                    }
+                  >
+                    {templates?.map((template) => (
+                      <option key={template._id} value={template._id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                  {(["pdf", "epub"] as const).map((format) => (
+                    <button
+                      key={format}
+                      className={buttonClass}
+                      disabled={collection.volumes.length < 2}
+                      onClick={() => void handleExport(collection._id, format)}
+                    >
+                      Export {getExportFormatLabel(format)}
+                    </button>
+                  ))}
+                </div>
+
+                {collection.exports.length > 0 && (
+                  <ul className="space-y-1">
+                    {collection.exports.map((entry) => (
+                      <li
+                        key={entry._id}
+                        className="flex items-center justify-between gap-2 text-xs text-white/70"
+                      >
+                        <span>
+                          {getExportFormatLabel(entry.format)}
+                          {entry.templateName &&
+                            ` · ${entry.templateName} v${entry.templateVersion}`}
+                          {entry.pageCount !== undefined &&
+                            ` · ${entry.pageCount} pages`}
+                          {entry.size !== undefined &&
+                            ` · ${formatFileSize(entry.size)}`}
+                          {entry.stale && (
+                            <span
+                              className="ml-2 inline-flex items-center gap-1 text-amber-200/90"
+                              title="A newer revision of a volume has been approved"
+                            >
+                              <AlertTriangle
+                                size={12}
+                                className="text-amber-300/80"
+                              />
+                              Stale
+                            </span>
+                          )}
+                          {entry.status === "failed" && entry.error && (
+                            <span className="ml-2 text-rose-300/90">
+                              {entry.error}
+                            </span>
+                          )}
+                        </span>
+                        {entry.downloadUrl ? (
+                          <a
+                            href={entry.downloadUrl}
+                            download={entry.filename}
+                            className={buttonClass}
+                          >
+                            <Download size={12} />
+                            {entry.filename}
+                          </a>
+                        ) : (
+                          <span
+                            className={`rounded-full border px-2 py-0.5 ${getJobStatusBadgeClass(entry.status)}`}
+                          >
+                            {entry.status === "running"
+                              ? `${getJobStageLabel(entry.stage)} (${entry.progress}%)`
+                              : getJobStatusLabel(entry.status)}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ),
+          )}
+        </ul>
+      )}
+    </section>
+  );
+}
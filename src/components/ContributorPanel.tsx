@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { BadgeCheck, Loader2, PencilLine, User } from "lucide-react";
+import { toast } from "sonner";
+
+const inputClass =
+  "w-full rounded border border-white/10 bg-slate-900/60 px-2 py-1.5 text-xs text-white focus:border-indigo-500/50 focus:outline-none";
+
+const parseYear = (value: string) => {
+  const trimmed = value.trim();
+  return trimmed ? Number(trimmed) : null;
+};
+
+interface ContributorPanelProps {
+  contributorId: Id<"contributors">;
+}
+
+export function ContributorPanel({ contributorId }: ContributorPanelProps) {
+  const contributor = useQuery(api.contributors.get, { contributorId });
+  const updateContributor = useMutation(api.contributors.update);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [aliases, setAliases] = useState("");
+  const [birthYear, setBirthYear] = useState("");
+  const [deathYear, setDeathYear] = useState("");
+  const [authorityId, setAuthorityId] = useState("");
+
+  if (!contributor) {
+    return null;
+  }
+
+  const startEditing = () => {
+    setName(contributor.name);
+    setAliases(contributor.aliases.join("; "));
+    setBirthYear(contributor.birthYear?.toString() ?? "");
+    setDeathYear(contributor.deathYear?.toString() ?? "");
+    setAuthorityId(contributor.authorityId ?? "");
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const birth = parseYear(birthYear);
+    const death = parseYear(deathYear);
+    if (Number.isNaN(birth) || Number.isNaN(death)) {
+      toast.error("Life dates must be years");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateContributor({
+        contributorId,
+        name,
+        aliases: aliases.split(";"),
+        birthYear: birth,
+        deathYear: death,
+        authorityId: authorityId || null,
+      });
+      toast.success("Contributor updated");
+      setIsEditing(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/5 bg-slate-800/40 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-indigo-500/10">
+            <User size={18} className="text-indigo-300" />
+          </div>
+          <div>
+            <div className="flex items-center gap-2 font-medium text-white">
+              {contributor.name}
+              {contributor.vettedAt && (
+                <BadgeCheck
+                  size={14}
+                  className="text-emerald-300"
+                  aria-label="Vetted"
+                />
+              )}
+            </div>
+            <div className="text-xs text-white/65">
+              {contributor.lifeDates || "Life dates unknown"}
+              {contributor.authorityId &&
+                ` · Gutenberg agent ${contributor.authorityId}`}
+              {` · ${contributor.books.length} credit${contributor.books.length === 1 ? "" : "s"}`}
+            </div>
+            {contributor.aliases.length > 0 && (
+              <div className="mt-0.5 text-xs text-white/50">
+                Also credited as {contributor.aliases.join(", ")}
+              </div>
+            )}
+          </div>
+        </div>
+        {!isEditing && (
+          <button
+            onClick={startEditing}
+            className="inline-flex items-center gap-2 rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 transition-colors hover:bg-white/10 disabled:opacity-50"
+          >
+            <PencilLine size={12} />
+            Edit
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          <label className="col-span-2 text-xs text-white/60">
+            Canonical name
+            <input
+              className={`${inputClass} mt-1`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </label>
+          <label className="col-span-2 text-xs text-white/60">
+            Aliases (separated by ;)
+            <input
+              className={`${inputClass} mt-1`}
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+            />
+          </label>
+          <label className="text-xs text-white/60">
+            Born
+            <input
+              className={`${inputClass} mt-1`}
+              value={birthYear}
+              onChange={(e) => setBirthYear(e.target.value)}
+              inputMode="numeric"
+            />
+          </label>
+          <label className="text-xs text-white/60">
+            Died
+            <input
+              className={`${inputClass} mt-1`}
+              value={deathYear}
+              onChange={(e) => setDeathYear(e.target.value)}
+              inputMode="numeric"
+            />
+          </label>
+          <label className="text-xs text-white/60">
+            Gutenberg agent
+            <input
+              className={`${inputClass} mt-1`}
+              value={authorityId}
+              onChange={(e) => setAuthorityId(e.target.value)}
+              inputMode="numeric"
+            />
+          </label>
+          <div className="flex items-end gap-2">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="inline-flex items-center gap-2 rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 transition-colors hover:bg-white/10 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => void handleSave()}
+              disabled={isSaving || !name.trim()}
+              className="inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:bg-blue-500/40"
+            >
+              {isSaving && <Loader2 size={12} className="animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { useConvex, useMutation, useQuery } from "convex/react";
+import { Download, Loader2, RotateCcw, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { CopyrightStatusBadge } from "./CopyrightStatusBadge";
+import {
+  COPYRIGHT_STATUS_LABELS,
+  COPYRIGHT_TERRITORY_LABELS,
+  getCopyrightStatusBadgeClass,
+  getCopyrightTerritoryLabel,
+} from "@/lib/copyrightStatus";
+
+type OverrideStatus = "cleared" | "flagged" | "blocked";
+
+const selectClass =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-2 py-1 text-xs text-white";
+
+const formatDate = (value?: number) =>
+  value ? new Date(value).toLocaleDateString() : "-";
+
+export function CopyrightPage() {
+  const convex = useConvex();
+  const data = useQuery(api.copyrightReview.dashboard);
+  const bulkOverride = useMutation(api.copyrightReview.bulkOverride);
+  const bulkRecheck = useMutation(api.copyrightReview.bulkRecheck);
+  const [statusFilter, setStatusFilter] = useState("");
+  const [territoryFilter, setTerritoryFilter] = useState("");
+  const [selected, setSelected] = useState<Set<Id<"books">>>(new Set());
+  const [overrideStatus, setOverrideStatus] =
+    useState<OverrideStatus>("cleared");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (data === undefined) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-10 h-10 rounded-xl border-2 border-indigo-500/30 border-t-indigo-400 animate-spin" />
+      </div>
+    );
+  }
+
+  // With a territory chosen, the status filter applies to that verdict
+  const books = data.books.filter((book) => {
+    if (!statusFilter) {
+      return true;
+    }
+    if (!territoryFilter) {
+      return book.status === statusFilter;
+    }
+    const verdict = book.territoryVerdicts?.find(
+      (candidate) => candidate.territory === territoryFilter,
+    );
+    return verdict?.status === statusFilter;
+  });
+  const visibleIds = books.map((book) => book.bookId);
+  const selectedIds = visibleIds.filter((id) => selected.has(id));
+
+  const toggleSelected = (id: Id<"books">) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleOverride = async () => {
+    setIsWorking(true);
+    try {
+      const count = await bulkOverride({
+        bookIds: selectedIds,
+        status: overrideStatus,
+        reason: overrideReason,
+      });
+      toast.success(
+        `Marked ${count} book${count === 1 ? "" : "s"} ${COPYRIGHT_STATUS_LABELS[overrideStatus].toLowerCase()}`,
+      );
+      setSelected(new Set());
+      setOverrideReason("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRecheck = async () => {
+    setIsWorking(true);
+    try {
+      const count = await bulkRecheck({ bookIds: selectedIds });
+      toast.success(
+        `Re-checking ${count} book${count === 1 ? "" : "s"}` +
+          (count < selectedIds.length
+            ? ` (${selectedIds.length - count} without text skipped)`
+            : ""),
+      );
+      setSelected(new Set());
+    } catch (error) {
+      toast.error("Failed to schedule copyright re-checks");
+      console.error(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const report = await convex.query(api.copyrightReview.auditReport, {});
+      const url = URL.createObjectURL(
+        new Blob([report.csv], { type: "text/csv" }),
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = report.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error("Failed to export the audit report");
+      console.error(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-w-5xl">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {data.territories.map((summary) => (
+          <button
+            key={summary.territory}
+            onClick={() =>
+              setTerritoryFilter(
+                territoryFilter === summary.territory ? "" : summary.territory,
+              )
+            }
+            className={`rounded-xl border p-3 text-left transition-colors ${
+              territoryFilter === summary.territory
+                ? "border-indigo-500/40 bg-indigo-500/10"
+                : "border-white/10 bg-slate-800/40 hover:bg-slate-800/60"
+            }`}
+          >
+            <div className="text-sm font-medium text-white">
+              {getCopyrightTerritoryLabel(summary.territory)}
+            </div>
+            <div className="mt-1 space-y-0.5 text-xs text-white/70">
+              <div className="text-emerald-200">{summary.cleared} cleared</div>
+              <div className="text-amber-200">{summary.flagged} flagged</div>
+              <div className="text-rose-200">{summary.blocked} blocked</div>
+              <div>{summary.unchecked} not evaluated</div>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 rounded-xl border border-white/10 bg-slate-800/40 p-3">
+        <label className="flex items-center gap-2 text-xs text-white/80">
+          <input
+            checked={
+              visibleIds.length > 0 && selectedIds.length === visibleIds.length
+            }
+            onChange={(e) =>
+              setSelected(e.target.checked ? new Set(visibleIds) : new Set())
+            }
+            type="checkbox"
+          />
+          Select all ({visibleIds.length})
+        </label>
+        <label className="flex items-center gap-2 text-xs text-white/70">
+          Status
+          <select
+            className={selectClass}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            value={statusFilter}
+          >
+            <option value="">All</option>
+            {Object.entries(COPYRIGHT_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-white/70">
+          Territory
+          <select
+            className={selectClass}
+            onChange={(e) => setTerritoryFilter(e.target.value)}
+            value={territoryFilter}
+          >
+            <option value="">Overall</option>
+            {Object.entries(COPYRIGHT_TERRITORY_LABELS).map(
+              ([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ),
+            )}
+          </select>
+        </label>
+        <button
+          className="ml-auto inline-flex items-center gap-2 rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 transition-colors hover:bg-white/10 disabled:opacity-50"
+          disabled={isExporting}
+          onClick={() => void handleExport()}
+          type="button"
+        >
+          {isExporting ? (
+            <Loader2 size={12} className="animate-spin" />
+          ) : (
+            <Download size={12} />
+          )}
+          Export audit report
+        </button>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 rounded-xl border border-indigo-500/20 bg-indigo-500/10 p-3">
+          <span className="text-xs text-indigo-200">
+            {selectedIds.length} selected
+          </span>
+          <select
+            className={selectClass}
+            onChange={(e) =>
+              setOverrideStatus(e.target.value as OverrideStatus)
+            }
+            value={overrideStatus}
+          >
+            <option value="cleared">Mark cleared</option>
+            <option value="flagged">Mark flagged</option>
+            <option value="blocked">Mark blocked</option>
+          </select>
+          <input
+            className="min-w-[16rem] flex-1 rounded-lg border border-white/10 bg-slate-900/60 px-2 py-1 text-xs text-white placeholder:text-white/40"
+            onChange={(e) => setOverrideReason(e.target.value)}
+            placeholder="Reason (recorded in the audit report)"
+            value={overrideReason}
+          />
+          <button
+            className="inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:bg-blue-500/40"
+            disabled={isWorking || !overrideReason.trim()}
+            onClick={() => void handleOverride()}
+            type="button"
+          >
+            {isWorking ? (
+              <Loader2 size={12} className="animate-spin" />
+            ) : (
+              <ShieldCheck size={12} />
+            )}
+            Apply override
+          </button>
+          <button
+            className="inline-flex items-center gap-2 rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 transition-colors hover:bg-white/10 disabled:opacity-50"
+            disabled={isWorking}
+            onClick={() => void handleRecheck()}
+            type="button"
+          >
+            <RotateCcw size={12} />
+            Re-check
+          </button>
+        </div>
+      )}
+
+      {books.length === 0 ? (
+        <div className="py-16 text-center text-white/70">
+          No books match these filters.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {books.map((book) => (
+            <article
+              key={book.bookId}
+              className="rounded-xl border border-white/10 bg-slate-800/40 p-4"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex min-w-0 items-start gap-3">
+                  <input
+                    aria-label={`Select ${book.title}`}
+                    checked={selected.has(book.bookId)}
+                    className="mt-1"
+                    onChange={() => toggleSelected(book.bookId)}
+                    type="checkbox"
+                  />
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-semibold text-white">
+                      {book.title}
+                    </p>
+                    <p className="text-xs text-white/65">
+                      {book.author}
+                      {book.gutenbergId && ` · Gutenberg #${book.gutenbergId}`}
+                    </p>
+                  </div>
+                </div>
+                <CopyrightStatusBadge status={book.status} />
+              </div>
+
+              {book.territoryVerdicts && (
+                <div className="mt-3 flex flex-wrap gap-1">
+                  {book.territoryVerdicts.map((verdict) => (
+                    <span
+                      key={verdict.territory}
+                      className={`rounded border px-1.5 py-0.5 text-[10px] font-medium ${getCopyrightStatusBadgeClass(verdict.status)}`}
+                      title={verdict.explanation.join("\n")}
+                    >
+                      {getCopyrightTerritoryLabel(verdict.territory)}
+                      {verdict.status === "blocked" &&
+                        verdict.publicDomainFrom &&
+                        ` until ${verdict.publicDomainFrom}`}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {book.reason && (
+                <p className="mt-2 text-xs text-white/65">{book.reason}</p>
+              )}
+              {book.error && (
+                <p className="mt-2 text-xs text-rose-300/90">{book.error}</p>
+              )}
+              {book.manualOverride && (
+                <p className="mt-2 text-xs text-indigo-200/90">
+                  Override by {book.clearedByName ?? "unknown reviewer"} on{" "}
+                  {formatDate(book.clearedAt)}
+                  {book.manualReason && `: ${book.manualReason}`}
+                </p>
+              )}
+              <p className="mt-1 text-[11px] text-white/45">
+                Last checked {formatDate(book.researchedAt)}
+                {book.evaluatedForYear &&
+                  ` · rules as of ${book.evaluatedForYear}`}
+              </p>
+            </article>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * CoverExportDialog - Export a wraparound print cover for a PDF interior
+ *
+ * The spine width comes from the interior's final page count and the
+ * chosen paper, so the sheet size shown here is the one that gets
+ * printed. The cover image and blurb belong to the book and are reused by
+ * every cover export.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { ImageIcon, Loader2, Trash2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  COVER_DESIGN_OPTIONS,
+  PAPER_TYPE_OPTIONS,
+  formatTrimSize,
+} from "@/lib/templateOptions";
+
+type CoverDesign = (typeof COVER_DESIGN_OPTIONS)[number]["id"];
+type PaperType = (typeof PAPER_TYPE_OPTIONS)[number]["id"];
+
+const inputClass =
+  "w-full px-3 py-2 bg-slate-800/40 border border-white/5 rounded-lg text-sm text-white placeholder:text-white/50 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all";
+
+const IMAGE_TYPES = ["image/png", "image/jpeg"];
+
+export function CoverExportDialog({
+  bookId,
+  interiorJobId,
+  onClose,
+}: {
+  bookId: Id<"books">;
+  interiorJobId: Id<"jobs">;
+  onClose: () => void;
+}) {
+  const [design, setDesign] = useState<CoverDesign>("classic");
+  const [paper, setPaper] = useState<PaperType>("cream");
+  const [blurb, setBlurb] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const assets = useQuery(api.coverExport.getCoverAssets, { bookId });
+  const dimensions = useQuery(api.coverExport.dimensions, {
+    bookId,
+    interiorJobId,
+    paper,
+  });
+  const generateUploadUrl = useMutation(api.files.generateUploadUrl);
+  const setCoverImage = useMutation(api.coverExport.setCoverImage);
+  const updateBlurb = useMutation(api.coverExport.updateBlurb);
+  const startCoverExport = useMutation(api.coverExport.start);
+
+  // Start from the saved blurb once it loads
+  useEffect(() => {
+    if (assets && blurb === null) {
+      setBlurb(assets.blurb);
+    }
+  }, [assets, blurb]);
+
+  const handleImage = async (file: File) => {
+    if (!IMAGE_TYPES.includes(file.type)) {
+      toast.error("The cover image must be a PNG or JPEG file");
+      return;
+    }
+    setIsUploading(true);
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const result = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+      });
+      if (!result.ok) {
+        throw new Error("Upload failed");
+      }
+      const { storageId } = await result.json();
+      await setCoverImage({ bookId, fileId: storageId });
+      toast.success("Cover image saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemoveImage = async () => {
+    try {
+      await setCoverImage({ bookId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsExporting(true);
+    try {
+      if (blurb !== null && blurb.trim() !== (assets?.blurb ?? "")) {
+        await updateBlurb({ bookId, blurb });
+      }
+      await startCoverExport({ bookId, interiorJobId, design, paper });
+      toast.success("Cover export queued");
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-xl auth-card p-8 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Print Cover</h3>
+            <p className="text-sm text-white/90 mt-1">
+              Back, spine and front on one sheet, sized for this interior
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-xl bg-slate-800/40 hover:bg-slate-700/50 border border-white/5 flex items-center justify-center text-white/70 hover:text-white transition-all"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleExport} className="space-y-5">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <label className="block text-sm text-white/70">
+              Design
+              <select
+                className={`${inputClass} mt-1.5`}
+                value={design}
+                onChange={(e) => setDesign(e.target.value as CoverDesign)}
+              >
+                {COVER_DESIGN_OPTIONS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm text-white/70">
+              Paper
+              <select
+                className={`${inputClass} mt-1.5`}
+                value={paper}
+                onChange={(e) => setPaper(e.target.value as PaperType)}
+              >
+                {PAPER_TYPE_OPTIONS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="rounded-lg bg-slate-800/40 border border-white/5 p-3 text-sm text-slate-300">
+            {dimensions ? (
+              <>
+                <p>
+                  {dimensions.pageCount} pages at{" "}
+                  {formatTrimSize(dimensions.trimSize)}: {dimensions.spineWidth}
+                  &quot; spine
+                </p>
+                <p className="text-slate-400">
+                  Sheet {dimensions.width}&quot; x {dimensions.height}&quot;
+                  with bleed
+                  {dimensions.spineText ? "" : "; too thin for spine text"}
+                </p>
+              </>
+            ) : (
+              <Loader2 size={16} className="animate-spin text-slate-400" />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm text-white/70">Cover image</p>
+            <div className="flex items-center gap-3">
+              {assets?.imageUrl ? (
+                <img
+                  src={assets.imageUrl}
+                  alt="Cover"
+                  className="h-20 w-14 rounded object-cover border border-white/10"
+                />
+              ) : (
+                <div className="h-20 w-14 rounded border border-dashed border-white/10 flex items-center justify-center text-white/30">
+                  <ImageIcon size={18} />
+                </div>
+              )}
+              <label className="inline-flex cursor-pointer items-center gap-2 rounded bg-slate-700/60 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-slate-600/60">
+                {isUploading ? (
+                  <Loader2 size={12} className="animate-spin" />
+                ) : (
+                  <Upload size={12} />
+                )}
+                {assets?.imageUrl ? "Replace" : "Upload"}
+                <input
+                  type="file"
+                  accept={IMAGE_TYPES.join(",")}
+                  className="hidden"
+                  disabled={isUploading}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) {
+                      void handleImage(file);
+                    }
+                  }}
+                />
+              </label>
+              {assets?.imageUrl && (
+                <button
+                  type="button"
+                  onClick={() => void handleRemoveImage()}
+                  className="inline-flex items-center gap-2 rounded px-3 py-1.5 text-xs font-medium text-rose-300 transition-colors hover:bg-rose-500/10"
+                >
+                  <Trash2 size={12} />
+                  Remove
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-white/40">
+              PNG or JPEG, at least 300 DPI at the printed size
+            </p>
+          </div>
+
+          <label className="block text-sm text-white/70">
+            Back cover blurb
+            <textarea
+              className={`${inputClass} mt-1.5 min-h-32`}
+              value={blurb ?? ""}
+              onChange={(e) => setBlurb(e.target.value)}
+              placeholder="A few paragraphs for the back cover"
+            />
+          </label>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isExporting || !dimensions}
+              className="inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isExporting && <Loader2 size={12} className="animate-spin" />}
+              Export Cover
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
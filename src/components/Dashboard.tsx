@@ -8,6 +8,7 @@ import {
   Briefcase,
   FileText,
   Plus,
+  ShieldCheck,
   Sparkles,
   TriangleAlert,
 } from "lucide-react";
@@ -17,9 +18,16 @@ import { TemplatesPage } from "./TemplatesPage";
 import { ImportModal } from "./ImportModal";
 import { CleanupReviewPage } from "./CleanupReviewPage";
 import { IngestErrorLogsPage } from "./IngestErrorLogsPage";
+import { CopyrightPage } from "./CopyrightPage";
 import { SignOutButton } from "../SignOutButton";
 
-type Page = "library" | "jobs" | "templates" | "error-logs" | "cleanup-review";
+type Page =
+  | "library"
+  | "jobs"
+  | "templates"
+  | "copyright"
+  | "error-logs"
+  | "cleanup-review";
 
 export function Dashboard() {
   const [currentPage, setCurrentPage] = useState<Page>("library");
@@ -41,6 +49,7 @@ export function Dashboard() {
     { id: "library" as const, label: "Library", icon: Library },
     { id: "jobs" as const, label: "Jobs", icon: Briefcase },
     { id: "templates" as const, label: "Templates", icon: FileText },
+    { id: "copyright" as const, label: "Copyright", icon: ShieldCheck },
     { id: "error-logs" as const, label: "Error Logs", icon: TriangleAlert },
   ];
 
@@ -48,6 +57,7 @@ export function Dashboard() {
     library: "Library Intake",
     jobs: "Job Queue",
     templates: "PDF Templates",
+    copyright: "Copyright Review",
     "error-logs": "Ingest Error Logs",
     "cleanup-review": "Cleanup Review",
   }[currentPage];
@@ -128,6 +138,8 @@ export function Dashboard() {
                   "Track import, cleaning, and export progress"}
                 {currentPage === "templates" &&
                   "Choose formatting for PDF generation"}
+                {currentPage === "copyright" &&
+                  "Verdicts by territory, manual overrides and the audit report"}
                 {currentPage === "error-logs" &&
                   "Review daemon-reported failures and warning events"}
               </p>
@@ -150,6 +162,7 @@ export function Dashboard() {
             )}
             {currentPage === "jobs" && <JobsPage />}
             {currentPage === "templates" && <TemplatesPage />}
+            {currentPage === "copyright" && <CopyrightPage />}
             {currentPage === "error-logs" && <IngestErrorLogsPage />}
             {currentPage === "cleanup-review" && reviewBookId && (
               <CleanupReviewPage
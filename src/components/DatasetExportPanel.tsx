@@ -0,0 +1,304 @@
+/**
+ * DatasetExportPanel - Build AI training datasets from the library
+ *
+ * Picks approved, copyright-cleared books by filter and writes JSONL
+ * shards with a manifest. Books are split into train and validation by
+ * the seed, so rebuilding with the same seed gives the same split.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Database, Download, FileJson, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatFileSize } from "@/lib/exportFormats";
+import {
+  getJobStageLabel,
+  getJobStatusBadgeClass,
+  getJobStatusLabel,
+} from "@/lib/jobStatus";
+
+const inputClass =
+  "w-full px-3 py-2 bg-slate-800/40 border border-white/5 rounded-lg text-sm text-white placeholder:text-white/50 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all";
+
+const optionalNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+export function DatasetExportPanel() {
+  const datasets = useQuery(api.datasets.list, {});
+  const authors = useQuery(api.contributors.listAuthors, {});
+  const startDataset = useMutation(api.datasets.start);
+
+  const [name, setName] = useState("");
+  const [language, setLanguage] = useState("");
+  const [contributorId, setContributorId] = useState<Id<"contributors"> | "">(
+    "",
+  );
+  const [yearFrom, setYearFrom] = useState("");
+  const [yearTo, setYearTo] = useState("");
+  const [subject, setSubject] = useState("");
+  const [unit, setUnit] = useState<"chapter" | "chunk">("chunk");
+  const [chunkCharacters, setChunkCharacters] = useState(4000);
+  const [deduplicate, setDeduplicate] = useState(true);
+  const [validationPercent, setValidationPercent] = useState(10);
+  const [seed, setSeed] = useState("bookzang");
+  const [recordsPerShard, setRecordsPerShard] = useState(5000);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsStarting(true);
+    try {
+      await startDataset({
+        name,
+        filters: {
+          language: language.trim() || undefined,
+          contributorId: contributorId || undefined,
+          yearFrom: optionalNumber(yearFrom),
+          yearTo: optionalNumber(yearTo),
+          subject: subject.trim() || undefined,
+        },
+        options: {
+          unit,
+          chunkCharacters,
+          deduplicate,
+          validationFraction: validationPercent / 100,
+          seed,
+          recordsPerShard,
+        },
+      });
+      toast.success("Dataset build queued");
+      setName("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-white/5 bg-slate-800/40 p-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Training Datasets</h3>
+        <p className="text-sm text-white/70">
+          JSONL shards of approved, copyright-cleared books, one record per
+          chapter or chunk, with a manifest of counts. Project Gutenberg
+          references are stripped.
+        </p>
+      </div>
+
+      <form onSubmit={handleStart} className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <label className="block text-sm text-white/70">
+            Name
+            <input
+              className={`${inputClass} mt-1.5`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Victorian fiction v1"
+            />
+          </label>
+          <label className="block text-sm text-white/70">
+            Language
+            <input
+              className={`${inputClass} mt-1.5`}
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              placeholder="Any"
+            />
+          </label>
+          <label className="block text-sm text-white/70">
+            Author
+            <select
+              className={`${inputClass} mt-1.5`}
+              value={contributorId}
+              onChange={(e) =>
+                setContributorId(e.target.value as Id<"contributors"> | "")
+              }
+            >
+              <option value="">Any author</option>
+              {authors?.map((author) => (
+                <option key={author._id} value={author._id}>
+                  {author.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-white/70">
+            Published from
+            <input
+              type="number"
+              className={`${inputClass} mt-1.5`}
+              value={yearFrom}
+              onChange={(e) => setYearFrom(e.target.value)}
+              placeholder="Any year"
+            />
+          </label>
+          <label className="block text-sm text-white/70">
+            Published to
+            <input
+              type="number"
+              className={`${inputClass} mt-1.5`}
+              value={yearTo}
+              onChange={(e) => setYearTo(e.target.value)}
+              placeholder="Any year"
+            />
+          </label>
+          <label className="block text-sm text-white/70">
+            Subject contains
+            <input
+              className={`${inputClass} mt-1.5`}
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="Any subject"
+            />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+          <label className="block text-sm text-white/70">
+            Records
+            <select
+              className={`${inputClass} mt-1.5`}
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as "chapter" | "chunk")}
+            >
+              <option value="chunk">Per chunk</option>
+              <option value="chapter">Per chapter</option>
+            </select>
+          </label>
+          <label className="block text-sm text-white/70">
+            Chunk characters
+            <input
+              type="number"
+              min={500}
+              max={100000}
+              disabled={unit !== "chunk"}
+              className={`${inputClass} mt-1.5 disabled:opacity-50`}
+              value={chunkCharacters}
+              onChange={(e) => setChunkCharacters(Number(e.target.value))}
+            />
+          </label>
+          <label className="block text-sm text-white/70">
+            Validation %
+            <input
+              type="number"
+              min={0}
+              max={50}
+              className={`${inputClass} mt-1.5`}
+              value={validationPercent}
+              onChange={(e) => setValidationPercent(Number(e.target.value))}
+            />
+          </label>
+          <label className="block text-sm text-white/70">
+            Seed
+            <input
+              className={`${inputClass} mt-1.5`}
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+            />
+          </label>
+          <label className="block text-sm text-white/70">
+            Records per shard
+            <input
+              type="number"
+              min={1}
+              className={`${inputClass} mt-1.5`}
+              value={recordsPerShard}
+              onChange={(e) => setRecordsPerShard(Number(e.target.value))}
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm text-white/70">
+            <input
+              type="checkbox"
+              checked={deduplicate}
+              onChange={(e) => setDeduplicate(e.target.checked)}
+            />
+            Drop duplicate records
+          </label>
+          <button
+            type="submit"
+            disabled={isStarting || !name.trim()}
+            className="inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isStarting ? (
+              <Loader2 size={14} className="animate-spin" />
+            ) : (
+              <Database size={14} />
+            )}
+            Build Dataset
+          </button>
+        </div>
+      </form>
+
+      {datasets && datasets.length > 0 && (
+        <ul className="space-y-2">
+          {datasets.map((dataset) => (
+            <li
+              key={dataset._id}
+              className="space-y-2 rounded-lg border border-white/10 bg-slate-900/40 p-3 text-sm"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-medium text-white">{dataset.name}</span>
+                <span
+                  className={`rounded-full border px-2 py-0.5 text-xs ${getJobStatusBadgeClass(dataset.status)}`}
+                >
+                  {dataset.status === "running"
+                    ? `${getJobStageLabel(dataset.stage)} (${dataset.progress}%)`
+                    : getJobStatusLabel(dataset.status)}
+                </span>
+              </div>
+              {dataset.status === "failed" && dataset.error && (
+                <p className="text-xs text-rose-300/90">{dataset.error}</p>
+              )}
+              {dataset.recordCount !== undefined && (
+                <p className="text-xs text-white/60">
+                  {dataset.bookCount} books ·{" "}
+                  {dataset.recordCount.toLocaleString()} records ·{" "}
+                  {dataset.characterCount?.toLocaleString()} characters · ~
+                  {dataset.tokenCount?.toLocaleString()} tokens
+                  {dataset.options.deduplicate &&
+                    ` · ${dataset.duplicatesRemoved} duplicates removed`}
+                  {" · seed "}
+                  <span className="font-mono">{dataset.options.seed}</span>
+                </p>
+              )}
+              {dataset.manifestUrl && (
+                <div className="flex flex-wrap gap-2">
+                  <a
+                    href={dataset.manifestUrl}
+                    download="manifest.json"
+                    className="inline-flex items-center gap-1 rounded bg-slate-700/60 px-2 py-1 text-xs text-white hover:bg-slate-600/60"
+                  >
+                    <FileJson size={12} />
+                    manifest.json
+                  </a>
+                  {dataset.shards.map(
+                    (shard) =>
+                      shard.downloadUrl && (
+                        <a
+                          key={shard.filename}
+                          href={shard.downloadUrl}
+                          download={shard.filename}
+                          title={`${shard.records} records, SHA-256 ${shard.checksum}`}
+                          className="inline-flex items-center gap-1 rounded bg-slate-700/40 px-2 py-1 text-xs text-white/80 hover:bg-slate-600/60"
+                        >
+                          <Download size={12} />
+                          {shard.filename} ({formatFileSize(shard.size)})
+                        </a>
+                      ),
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
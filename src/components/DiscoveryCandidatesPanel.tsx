@@ -1,11 +1,37 @@
-import { useMemo, useState } from "react";
-import { useMutation, useQuery } from "convex/react";
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import { AlertTriangle, Loader2, Play } from "lucide-react";
+import {
+  AlertTriangle,
+  ListChecks,
+  Loader2,
+  Play,
+  Search,
+  X,
+} from "lucide-react";
 import { toast } from "sonner";
 import { Id } from "../../convex/_generated/dataModel";
 
 type CandidateId = Id<"discoveryCandidates">;
+type CandidateStatus =
+  | "discovered"
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "duplicate_blocked";
+
+type CandidateFilters = {
+  search?: string;
+  status?: CandidateStatus;
+  language?: string;
+  subject?: string;
+};
+
+type BatchTarget =
+  { candidateIds: CandidateId[] } | { filters: CandidateFilters; cap: number };
+
+const PAGE_SIZE = 50;
 
 const statusLabel: Record<string, string> = {
   discovered: "Discovered",
@@ -25,13 +51,117 @@ const statusClass: Record<string, string> = {
   duplicate_blocked: "bg-amber-500/20 text-amber-200 border-amber-500/40",
 };
 
+const inputClass =
+  "rounded-lg border border-white/10 bg-slate-900/60 px-2 py-1.5 text-xs text-white placeholder:text-white/40 focus:border-blue-500/60 focus:outline-none";
+
 export function DiscoveryCandidatesPanel() {
-  const candidates = useQuery(api.intake.listDiscoveryCandidates);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<"" | CandidateStatus>("");
+  const [language, setLanguage] = useState("");
+  const [subject, setSubject] = useState("");
+  const [matchingCap, setMatchingCap] = useState(100);
+
+  // Avoid a query round trip per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const filters = useMemo<CandidateFilters>(
+    () => ({
+      search: search || undefined,
+      status: status || undefined,
+      language: language.trim() || undefined,
+      subject: subject.trim() || undefined,
+    }),
+    [search, status, language, subject],
+  );
+
+  const {
+    results: candidates,
+    status: paginationStatus,
+    loadMore,
+  } = usePaginatedQuery(
+    api.intake.listDiscoveryCandidates,
+    { filters },
+    { initialNumItems: PAGE_SIZE },
+  );
   const enqueueCandidate = useMutation(api.intake.enqueueDiscoveryCandidate);
+  const enqueueBatch = useMutation(api.intake.enqueueDiscoveryCandidates);
   const [pendingId, setPendingId] = useState<CandidateId | null>(null);
   const [overrideMap, setOverrideMap] = useState<Record<string, boolean>>({});
+  const [selected, setSelected] = useState<Set<CandidateId>>(new Set());
+  const [batchTarget, setBatchTarget] = useState<BatchTarget | null>(null);
+  const [batchOverride, setBatchOverride] = useState(false);
+  const [isBatchPending, setIsBatchPending] = useState(false);
+
+  const preview = useQuery(
+    api.intake.previewEnqueueCandidates,
+    batchTarget ? { ...batchTarget, overrideDuplicate: batchOverride } : "skip",
+  );
 
   const rows = useMemo(() => candidates ?? [], [candidates]);
+  const selectableIds = rows
+    .filter(
+      (candidate) =>
+        !candidate.linkedJobId &&
+        (candidate.status === "discovered" ||
+          candidate.status === "failed" ||
+          candidate.status === "duplicate_blocked"),
+    )
+    .map((candidate) => candidate._id);
+  const allVisibleSelected =
+    selectableIds.length > 0 && selectableIds.every((id) => selected.has(id));
+
+  const toggleSelected = (candidateId: CandidateId) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(candidateId)) {
+        next.delete(candidateId);
+      } else {
+        next.add(candidateId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      selectableIds.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const onConfirmBatch = async () => {
+    if (!batchTarget) {
+      return;
+    }
+    setIsBatchPending(true);
+    try {
+      const result = await enqueueBatch({
+        ...batchTarget,
+        overrideDuplicate: batchOverride,
+      });
+      const parts = [`Enqueued ${result.enqueued}`];
+      if (result.duplicateBlocked > 0) {
+        parts.push(`${result.duplicateBlocked} duplicate blocked`);
+      }
+      if (result.skipped > 0) {
+        parts.push(`${result.skipped} skipped`);
+      }
+      toast.success(parts.join(", "));
+      setSelected(new Set());
+      setBatchTarget(null);
+      setBatchOverride(false);
+    } catch (error) {
+      toast.error("Failed to enqueue discovery candidates");
+      console.error(error);
+    } finally {
+      setIsBatchPending(false);
+    }
+  };
 
   const onEnqueue = async (candidateId: CandidateId) => {
     const overrideDuplicate = Boolean(overrideMap[candidateId]);
@@ -63,7 +193,7 @@ export function DiscoveryCandidatesPanel() {
     }
   };
 
-  if (candidates === undefined) {
+  if (paginationStatus === "LoadingFirstPage" && rows.length === 0) {
     return (
       <div className="flex items-center justify-center rounded-xl border border-white/5 p-8">
         <Loader2 className="h-6 w-6 animate-spin text-white" />
@@ -83,16 +213,176 @@ export function DiscoveryCandidatesPanel() {
         </p>
       </div>
 
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative">
+          <Search
+            className="pointer-events-none absolute left-2 top-1/2 -translate-y-1/2 text-white/40"
+            size={12}
+          />
+          <input
+            className={`${inputClass} w-64 pl-7`}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Title, author or Gutenberg ID"
+            value={searchInput}
+          />
+        </div>
+        <select
+          className={inputClass}
+          onChange={(e) => setStatus(e.target.value as "" | CandidateStatus)}
+          value={status}
+        >
+          <option value="">All statuses</option>
+          {Object.entries(statusLabel).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          className={`${inputClass} w-20`}
+          onChange={(e) => setLanguage(e.target.value)}
+          placeholder="Lang"
+          value={language}
+        />
+        <input
+          className={`${inputClass} w-48`}
+          onChange={(e) => setSubject(e.target.value)}
+          placeholder="Subject or bookshelf"
+          value={subject}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          className="inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:bg-blue-500/40"
+          disabled={selected.size === 0}
+          onClick={() => setBatchTarget({ candidateIds: Array.from(selected) })}
+          type="button"
+        >
+          <ListChecks size={14} />
+          Enqueue selected ({selected.size})
+        </button>
+        <button
+          className="inline-flex items-center gap-2 rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs font-medium text-white/80 transition-colors hover:bg-white/10"
+          onClick={() => setBatchTarget({ filters, cap: matchingCap })}
+          type="button"
+        >
+          <Play size={14} />
+          Enqueue all matching
+        </button>
+        <label className="flex items-center gap-1 text-xs text-white/60">
+          up to
+          <input
+            className={`${inputClass} w-16`}
+            max={250}
+            min={1}
+            onChange={(e) => setMatchingCap(Number(e.target.value) || 1)}
+            type="number"
+            value={matchingCap}
+          />
+        </label>
+      </div>
+
+      {batchTarget && (
+        <div className="space-y-3 rounded-lg border border-blue-500/30 bg-blue-500/10 p-3 text-xs text-white/80">
+          <div className="flex items-start justify-between gap-4">
+            <p className="font-medium text-white">
+              Dry run:{" "}
+              {"candidateIds" in batchTarget
+                ? `${batchTarget.candidateIds.length} selected candidates`
+                : "all candidates matching the current filters"}
+            </p>
+            <button
+              aria-label="Close preview"
+              className="text-white/60 hover:text-white"
+              onClick={() => setBatchTarget(null)}
+              type="button"
+            >
+              <X size={14} />
+            </button>
+          </div>
+
+          {preview === undefined ? (
+            <Loader2 className="h-4 w-4 animate-spin text-white" />
+          ) : (
+            <>
+              <p>
+                {preview.wouldEnqueue} would be enqueued • {preview.wouldBlock}{" "}
+                blocked as duplicate •{" "}
+                {preview.alreadyEnqueued + preview.notEnqueueable} skipped
+                {preview.capped &&
+                  ` • capped at ${preview.cap}, more candidates match`}
+              </p>
+              {preview.blocked.length > 0 && (
+                <ul className="max-h-40 space-y-1 overflow-y-auto rounded border border-amber-500/30 bg-amber-500/10 p-2 text-amber-100">
+                  {preview.blocked.map((row) => (
+                    <li key={row.candidateId}>
+                      #{row.gutenbergId} {row.title ?? "Unknown Title"} —
+                      already in library as{" "}
+                      <a
+                        className="text-blue-300 underline"
+                        href={`#book-${row.existingBookId}`}
+                      >
+                        {row.existingBookTitle}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2">
+                  <input
+                    checked={batchOverride}
+                    onChange={(e) => setBatchOverride(e.target.checked)}
+                    type="checkbox"
+                  />
+                  Override duplicate blocks
+                </label>
+                <button
+                  className="ml-auto inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:bg-blue-500/40"
+                  disabled={
+                    isBatchPending ||
+                    preview.wouldEnqueue + preview.wouldBlock === 0
+                  }
+                  onClick={() => void onConfirmBatch()}
+                  type="button"
+                >
+                  {isBatchPending ? (
+                    <Loader2 size={14} className="animate-spin" />
+                  ) : (
+                    <Play size={14} />
+                  )}
+                  Enqueue {preview.wouldEnqueue}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {rows.length === 0 ? (
         <p className="rounded-lg border border-dashed border-white/10 p-4 text-sm text-white/70">
-          No discovery candidates yet. Run the library discovery command to
-          populate this list.
+          {filters.search ||
+          filters.status ||
+          filters.language ||
+          filters.subject
+            ? "No candidates match these filters."
+            : "No discovery candidates yet. Run the library discovery or catalog import command to populate this list."}
         </p>
       ) : (
         <div className="overflow-x-auto rounded-lg border border-white/5">
           <table className="w-full min-w-[760px] text-left text-sm text-white/80">
             <thead className="bg-slate-800/40 text-xs uppercase tracking-wide text-white/70">
               <tr>
+                <th className="px-3 py-2">
+                  <input
+                    aria-label="Select all visible candidates"
+                    checked={allVisibleSelected}
+                    disabled={selectableIds.length === 0}
+                    onChange={(e) => toggleAllVisible(e.target.checked)}
+                    type="checkbox"
+                  />
+                </th>
                 <th className="px-3 py-2">Gutenberg ID</th>
                 <th className="px-3 py-2">Title / Author</th>
                 <th className="px-3 py-2">Source Path</th>
@@ -118,6 +408,15 @@ export function DiscoveryCandidatesPanel() {
                     key={candidate._id}
                     className="border-t border-white/5 align-top"
                   >
+                    <td className="px-3 py-3">
+                      <input
+                        aria-label={`Select candidate ${candidate.gutenbergId}`}
+                        checked={selected.has(candidate._id)}
+                        disabled={!selectableIds.includes(candidate._id)}
+                        onChange={() => toggleSelected(candidate._id)}
+                        type="checkbox"
+                      />
+                    </td>
                     <td className="px-3 py-3 font-mono text-xs text-white/90">
                       {candidate.gutenbergId}
                     </td>
@@ -128,6 +427,20 @@ export function DiscoveryCandidatesPanel() {
                       <p className="text-white/70">
                         {candidate.author || "Unknown Author"}
                       </p>
+                      {candidate.catalogSource && (
+                        <p className="mt-1 text-xs text-white/50">
+                          {[
+                            candidate.languages?.join(", "),
+                            candidate.locClasses?.join(", "),
+                            candidate.downloadCount !== undefined
+                              ? `${candidate.downloadCount.toLocaleString()} downloads`
+                              : undefined,
+                            candidate.subjects?.[0],
+                          ]
+                            .filter(Boolean)
+                            .join(" • ")}
+                        </p>
+                      )}
                       {warningText && (
                         <div className="mt-2 inline-flex items-center gap-1 rounded border border-amber-500/30 bg-amber-500/10 px-2 py-1 text-xs text-amber-200">
                           <AlertTriangle size={12} /> {warningText}
@@ -153,7 +466,13 @@ export function DiscoveryCandidatesPanel() {
                       )}
                     </td>
                     <td className="px-3 py-3 text-xs text-white/70">
-                      <code>{candidate.sourcePath}</code>
+                      {candidate.sourcePath ? (
+                        <code>{candidate.sourcePath}</code>
+                      ) : (
+                        <span className="italic text-white/50">
+                          Catalog only (downloaded at ingest)
+                        </span>
+                      )}
                     </td>
                     <td className="px-3 py-3">
                       <span
@@ -199,6 +518,21 @@ export function DiscoveryCandidatesPanel() {
               })}
             </tbody>
           </table>
+          {paginationStatus !== "Exhausted" && (
+            <div className="border-t border-white/5 p-3 text-center">
+              <button
+                className="inline-flex items-center gap-2 rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 transition-colors hover:bg-white/10 disabled:opacity-50"
+                disabled={paginationStatus !== "CanLoadMore"}
+                onClick={() => loadMore(PAGE_SIZE)}
+                type="button"
+              >
+                {paginationStatus === "LoadingMore" && (
+                  <Loader2 size={14} className="animate-spin" />
+                )}
+                Load more
+              </button>
+            </div>
+          )}
         </div>
       )}
     </section>
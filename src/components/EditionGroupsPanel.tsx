@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import {
+  Copy,
+  Layers,
+  Link2,
+  Loader2,
+  RefreshCw,
+  Unlink,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+
+type BookId = Id<"books">;
+
+const kindLabel = {
+  duplicate: "Possible duplicate",
+  alternate_edition: "Alternate edition",
+};
+
+const kindClass = {
+  duplicate: "bg-rose-500/20 text-rose-200 border-rose-500/40",
+  alternate_edition: "bg-sky-500/20 text-sky-200 border-sky-500/40",
+};
+
+export function EditionGroupsPanel() {
+  const groups = useQuery(api.editions.listEditionGroups);
+  const families = useQuery(api.editions.listWorkFamilies);
+  const linkEditions = useMutation(api.editions.linkEditions);
+  const unlinkEdition = useMutation(api.editions.unlinkEdition);
+  const dismissMatch = useMutation(api.editions.dismissEditionMatch);
+  const rescan = useMutation(api.editions.rescanFingerprints);
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+
+  const run = async (key: string, action: () => Promise<unknown>) => {
+    setPendingKey(key);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const onRescan = () =>
+    run("rescan", async () => {
+      const result = await rescan({});
+      toast.success(`Fingerprinting ${result.scheduled} book(s)`);
+    });
+
+  const onLink = (key: string, bookIds: BookId[]) =>
+    run(key, async () => {
+      await linkEditions({ bookIds });
+      toast.success("Linked as editions of one work");
+    });
+
+  const onDismiss = (key: string, bookIds: BookId[]) =>
+    run(key, async () => {
+      await dismissMatch({ bookIds });
+      toast("Marked as different works");
+    });
+
+  const onUnlink = (bookId: BookId) =>
+    run(bookId, async () => {
+      await unlinkEdition({ bookId });
+    });
+
+  if (groups === undefined || families === undefined) {
+    return (
+      <div className="flex items-center justify-center rounded-xl border border-white/5 p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  const linkedFamilies = families.filter(
+    (family) => family.editions.length > 1,
+  );
+
+  return (
+    <section className="space-y-4 rounded-xl border border-white/5 bg-slate-800/40 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">
+            Duplicates &amp; Editions
+          </h3>
+          <p className="text-sm text-white/70">
+            Books matched on normalized title/author and body-text fingerprint.
+            Link editions into a work family instead of deleting one.
+          </p>
+        </div>
+        <button
+          className="inline-flex items-center gap-2 rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 transition-colors hover:bg-white/10 disabled:opacity-50"
+          disabled={pendingKey === "rescan"}
+          onClick={() => void onRescan()}
+          type="button"
+        >
+          {pendingKey === "rescan" ? (
+            <Loader2 size={14} className="animate-spin" />
+          ) : (
+            <RefreshCw size={14} />
+          )}
+          Fingerprint library
+        </button>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-white/10 p-4 text-sm text-white/70">
+          No possible duplicates or alternate editions found.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map((group) => {
+            const bookIds = group.books.map((book) => book._id);
+            const key = bookIds.join(",");
+            const isPending = pendingKey === key;
+
+            return (
+              <article
+                key={key}
+                className="space-y-3 rounded-lg border border-white/10 bg-slate-900/40 p-3"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span
+                    className={`inline-flex items-center gap-1 rounded-full border px-2 py-1 text-xs ${kindClass[group.kind]}`}
+                  >
+                    {group.kind === "duplicate" ? (
+                      <Copy size={12} />
+                    ) : (
+                      <Layers size={12} />
+                    )}
+                    {kindLabel[group.kind]}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      className="inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:bg-blue-500/40"
+                      disabled={isPending}
+                      onClick={() => void onLink(key, bookIds)}
+                      type="button"
+                    >
+                      {isPending ? (
+                        <Loader2 size={14} className="animate-spin" />
+                      ) : (
+                        <Link2 size={14} />
+                      )}
+                      Link as editions
+                    </button>
+                    <button
+                      className="inline-flex items-center gap-2 rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 transition-colors hover:bg-white/10 disabled:opacity-50"
+                      disabled={isPending}
+                      onClick={() => void onDismiss(key, bookIds)}
+                      type="button"
+                    >
+                      <X size={14} />
+                      Not the same work
+                    </button>
+                  </div>
+                </div>
+
+                <ul className="space-y-1 text-sm">
+                  {group.books.map((book) => (
+                    <li key={book._id} className="text-white/80">
+                      <a
+                        className="font-medium text-white hover:underline"
+                        href={`#book-${book._id}`}
+                      >
+                        {book.title}
+                      </a>{" "}
+                      <span className="text-white/60">— {book.author}</span>
+                      {book.gutenbergId && (
+                        <span className="ml-2 font-mono text-xs text-white/50">
+                          #{book.gutenbergId}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                <ul className="space-y-0.5 text-xs text-white/50">
+                  {group.matches.map((match) => (
+                    <li key={`${match.a}-${match.b}`}>
+                      {match.reasons.join(" • ")}
+                    </li>
+                  ))}
+                </ul>
+              </article>
+            );
+          })}
+        </div>
+      )}
+
+      {linkedFamilies.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-medium uppercase tracking-wide text-white/60">
+            Work families
+          </h4>
+          {linkedFamilies.map((family) => (
+            <div
+              key={family._id}
+              className="rounded-lg border border-white/10 bg-slate-900/40 p-3 text-sm"
+            >
+              <p className="font-medium text-white">
+                {family.title}{" "}
+                <span className="font-normal text-white/60">
+                  — {family.author}
+                </span>
+              </p>
+              <ul className="mt-2 space-y-1">
+                {family.editions.map((edition) => (
+                  <li
+                    key={edition._id}
+                    className="flex items-center justify-between gap-2 text-xs text-white/70"
+                  >
+                    <a
+                      className="hover:underline"
+                      href={`#book-${edition._id}`}
+                    >
+                      {edition.title}
+                      {edition.gutenbergId && ` (#${edition.gutenbergId})`}
+                    </a>
+                    <button
+                      className="inline-flex items-center gap-1 text-white/50 hover:text-white disabled:opacity-50"
+                      disabled={pendingKey === edition._id}
+                      onClick={() => void onUnlink(edition._id)}
+                      type="button"
+                    >
+                      <Unlink size={12} />
+                      Unlink
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -25,6 +25,9 @@ export function ImportModal({ onClose }: ImportModalProps) {
   const generateUploadUrl = useMutation(api.files.generateUploadUrl);
   const createBookFromFile = useMutation(api.books.createFromFile);
 
+  const isPlainText = (fileName: string) =>
+    fileName.toLowerCase().endsWith(".txt");
+
   const extractFolderNumber = (input: string): string | null => {
     if (/^\d+$/.test(input.trim())) {
       return input.trim();
@@ -33,7 +36,9 @@ export function ImportModal({ onClose }: ImportModalProps) {
   };
 
   const inferFolderNumberFromFileName = (fileName: string): string | null => {
-    const pgMatch = fileName.match(/^pg(\d+).*\.(txt|md|epub)$/i);
+    const pgMatch = fileName.match(
+      /^pg(\d+).*\.(txt|md|markdown|epub|html?|xhtml|zip|docx)$/i,
+    );
     if (pgMatch) {
       return pgMatch[1];
     }
@@ -73,8 +78,8 @@ export function ImportModal({ onClose }: ImportModalProps) {
   const handleFileUpload = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!selectedFile || !bookTitle.trim() || !bookAuthor.trim()) {
-      toast.error("Please fill in all fields and select a file");
+    if (!selectedFile) {
+      toast.error("Please select a file");
       return;
     }
 
@@ -105,8 +110,8 @@ export function ImportModal({ onClose }: ImportModalProps) {
       const { storageId } = await result.json();
 
       const response = await createBookFromFile({
-        title: bookTitle.trim(),
-        author: bookAuthor.trim(),
+        title: bookTitle.trim() || undefined,
+        author: bookAuthor.trim() || undefined,
         fileId: storageId,
         fileName: selectedFile.name,
         gutenbergId: parsedGutenbergId ?? undefined,
@@ -142,9 +147,23 @@ export function ImportModal({ onClose }: ImportModalProps) {
       const validTypes = [
         "text/plain",
         "text/markdown",
+        "text/html",
+        "application/xhtml+xml",
         "application/epub+zip",
+        "application/zip",
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      ];
+      const validExtensions = [
+        ".txt",
+        ".md",
+        ".markdown",
+        ".epub",
+        ".html",
+        ".htm",
+        ".xhtml",
+        ".zip",
+        ".docx",
       ];
-      const validExtensions = [".txt", ".md", ".epub"];
 
       const hasValidType = validTypes.includes(file.type);
       const hasValidExtension = validExtensions.some((ext) =>
@@ -152,7 +171,9 @@ export function ImportModal({ onClose }: ImportModalProps) {
       );
 
       if (!hasValidType && !hasValidExtension) {
-        toast.error("Please select a valid text file (.txt, .md, or .epub)");
+        toast.error(
+          "Please select a supported file (.txt, .md, .epub, .html, .zip or .docx)",
+        );
         return;
       }
 
@@ -171,6 +192,12 @@ export function ImportModal({ onClose }: ImportModalProps) {
         }
       }
 
+      // Other formats carry their own metadata (OPF, <meta>, front matter,
+      // docProps), which intake reads when title/author are left blank
+      if (!isPlainText(file.name)) {
+        return;
+      }
+
       if (!bookTitle) {
         const nameWithoutExt = file.name.replace(/\.[^/.]+$/, "");
         setBookTitle(nameWithoutExt);
@@ -221,7 +248,7 @@ export function ImportModal({ onClose }: ImportModalProps) {
             <div className="relative">
               <input
                 type="file"
-                accept=".txt,.md,.epub,text/plain,text/markdown,application/epub+zip"
+                accept=".txt,.md,.markdown,.epub,.html,.htm,.xhtml,.zip,.docx,text/plain,text/markdown,text/html,application/epub+zip,application/zip,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
                 onChange={handleFileSelect}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                 id="file-upload"
@@ -261,7 +288,7 @@ export function ImportModal({ onClose }: ImportModalProps) {
                     <div>
                       <div className="font-medium text-white">Click to upload</div>
                       <div className="text-sm text-white/70">
-                        .txt, .md, or .epub up to 10MB
+                        .txt, .md, .epub, .html, .zip or .docx up to 10MB
                       </div>
                     </div>
                   </>
@@ -274,15 +301,14 @@ export function ImportModal({ onClose }: ImportModalProps) {
           <div>
             <label className="block text-sm font-medium text-white/70 mb-2.5">
               <BookOpen size={14} className="inline mr-1.5 -mt-0.5" />
-              Book Title
+              Book Title (optional)
             </label>
             <input
               type="text"
               value={bookTitle}
               onChange={(e) => setBookTitle(e.target.value)}
-              placeholder="Enter the book title"
+              placeholder="Detected from the file if left blank"
               className="w-full px-4 py-3.5 bg-slate-800/40 border border-white/5 rounded-xl text-white placeholder:text-white/60 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all"
-              required
             />
           </div>
 
@@ -290,15 +316,14 @@ export function ImportModal({ onClose }: ImportModalProps) {
           <div>
             <label className="block text-sm font-medium text-white/70 mb-2.5">
               <User size={14} className="inline mr-1.5 -mt-0.5" />
-              Author
+              Author (optional)
             </label>
             <input
               type="text"
               value={bookAuthor}
               onChange={(e) => setBookAuthor(e.target.value)}
-              placeholder="Enter the author name"
+              placeholder="Detected from the file if left blank"
               className="w-full px-4 py-3.5 bg-slate-800/40 border border-white/5 rounded-xl text-white placeholder:text-white/60 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all"
-              required
             />
           </div>
 
@@ -361,7 +386,7 @@ export function ImportModal({ onClose }: ImportModalProps) {
               <AlertCircle className="text-emerald-400 flex-shrink-0 mt-0.5" size={18} />
               <div className="text-sm text-emerald-200/80">
                 <p className="font-medium text-emerald-200 mb-1">Supported formats</p>
-                <p>Plain text (.txt), Markdown (.md), and EPUB files are supported. Maximum file size is 10MB.</p>
+                <p>Gutenberg plain text (.txt), Markdown (.md), EPUB, HTML (a single page or a .zip of pages) and Word (.docx) files are supported. Non-text formats are converted to annotated markdown, and title/author are read from the file's own metadata. Maximum file size is 10MB.</p>
               </div>
             </div>
           </div>
@@ -377,12 +402,7 @@ export function ImportModal({ onClose }: ImportModalProps) {
             </button>
             <button
               type="submit"
-              disabled={
-                isLoading ||
-                !selectedFile ||
-                !bookTitle.trim() ||
-                !bookAuthor.trim()
-              }
+              disabled={isLoading || !selectedFile}
               className="flex-1 flex items-center justify-center gap-2 px-5 py-3.5 bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-400 hover:to-purple-400 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-xl transition-all shadow-lg shadow-indigo-500/25"
             >
               {isLoading ? (
@@ -1,11 +1,29 @@
-import { useQuery } from "convex/react";
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
 import {
   AlertTriangle,
   CheckCircle2,
+  Clock,
   FileWarning,
+  Loader2,
+  RotateCcw,
   ShieldAlert,
+  Skull,
 } from "lucide-react";
+import { toast } from "sonner";
 import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+type IngestJobId = Id<"ingestJobs">;
+type FormatOverride = "epub3.images" | "epub.images" | "epub.noimages" | "txt";
+
+const formatOptions: Array<{ value: "" | FormatOverride; label: string }> = [
+  { value: "", label: "Auto (mode priority)" },
+  { value: "epub3.images", label: "EPUB3 with images" },
+  { value: "epub.images", label: "EPUB with images" },
+  { value: "epub.noimages", label: "EPUB without images" },
+  { value: "txt", label: "Plain text" },
+];
 
 const formatTimestamp = (value?: number) => {
   if (!value) {
@@ -15,8 +33,92 @@ const formatTimestamp = (value?: number) => {
   return new Date(value).toLocaleString();
 };
 
+const eventKind = (status: string, hasError: boolean) => {
+  if (status === "dead_letter") {
+    return "dead_letter" as const;
+  }
+  if (status === "failed") {
+    return "failed" as const;
+  }
+  if (status === "queued" && hasError) {
+    return "retrying" as const;
+  }
+  return "warning" as const;
+};
+
+const kindLabel = {
+  dead_letter: "Dead letter",
+  failed: "Failure",
+  retrying: "Retrying",
+  warning: "Warning",
+};
+
+const kindTone = {
+  dead_letter: "border-rose-500/40 bg-rose-950/40",
+  failed: "border-rose-500/25 bg-rose-500/10",
+  retrying: "border-sky-500/25 bg-sky-500/10",
+  warning: "border-amber-500/25 bg-amber-500/10",
+};
+
+const kindTextTone = {
+  dead_letter: "text-rose-200",
+  failed: "text-rose-200",
+  retrying: "text-sky-200",
+  warning: "text-amber-200",
+};
+
 export function IngestErrorLogsPage() {
   const events = useQuery(api.ingestJobs.listErrorEvents, { limit: 100 });
+  const requeueJobs = useMutation(api.ingestJobs.requeue);
+  const [selected, setSelected] = useState<Set<IngestJobId>>(new Set());
+  const [formatOverride, setFormatOverride] = useState<"" | FormatOverride>("");
+  const [isRequeueing, setIsRequeueing] = useState(false);
+
+  const requeueableIds = (events ?? [])
+    .filter(
+      (event) => event.status === "failed" || event.status === "dead_letter",
+    )
+    .map((event) => event._id);
+  const selectedIds = requeueableIds.filter((id) => selected.has(id));
+
+  const toggleSelected = (id: IngestJobId) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const onRequeue = async (ingestJobIds: IngestJobId[]) => {
+    if (ingestJobIds.length === 0) {
+      return;
+    }
+    setIsRequeueing(true);
+    try {
+      const result = await requeueJobs({
+        ingestJobIds,
+        formatOverride: formatOverride || undefined,
+      });
+      toast.success(
+        `Requeued ${result.requeued} job${result.requeued === 1 ? "" : "s"}` +
+          (result.skipped > 0 ? ` (${result.skipped} skipped)` : ""),
+      );
+      setSelected((current) => {
+        const next = new Set(current);
+        ingestJobIds.forEach((id) => next.delete(id));
+        return next;
+      });
+    } catch (error) {
+      toast.error("Failed to requeue ingest jobs");
+      console.error(error);
+    } finally {
+      setIsRequeueing(false);
+    }
+  };
 
   if (events === undefined) {
     return (
@@ -42,28 +144,83 @@ export function IngestErrorLogsPage() {
         </div>
       ) : (
         <div className="space-y-3">
+          {requeueableIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 rounded-xl border border-white/10 bg-slate-800/40 p-3">
+              <label className="flex items-center gap-2 text-xs text-white/80">
+                <input
+                  checked={selectedIds.length === requeueableIds.length}
+                  onChange={(e) =>
+                    setSelected(
+                      e.target.checked ? new Set(requeueableIds) : new Set(),
+                    )
+                  }
+                  type="checkbox"
+                />
+                Select all failed ({requeueableIds.length})
+              </label>
+              <label className="flex items-center gap-2 text-xs text-white/70">
+                Format
+                <select
+                  className="rounded-lg border border-white/10 bg-slate-900/60 px-2 py-1 text-xs text-white"
+                  onChange={(e) =>
+                    setFormatOverride(e.target.value as "" | FormatOverride)
+                  }
+                  value={formatOverride}
+                >
+                  {formatOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                className="ml-auto inline-flex items-center gap-2 rounded-lg bg-indigo-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+                disabled={selectedIds.length === 0 || isRequeueing}
+                onClick={() => void onRequeue(selectedIds)}
+                type="button"
+              >
+                {isRequeueing ? (
+                  <Loader2 size={14} className="animate-spin" />
+                ) : (
+                  <RotateCcw size={14} />
+                )}
+                Requeue selected ({selectedIds.length})
+              </button>
+            </div>
+          )}
+
           {events.map((event) => {
-            const isFailed = event.status === "failed";
-            const tone = isFailed
-              ? "border-rose-500/25 bg-rose-500/10"
-              : "border-amber-500/25 bg-amber-500/10";
-            const textTone = isFailed ? "text-rose-200" : "text-amber-200";
+            const kind = eventKind(event.status, Boolean(event.error));
+            const canRequeue = kind === "failed" || kind === "dead_letter";
 
             return (
               <article
                 key={String(event._id)}
-                className={`rounded-xl border p-4 ${tone}`}
+                className={`rounded-xl border p-4 ${kindTone[kind]}`}
               >
                 <div className="flex items-start justify-between gap-4">
                   <div className="min-w-0">
                     <div className="flex items-center gap-2">
-                      {isFailed ? (
+                      {canRequeue && (
+                        <input
+                          aria-label="Select for requeue"
+                          checked={selected.has(event._id)}
+                          onChange={() => toggleSelected(event._id)}
+                          type="checkbox"
+                        />
+                      )}
+                      {kind === "dead_letter" ? (
+                        <Skull className="text-rose-300" size={16} />
+                      ) : kind === "failed" ? (
                         <ShieldAlert className="text-rose-300" size={16} />
+                      ) : kind === "retrying" ? (
+                        <Clock className="text-sky-300" size={16} />
                       ) : (
                         <FileWarning className="text-amber-300" size={16} />
                       )}
                       <p className="text-sm font-semibold text-white">
-                        {isFailed ? "Failure" : "Warning"}
+                        {kindLabel[kind]}
                         {event.book?.title
                           ? ` - ${event.book.title}`
                           : " - Unlinked ingest job"}
@@ -71,16 +228,32 @@ export function IngestErrorLogsPage() {
                     </div>
                     <p className="text-xs text-white/70 mt-1">
                       Gutenberg #{event.gutenbergId} • mode {event.mode} • stage{" "}
-                      {event.stage ?? "-"}
+                      {event.stage ?? "-"} • attempt {event.attempts}/
+                      {event.maxAttempts}
+                      {kind === "retrying" &&
+                        ` • next try ${formatTimestamp(event.notBefore)}`}
                     </p>
                   </div>
-                  <p className="text-xs text-white/60 whitespace-nowrap">
-                    {formatTimestamp(event.updatedAt)}
-                  </p>
+                  <div className="flex flex-col items-end gap-2">
+                    <p className="text-xs text-white/60 whitespace-nowrap">
+                      {formatTimestamp(event.updatedAt)}
+                    </p>
+                    {canRequeue && (
+                      <button
+                        className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-2.5 py-1 text-xs text-white/80 transition-colors hover:bg-white/10 disabled:opacity-50"
+                        disabled={isRequeueing}
+                        onClick={() => void onRequeue([event._id])}
+                        type="button"
+                      >
+                        <RotateCcw size={12} />
+                        Requeue
+                      </button>
+                    )}
+                  </div>
                 </div>
 
                 <div
-                  className={`mt-3 rounded-lg border border-white/10 bg-black/20 p-3 ${textTone}`}
+                  className={`mt-3 rounded-lg border border-white/10 bg-black/20 p-3 ${kindTextTone[kind]}`}
                 >
                   <p className="text-sm whitespace-pre-wrap break-words">
                     {event.error ?? event.warning ?? "No details provided"}
@@ -98,6 +271,8 @@ export function IngestErrorLogsPage() {
                     Selected format:{" "}
                     <span className="text-white/80">
                       {event.selectedFormat ?? "-"}
+                      {event.formatOverride &&
+                        ` (pinned: ${event.formatOverride})`}
                     </span>
                   </p>
                   <p>
@@ -123,8 +298,10 @@ export function IngestErrorLogsPage() {
         <p className="text-xs text-indigo-200/90 flex items-start gap-2">
           <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
           This screen shows daemon events persisted in Convex (`ingestJobs`
-          failures and warnings). Local launchd log files remain on this machine
-          in `~/Library/Logs/bookzang/`.
+          failures, pending retries, dead letters and warnings). Failed attempts
+          retry with exponential backoff until the mode&apos;s attempt limit,
+          then move to dead letter. Local launchd log files remain on this
+          machine in `~/Library/Logs/bookzang/`.
         </p>
       </div>
     </div>
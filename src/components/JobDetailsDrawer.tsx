@@ -1,13 +1,23 @@
 import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 
-import { X, Clock, Play, CheckCircle, XCircle, ExternalLink } from "lucide-react";
+import {
+  X,
+  Clock,
+  Play,
+  CheckCircle,
+  XCircle,
+  ExternalLink,
+  Download,
+  AlertTriangle,
+} from "lucide-react";
 import { Id } from "../../convex/_generated/dataModel";
 import {
   getJobStageLabel,
   getJobStatusBadgeClass,
   getJobStatusLabel,
 } from "../lib/jobStatus";
+import { formatFileSize, getExportFormatLabel } from "../lib/exportFormats";
 
 interface JobDetailsDrawerProps {
   jobId: Id<"jobs">;
@@ -16,6 +26,10 @@ interface JobDetailsDrawerProps {
 
 export function JobDetailsDrawer({ jobId, onClose }: JobDetailsDrawerProps) {
   const job = useQuery(api.jobs.get, { id: jobId });
+  const artifact = useQuery(
+    api.exports.getForJob,
+    job?.type === "export" ? { jobId } : "skip",
+  );
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -120,6 +134,52 @@ export function JobDetailsDrawer({ jobId, onClose }: JobDetailsDrawerProps) {
             </span>
           </div>
 
+          {/* Export output */}
+          {artifact && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-300">
+                Output
+              </label>
+              <div className="p-3 bg-white/5 border border-white/10 rounded-lg space-y-1.5 text-sm text-slate-300">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-white truncate">
+                    {artifact.filename}
+                  </span>
+                  {artifact.downloadUrl && (
+                    <a
+                      href={artifact.downloadUrl}
+                      download={artifact.filename}
+                      className="inline-flex shrink-0 items-center gap-1.5 text-blue-400 hover:text-blue-300"
+                    >
+                      <Download size={14} />
+                      Download
+                    </a>
+                  )}
+                </div>
+                <div>
+                  {getExportFormatLabel(artifact.format)} ·{" "}
+                  {formatFileSize(artifact.size)} ·{" "}
+                  {artifact.volumes
+                    ? `${artifact.volumes.length} volumes`
+                    : `revision ${artifact.revisionNumber}`}
+                  {artifact.pageCount !== undefined &&
+                    ` · ${artifact.pageCount} pages`}
+                  {artifact.wordCount !== undefined &&
+                    ` · ${artifact.wordCount.toLocaleString()} words`}
+                </div>
+                <div className="font-mono text-xs text-slate-400 break-all">
+                  SHA-256 {artifact.checksum}
+                </div>
+                {artifact.stale && (
+                  <div className="flex items-center gap-1.5 text-amber-300">
+                    <AlertTriangle size={14} />
+                    Stale: a newer revision has been approved
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Error */}
           {(job.error || job.errorDetails) && (
             <div className="space-y-2">
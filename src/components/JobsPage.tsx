@@ -57,6 +57,8 @@ export function JobsPage() {
         return "bg-orange-500/15 text-orange-300 border-orange-500/25";
       case "export":
         return "bg-cyan-500/15 text-cyan-300 border-cyan-500/25";
+      case "dataset":
+        return "bg-teal-500/15 text-teal-300 border-teal-500/25";
       default:
         return "bg-gray-500/15 text-gray-300 border-gray-500/25";
     }
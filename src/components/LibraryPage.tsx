@@ -3,7 +3,14 @@ import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { DiscoveryCandidatesPanel } from "./DiscoveryCandidatesPanel";
+import { EditionGroupsPanel } from "./EditionGroupsPanel";
+import { DatasetExportPanel } from "./DatasetExportPanel";
+import { CollectionsPanel } from "./CollectionsPanel";
 import { CopyrightStatusBadge } from "./CopyrightStatusBadge";
+import {
+  getCopyrightStatusBadgeClass,
+  getCopyrightTerritoryLabel,
+} from "@/lib/copyrightStatus";
 import { toast } from "sonner";
 
 import {
@@ -23,8 +30,16 @@ import {
   ExternalLink,
   ChevronDown,
   ChevronUp,
+  Layers,
+  ListChecks,
+  PencilLine,
+  Package,
 } from "lucide-react";
 import { StudyGuideList } from "./StudyGuideList";
+import { BookMetadataPanel } from "./BookMetadataPanel";
+import { BookMetadataEditor } from "./BookMetadataEditor";
+import { ContributorPanel } from "./ContributorPanel";
+import { BookExportsPanel } from "./BookExportsPanel";
 
 interface LibraryPageProps {
   onEnterReview?: (bookId: Id<"books">) => void;
@@ -53,8 +68,11 @@ export function LibraryPage({ onEnterReview }: LibraryPageProps) {
     useState<Id<"books"> | null>(null);
   const [activeCleanups, setActiveCleanups] = useState<Set<string>>(new Set());
   const debouncedSearch = useDebounce(inputValue, 300);
+  const [authorFilter, setAuthorFilter] = useState<Id<"contributors"> | "">("");
+  const authors = useQuery(api.contributors.listAuthors, {});
   const books = useQuery(api.books.list, {
     search: debouncedSearch || undefined,
+    contributorId: authorFilter || undefined,
   });
   const startCleanup = useMutation(api.cleanup.startCleanup);
   const deleteBook = useMutation(api.books.deleteBook);
@@ -65,6 +83,9 @@ export function LibraryPage({ onEnterReview }: LibraryPageProps) {
   const [showDeleteAllConfirm, setShowDeleteAllConfirm] = useState(false);
   const [isDeletingAll, setIsDeletingAll] = useState(false);
   const [expandedGuidesFor, setExpandedGuidesFor] = useState<Id<"books"> | null>(null);
+  const [expandedMetadataFor, setExpandedMetadataFor] = useState<Id<"books"> | null>(null);
+  const [editingMetadataFor, setEditingMetadataFor] = useState<Id<"books"> | null>(null);
+  const [expandedExportsFor, setExpandedExportsFor] = useState<Id<"books"> | null>(null);
 
   // Poll for cleanup status on books that are being cleaned
   const cleanupStatuses = useQuery(
@@ -292,20 +313,41 @@ export function LibraryPage({ onEnterReview }: LibraryPageProps) {
   return (
     <div className="space-y-6">
       {/* Search */}
-      <div className="relative max-w-xl">
-        <Search
-          className="absolute left-4 top-1/2 -translate-y-1/2 text-white/60"
-          size={20}
-        />
-        <input
-          type="text"
-          placeholder="Search books by title or author..."
-          value={inputValue}
-          onChange={(e) => setInputValue(e.target.value)}
-          className="w-full pl-12 pr-4 py-3.5 bg-slate-800/40 border border-white/5 rounded-xl text-white placeholder:text-white/60 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all"
-        />
+      <div className="flex flex-wrap gap-3">
+        <div className="relative w-full max-w-xl">
+          <Search
+            className="absolute left-4 top-1/2 -translate-y-1/2 text-white/60"
+            size={20}
+          />
+          <input
+            type="text"
+            placeholder="Search books by title or author..."
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            className="w-full pl-12 pr-4 py-3.5 bg-slate-800/40 border border-white/5 rounded-xl text-white placeholder:text-white/60 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all"
+          />
+        </div>
+
+        {/* Browse by author */}
+        {authors && authors.length > 0 && (
+          <select
+            value={authorFilter}
+            onChange={(e) => setAuthorFilter(e.target.value as Id<"contributors"> | "")}
+            className="px-4 py-3.5 bg-slate-800/40 border border-white/5 rounded-xl text-white focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all"
+          >
+            <option value="">All authors</option>
+            {authors.map((author) => (
+              <option key={author._id} value={author._id}>
+                {author.name}
+                {author.lifeDates && ` (${author.lifeDates})`} · {author.bookCount}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
+      {authorFilter && <ContributorPanel contributorId={authorFilter} />}
+
       {/* Books Grid */}
       {books.length === 0 ? (
         <div className="text-center py-16">
@@ -363,6 +405,20 @@ export function LibraryPage({ onEnterReview }: LibraryPageProps) {
                       {getSourceDisplay(book)}
                     </div>
 
+                    {book.workFamilyId && (
+                      <div className="flex items-center gap-2.5 text-sky-200/80">
+                        <Layers size={14} className="text-sky-300/70" />
+                        <span className="text-xs">Linked edition of a work</span>
+                      </div>
+                    )}
+
+                    {book.metadataNeedsReview && (
+                      <div className="flex items-center gap-2.5 text-amber-200/90">
+                        <AlertTriangle size={14} className="text-amber-300/80" />
+                        <span className="text-xs">Metadata needs review</span>
+                      </div>
+                    )}
+
                     <div className="flex items-center gap-2.5 text-white/70">
                       <Calendar size={14} className="text-white/50" />
                       <span className="text-xs">
@@ -390,6 +446,20 @@ export function LibraryPage({ onEnterReview }: LibraryPageProps) {
                         : "Publication year: not detected"}
                     </div>
 
+                    {book.copyrightTerritories && (
+                      <div className="flex flex-wrap gap-1">
+                        {book.copyrightTerritories.map((verdict) => (
+                          <span
+                            key={verdict.territory}
+                            className={`rounded border px-1.5 py-0.5 text-[10px] font-medium ${getCopyrightStatusBadgeClass(verdict.status)}`}
+                            title={verdict.explanation.join("\n")}
+                          >
+                            {getCopyrightTerritoryLabel(verdict.territory)}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
                     {isCopyrightBlocked && book.copyrightReason && (
                       <p className="text-xs text-rose-300/90 line-clamp-2">
                         {book.copyrightReason}
@@ -510,6 +580,51 @@ export function LibraryPage({ onEnterReview }: LibraryPageProps) {
                       </button>
                     )}
 
+                    {/* Exports Toggle */}
+                    {(book.status === "ready" || book.status === "cleaned") && (
+                      <button
+                        onClick={() => setExpandedExportsFor(expandedExportsFor === book._id ? null : book._id)}
+                        className="w-full flex items-center justify-between px-4 py-2.5 bg-slate-700/30 hover:bg-slate-700/50 text-white/70 border border-white/10 rounded-lg transition-all duration-200 text-sm"
+                      >
+                        <span className="flex items-center gap-2">
+                          <Package size={14} />
+                          Exports
+                        </span>
+                        {expandedExportsFor === book._id ? (
+                          <ChevronUp size={14} />
+                        ) : (
+                          <ChevronDown size={14} />
+                        )}
+                      </button>
+                    )}
+
+                    {/* Edit Metadata */}
+                    <button
+                      onClick={() => setEditingMetadataFor(book._id)}
+                      className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-slate-700/30 hover:bg-slate-700/50 text-white/70 border border-white/10 rounded-lg transition-all duration-200 text-sm"
+                    >
+                      <PencilLine size={14} />
+                      Edit Metadata
+                    </button>
+
+                    {/* Metadata Toggle */}
+                    {book.metadataFields && (
+                      <button
+                        onClick={() => setExpandedMetadataFor(expandedMetadataFor === book._id ? null : book._id)}
+                        className="w-full flex items-center justify-between px-4 py-2.5 bg-slate-700/30 hover:bg-slate-700/50 text-white/70 border border-white/10 rounded-lg transition-all duration-200 text-sm"
+                      >
+                        <span className="flex items-center gap-2">
+                          <ListChecks size={14} />
+                          Metadata
+                        </span>
+                        {expandedMetadataFor === book._id ? (
+                          <ChevronUp size={14} />
+                        ) : (
+                          <ChevronDown size={14} />
+                        )}
+                      </button>
+                    )}
+
                     {/* Delete button */}
                     <button
                       onClick={() => setShowDeleteConfirm(book._id)}
@@ -536,6 +651,20 @@ export function LibraryPage({ onEnterReview }: LibraryPageProps) {
                       <StudyGuideList bookId={book._id} bookTitle={book.title} />
                     </div>
                   )}
+
+                  {/* Exports Section */}
+                  {expandedExportsFor === book._id && (
+                    <div className="mt-4 pt-4 border-t border-white/10">
+                      <BookExportsPanel bookId={book._id} />
+                    </div>
+                  )}
+
+                  {/* Metadata Section */}
+                  {expandedMetadataFor === book._id && (
+                    <div className="mt-4 pt-4 border-t border-white/10">
+                      <BookMetadataPanel bookId={book._id} fields={book.metadataFields} />
+                    </div>
+                  )}
                 </div>
 
                 {/* Delete Confirmation Modal */}
@@ -572,6 +701,12 @@ export function LibraryPage({ onEnterReview }: LibraryPageProps) {
         </div>
       )}
 
+      <EditionGroupsPanel />
+
+      <CollectionsPanel />
+
+      <DatasetExportPanel />
+
       {/* Discovery Candidates - moved below books */}
       <DiscoveryCandidatesPanel />
 
@@ -636,6 +771,13 @@ export function LibraryPage({ onEnterReview }: LibraryPageProps) {
           </div>
         </div>
       )}
+
+      {editingMetadataFor && (
+        <BookMetadataEditor
+          bookId={editingMetadataFor}
+          onClose={() => setEditingMetadataFor(null)}
+        />
+      )}
     </div>
   );
 }
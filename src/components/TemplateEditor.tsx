@@ -0,0 +1,639 @@
+/**
+ * TemplateEditor - Create or edit a book template with a live preview
+ *
+ * Typography, chapter opener and page settings on the left; the right
+ * side lays out a sample chapter from a ready book with the unsaved
+ * settings, using the PDF export's layout. Saving an existing template
+ * records a new version, so past exports keep the settings they used.
+ */
+
+import { useEffect, useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { History, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  FONT_FAMILY_LABELS,
+  FONT_FAMILY_STACKS,
+  PRINT_PLATFORM_LABELS,
+  SECTION_BREAK_OPTIONS,
+  TRIM_SIZE_IDS,
+  formatTrimSize,
+} from "@/lib/templateOptions";
+
+type Template = Doc<"templates"> & { version: number };
+type TemplateSettings = Doc<"templates">["settings"];
+type FontFamily = NonNullable<TemplateSettings["fontFamily"]>;
+type ChapterOpener = NonNullable<TemplateSettings["chapterOpener"]>;
+
+const DEFAULT_CHAPTER_OPENER: ChapterOpener = {
+  align: "center",
+  uppercase: false,
+  drop: 0.25,
+  spaceAfter: 2,
+};
+
+const DEFAULT_SETTINGS: TemplateSettings = {
+  fontSize: 12,
+  lineHeight: 1.5,
+  margins: { top: 0.75, bottom: 0.75, inside: 0.875, outside: 0.625 },
+  fontFamily: "serif",
+  headingFontFamily: "serif",
+  dropCaps: false,
+  sectionBreak: "asterisks",
+  chapterOpener: DEFAULT_CHAPTER_OPENER,
+  trimSize: "6x9",
+  bleed: false,
+  platform: "kdp",
+  widowOrphanLines: 2,
+};
+
+const ORNAMENT_STACK = '"Zapf Dingbats", "Segoe UI Symbol", serif';
+
+const inputClass =
+  "w-full px-3 py-2 bg-slate-800/40 border border-white/5 rounded-lg text-sm text-white placeholder:text-white/50 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all";
+
+/**
+ * Stored settings with legacy left/right margins read as inside/outside
+ * and every editable field filled in
+ */
+function editableSettings(settings: TemplateSettings): TemplateSettings {
+  const { left, right, ...margins } = settings.margins;
+  const fontFamily = settings.fontFamily ?? "serif";
+  return {
+    ...DEFAULT_SETTINGS,
+    ...settings,
+    fontFamily,
+    headingFontFamily: settings.headingFontFamily ?? fontFamily,
+    margins: {
+      ...margins,
+      inside: margins.inside ?? left ?? 0,
+      outside: margins.outside ?? right ?? 0,
+    },
+  };
+}
+
+interface TemplateEditorProps {
+  // Omitted when creating a template
+  template?: Template;
+  readyBooks: Array<{ _id: string; title: string; author: string }>;
+  sampleBookId?: string | null;
+  onClose: () => void;
+}
+
+export function TemplateEditor({
+  template,
+  readyBooks,
+  sampleBookId: initialSampleBookId,
+  onClose,
+}: TemplateEditorProps) {
+  const createTemplate = useMutation(api.templates.create);
+  const updateTemplate = useMutation(api.templates.update);
+  const renderPreview = useAction(api.templatePreview.render);
+  const versions = useQuery(
+    api.templates.listVersions,
+    template ? { templateId: template._id } : "skip",
+  );
+
+  const [name, setName] = useState(template?.name ?? "");
+  const [description, setDescription] = useState(template?.description ?? "");
+  const [settings, setSettings] = useState<TemplateSettings>(() =>
+    editableSettings(template?.settings ?? DEFAULT_SETTINGS),
+  );
+  const [sampleBookId, setSampleBookId] = useState(
+    initialSampleBookId ?? readyBooks[0]?._id ?? null,
+  );
+  const [preview, setPreview] = useState<Awaited<
+    ReturnType<typeof renderPreview>
+  > | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const opener = settings.chapterOpener ?? DEFAULT_CHAPTER_OPENER;
+  const update = (patch: Partial<TemplateSettings>) =>
+    setSettings((current) => ({ ...current, ...patch }));
+  const updateMargins = (patch: Partial<TemplateSettings["margins"]>) =>
+    setSettings((current) => ({
+      ...current,
+      margins: { ...current.margins, ...patch },
+    }));
+  const updateOpener = (patch: Partial<ChapterOpener>) =>
+    update({ chapterOpener: { ...opener, ...patch } });
+
+  // Re-render the preview once edits pause
+  useEffect(() => {
+    if (!sampleBookId) {
+      return;
+    }
+    let cancelled = false;
+    setIsRendering(true);
+    const timer = setTimeout(() => {
+      renderPreview({ bookId: sampleBookId as Id<"books">, settings })
+        .then((result) => {
+          if (!cancelled) {
+            setPreview(result);
+            setPreviewError(null);
+          }
+        })
+        .catch((error) => {
+          if (!cancelled) {
+            setPreviewError(
+              error instanceof Error ? error.message : String(error),
+            );
+          }
+        })
+        .finally(() => {
+          if (!cancelled) {
+            setIsRendering(false);
+          }
+        });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [renderPreview, sampleBookId, settings]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      if (template) {
+        const version = await updateTemplate({
+          templateId: template._id,
+          name,
+          description,
+          settings,
+        });
+        toast.success(
+          version === template.version
+            ? "No changes to save"
+            : `Saved as version ${version}`,
+        );
+      } else {
+        await createTemplate({ name, description, settings });
+        toast.success("Template created");
+      }
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const loadVersion = (version: Doc<"templateVersions">) => {
+    setName(version.name);
+    setDescription(version.description);
+    setSettings(editableSettings(version.settings));
+    toast.success(`Loaded version ${version.version}; save to restore it`);
+  };
+
+  const numberField = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    options: { step: number; min: number; max: number },
+  ) => (
+    <label className="block text-sm text-white/70">
+      {label}
+      <input
+        type="number"
+        className={`${inputClass} mt-1.5`}
+        value={Number.isFinite(value) ? value : ""}
+        onChange={(e) => onChange(Number(e.target.value))}
+        {...options}
+      />
+    </label>
+  );
+
+  const fontSelect = (
+    label: string,
+    value: FontFamily,
+    onChange: (value: FontFamily) => void,
+  ) => (
+    <label className="block text-sm text-white/70">
+      {label}
+      <select
+        className={`${inputClass} mt-1.5`}
+        value={value}
+        onChange={(e) => onChange(e.target.value as FontFamily)}
+      >
+        {Object.entries(FONT_FAMILY_LABELS).map(([id, familyLabel]) => (
+          <option key={id} value={id}>
+            {familyLabel}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-6xl auth-card p-8 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">
+              {template ? `Edit ${template.name}` : "New Template"}
+            </h3>
+            <p className="text-sm text-white/90 mt-1">
+              {template
+                ? `Version ${template.version}. Saving records a new version; past exports keep theirs.`
+                : "Start from the defaults and adjust against a real chapter"}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-xl bg-slate-800/40 hover:bg-slate-700/50 border border-white/5 flex items-center justify-center text-white/70 hover:text-white transition-all"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <label className="block text-sm text-white/70 sm:col-span-2">
+                Name
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </label>
+              <label className="block text-sm text-white/70 sm:col-span-2">
+                Description
+                <input
+                  className={`${inputClass} mt-1.5`}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </label>
+            </div>
+
+            <fieldset className="space-y-4">
+              <legend className="text-sm font-medium text-white mb-3">
+                Typography
+              </legend>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                {fontSelect(
+                  "Body font",
+                  settings.fontFamily ?? "serif",
+                  (fontFamily) => update({ fontFamily }),
+                )}
+                {fontSelect(
+                  "Heading font",
+                  settings.headingFontFamily ?? "serif",
+                  (headingFontFamily) => update({ headingFontFamily }),
+                )}
+                {numberField(
+                  "Font size (pt)",
+                  settings.fontSize,
+                  (fontSize) => update({ fontSize }),
+                  { step: 0.5, min: 6, max: 24 },
+                )}
+                {numberField(
+                  "Line height",
+                  settings.lineHeight,
+                  (lineHeight) => update({ lineHeight }),
+                  { step: 0.05, min: 1, max: 3 },
+                )}
+                <label className="block text-sm text-white/70">
+                  Section breaks
+                  <select
+                    className={`${inputClass} mt-1.5`}
+                    value={settings.sectionBreak ?? "asterisks"}
+                    onChange={(e) =>
+                      update({
+                        sectionBreak: e.target
+                          .value as TemplateSettings["sectionBreak"],
+                      })
+                    }
+                  >
+                    {SECTION_BREAK_OPTIONS.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.glyph
+                          ? `${option.label}  ${option.glyph}`
+                          : option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-white/70 sm:mt-7">
+                  <input
+                    type="checkbox"
+                    checked={settings.dropCaps ?? false}
+                    onChange={(e) => update({ dropCaps: e.target.checked })}
+                  />
+                  Drop cap on each chapter's first paragraph
+                </label>
+              </div>
+            </fieldset>
+
+            <fieldset className="space-y-4">
+              <legend className="text-sm font-medium text-white mb-3">
+                Chapter opener
+              </legend>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <label className="block text-sm text-white/70">
+                  Title alignment
+                  <select
+                    className={`${inputClass} mt-1.5`}
+                    value={opener.align}
+                    onChange={(e) =>
+                      updateOpener({
+                        align: e.target.value as ChapterOpener["align"],
+                      })
+                    }
+                  >
+                    <option value="center">Centered</option>
+                    <option value="left">Flush left</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-white/70 sm:mt-7">
+                  <input
+                    type="checkbox"
+                    checked={opener.uppercase}
+                    onChange={(e) =>
+                      updateOpener({ uppercase: e.target.checked })
+                    }
+                  />
+                  Uppercase titles
+                </label>
+                <label className="block text-sm text-white/70">
+                  Drop before title ({Math.round(opener.drop * 100)}% of page)
+                  <input
+                    type="range"
+                    className="w-full mt-3"
+                    min={0}
+                    max={0.5}
+                    step={0.05}
+                    value={opener.drop}
+                    onChange={(e) =>
+                      updateOpener({ drop: Number(e.target.value) })
+                    }
+                  />
+                </label>
+                {numberField(
+                  "Lines after title",
+                  opener.spaceAfter,
+                  (spaceAfter) => updateOpener({ spaceAfter }),
+                  { step: 1, min: 0, max: 6 },
+                )}
+              </div>
+            </fieldset>
+
+            <fieldset className="space-y-4">
+              <legend className="text-sm font-medium text-white mb-3">
+                Page
+              </legend>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <label className="block text-sm text-white/70">
+                  Trim size
+                  <select
+                    className={`${inputClass} mt-1.5`}
+                    value={settings.trimSize ?? "6x9"}
+                    onChange={(e) => update({ trimSize: e.target.value })}
+                  >
+                    {TRIM_SIZE_IDS.map((id) => (
+                      <option key={id} value={id}>
+                        {formatTrimSize(id)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-sm text-white/70">
+                  Platform
+                  <select
+                    className={`${inputClass} mt-1.5`}
+                    value={settings.platform ?? "kdp"}
+                    onChange={(e) =>
+                      update({
+                        platform: e.target
+                          .value as TemplateSettings["platform"],
+                      })
+                    }
+                  >
+                    {Object.entries(PRINT_PLATFORM_LABELS).map(
+                      ([id, label]) => (
+                        <option key={id} value={id}>
+                          {label}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                </label>
+                {(["top", "bottom", "inside", "outside"] as const).map(
+                  (side) => (
+                    <div key={side}>
+                      {numberField(
+                        `${side[0].toUpperCase()}${side.slice(1)} margin (in)`,
+                        settings.margins[side] ?? 0,
+                        (value) => updateMargins({ [side]: value }),
+                        { step: 0.0625, min: 0, max: 2 },
+                      )}
+                    </div>
+                  ),
+                )}
+                {numberField(
+                  "Widow/orphan lines",
+                  settings.widowOrphanLines ?? 2,
+                  (widowOrphanLines) => update({ widowOrphanLines }),
+                  { step: 1, min: 1, max: 4 },
+                )}
+                <label className="flex items-center gap-2 text-sm text-white/70 sm:mt-7">
+                  <input
+                    type="checkbox"
+                    checked={settings.bleed ?? false}
+                    onChange={(e) => update({ bleed: e.target.checked })}
+                  />
+                  Bleed
+                </label>
+              </div>
+            </fieldset>
+
+            {versions && versions.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-white">
+                  <History size={14} />
+                  Versions
+                </div>
+                <ul className="space-y-1.5">
+                  {versions.map((version) => (
+                    <li
+                      key={version._id}
+                      className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-slate-800/40 border border-white/5 text-sm"
+                    >
+                      <span className="text-white/80 truncate">
+                        v{version.version} · {version.name}
+                        <span className="ml-2 text-white/40">
+                          {new Date(version.createdAt).toLocaleString()}
+                        </span>
+                      </span>
+                      {version.version !== template?.version && (
+                        <button
+                          type="button"
+                          onClick={() => loadVersion(version)}
+                          className="text-xs text-indigo-300 hover:text-indigo-200"
+                        >
+                          Load
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg text-sm text-white/70 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="inline-flex items-center gap-2 rounded bg-blue-500 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-600 disabled:opacity-50"
+              >
+                {isSaving && <Loader2 size={14} className="animate-spin" />}
+                {template ? "Save New Version" : "Create Template"}
+              </button>
+            </div>
+          </form>
+
+          {/* Live preview */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <h4 className="text-sm font-medium text-white">Preview</h4>
+              {isRendering && (
+                <Loader2 size={14} className="text-slate-400 animate-spin" />
+              )}
+            </div>
+            {readyBooks.length === 0 ? (
+              <p className="text-sm text-white/50">
+                Approve a book's cleanup to preview templates with its text.
+              </p>
+            ) : (
+              <>
+                <select
+                  className={inputClass}
+                  value={sampleBookId ?? ""}
+                  onChange={(e) => setSampleBookId(e.target.value)}
+                >
+                  {readyBooks.map((book) => (
+                    <option key={book._id} value={book._id}>
+                      {book.title} — {book.author}
+                    </option>
+                  ))}
+                </select>
+                {previewError && (
+                  <p className="text-sm text-rose-300/90">{previewError}</p>
+                )}
+                {preview && preview.issues.length > 0 && (
+                  <ul className="text-sm text-yellow-200/80 list-disc pl-5 space-y-1">
+                    {preview.issues.map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+                {preview && preview.pages.length > 0 && (
+                  <>
+                    <p className="text-xs text-white/40">
+                      {preview.chapterTitle} ·{" "}
+                      {formatTrimSize(settings.trimSize)} trim
+                    </p>
+                    {/* Spreads: the opener is a recto, so it sits on the right */}
+                    <div className="grid grid-cols-2 gap-x-1 gap-y-4">
+                      <div />
+                      {preview.pages.map((page) => (
+                        <PreviewPage
+                          key={page.label}
+                          page={page}
+                          width={preview.width}
+                          height={preview.height}
+                          bodyFamily={settings.fontFamily ?? "serif"}
+                          headingFamily={settings.headingFontFamily ?? "serif"}
+                        />
+                      ))}
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One laid-out page drawn as SVG; layout coordinates start bottom-left
+ */
+function PreviewPage({
+  page,
+  width,
+  height,
+  bodyFamily,
+  headingFamily,
+}: {
+  page: {
+    label: string;
+    items: Array<{
+      text: string;
+      x: number;
+      y: number;
+      style: string;
+      size: number;
+    }>;
+  };
+  width: number;
+  height: number;
+  bodyFamily: string;
+  headingFamily: string;
+}) {
+  return (
+    <figure className="space-y-1">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full bg-white shadow-lg"
+        role="img"
+        aria-label={`Page ${page.label}`}
+      >
+        {page.items.map((item, index) => (
+          <text
+            key={index}
+            x={item.x}
+            y={height - item.y}
+            fontSize={item.size}
+            fontFamily={
+              item.style === "heading"
+                ? FONT_FAMILY_STACKS[headingFamily]
+                : item.style === "ornament"
+                  ? ORNAMENT_STACK
+                  : FONT_FAMILY_STACKS[bodyFamily]
+            }
+            fontStyle={item.style === "italic" ? "italic" : undefined}
+            fontWeight={
+              item.style === "bold" || item.style === "heading"
+                ? "bold"
+                : undefined
+            }
+            fill="#111"
+          >
+            {item.text}
+          </text>
+        ))}
+      </svg>
+      <figcaption className="text-center text-[10px] text-white/40">
+        {page.label}
+      </figcaption>
+    </figure>
+  );
+}
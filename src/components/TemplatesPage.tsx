@@ -4,14 +4,29 @@
  * Per CONTEXT.md requirements:
  * - Approval unlocks downstream template/export actions for that specific book
  * - Unapproved titles stay blocked with clear messaging
+ * - Approved titles without copyright clearance stay blocked with the reason
  * 
  * This page shows which books are ready for template application and
  * provides clear guidance for unlocking blocked titles.
  */
 
-import { useQuery } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
 import { useState } from "react";
+import { toast } from "sonner";
+import { CopyrightStatusBadge } from "./CopyrightStatusBadge";
+import { TemplateEditor } from "./TemplateEditor";
+import { CoverExportDialog } from "./CoverExportDialog";
+import { TextExportDialog } from "./TextExportDialog";
+import { getJobStageLabel } from "@/lib/jobStatus";
+import { getExportFormatLabel } from "@/lib/exportFormats";
+import {
+  FONT_FAMILY_LABELS,
+  FONT_FAMILY_STACKS,
+  PRINT_PLATFORM_LABELS,
+  formatTrimSize,
+} from "@/lib/templateOptions";
 
 import {
   FileText,
@@ -25,6 +40,13 @@ import {
   BookOpen,
   ChevronDown,
   ChevronUp,
+  ShieldAlert,
+  Download,
+  Loader2,
+  Plus,
+  Pencil,
+  Trash2,
+  BookImage,
 } from "lucide-react";
 
 /**
@@ -42,10 +64,66 @@ interface BookReadiness {
 export function TemplatesPage() {
   const templates = useQuery(api.templates.list);
   const readyBooks = useQuery(api.books.listReadyBooks, {});
+  const heldBooks = useQuery(api.books.listCopyrightHeldBooks, {});
   const [selectedBookId, setSelectedBookId] = useState<string | null>(null);
   const [showBlockedBooks, setShowBlockedBooks] = useState(false);
+  const [exporting, setExporting] = useState<{
+    templateId: string;
+    format: "pdf" | "epub";
+  } | null>(null);
+  // undefined template: creating a new one
+  const [editor, setEditor] = useState<{
+    template?: NonNullable<typeof templates>[number];
+  } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const removeTemplate = useMutation(api.templates.remove);
+  const startPdfExport = useMutation(api.pdfExport.start);
+  const startEpubExport = useMutation(api.epubExport.start);
+
+  const handleExport = async (
+    templateId: Id<"templates">,
+    format: "pdf" | "epub",
+  ) => {
+    if (!selectedBookId) {
+      return;
+    }
+    setExporting({ templateId, format });
+    try {
+      const args = { bookId: selectedBookId as Id<"books">, templateId };
+      if (format === "pdf") {
+        await startPdfExport(args);
+      } else {
+        await startEpubExport(args);
+      }
+      toast.success(`${format.toUpperCase()} export queued`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setExporting(null);
+    }
+  };
 
-  if (templates === undefined || readyBooks === undefined) {
+  const handleDelete = async (templateId: Id<"templates">) => {
+    if (confirmDeleteId !== templateId) {
+      setConfirmDeleteId(templateId);
+      return;
+    }
+    setConfirmDeleteId(null);
+    try {
+      await removeTemplate({ templateId });
+      toast.success("Template deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    }
+  };
+
+  if (
+    templates === undefined ||
+    readyBooks === undefined ||
+    heldBooks === undefined
+  ) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="w-10 h-10 rounded-xl border-2 border-indigo-500/30 border-t-indigo-400 animate-spin" />
@@ -64,8 +142,8 @@ export function TemplatesPage() {
         </h3>
         <p className="text-white/40">
           Select a template to apply to your approved books for PDF generation.
-          Books must have approved cleanup to unlock template and export
-          actions.
+          Books must have approved cleanup and cleared copyright to unlock
+          template and export actions.
         </p>
       </div>
 
@@ -87,8 +165,8 @@ export function TemplatesPage() {
                   {readyBooks.length !== 1 ? "s" : ""} ready for export
                 </p>
                 <p className="text-sm text-green-200/70">
-                  These titles have approved cleanup and can proceed to template
-                  selection and PDF export.
+                  These titles have approved cleanup and cleared copyright and
+                  can proceed to template selection and PDF export.
                 </p>
               </div>
             </>
@@ -100,9 +178,10 @@ export function TemplatesPage() {
                   No books ready for export
                 </p>
                 <p className="text-sm text-yellow-200/70">
-                  Books must complete cleanup and receive editorial approval
-                  before template/export actions are unlocked. Run cleanup from
-                  the Library and approve the results in the review page.
+                  Books must complete cleanup, receive editorial approval and
+                  clear copyright before template/export actions are unlocked.
+                  Run cleanup from the Library and approve the results in the
+                  review page.
                 </p>
               </div>
             </>
@@ -110,6 +189,46 @@ export function TemplatesPage() {
         </div>
       </div>
 
+      {/* Approved Books Held by Copyright */}
+      {heldBooks.length > 0 && (
+        <div className="p-4 rounded-xl border bg-rose-500/10 border-rose-500/30 space-y-3">
+          <div className="flex items-center gap-3">
+            <ShieldAlert size={24} className="text-rose-400" />
+            <div className="flex-1">
+              <p className="font-medium text-rose-300">
+                {heldBooks.length} approved book
+                {heldBooks.length !== 1 ? "s" : ""} held by copyright
+              </p>
+              <p className="text-sm text-rose-200/70">
+                Resolve these on the Copyright page. A manual override unlocks
+                export only when it records a reviewer and a reason.
+              </p>
+            </div>
+          </div>
+          <ul className="space-y-2">
+            {heldBooks.map((book) => (
+              <li
+                key={book._id}
+                className="flex items-start justify-between gap-3 p-3 rounded-lg bg-slate-900/40 border border-white/5"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-white truncate">
+                    {book.title}
+                  </p>
+                  <p className="text-sm text-slate-400 truncate">
+                    {book.author}
+                  </p>
+                  <p className="text-sm text-rose-200/80 mt-1">
+                    {book.reason}
+                  </p>
+                </div>
+                <CopyrightStatusBadge status={book.copyrightStatus} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Ready Books Selection */}
       {hasReadyBooks && (
         <div className="space-y-3">
@@ -160,12 +279,21 @@ export function TemplatesPage() {
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <h4 className="text-lg font-medium text-white">Available Templates</h4>
-          {!hasReadyBooks && (
-            <span className="text-sm text-yellow-400 flex items-center gap-2">
-              <Lock size={14} />
-              Templates locked until approval
-            </span>
-          )}
+          <div className="flex items-center gap-4">
+            {!hasReadyBooks && (
+              <span className="text-sm text-yellow-400 flex items-center gap-2">
+                <Lock size={14} />
+                Templates locked until approval
+              </span>
+            )}
+            <button
+              onClick={() => setEditor({})}
+              className="inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600"
+            >
+              <Plus size={12} />
+              New Template
+            </button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -192,8 +320,14 @@ export function TemplatesPage() {
                   >
                     <div className="text-center px-6">
                       <div
-                        className="text-white/90 font-serif mb-3 leading-tight"
+                        className="text-white/90 mb-3 leading-tight"
                         style={{
+                          fontFamily:
+                            FONT_FAMILY_STACKS[
+                              template.settings.headingFontFamily ??
+                                template.settings.fontFamily ??
+                                "serif"
+                            ],
                           fontSize: `${template.settings.fontSize * 1.8}px`,
                           lineHeight: template.settings.lineHeight,
                         }}
@@ -213,12 +347,40 @@ export function TemplatesPage() {
                     <div className="flex items-center justify-between">
                       <h4 className="font-semibold text-white text-lg">
                         {template.name}
-                      </h4>
-                      {index === 0 && (
-                        <span className="px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider rounded-full bg-indigo-500/20 text-indigo-300 border border-indigo-500/30">
-                          Default
+                        <span className="ml-2 text-xs font-normal text-white/40">
+                          v{template.version}
                         </span>
-                      )}
+                      </h4>
+                      <div className="flex items-center gap-1">
+                        {index === 0 && (
+                          <span className="px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider rounded-full bg-indigo-500/20 text-indigo-300 border border-indigo-500/30">
+                            Default
+                          </span>
+                        )}
+                        <button
+                          onClick={() => setEditor({ template })}
+                          title="Edit template"
+                          className="p-1.5 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          onClick={() => void handleDelete(template._id)}
+                          onBlur={() => setConfirmDeleteId(null)}
+                          title={
+                            confirmDeleteId === template._id
+                              ? "Click again to delete"
+                              : "Delete template"
+                          }
+                          className={`p-1.5 rounded-lg transition-colors ${
+                            confirmDeleteId === template._id
+                              ? "text-rose-300 bg-rose-500/20"
+                              : "text-white/40 hover:text-white hover:bg-white/10"
+                          }`}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
                     </div>
                     <p className="text-sm text-white/50 leading-relaxed line-clamp-2 min-h-[2.5rem]">
                       {template.description}
@@ -237,9 +399,20 @@ export function TemplatesPage() {
                     </div>
                     <div className="flex items-center gap-1.5">
                       <Ruler size={12} />
-                      <span>{template.settings.margins.top}" margins</span>
+                      <span>{formatTrimSize(template.settings.trimSize)} trim</span>
                     </div>
                   </div>
+                  <p className="text-xs text-white/40">
+                    {PRINT_PLATFORM_LABELS[template.settings.platform ?? "kdp"]}
+                    {" · "}
+                    {FONT_FAMILY_LABELS[template.settings.fontFamily ?? "serif"]}
+                    {" · "}
+                    {template.settings.bleed ? "Bleed" : "No bleed"}
+                    {" · "}
+                    {template.settings.margins.inside ??
+                      template.settings.margins.left}
+                    " min. gutter
+                  </p>
 
                   {/* Select Button */}
                   <div className="flex-1"></div>
@@ -254,9 +427,22 @@ export function TemplatesPage() {
                         : "Select a book to continue"}
                     </button>
                   ) : (
-                    <button className="w-full py-3 px-4 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 font-medium rounded-xl transition-all duration-200 border border-indigo-500/30 hover:border-indigo-500/50">
-                      Use Template
-                    </button>
+                    <div className="flex gap-2">
+                      {(["pdf", "epub"] as const).map((format) => (
+                        <button
+                          key={format}
+                          onClick={() => void handleExport(template._id, format)}
+                          disabled={exporting !== null}
+                          className="flex-1 py-3 px-4 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 font-medium rounded-xl transition-all duration-200 border border-indigo-500/30 hover:border-indigo-500/50 disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                          {exporting?.templateId === template._id &&
+                            exporting.format === format && (
+                              <Loader2 size={16} className="animate-spin" />
+                            )}
+                          Export {format.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
                   )}
                 </div>
               </div>
@@ -265,6 +451,20 @@ export function TemplatesPage() {
         </div>
       </div>
 
+      {editor && (
+        <TemplateEditor
+          template={editor.template}
+          readyBooks={readyBooks}
+          sampleBookId={selectedBookId}
+          onClose={() => setEditor(null)}
+        />
+      )}
+
+      {/* Exports for the selected book */}
+      {selectedBookId && (
+        <BookExports bookId={selectedBookId as Id<"books">} />
+      )}
+
       {/* Blocked Books Section (collapsible) */}
       <div className="border-t border-white/5 pt-6">
         <button
@@ -319,6 +519,20 @@ export function TemplatesPage() {
               </div>
             </div>
 
+            <div className="flex gap-3">
+              <div className="w-8 h-8 rounded-lg bg-green-500/20 flex items-center justify-center shrink-0">
+                <span className="text-sm font-medium text-green-400">4</span>
+              </div>
+              <div>
+                <p className="font-medium text-white">Clear Copyright</p>
+                <p className="text-sm text-slate-400">
+                  The copyright check must clear the book in every sales
+                  territory. Flagged or blocked titles can be cleared manually
+                  on the Copyright page with a recorded reason.
+                </p>
+              </div>
+            </div>
+
             <div className="flex gap-3 p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/20">
               <AlertCircle size={18} className="text-yellow-400 shrink-0 mt-0.5" />
               <p className="text-sm text-yellow-200/80">
@@ -334,3 +548,103 @@ export function TemplatesPage() {
     </div>
   );
 }
+
+/**
+ * PDF, EPUB, cover and clean text exports for one book, with download
+ * links once built. Finished PDF interiors can be wrapped in a print
+ * cover.
+ */
+function BookExports({ bookId }: { bookId: Id<"books"> }) {
+  const exports = useQuery(api.exportJobs.listForBook, { bookId });
+  const [coverInteriorId, setCoverInteriorId] = useState<Id<"jobs"> | null>(
+    null,
+  );
+  const [showTextExport, setShowTextExport] = useState(false);
+
+  if (!exports) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h4 className="text-lg font-medium text-white">Exports</h4>
+        <button
+          onClick={() => setShowTextExport(true)}
+          className="inline-flex items-center gap-2 rounded bg-slate-700/60 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-slate-600/60"
+        >
+          <FileText size={12} />
+          Export Clean Text
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {exports.map((entry) => (
+          <li
+            key={entry._id}
+            className="flex items-center justify-between gap-3 p-3 rounded-lg bg-slate-800/40 border border-white/5"
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-white truncate">
+                {entry.templateName
+                  ? `${entry.templateName} v${entry.templateVersion ?? 1}`
+                  : "Clean text"}
+                <span className="ml-2 text-xs font-normal uppercase text-slate-400">
+                  {entry.format}
+                </span>
+              </p>
+              <p
+                className={`text-sm truncate ${
+                  entry.status === "failed" ? "text-rose-300/90" : "text-slate-400"
+                }`}
+              >
+                {entry.status === "completed"
+                  ? entry.logs
+                  : entry.status === "failed"
+                    ? entry.error
+                    : `${getJobStageLabel(entry.stage)} (${entry.progress}%)`}
+              </p>
+            </div>
+            {entry.downloadUrl ? (
+              <div className="flex shrink-0 items-center gap-2">
+                {entry.format === "pdf" && entry.pageCount !== undefined && (
+                  <button
+                    onClick={() => setCoverInteriorId(entry._id)}
+                    className="inline-flex items-center gap-2 rounded bg-slate-700/60 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-slate-600/60"
+                  >
+                    <BookImage size={12} />
+                    Cover
+                  </button>
+                )}
+                <a
+                  href={entry.downloadUrl}
+                  download={entry.filename}
+                  className="inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600"
+                >
+                  <Download size={12} />
+                  Download {getExportFormatLabel(entry.format)}
+                </a>
+              </div>
+            ) : (
+              entry.status !== "failed" && (
+                <Loader2 size={16} className="text-slate-400 animate-spin" />
+              )
+            )}
+          </li>
+        ))}
+      </ul>
+      {showTextExport && (
+        <TextExportDialog
+          bookId={bookId}
+          onClose={() => setShowTextExport(false)}
+        />
+      )}
+      {coverInteriorId && (
+        <CoverExportDialog
+          bookId={bookId}
+          interiorJobId={coverInteriorId}
+          onClose={() => setCoverInteriorId(null)}
+        />
+      )}
+    </div>
+  );
+}
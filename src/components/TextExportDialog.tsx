@@ -0,0 +1,159 @@
+/**
+ * TextExportDialog - Export the approved text as plain text or Markdown
+ *
+ * Project Gutenberg's licence only allows its trademark alongside the full
+ * licence, so the references are either stripped or kept with the licence
+ * from the book's original file.
+ */
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+
+type TextFormat = "txt" | "markdown";
+type QuoteStyle = "smart" | "ascii";
+type GutenbergReferences = "strip" | "keep";
+
+const inputClass =
+  "w-full px-3 py-2 bg-slate-800/40 border border-white/5 rounded-lg text-sm text-white placeholder:text-white/50 focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30 transition-all";
+
+export function TextExportDialog({
+  bookId,
+  onClose,
+}: {
+  bookId: Id<"books">;
+  onClose: () => void;
+}) {
+  const [format, setFormat] = useState<TextFormat>("txt");
+  const [wrap, setWrap] = useState(false);
+  const [wrapWidth, setWrapWidth] = useState(72);
+  const [quotes, setQuotes] = useState<QuoteStyle>("smart");
+  const [gutenbergReferences, setGutenbergReferences] =
+    useState<GutenbergReferences>("strip");
+  const [isExporting, setIsExporting] = useState(false);
+  const startTextExport = useMutation(api.cleanTextExport.start);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsExporting(true);
+    try {
+      await startTextExport({
+        bookId,
+        format,
+        options: {
+          wrapWidth: wrap ? wrapWidth : undefined,
+          quotes,
+          gutenbergReferences,
+        },
+      });
+      toast.success(
+        `${format === "markdown" ? "Markdown" : "Text"} export queued`,
+      );
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+      console.error(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="w-full max-w-xl auth-card p-8 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-white">Clean Text</h3>
+            <p className="text-sm text-white/90 mt-1">
+              The approved revision as UTF-8 text, one heading per chapter
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-xl bg-slate-800/40 hover:bg-slate-700/50 border border-white/5 flex items-center justify-center text-white/70 hover:text-white transition-all"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleExport} className="space-y-5">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <label className="block text-sm text-white/70">
+              Format
+              <select
+                className={`${inputClass} mt-1.5`}
+                value={format}
+                onChange={(e) => setFormat(e.target.value as TextFormat)}
+              >
+                <option value="txt">Plain text (.txt)</option>
+                <option value="markdown">Markdown (.md)</option>
+              </select>
+            </label>
+            <label className="block text-sm text-white/70">
+              Quotes
+              <select
+                className={`${inputClass} mt-1.5`}
+                value={quotes}
+                onChange={(e) => setQuotes(e.target.value as QuoteStyle)}
+              >
+                <option value="smart">Smart (“curly”)</option>
+                <option value="ascii">ASCII ("straight")</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <label className="flex items-center gap-2 text-sm text-white/70 sm:pt-7">
+              <input
+                type="checkbox"
+                checked={wrap}
+                onChange={(e) => setWrap(e.target.checked)}
+              />
+              Wrap lines
+            </label>
+            <label className="block text-sm text-white/70">
+              Line width
+              <input
+                type="number"
+                min={40}
+                max={120}
+                disabled={!wrap}
+                className={`${inputClass} mt-1.5 disabled:opacity-50`}
+                value={wrapWidth}
+                onChange={(e) => setWrapWidth(Number(e.target.value))}
+              />
+            </label>
+          </div>
+
+          <label className="block text-sm text-white/70">
+            Project Gutenberg references
+            <select
+              className={`${inputClass} mt-1.5`}
+              value={gutenbergReferences}
+              onChange={(e) =>
+                setGutenbergReferences(e.target.value as GutenbergReferences)
+              }
+            >
+              <option value="strip">Strip every reference</option>
+              <option value="keep">Keep them with the full PG licence</option>
+            </select>
+          </label>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isExporting}
+              className="inline-flex items-center gap-2 rounded bg-blue-500 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isExporting && <Loader2 size={12} className="animate-spin" />}
+              Export Text
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
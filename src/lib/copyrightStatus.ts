@@ -17,6 +17,16 @@ export const getCopyrightStatusLabel = (status?: string) => {
   return COPYRIGHT_STATUS_LABELS[status as CopyrightStatus] ?? "Unknown";
 };
 
+export const COPYRIGHT_TERRITORY_LABELS: Record<string, string> = {
+  US: "US",
+  UK: "UK",
+  EU: "EU",
+  ROW: "Other",
+};
+
+export const getCopyrightTerritoryLabel = (territory: string) =>
+  COPYRIGHT_TERRITORY_LABELS[territory] ?? territory;
+
 export const getCopyrightStatusBadgeClass = (status?: string) => {
   switch (status) {
     case "cleared":
@@ -0,0 +1,25 @@
+/**
+ * Export format labels and file details for the export lists, Library
+ * exports and job drawer
+ */
+
+export const EXPORT_FORMAT_LABELS: Record<string, string> = {
+  pdf: "PDF",
+  epub: "EPUB",
+  cover: "Cover",
+  txt: "Text",
+  markdown: "Markdown",
+};
+
+export const getExportFormatLabel = (format: string) =>
+  EXPORT_FORMAT_LABELS[format] ?? format.toUpperCase();
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -10,6 +10,15 @@ export const JOB_STAGE_LABELS: Record<string, string> = {
   loading_file: "Loading file",
   parsing_metadata: "Parsing metadata",
   persisting_metadata: "Saving metadata",
+  loading_content: "Loading approved text",
+  rendering_pdf: "Rendering PDF",
+  rendering_cover: "Rendering cover",
+  building_epub: "Building EPUB",
+  validating_epub: "Validating EPUB",
+  building_text: "Building text",
+  selecting_books: "Selecting books",
+  building_dataset: "Building dataset",
+  storing_output: "Storing output",
   completed: "Completed",
   failed: "Failed",
 };
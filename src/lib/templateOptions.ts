@@ -0,0 +1,56 @@
+/**
+ * Template setting labels and choices for the template cards, editor and
+ * cover export
+ */
+
+export const PRINT_PLATFORM_LABELS: Record<string, string> = {
+  kdp: "Amazon KDP",
+  ingramspark: "IngramSpark",
+};
+
+export const FONT_FAMILY_LABELS: Record<string, string> = {
+  serif: "Serif",
+  sans: "Sans-serif",
+  mono: "Monospace",
+};
+
+// CSS stacks close to the PDF's standard faces, for previews
+export const FONT_FAMILY_STACKS: Record<string, string> = {
+  serif: '"Times New Roman", Times, serif',
+  sans: "Helvetica, Arial, sans-serif",
+  mono: '"Courier New", Courier, monospace',
+};
+
+export const TRIM_SIZE_IDS = [
+  "5x8",
+  "5.06x7.81",
+  "5.25x8",
+  "5.5x8.5",
+  "6x9",
+  "6.14x9.21",
+  "7x10",
+  "8.5x11",
+] as const;
+
+export const SECTION_BREAK_OPTIONS = [
+  { id: "asterisks", label: "Asterisks", glyph: "* * *" },
+  { id: "fleuron", label: "Fleuron", glyph: "❦" },
+  { id: "hedera", label: "Hedera", glyph: "❧" },
+  { id: "diamond", label: "Diamond", glyph: "❖" },
+  { id: "space", label: "Blank line", glyph: "" },
+] as const;
+
+export const COVER_DESIGN_OPTIONS = [
+  { id: "classic", label: "Classic" },
+  { id: "photo", label: "Full-bleed photo" },
+  { id: "minimal", label: "Minimal" },
+] as const;
+
+export const PAPER_TYPE_OPTIONS = [
+  { id: "white", label: "White" },
+  { id: "cream", label: "Cream" },
+  { id: "color", label: "Premium color" },
+] as const;
+
+export const formatTrimSize = (trimSize?: string) =>
+  `${(trimSize ?? "6x9").replace("x", '" x ')}"`;